@@ -11,6 +11,7 @@ import landlordRoutes from './routes/landlordRoutes.js'
 import tenantRoutes from './routes/tenantRoutes.js'
 import adminRoutes from './routes/adminRoutes.js'
 import chatbotRoutes from './routes/chatbotRoutes.js'
+import paymentRoutes from './routes/paymentRoutes.js'
 import { globalLimiter } from "./middlewares/requestRateLimiter.js";
 import cookieParser from "cookie-parser";
 
@@ -28,7 +29,10 @@ app.use(cors({
 }));
 
 app.use(express.urlencoded({ extended: true }));
-app.use(express.json({ limit: '10mb' })); // Parse incoming JSON requests automatically with size limit
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => { req.rawBody = buf; } // keep the raw bytes for payment webhook signatures
+})); // Parse incoming JSON requests automatically with size limit
 app.use(morgan("dev")); // HTTP request logger (dev = concise colorful logs)
 app.use(globalLimiter); //Apply global limiter to all routes
 app.use(cookieParser()); // Parse cookies
@@ -44,6 +48,7 @@ app.use("/api/landlord/", landlordRoutes); // Landlord routes
 app.use("/api/tenant/", tenantRoutes); // Tenant routes
 app.use("/api/admin/", adminRoutes); // Admin routes
 app.use("/api/chatbot", chatbotRoutes); // Chatbot routes
+app.use("/api/payments", paymentRoutes); // Payment intents & provider webhooks
 
 
 // Default route (health check / welcome route)
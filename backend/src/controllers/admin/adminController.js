@@ -1,5 +1,7 @@
 // file: adminController.js
 import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { disconnectUser } from "../../services/realtimeService.js";
 
 // ---------------------------------------------- GET ADMIN DASHBOARD STATS ----------------------------------------------
 export const getAdminDashboardStats = async (req, res) => {
@@ -422,6 +424,11 @@ export const toggleUserStatus = async (req, res) => {
       }
     });
 
+    // A disabled account stops receiving live updates right away
+    if (updatedUser.isDisabled) {
+      disconnectUser(updatedUser.id);
+    }
+
     res.json({
       message: `User ${updatedUser.isDisabled ? 'disabled' : 'enabled'} successfully`,
       user: {
@@ -677,6 +684,8 @@ export const getPropertyRequests = async (req, res) => {
       status: listing.status,
       amount: listing.amount,
       paymentStatus: listing.paymentStatus,
+      paidAt: listing.paidAt,
+      receiptNumber: listing.receiptNumber,
       attemptCount: listing.attemptCount,
       riskLevel: listing.riskLevel,
       fraudRiskScore: listing.fraudRiskScore,
@@ -778,6 +787,10 @@ export const updatePropertyRequestStatus = async (req, res) => {
       return res.status(400).json({ message: "Only pending listings can be updated" });
     }
 
+    if (status === 'APPROVED' && listing.paymentStatus !== 'PAID') {
+      return res.status(400).json({ message: "Listing fee has not been paid; the listing cannot be approved" });
+    }
+
     // Prepare update data
     const updateData = {
       status,
@@ -840,14 +853,7 @@ export const updatePropertyRequestStatus = async (req, res) => {
       ? `Your listing request for ${listing.unit.property.title} - ${listing.unit.label} has been rejected. ${adminNotes ? 'Reason: ' + adminNotes : ''}`
       : `Your listing request for ${listing.unit.property.title} - ${listing.unit.label} has been blocked.`;
 
-    await prisma.notification.create({
-      data: {
-        userId: listing.landlordId,
-        type: 'LISTING',
-        message: notificationMessage,
-        status: 'UNREAD'
-      }
-    });
+    await createNotification(listing.landlordId, 'LISTING', notificationMessage);
 
     res.json({
       message: `Listing ${status.toLowerCase()} successfully`,
@@ -923,14 +929,7 @@ export const deletePropertyRequest = async (req, res) => {
     // Create notification for landlord
     const notificationMessage = `Your listing request for ${listing.unit.property.title} - ${listing.unit.label} has been deleted by admin.`;
 
-    await prisma.notification.create({
-      data: {
-        userId: listing.landlordId,
-        type: 'LISTING',
-        message: notificationMessage,
-        status: 'UNREAD'
-      }
-    });
+    await createNotification(listing.landlordId, 'LISTING', notificationMessage);
 
     res.json({
       message: "Property request deleted successfully",
@@ -1854,12 +1853,11 @@ export const getCommissionRevenueDetails = async (req, res) => {
         startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
     }
 
-    // Get active listings with detailed information
-    const activeListings = await prisma.listing.findMany({
+    // Listing fees actually collected in the period (refunded fees are excluded)
+    const paidListings = await prisma.listing.findMany({
       where: {
-        status: "ACTIVE",
-        createdAt: { gte: startDate },
-        expiresAt: { gt: now }
+        paymentStatus: "PAID",
+        paidAt: { gte: startDate, lte: now }
       },
       include: {
         unit: {
@@ -1879,13 +1877,13 @@ export const getCommissionRevenueDetails = async (req, res) => {
           }
         }
       },
-      orderBy: { createdAt: "desc" }
+      orderBy: { paidAt: "desc" }
     });
 
-    // Calculate commission details for each listing
-    const commissionDetails = activeListings.map(listing => {
+    // Commission details for each paid listing fee
+    const commissionDetails = paidListings.map(listing => {
       const monthlyRent = listing.unit.targetPrice;
-      const commission = monthlyRent * 0.03; // 3% commission
+      const commission = listing.amount || 0;
       
       return {
         listingId: listing.id,
@@ -1893,7 +1891,11 @@ export const getCommissionRevenueDetails = async (req, res) => {
         unitLabel: listing.unit.label,
         monthlyRent: monthlyRent,
         commission: commission,
-        commissionPercentage: 3,
+        commissionPercentage: monthlyRent > 0 ? Math.round((commission / monthlyRent) * 10000) / 100 : 0,
+        listingStatus: listing.status,
+        receiptNumber: listing.receiptNumber,
+        providerTxnId: listing.providerTxnId,
+        paidAt: listing.paidAt,
         property: {
           id: listing.unit.property.id,
           title: listing.unit.property.title,
@@ -1912,15 +1914,17 @@ export const getCommissionRevenueDetails = async (req, res) => {
     // Calculate totals
     const totalCommission = commissionDetails.reduce((sum, detail) => sum + detail.commission, 0);
     const totalMonthlyRent = commissionDetails.reduce((sum, detail) => sum + detail.monthlyRent, 0);
+    const totalActiveListings = paidListings.filter(listing => listing.status === "ACTIVE").length;
 
     res.json({
       period,
       dateRange: { start: startDate, end: now },
       summary: {
-        totalActiveListings: activeListings.length,
+        totalPaidListings: paidListings.length,
+        totalActiveListings: totalActiveListings,
         totalMonthlyRent: totalMonthlyRent,
         totalCommission: totalCommission,
-        averageCommission: activeListings.length > 0 ? totalCommission / activeListings.length : 0,
+        averageCommission: paidListings.length > 0 ? totalCommission / paidListings.length : 0,
         commissionRate: 3
       },
       commissionDetails
@@ -0,0 +1,98 @@
+// file: jobController.js
+import prisma from "../../libs/prismaClient.js";
+import { getJobDefinitions, getScheduledJob, isJobRunning, runJob } from "../../services/jobs/jobRunner.js";
+
+// ---------------------------------------------- GET SCHEDULED JOBS ----------------------------------------------
+export const getScheduledJobs = async (req, res) => {
+  try {
+    const jobs = getJobDefinitions();
+
+    // Latest run of each job
+    const lastRuns = await Promise.all(
+      jobs.map((job) =>
+        prisma.jobRun.findFirst({
+          where: { jobName: job.name },
+          orderBy: { startedAt: "desc" }
+        })
+      )
+    );
+
+    res.json({
+      jobs: jobs.map((job, index) => ({
+        ...job,
+        lastRun: lastRuns[index]
+      })),
+      schedulerEnabled: process.env.JOBS_ENABLED !== "false"
+    });
+  } catch (error) {
+    console.error("Error fetching scheduled jobs:", error);
+    res.status(500).json({ message: "Failed to fetch scheduled jobs" });
+  }
+};
+
+// ---------------------------------------------- GET JOB RUNS ----------------------------------------------
+export const getJobRuns = async (req, res) => {
+  try {
+    const { jobName, status, page = 1, limit = 20 } = req.query;
+
+    const where = {};
+    if (jobName && jobName !== "all") where.jobName = jobName;
+    if (status && status !== "all") where.status = status;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const [runs, totalCount] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: "desc" },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.jobRun.count({ where })
+    ]);
+
+    const totalPages = Math.ceil(totalCount / parseInt(limit));
+
+    res.json({
+      runs,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalCount,
+        hasNext: parseInt(page) < totalPages,
+        hasPrev: parseInt(page) > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching job runs:", error);
+    res.status(500).json({ message: "Failed to fetch job runs" });
+  }
+};
+
+// ---------------------------------------------- RUN JOB NOW ----------------------------------------------
+export const triggerJobRun = async (req, res) => {
+  try {
+    const { jobName } = req.params;
+
+    if (!getScheduledJob(jobName)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    if (isJobRunning(jobName)) {
+      return res.status(409).json({ message: "Job is already running" });
+    }
+
+    const run = await runJob(jobName, "MANUAL");
+    if (!run) {
+      return res.status(409).json({ message: "Job is already running" });
+    }
+
+    res.json({
+      message: run.status === "SUCCEEDED" ? "Job completed successfully" : "Job failed",
+      run
+    });
+  } catch (error) {
+    console.error("Error running job:", error);
+    res.status(500).json({ message: "Failed to run job" });
+  }
+};
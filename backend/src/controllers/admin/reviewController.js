@@ -0,0 +1,156 @@
+// file: reviewController.js
+import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { REVIEW_STATUSES, reviewerName } from "../../services/unitReviewService.js";
+
+const MODERATION_ACTIONS = ["PUBLISHED", "REJECTED"];
+
+// ---------------------------------------------- GET REVIEWS (MODERATION QUEUE) ----------------------------------------------
+export const getReviewsForModeration = async (req, res) => {
+  try {
+    const { status = "PENDING", page = 1, limit = 20 } = req.query;
+
+    const where = {};
+    if (status !== "all") {
+      if (!REVIEW_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${REVIEW_STATUSES.join(", ")}` });
+      }
+      where.status = status;
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const [reviews, totalCount, statusCounts] = await Promise.all([
+      prisma.unitReview.findMany({
+        where,
+        include: {
+          tenant: { select: { id: true, firstName: true, lastName: true, email: true } },
+          unit: {
+            select: {
+              id: true,
+              label: true,
+              property: {
+                select: {
+                  id: true,
+                  title: true,
+                  owner: { select: { id: true, firstName: true, lastName: true, email: true } }
+                }
+              }
+            }
+          },
+          lease: { select: { id: true, leaseNickname: true, status: true } }
+        },
+        // Oldest first while working the queue, newest first when browsing history
+        orderBy: { updatedAt: status === "PENDING" ? "asc" : "desc" },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.unitReview.count({ where }),
+      prisma.unitReview.groupBy({ by: ["status"], _count: { _all: true } })
+    ]);
+
+    const totalPages = Math.ceil(totalCount / parseInt(limit));
+
+    res.json({
+      reviews: reviews.map(review => ({
+        id: review.id,
+        rating: review.rating,
+        comment: review.comment,
+        status: review.status,
+        moderationNote: review.moderationNote,
+        moderatedAt: review.moderatedAt,
+        landlordReply: review.landlordReply,
+        createdAt: review.createdAt,
+        updatedAt: review.updatedAt,
+        tenant: { id: review.tenant.id, name: reviewerName(review.tenant), email: review.tenant.email },
+        landlord: {
+          id: review.unit.property.owner.id,
+          name: reviewerName(review.unit.property.owner),
+          email: review.unit.property.owner.email
+        },
+        unit: { id: review.unit.id, label: review.unit.label },
+        property: { id: review.unit.property.id, title: review.unit.property.title },
+        lease: review.lease
+      })),
+      counts: Object.fromEntries(
+        REVIEW_STATUSES.map(reviewStatus => [
+          reviewStatus,
+          statusCounts.find(group => group.status === reviewStatus)?._count._all ?? 0
+        ])
+      ),
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalCount,
+        hasNext: parseInt(page) < totalPages,
+        hasPrev: parseInt(page) > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching reviews for moderation:", error);
+    res.status(500).json({ message: "Failed to fetch reviews" });
+  }
+};
+
+// ---------------------------------------------- MODERATE REVIEW ----------------------------------------------
+// Approve (PUBLISHED) or reject (REJECTED, with a note for the tenant)
+export const moderateReview = async (req, res) => {
+  try {
+    const adminId = req.user?.id;
+    const { reviewId } = req.params;
+    const { status, note } = req.body;
+
+    if (!MODERATION_ACTIONS.includes(status)) {
+      return res.status(400).json({ message: `Status must be one of: ${MODERATION_ACTIONS.join(", ")}` });
+    }
+
+    const moderationNote = typeof note === "string" ? note.trim() : "";
+    if (status === "REJECTED" && !moderationNote) {
+      return res.status(400).json({ message: "A reason is required when rejecting a review" });
+    }
+
+    const review = await prisma.unitReview.findUnique({
+      where: { id: reviewId },
+      include: { unit: { select: { label: true, property: { select: { title: true, ownerId: true } } } } }
+    });
+
+    if (!review) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+
+    if (review.status === status) {
+      return res.status(400).json({ message: `Review is already ${status.toLowerCase()}` });
+    }
+
+    const updated = await prisma.unitReview.update({
+      where: { id: review.id },
+      data: {
+        status,
+        moderatedAt: new Date(),
+        moderatedById: adminId,
+        moderationNote: status === "REJECTED" ? moderationNote : null
+      }
+    });
+
+    const unitName = `${review.unit.property.title} - Unit ${review.unit.label}`;
+    try {
+      if (status === "PUBLISHED") {
+        await createNotification(review.tenantId, "REVIEW", `Your review of ${unitName} is now public`);
+        await createNotification(review.unit.property.ownerId, "REVIEW", `New ${review.rating}-star review published for ${unitName}`);
+      } else {
+        await createNotification(review.tenantId, "REVIEW", `Your review of ${unitName} was not published: ${moderationNote}`);
+      }
+    } catch (notificationError) {
+      console.error("Error creating review moderation notifications:", notificationError);
+      // Don't fail the moderation if notification fails
+    }
+
+    res.json({
+      message: status === "PUBLISHED" ? "Review published" : "Review rejected",
+      review: updated
+    });
+  } catch (error) {
+    console.error("Error moderating review:", error);
+    res.status(500).json({ message: "Failed to moderate review" });
+  }
+};
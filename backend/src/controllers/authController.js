@@ -7,6 +7,7 @@ import { registrationWelcomeTemplate } from "../services/email/templates/registr
 import { resetPasswordTemplate } from "../services/email/templates/resetPassword.js"
 import { sendEmail } from "../services/email/emailSender.js";
 import redis from "../libs/redisClient.js";
+import { disconnectUser } from "../services/realtimeService.js";
 import jwt from "jsonwebtoken";
 
 // Helper function to retry database operations
@@ -585,14 +586,17 @@ export const logout = async (req, res) => {
 
     if (token) {
       try {
-        // Decode token without throwing if invalid
-        const decoded = jwt.verify(token, process.env.JWT_SECRET);
-        const { userId } = decoded;
+        // Decode token without throwing if invalid; an expired access token still names the session to end
+        const decoded = jwt.verify(token, process.env.JWT_SECRET, { ignoreExpiration: true });
+        const { userId, sid } = decoded;
 
         if (userId) {
           // Remove session from Redis
           await redis.del(`session:${userId}:${userIp}`);
           console.log(`Session cleared for user ${userId} at IP ${userIp}`);
+
+          // Stop live updates to this session's open tabs
+          disconnectUser(userId, sid);
         }
       } catch (err) {
         console.warn("Invalid or expired token, skipping Redis session cleanup");
@@ -1,4 +1,5 @@
 import prisma from "../../libs/prismaClient.js";
+import { getSlaStatus } from "../../services/maintenanceSlaService.js";
 
 // Get recent activity for landlord dashboard
 export const getRecentActivity = async (req, res) => {
@@ -444,6 +445,152 @@ export const getUpcomingTasks = async (req, res) => {
       });
     });
 
+    // 3. Maintenance work orders whose SLA is breached or about to be
+    const openWorkOrders = await prisma.maintenanceRequest.findMany({
+      where: {
+        property: {
+          ownerId: ownerId
+        },
+        status: { not: 'RESOLVED' }
+      },
+      include: {
+        reporter: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            avatarUrl: true
+          }
+        },
+        unit: {
+          select: {
+            id: true,
+            label: true
+          }
+        },
+        property: {
+          select: {
+            id: true,
+            title: true,
+            street: true,
+            barangay: true
+          }
+        },
+        contractor: { select: { name: true } }
+      }
+    });
+
+    const now = new Date();
+    openWorkOrders
+      .map(request => ({ request, sla: getSlaStatus(request, now) }))
+      .filter(({ sla }) => sla.state === 'BREACHED' || sla.state === 'AT_RISK')
+      .forEach(({ request, sla }) => {
+        const isBreached = sla.state === 'BREACHED';
+        const missed = sla.responseBreached && !request.respondedAt ? 'response' : 'resolution';
+        const dueDate = isBreached
+          ? (missed === 'response' ? sla.responseDueAt : sla.resolutionDueAt)
+          : sla.nextDueAt;
+
+        tasks.push({
+          id: `maintenance_sla_${request.id}`,
+          type: 'MAINTENANCE_FOLLOWUP',
+          title: isBreached ? 'Maintenance SLA Breached' : 'Maintenance SLA Due Soon',
+          description: `${request.category.charAt(0) + request.category.slice(1).toLowerCase()} issue in ${request.unit?.label || 'unit'}: ${isBreached ? `${missed} deadline missed` : `${sla.hoursRemaining}h left to ${request.respondedAt ? 'resolve' : 'respond'}`}${request.contractor ? ` (assigned to ${request.contractor.name})` : ''}`,
+          dueDate: dueDate.toISOString(),
+          priority: request.priority === 'EMERGENCY' || isBreached ? 'URGENT' : request.priority,
+          status: isBreached ? 'OVERDUE' : 'PENDING',
+          property: {
+            id: request.property.id,
+            title: request.property.title,
+            address: `${request.property.street}, ${request.property.barangay}`
+          },
+          unit: request.unit ? {
+            id: request.unit.id,
+            label: request.unit.label
+          } : undefined,
+          // Preventive work orders are raised by the landlord, not a tenant
+          tenant: request.scheduleId ? undefined : {
+            id: request.reporter.id,
+            firstName: request.reporter.firstName,
+            lastName: request.reporter.lastName,
+            fullName: `${request.reporter.firstName} ${request.reporter.lastName}`,
+            avatarUrl: request.reporter.avatarUrl
+          },
+          metadata: {
+            daysUntilDue: Math.floor((dueDate - now) / (1000 * 60 * 60 * 24)),
+            isOverdue: isBreached,
+            maintenanceRequestId: request.id,
+            slaState: sla.state
+          }
+        });
+      });
+
+    // 4. Preventive maintenance: generated work orders still open, and occurrences due in the next 30 days
+    const reportedTaskIds = new Set(tasks.map(task => task.id));
+    const preventiveHorizon = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+    openWorkOrders
+      .filter(request => request.scheduleId && !reportedTaskIds.has(`maintenance_sla_${request.id}`))
+      .forEach(request => {
+        const dueDate = request.resolutionDueAt;
+        tasks.push({
+          id: `preventive_request_${request.id}`,
+          type: 'PREVENTIVE_MAINTENANCE',
+          title: 'Preventive Maintenance Due',
+          description: `${request.description} in ${request.unit?.label || 'all units'}${request.contractor ? ` (assigned to ${request.contractor.name})` : ''}`,
+          dueDate: dueDate.toISOString(),
+          priority: request.priority === 'EMERGENCY' ? 'URGENT' : request.priority,
+          status: 'PENDING',
+          property: {
+            id: request.property.id,
+            title: request.property.title,
+            address: `${request.property.street}, ${request.property.barangay}`
+          },
+          unit: request.unit ? { id: request.unit.id, label: request.unit.label } : undefined,
+          metadata: {
+            daysUntilDue: Math.floor((dueDate - now) / (1000 * 60 * 60 * 24)),
+            isOverdue: false,
+            maintenanceRequestId: request.id,
+            scheduleId: request.scheduleId
+          }
+        });
+      });
+
+    const upcomingSchedules = await prisma.maintenanceSchedule.findMany({
+      where: {
+        ownerId: ownerId,
+        isActive: true,
+        nextDueAt: { lte: preventiveHorizon }
+      },
+      include: {
+        unit: { select: { id: true, label: true } },
+        property: { select: { id: true, title: true, street: true, barangay: true } }
+      }
+    });
+
+    upcomingSchedules.forEach(schedule => {
+      tasks.push({
+        id: `preventive_schedule_${schedule.id}`,
+        type: 'PREVENTIVE_MAINTENANCE',
+        title: 'Preventive Maintenance Upcoming',
+        description: `${schedule.title} in ${schedule.unit?.label || 'all units'} (every ${schedule.intervalMonths === 1 ? 'month' : `${schedule.intervalMonths} months`})`,
+        dueDate: schedule.nextDueAt.toISOString(),
+        priority: schedule.priority === 'EMERGENCY' ? 'URGENT' : schedule.priority,
+        status: 'PENDING',
+        property: {
+          id: schedule.property.id,
+          title: schedule.property.title,
+          address: `${schedule.property.street}, ${schedule.property.barangay}`
+        },
+        unit: schedule.unit ? { id: schedule.unit.id, label: schedule.unit.label } : undefined,
+        metadata: {
+          daysUntilDue: Math.floor((schedule.nextDueAt - now) / (1000 * 60 * 60 * 24)),
+          isOverdue: false,
+          scheduleId: schedule.id
+        }
+      });
+    });
+
     // Sort tasks by due date and priority
     tasks.sort((a, b) => {
       // First sort by status (overdue first)
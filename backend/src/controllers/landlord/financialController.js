@@ -52,7 +52,9 @@ export const getFinancialOverview = async (req, res) => {
         status: 'PAID',
         paidAt: {
           gte: startDate
-        }
+        },
+        // Collected late fees are counted through their Income rows
+        OR: [{ chargeId: null }, { charge: { type: { not: "LATE_FEE" } } }]
       },
       include: {
         lease: {
@@ -115,6 +117,9 @@ export const getFinancialOverview = async (req, res) => {
     const additionalIncomeTotal = additionalIncome.reduce((sum, income) => sum + income.amount, 0);
     const totalIncome = totalRevenue + additionalIncomeTotal;
     const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const maintenanceExpenses = expenses
+      .filter(expense => expense.maintenanceRequestId)
+      .reduce((sum, expense) => sum + expense.amount, 0);
     const netIncome = totalIncome - totalExpenses;
 
     // Calculate revenue by property
@@ -195,6 +200,7 @@ export const getFinancialOverview = async (req, res) => {
         additionalIncome: additionalIncomeTotal,
         totalIncome,
         totalExpenses,
+        maintenanceExpenses,
         netIncome,
         totalPendingAmount,
         profitMargin: Math.round(profitMargin * 100) / 100,
@@ -220,6 +226,8 @@ export const getFinancialOverview = async (req, res) => {
         amount: expense.amount,
         description: expense.description,
         date: expense.date,
+        maintenanceRequestId: expense.maintenanceRequestId,
+        costType: expense.costType,
         property: {
           title: expense.property.title
         }
@@ -1,7 +1,46 @@
 // file: leaseController.js
 import prisma from "../../libs/prismaClient.js";
 import { createLeaseNotification } from "../../services/notificationService.js";
-import { generateLeasePDF } from "../../services/pdfService.js";
+import { generateLeasePDF, generateFinalStatementPDF } from "../../services/pdfService.js";
+import { getLeaseBalance, syncRentSchedule } from "../../services/rentScheduleService.js";
+import { getDefaultRenewalStart } from "../../services/leaseRenewalService.js";
+import { completeMoveOut, settleDeposit } from "../../services/leaseTerminationService.js";
+import { buildLeaseDocumentDraft, parseLeaseDocumentInput, saveLeaseDocumentVersion } from "../../services/leaseDocumentService.js";
+import { refreshLeaseBehavior } from "../../services/tenantBehaviorService.js";
+
+const MAX_GRACE_PERIOD_DAYS = 31;
+const LATE_FEE_TYPES = ["FLAT", "PERCENT", "DAILY"];
+
+// Read the late-fee rule from a lease form; null when the request doesn't touch it
+const parseLateFeeRule = ({ lateFeeType, lateFeeAmount, lateFeeMaxAmount }) => {
+  if (lateFeeType === undefined) return null;
+
+  if (!lateFeeType || lateFeeType === "NONE") {
+    return { rule: { lateFeeType: null, lateFeeAmount: null, lateFeeMaxAmount: null } };
+  }
+
+  if (!LATE_FEE_TYPES.includes(lateFeeType)) {
+    return { error: "Invalid late fee type. Must be FLAT, PERCENT, or DAILY" };
+  }
+
+  const amount = Number(lateFeeAmount);
+  if (lateFeeAmount === undefined || lateFeeAmount === "" || isNaN(amount) || amount <= 0) {
+    return { error: "Late fee amount must be greater than 0" };
+  }
+  if (lateFeeType === "PERCENT" && amount > 100) {
+    return { error: "Late fee percentage cannot exceed 100" };
+  }
+
+  let maxAmount = null;
+  if (lateFeeType === "DAILY" && lateFeeMaxAmount !== undefined && lateFeeMaxAmount !== "") {
+    maxAmount = Number(lateFeeMaxAmount);
+    if (isNaN(maxAmount) || maxAmount < amount) {
+      return { error: "Late fee cap must be at least the daily amount" };
+    }
+  }
+
+  return { rule: { lateFeeType, lateFeeAmount: amount, lateFeeMaxAmount: maxAmount } };
+};
 
 // ---------------------------------------------- GET ALL LEASES OF THE LANDLORD ----------------------------------------------
 export const getLandlordLeases = async (req, res) => {
@@ -112,6 +151,10 @@ export const getLandlordLeases = async (req, res) => {
         endDate: lease.endDate,
         rentAmount: lease.rentAmount,
         interval: lease.interval,
+        gracePeriodDays: lease.gracePeriodDays,
+        lateFeeType: lease.lateFeeType,
+        lateFeeAmount: lease.lateFeeAmount,
+        lateFeeMaxAmount: lease.lateFeeMaxAmount,
         status: lease.status,
         hasFormalDocument: lease.hasFormalDocument,
         leaseDocumentUrl: lease.leaseDocumentUrl,
@@ -238,6 +281,23 @@ export const getLeaseDetails = async (req, res) => {
         TenantBehaviorAnalysis: {
           orderBy: { createdAt: "desc" },
           take: 1, // Get latest analysis
+        },
+        renewalOffers: {
+          orderBy: { createdAt: "desc" },
+        },
+        previousLease: {
+          select: { id: true, leaseNickname: true, startDate: true, endDate: true, status: true }
+        },
+        renewedBy: {
+          select: { id: true, leaseNickname: true, startDate: true, endDate: true, status: true }
+        },
+        termination: {
+          include: { deductions: { orderBy: { createdAt: "asc" } } }
+        },
+        documents: {
+          orderBy: { version: "desc" },
+          take: 1,
+          select: { id: true, version: true, generatedAt: true }
         }
       },
     });
@@ -285,6 +345,9 @@ export const getLeaseDetails = async (req, res) => {
       Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)) : 
       null;
 
+    // Running balance from the lease ledger (amount due now / credit)
+    const balance = await getLeaseBalance(lease.id, now);
+
     return res.json({
       ...lease,
       unit: {
@@ -319,7 +382,9 @@ export const getLeaseDetails = async (req, res) => {
         isExpiringSoon: daysRemaining !== null && daysRemaining <= 30 && daysRemaining > 0,
         isOverdue: daysRemaining !== null && daysRemaining < 0,
       },
+      balance,
       behaviorAnalysis: lease.TenantBehaviorAnalysis[0] || null,
+      contract: lease.documents[0] || null,
     });
   } catch (error) {
     console.error("Error fetching lease details:", error);
@@ -345,6 +410,7 @@ export const createLease = async (req, res) => {
       endDate,
       rentAmount,
       interval,
+      gracePeriodDays,
       status,
       hasFormalDocument,
       leaseDocumentUrl,
@@ -481,6 +547,18 @@ export const createLease = async (req, res) => {
       return res.status(400).json({ message: "Invalid interval. Must be DAILY, WEEKLY, or MONTHLY" });
     }
 
+    // Validate grace period (whole days, optional)
+    const graceDays = gracePeriodDays !== undefined && gracePeriodDays !== "" ? Number(gracePeriodDays) : 0;
+    if (!Number.isInteger(graceDays) || graceDays < 0 || graceDays > MAX_GRACE_PERIOD_DAYS) {
+      return res.status(400).json({ message: `Grace period must be a whole number of days between 0 and ${MAX_GRACE_PERIOD_DAYS}` });
+    }
+
+    // Validate late-fee rule (optional)
+    const lateFee = parseLateFeeRule(req.body);
+    if (lateFee?.error) {
+      return res.status(400).json({ message: lateFee.error });
+    }
+
     // Validate status
     const validStatuses = ["DRAFT", "ACTIVE", "EXPIRED", "TERMINATED"];
     if (!validStatuses.includes(status)) {
@@ -516,6 +594,8 @@ export const createLease = async (req, res) => {
         endDate: end,
         rentAmount: Number(rentAmount),
         interval,
+        gracePeriodDays: graceDays,
+        ...(lateFee && lateFee.rule),
         status,
         hasFormalDocument: hasFormalDocument === 'true' || hasFormalDocument === true,
         leaseDocumentUrl: documentUrl || null,
@@ -554,6 +634,14 @@ export const createLease = async (req, res) => {
         where: { id: unitId },
         data: { status: "OCCUPIED" }
       });
+
+      // Expand the lease into its rent installments
+      try {
+        await syncRentSchedule(lease.id);
+      } catch (scheduleError) {
+        console.error("Error generating rent schedule:", scheduleError);
+        // Schedule is re-synced by the rent-reminders job, don't fail the lease creation
+      }
     }
 
     // Create notification for lease creation
@@ -604,6 +692,7 @@ export const updateLease = async (req, res) => {
       endDate,
       rentAmount,
       interval,
+      gracePeriodDays,
       status,
       hasFormalDocument,
       leaseDocumentUrl,
@@ -677,9 +766,23 @@ export const updateLease = async (req, res) => {
       }
     }
 
+    // Validate grace period if provided
+    if (gracePeriodDays !== undefined && gracePeriodDays !== "") {
+      const graceDays = Number(gracePeriodDays);
+      if (!Number.isInteger(graceDays) || graceDays < 0 || graceDays > MAX_GRACE_PERIOD_DAYS) {
+        return res.status(400).json({ message: `Grace period must be a whole number of days between 0 and ${MAX_GRACE_PERIOD_DAYS}` });
+      }
+    }
+
+    // Validate late-fee rule if provided
+    const lateFee = parseLateFeeRule(req.body);
+    if (lateFee?.error) {
+      return res.status(400).json({ message: lateFee.error });
+    }
+
     // Validate status if provided
     if (status) {
-      const validStatuses = ["DRAFT", "ACTIVE", "EXPIRED", "TERMINATED"];
+      const validStatuses = ["DRAFT", "UPCOMING", "ACTIVE", "EXPIRED", "TERMINATED"];
       if (!validStatuses.includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
@@ -695,6 +798,8 @@ export const updateLease = async (req, res) => {
         ...(endDate && { endDate: new Date(endDate) }),
         ...(rentAmount !== undefined && { rentAmount: Number(rentAmount) }),
         ...(interval && { interval }),
+        ...(gracePeriodDays !== undefined && gracePeriodDays !== "" && { gracePeriodDays: Number(gracePeriodDays) }),
+        ...(lateFee && lateFee.rule),
         ...(status && { status }),
         ...(hasFormalDocument !== undefined && { hasFormalDocument: hasFormalDocument === 'true' || hasFormalDocument === true }),
         ...(documentUrl !== undefined && { leaseDocumentUrl: documentUrl }),
@@ -745,6 +850,15 @@ export const updateLease = async (req, res) => {
       }
     }
 
+    // Keep unpaid installments in line with the (possibly edited) lease terms
+    if (updatedLease.status === "ACTIVE") {
+      try {
+        await syncRentSchedule(updatedLease.id, new Date(), { rebuild: true });
+      } catch (scheduleError) {
+        console.error("Error syncing rent schedule:", scheduleError);
+      }
+    }
+
     return res.json({
       message: "Lease updated successfully",
       lease: updatedLease
@@ -800,6 +914,13 @@ export const deleteLease = async (req, res) => {
       return res.status(404).json({ message: "Lease not found or not accessible" });
     }
 
+    // Occupied tenancies end through the termination flow (notice, move-out, deposit)
+    if (existingLease.status === "ACTIVE") {
+      return res.status(400).json({
+        message: "Active leases cannot be deleted. Terminate the lease instead."
+      });
+    }
+
     // Check if lease has payments (prevent deletion if it does)
     const paymentCount = await prisma.payment.count({
       where: { leaseId: leaseId }
@@ -811,8 +932,8 @@ export const deleteLease = async (req, res) => {
       });
     }
 
-    // Update unit status to AVAILABLE if it was OCCUPIED
-    if (existingLease.unit.status === "OCCUPIED") {
+    // Update unit status to AVAILABLE if it was OCCUPIED (an UPCOMING renewal doesn't occupy it yet)
+    if (existingLease.unit.status === "OCCUPIED" && existingLease.status !== "UPCOMING") {
       await prisma.unit.update({
         where: { id: existingLease.unit.id },
         data: { status: "AVAILABLE" }
@@ -1029,6 +1150,10 @@ export const activateLease = async (req, res) => {
       return res.status(400).json({ message: "Lease is already active" });
     }
 
+    if (lease.status === 'UPCOMING') {
+      return res.status(400).json({ message: "Renewal leases activate automatically on their start date" });
+    }
+
     console.log("Updating lease status from", lease.status, "to ACTIVE");
 
     // Update lease status to ACTIVE and unit status to OCCUPIED
@@ -1048,6 +1173,14 @@ export const activateLease = async (req, res) => {
       data: { status: 'OCCUPIED' }
     });
 
+    // Expand the lease into its rent installments
+    try {
+      await syncRentSchedule(leaseId);
+    } catch (scheduleError) {
+      console.error("Error generating rent schedule:", scheduleError);
+      // Schedule is re-synced by the rent-reminders job, don't fail the activation
+    }
+
     console.log(`✅ Lease ${leaseId} activated successfully`);
     console.log("=== ACTIVATE LEASE COMPLETE ===");
 
@@ -1118,6 +1251,11 @@ export const generateLeasePDFController = async (req, res) => {
             email: true,
             phoneNumber: true,
           }
+        },
+        // Latest structured contract (full agreement) if one was built
+        documents: {
+          orderBy: { version: "desc" },
+          take: 1
         }
       }
     });
@@ -1144,3 +1282,564 @@ export const generateLeasePDFController = async (req, res) => {
     res.status(500).json({ message: "Failed to generate lease PDF" });
   }
 };
+
+// Lease with everything the contract builder prefills from
+const findLandlordLeaseForContract = (leaseId, ownerId) =>
+  prisma.lease.findFirst({
+    where: {
+      id: leaseId,
+      unit: {
+        property: {
+          ownerId: ownerId
+        }
+      }
+    },
+    include: {
+      unit: {
+        include: {
+          property: {
+            include: {
+              city: true,
+              municipality: true,
+              owner: { select: { id: true, firstName: true, lastName: true } }
+            }
+          }
+        }
+      },
+      tenant: { select: { id: true, firstName: true, lastName: true, email: true, phoneNumber: true } }
+    }
+  });
+
+// ---------------------------------------------- GET LEASE CONTRACT DOCUMENT ----------------------------------------------
+export const getLeaseDocument = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await findLandlordLeaseForContract(leaseId, ownerId);
+    if (!lease) {
+      return res.status(404).json({ message: "Lease not found or not accessible" });
+    }
+
+    const versions = await prisma.leaseDocument.findMany({
+      where: { leaseId: lease.id },
+      orderBy: { version: "desc" }
+    });
+
+    return res.json({
+      document: versions[0] || null,
+      draft: versions.length === 0 ? buildLeaseDocumentDraft(lease) : null,
+      versions: versions.map(({ id, version, generatedAt, generatedBy }) => ({ id, version, generatedAt, generatedBy }))
+    });
+
+  } catch (error) {
+    console.error("Error fetching lease document:", error);
+    return res.status(500).json({ message: "Failed to fetch lease document" });
+  }
+};
+
+// ---------------------------------------------- SAVE LEASE CONTRACT DOCUMENT (NEW VERSION) ----------------------------------------------
+export const saveLeaseDocument = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await findLandlordLeaseForContract(leaseId, ownerId);
+    if (!lease) {
+      return res.status(404).json({ message: "Lease not found or not accessible" });
+    }
+
+    if (lease.status === "EXPIRED" || lease.status === "TERMINATED") {
+      return res.status(400).json({ message: `Cannot revise the contract of a ${lease.status.toLowerCase()} lease` });
+    }
+
+    const { data, error } = parseLeaseDocumentInput(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const document = await saveLeaseDocumentVersion(lease, data, ownerId);
+
+    return res.status(201).json({
+      message: `Lease contract saved (version ${document.version})`,
+      document
+    });
+
+  } catch (error) {
+    console.error("Error saving lease document:", error);
+    return res.status(500).json({ message: "Failed to save lease document" });
+  }
+};
+
+// ---------------------------------------------- SEND RENEWAL OFFER ----------------------------------------------
+export const createRenewalOffer = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+    const { startDate, endDate, rentAmount, interval, message, expiresAt } = req.body;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await prisma.lease.findFirst({
+      where: {
+        id: leaseId,
+        unit: {
+          property: {
+            ownerId: ownerId
+          }
+        }
+      },
+      include: {
+        unit: { select: { id: true, label: true } },
+        tenant: { select: { id: true, firstName: true, lastName: true } },
+        renewedBy: { select: { id: true } },
+        renewalOffers: { where: { status: "PENDING" }, select: { id: true } }
+      }
+    });
+
+    if (!lease) {
+      return res.status(404).json({ message: "Lease not found or not accessible" });
+    }
+
+    if (lease.status !== "ACTIVE") {
+      return res.status(400).json({ message: "Only active leases can be renewed" });
+    }
+
+    if (lease.renewedBy) {
+      return res.status(400).json({ message: "This lease has already been renewed" });
+    }
+
+    if (lease.renewalOffers.length > 0) {
+      return res.status(400).json({ message: "A renewal offer is already pending for this lease" });
+    }
+
+    // Default the new term to start the day after the current one ends
+    const start = startDate ? new Date(startDate) : getDefaultRenewalStart(lease);
+    const end = endDate ? new Date(endDate) : null;
+
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res.status(400).json({ message: "Valid start and end dates are required" });
+    }
+
+    if (end <= start) {
+      return res.status(400).json({ message: "End date must be after start date" });
+    }
+
+    if (lease.endDate && start <= new Date(lease.endDate)) {
+      return res.status(400).json({ message: "Renewal must start after the current lease ends" });
+    }
+
+    if (!rentAmount || Number(rentAmount) <= 0) {
+      return res.status(400).json({ message: "Rent amount must be greater than 0" });
+    }
+
+    const validIntervals = ["DAILY", "WEEKLY", "MONTHLY"];
+    const renewalInterval = interval || lease.interval;
+    if (!validIntervals.includes(renewalInterval)) {
+      return res.status(400).json({ message: "Invalid interval. Must be DAILY, WEEKLY, or MONTHLY" });
+    }
+
+    const offerExpiresAt = expiresAt ? new Date(expiresAt) : null;
+    if (offerExpiresAt && (isNaN(offerExpiresAt.getTime()) || offerExpiresAt <= new Date())) {
+      return res.status(400).json({ message: "Offer expiry must be in the future" });
+    }
+
+    const offer = await prisma.leaseRenewalOffer.create({
+      data: {
+        leaseId: lease.id,
+        startDate: start,
+        endDate: end,
+        rentAmount: Number(rentAmount),
+        interval: renewalInterval,
+        message: message?.trim() || null,
+        expiresAt: offerExpiresAt
+      }
+    });
+
+    try {
+      await createLeaseNotification(lease.tenantId, lease, "RENEWAL_OFFERED");
+    } catch (notificationError) {
+      console.error("Error creating renewal offer notification:", notificationError);
+      // Don't fail the offer if notification fails
+    }
+
+    return res.status(201).json({
+      message: "Renewal offer sent to tenant",
+      offer
+    });
+  } catch (error) {
+    console.error("Error creating renewal offer:", error);
+    return res.status(500).json({ message: "Failed to send renewal offer" });
+  }
+};
+
+// ---------------------------------------------- WITHDRAW RENEWAL OFFER ----------------------------------------------
+export const withdrawRenewalOffer = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { offerId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const offer = await prisma.leaseRenewalOffer.findFirst({
+      where: {
+        id: offerId,
+        lease: {
+          unit: {
+            property: {
+              ownerId: ownerId
+            }
+          }
+        }
+      },
+      include: {
+        lease: {
+          include: {
+            unit: { select: { id: true, label: true } },
+            tenant: { select: { id: true, firstName: true, lastName: true } }
+          }
+        }
+      }
+    });
+
+    if (!offer) {
+      return res.status(404).json({ message: "Renewal offer not found or not accessible" });
+    }
+
+    if (offer.status !== "PENDING") {
+      return res.status(400).json({ message: `Renewal offer is already ${offer.status.toLowerCase()}` });
+    }
+
+    const updatedOffer = await prisma.leaseRenewalOffer.update({
+      where: { id: offer.id },
+      data: { status: "WITHDRAWN", respondedAt: new Date() }
+    });
+
+    try {
+      await createLeaseNotification(offer.lease.tenantId, offer.lease, "RENEWAL_WITHDRAWN");
+    } catch (notificationError) {
+      console.error("Error creating renewal withdrawal notification:", notificationError);
+      // Don't fail the withdrawal if notification fails
+    }
+
+    return res.json({
+      message: "Renewal offer withdrawn",
+      offer: updatedOffer
+    });
+  } catch (error) {
+    console.error("Error withdrawing renewal offer:", error);
+    return res.status(500).json({ message: "Failed to withdraw renewal offer" });
+  }
+};
+
+// Load a lease of this landlord with its termination (and what notifications need)
+const findLandlordLeaseWithTermination = (leaseId, ownerId) =>
+  prisma.lease.findFirst({
+    where: {
+      id: leaseId,
+      unit: {
+        property: {
+          ownerId: ownerId
+        }
+      }
+    },
+    include: {
+      unit: { select: { id: true, label: true, propertyId: true, securityDeposit: true } },
+      tenant: { select: { id: true, firstName: true, lastName: true } },
+      renewedBy: { select: { id: true } },
+      termination: true
+    }
+  });
+
+// ---------------------------------------------- GIVE TERMINATION NOTICE ----------------------------------------------
+export const createLeaseTermination = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+    const { noticeDate, moveOutDate, reason } = req.body;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await findLandlordLeaseWithTermination(leaseId, ownerId);
+    if (!lease) {
+      return res.status(404).json({ message: "Lease not found or not accessible" });
+    }
+
+    if (lease.status !== "ACTIVE") {
+      return res.status(400).json({ message: "Only active leases can be terminated" });
+    }
+
+    if (lease.termination) {
+      return res.status(400).json({ message: "A termination notice already exists for this lease" });
+    }
+
+    if (lease.renewedBy) {
+      return res.status(400).json({ message: "This lease has an accepted renewal. Delete the renewal lease first" });
+    }
+
+    const notice = noticeDate ? new Date(noticeDate) : new Date();
+    const moveOut = moveOutDate ? new Date(moveOutDate) : null;
+
+    if (!moveOut || isNaN(moveOut.getTime()) || isNaN(notice.getTime())) {
+      return res.status(400).json({ message: "Valid notice and move-out dates are required" });
+    }
+
+    if (moveOut < notice) {
+      return res.status(400).json({ message: "Move-out date cannot be before the notice date" });
+    }
+
+    if (moveOut < new Date(lease.startDate)) {
+      return res.status(400).json({ message: "Move-out date cannot be before the lease start date" });
+    }
+
+    // A termination only shortens the lease; extending it goes through a renewal
+    if (lease.endDate && moveOut > new Date(lease.endDate)) {
+      return res.status(400).json({ message: "Move-out date cannot be after the lease end date. Offer a renewal to extend the lease" });
+    }
+
+    // The lease now ends on the move-out date; later installments drop off the schedule
+    const [termination] = await prisma.$transaction([
+      prisma.leaseTermination.create({
+        data: {
+          leaseId: lease.id,
+          noticeDate: notice,
+          moveOutDate: moveOut,
+          reason: reason?.trim() || null,
+          originalEndDate: lease.endDate
+        }
+      }),
+      prisma.lease.update({ where: { id: lease.id }, data: { endDate: moveOut } }),
+      prisma.leaseRenewalOffer.updateMany({
+        where: { leaseId: lease.id, status: "PENDING" },
+        data: { status: "WITHDRAWN", respondedAt: new Date() }
+      })
+    ]);
+
+    try {
+      await syncRentSchedule(lease.id);
+    } catch (scheduleError) {
+      console.error("Error syncing rent schedule:", scheduleError);
+    }
+
+    // Move-out already happened (or is today): release the unit right away
+    let updatedTermination = termination;
+    if (moveOut <= new Date()) {
+      await completeMoveOut(termination);
+      updatedTermination = await prisma.leaseTermination.findUnique({ where: { id: termination.id } });
+    }
+
+    try {
+      await createLeaseNotification(lease.tenantId, lease, "TERMINATION_NOTICE");
+    } catch (notificationError) {
+      console.error("Error creating termination notification:", notificationError);
+      // Don't fail the termination if notification fails
+    }
+
+    return res.status(201).json({
+      message: updatedTermination.status === "MOVED_OUT"
+        ? "Lease terminated and unit released"
+        : "Termination notice recorded",
+      termination: updatedTermination
+    });
+  } catch (error) {
+    console.error("Error creating lease termination:", error);
+    return res.status(500).json({ message: "Failed to terminate lease" });
+  }
+};
+
+// ---------------------------------------------- CANCEL TERMINATION NOTICE ----------------------------------------------
+export const cancelLeaseTermination = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await findLandlordLeaseWithTermination(leaseId, ownerId);
+    if (!lease || !lease.termination) {
+      return res.status(404).json({ message: "Termination notice not found" });
+    }
+
+    if (lease.termination.status !== "NOTICE") {
+      return res.status(400).json({ message: "The tenant has already moved out" });
+    }
+
+    // Restore the original term and its installments
+    await prisma.$transaction([
+      prisma.lease.update({ where: { id: lease.id }, data: { endDate: lease.termination.originalEndDate } }),
+      prisma.leaseTermination.delete({ where: { id: lease.termination.id } })
+    ]);
+
+    try {
+      await syncRentSchedule(lease.id);
+    } catch (scheduleError) {
+      console.error("Error syncing rent schedule:", scheduleError);
+    }
+
+    return res.json({ message: "Termination notice cancelled" });
+  } catch (error) {
+    console.error("Error cancelling lease termination:", error);
+    return res.status(500).json({ message: "Failed to cancel termination notice" });
+  }
+};
+
+// ---------------------------------------------- SETTLE SECURITY DEPOSIT ----------------------------------------------
+export const settleLeaseDeposit = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+    const { depositHeld, deductions = [] } = req.body;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await findLandlordLeaseWithTermination(leaseId, ownerId);
+    if (!lease || !lease.termination) {
+      return res.status(404).json({ message: "Termination notice not found" });
+    }
+
+    let termination = lease.termination;
+    if (termination.status === "SETTLED") {
+      return res.status(400).json({ message: "The security deposit has already been settled" });
+    }
+
+    if (termination.status === "NOTICE") {
+      if (new Date(termination.moveOutDate) > new Date()) {
+        return res.status(400).json({ message: "The deposit can be settled once the tenant has moved out" });
+      }
+      // Job hasn't picked it up yet
+      await completeMoveOut(termination);
+      termination = { ...termination, status: "MOVED_OUT" };
+    }
+
+    // Defaults to the unit's configured deposit
+    const held = depositHeld !== undefined && depositHeld !== null && depositHeld !== ""
+      ? Number(depositHeld)
+      : (lease.unit.securityDeposit || 0);
+
+    if (isNaN(held) || held < 0) {
+      return res.status(400).json({ message: "Deposit held must be 0 or more" });
+    }
+
+    if (!Array.isArray(deductions)) {
+      return res.status(400).json({ message: "Deductions must be a list" });
+    }
+
+    const items = deductions.map(item => ({
+      description: String(item.description || "").trim(),
+      amount: Number(item.amount)
+    }));
+
+    if (items.some(item => !item.description || isNaN(item.amount) || item.amount <= 0)) {
+      return res.status(400).json({ message: "Each deduction needs a description and an amount greater than 0" });
+    }
+
+    const totalDeductions = items.reduce((sum, item) => sum + item.amount, 0);
+    if (totalDeductions > held) {
+      return res.status(400).json({ message: "Deductions cannot exceed the deposit held" });
+    }
+
+    const settled = await settleDeposit(termination, { depositHeld: held, deductions: items }, lease.unit);
+
+    // Deductions are the move-out condition the tenant's property care score uses
+    await refreshLeaseBehavior([lease.id], "MOVE_OUT");
+
+    try {
+      await createLeaseNotification(lease.tenantId, lease, "DEPOSIT_SETTLED");
+    } catch (notificationError) {
+      console.error("Error creating deposit settlement notification:", notificationError);
+      // Don't fail the settlement if notification fails
+    }
+
+    return res.json({
+      message: "Security deposit settled",
+      termination: settled
+    });
+  } catch (error) {
+    console.error("Error settling security deposit:", error);
+    return res.status(500).json({ message: "Failed to settle security deposit" });
+  }
+};
+
+// ---------------------------------------------- DOWNLOAD FINAL STATEMENT ----------------------------------------------
+export const downloadFinalStatement = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await prisma.lease.findFirst({
+      where: {
+        id: leaseId,
+        unit: {
+          property: {
+            ownerId: ownerId
+          }
+        }
+      },
+      include: {
+        unit: {
+          include: {
+            property: {
+              include: {
+                city: true,
+                municipality: true,
+                owner: {
+                  select: { firstName: true, lastName: true, email: true, phoneNumber: true }
+                }
+              }
+            }
+          }
+        },
+        tenant: {
+          select: { firstName: true, lastName: true, email: true, phoneNumber: true }
+        },
+        termination: {
+          include: { deductions: { orderBy: { createdAt: "asc" } } }
+        }
+      }
+    });
+
+    if (!lease) {
+      return res.status(404).json({ message: "Lease not found or not accessible" });
+    }
+
+    if (!lease.termination || lease.termination.status !== "SETTLED") {
+      return res.status(400).json({ message: "The final statement is available once the deposit is settled" });
+    }
+
+    const balance = await getLeaseBalance(lease.id);
+    const pdfBuffer = await generateFinalStatementPDF({ ...lease, balance });
+
+    const fileName = `final-statement-${lease.leaseNickname || lease.id}.pdf`;
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+
+    res.send(pdfBuffer);
+  } catch (error) {
+    console.error("Error generating final statement:", error);
+    res.status(500).json({ message: "Failed to generate final statement" });
+  }
+};
@@ -1,5 +1,33 @@
 // file: maintenanceController.js
 import prisma from "../../libs/prismaClient.js";
+import { createMaintenanceNotification } from "../../services/notificationService.js";
+import {
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_CATEGORIES,
+  getSlaDeadlines,
+  getSlaStatus
+} from "../../services/maintenanceSlaService.js";
+import { getMaintenanceTimeline, addMaintenanceUpdate } from "../../services/maintenanceTimelineService.js";
+import { getMaintenanceRequestLeaseIds, refreshLeaseBehavior } from "../../services/tenantBehaviorService.js";
+
+const attachmentSelect = {
+  id: true,
+  kind: true,
+  url: true,
+  thumbnailUrl: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+};
+
+const contractorSelect = {
+  id: true,
+  name: true,
+  company: true,
+  specialty: true,
+  phone: true,
+  email: true,
+};
 
 // ---------------------------------------------- GET ALL MAINTENANCE REQUESTS FOR LANDLORD ----------------------------------------------
 export const getLandlordMaintenanceRequests = async (req, res) => {
@@ -44,7 +72,9 @@ export const getLandlordMaintenanceRequests = async (req, res) => {
             avatarUrl: true,
             role: true,
           }
-        }
+        },
+        contractor: { select: contractorSelect },
+        attachments: { select: attachmentSelect, orderBy: { createdAt: "asc" } }
       },
       orderBy: { createdAt: "desc" },
     });
@@ -74,22 +104,19 @@ export const getLandlordMaintenanceRequests = async (req, res) => {
         timeAgo = "Just now";
       }
 
-      // Determine priority based on status and age
-      let priority = "LOW";
-      if (request.status === "OPEN" && diffDays >= 7) {
-        priority = "HIGH";
-      } else if (request.status === "OPEN" && diffDays >= 3) {
-        priority = "MEDIUM";
-      } else if (request.status === "IN_PROGRESS" && diffDays >= 14) {
-        priority = "HIGH";
-      }
-
       return {
         id: request.id,
         description: request.description,
         photoUrl: request.photoUrl,
+        attachments: request.attachments,
         status: request.status,
-        priority: priority,
+        priority: request.priority,
+        category: request.category,
+        contractor: request.contractor,
+        scheduledStart: request.scheduledStart,
+        scheduledEnd: request.scheduledEnd,
+        scheduleId: request.scheduleId,
+        sla: getSlaStatus(request, now),
         createdAt: request.createdAt,
         updatedAt: request.updatedAt,
         timeAgo: timeAgo,
@@ -181,6 +208,12 @@ export const getMaintenanceRequestDetails = async (req, res) => {
             role: true,
             createdAt: true,
           }
+        },
+        contractor: { select: contractorSelect },
+        attachments: { select: attachmentSelect, orderBy: { createdAt: "asc" } },
+        costs: {
+          select: { id: true, costType: true, amount: true, description: true, date: true, receiptUrl: true },
+          orderBy: { date: "asc" }
         }
       },
     });
@@ -216,16 +249,6 @@ export const getMaintenanceRequestDetails = async (req, res) => {
       timeAgo = "Just now";
     }
 
-    // Determine priority
-    let priority = "LOW";
-    if (request.status === "OPEN" && diffDays >= 7) {
-      priority = "HIGH";
-    } else if (request.status === "OPEN" && diffDays >= 3) {
-      priority = "MEDIUM";
-    } else if (request.status === "IN_PROGRESS" && diffDays >= 14) {
-      priority = "HIGH";
-    }
-
     return res.json({
       ...request,
       property: {
@@ -243,7 +266,8 @@ export const getMaintenanceRequestDetails = async (req, res) => {
         createdAt: request.createdAt,
         updatedAt: request.updatedAt,
       },
-      priority,
+      sla: getSlaStatus(request, now),
+      totalCost: request.costs.reduce((sum, cost) => sum + cost.amount, 0),
     });
   } catch (error) {
     console.error("Error fetching maintenance request details:", error);
@@ -285,6 +309,7 @@ export const updateMaintenanceRequestStatus = async (req, res) => {
           select: {
             id: true,
             title: true,
+            ownerId: true,
           }
         },
         unit: {
@@ -308,13 +333,24 @@ export const updateMaintenanceRequestStatus = async (req, res) => {
       return res.status(404).json({ message: "Maintenance request not found or not accessible" });
     }
 
+    // SLA clock: leaving OPEN is the first response, RESOLVED stops the resolution clock
+    const now = new Date();
+    const slaUpdate = {};
+    if (status !== "OPEN" && !existingRequest.respondedAt) {
+      slaUpdate.respondedAt = now;
+    }
+    if (status === "RESOLVED" && existingRequest.status !== "RESOLVED") {
+      slaUpdate.resolvedAt = now;
+    } else if (status !== "RESOLVED") {
+      slaUpdate.resolvedAt = null; // reopened
+    }
+
     // Update the maintenance request
     const updatedRequest = await prisma.maintenanceRequest.update({
       where: { id: requestId },
       data: {
         status: status,
-        // Note: We could add a notes field to the schema if needed
-        // For now, we'll just update the status
+        ...slaUpdate,
       },
       include: {
         property: {
@@ -340,11 +376,24 @@ export const updateMaintenanceRequestStatus = async (req, res) => {
       }
     });
 
+    // Keep the transition (and the landlord's notes) on the shared timeline
+    if (status !== existingRequest.status) {
+      await addMaintenanceUpdate(existingRequest, ownerId, {
+        type: "STATUS_CHANGE",
+        fromStatus: existingRequest.status,
+        toStatus: status,
+        message: notes,
+      });
+    } else if (notes?.trim()) {
+      await addMaintenanceUpdate(existingRequest, ownerId, { type: "COMMENT", message: notes });
+    }
+
     return res.json({
       message: "Maintenance request status updated successfully",
       request: {
         id: updatedRequest.id,
         status: updatedRequest.status,
+        sla: getSlaStatus(updatedRequest, now),
         description: updatedRequest.description,
         property: updatedRequest.property,
         unit: updatedRequest.unit,
@@ -357,6 +406,384 @@ export const updateMaintenanceRequestStatus = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- GET MAINTENANCE TIMELINE ----------------------------------------------
+export const getLandlordMaintenanceTimeline = async (req, res) => {
+  try {
+    const { requestId } = req.params;
+    const ownerId = req.user?.id;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const request = await prisma.maintenanceRequest.findFirst({
+      where: { id: requestId, property: { ownerId } },
+      select: { id: true }
+    });
+
+    if (!request) {
+      return res.status(404).json({ message: "Maintenance request not found or not accessible" });
+    }
+
+    const timeline = await getMaintenanceTimeline(requestId);
+    return res.json(timeline);
+  } catch (error) {
+    console.error("Error fetching maintenance timeline:", error);
+    return res.status(500).json({ message: "Failed to fetch maintenance timeline" });
+  }
+};
+
+// ---------------------------------------------- ADD MAINTENANCE COMMENT ----------------------------------------------
+export const addLandlordMaintenanceComment = async (req, res) => {
+  try {
+    const { requestId } = req.params;
+    const { message } = req.body;
+    const ownerId = req.user?.id;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    if (!message?.trim() && !req.file) {
+      return res.status(400).json({ message: "Add a comment or a photo" });
+    }
+
+    const request = await prisma.maintenanceRequest.findFirst({
+      where: { id: requestId, property: { ownerId } },
+      include: {
+        property: { select: { id: true, title: true, ownerId: true } },
+        unit: { select: { id: true, label: true } }
+      }
+    });
+
+    if (!request) {
+      return res.status(404).json({ message: "Maintenance request not found or not accessible" });
+    }
+
+    const update = await addMaintenanceUpdate(request, ownerId, {
+      type: "COMMENT",
+      message,
+      photoUrl: req.file ? `/uploads/maintenance/${req.file.filename}` : null,
+    });
+
+    return res.status(201).json({ message: "Comment added successfully", update });
+  } catch (error) {
+    console.error("Error adding maintenance comment:", error);
+    return res.status(500).json({ message: "Failed to add comment" });
+  }
+};
+
+// ---------------------------------------------- UPDATE WORK ORDER (PRIORITY, CATEGORY, ASSIGNEE, VISIT) ----------------------------------------------
+export const updateMaintenanceWorkOrder = async (req, res) => {
+  try {
+    const { requestId } = req.params;
+    const { priority, category, contractorId, scheduledStart, scheduledEnd } = req.body;
+    const ownerId = req.user?.id;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const existingRequest = await prisma.maintenanceRequest.findFirst({
+      where: {
+        id: requestId,
+        property: {
+          ownerId: ownerId
+        }
+      },
+      include: {
+        property: { select: { id: true, title: true } },
+        unit: { select: { id: true, label: true } }
+      }
+    });
+
+    if (!existingRequest) {
+      return res.status(404).json({ message: "Maintenance request not found or not accessible" });
+    }
+
+    if (existingRequest.status === "RESOLVED") {
+      return res.status(400).json({ message: "Resolved requests can no longer be changed" });
+    }
+
+    const data = {};
+
+    if (priority !== undefined) {
+      if (!MAINTENANCE_PRIORITIES.includes(priority)) {
+        return res.status(400).json({ message: `Invalid priority. Must be one of: ${MAINTENANCE_PRIORITIES.join(", ")}` });
+      }
+      // A new priority re-bases both SLA deadlines on the original report time
+      Object.assign(data, { priority }, getSlaDeadlines(priority, existingRequest.createdAt));
+    }
+
+    if (category !== undefined) {
+      if (!MAINTENANCE_CATEGORIES.includes(category)) {
+        return res.status(400).json({ message: `Invalid category. Must be one of: ${MAINTENANCE_CATEGORIES.join(", ")}` });
+      }
+      data.category = category;
+    }
+
+    if (contractorId !== undefined) {
+      if (contractorId) {
+        const contractor = await prisma.contractor.findFirst({ where: { id: contractorId, ownerId } });
+        if (!contractor) {
+          return res.status(404).json({ message: "Contractor not found" });
+        }
+      }
+      data.contractorId = contractorId || null;
+    }
+
+    if (scheduledStart !== undefined || scheduledEnd !== undefined) {
+      const start = scheduledStart ? new Date(scheduledStart) : null;
+      const end = scheduledEnd ? new Date(scheduledEnd) : null;
+
+      if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+        return res.status(400).json({ message: "Invalid visit window" });
+      }
+      if (end && !start) {
+        return res.status(400).json({ message: "A visit window needs a start time" });
+      }
+      if (start && end && end <= start) {
+        return res.status(400).json({ message: "Visit window must end after it starts" });
+      }
+      data.scheduledStart = start;
+      data.scheduledEnd = end;
+    }
+
+    // Assigning someone or booking a visit counts as the first response
+    const now = new Date();
+    if (!existingRequest.respondedAt && (data.contractorId || data.scheduledStart)) {
+      data.respondedAt = now;
+    }
+
+    const updatedRequest = await prisma.maintenanceRequest.update({
+      where: { id: requestId },
+      data,
+      include: { contractor: { select: contractorSelect } }
+    });
+
+    // Let the tenant know when someone is coming (preventive work orders have no tenant reporter)
+    const visitChanged = data.scheduledStart && existingRequest.reporterId !== ownerId &&
+      data.scheduledStart.getTime() !== existingRequest.scheduledStart?.getTime();
+    if (visitChanged) {
+      try {
+        await createMaintenanceNotification(existingRequest.reporterId, {
+          title: existingRequest.description.slice(0, 60),
+          unit: existingRequest.unit,
+          property: existingRequest.property,
+          scheduledStart: data.scheduledStart
+        }, "SCHEDULED");
+      } catch (notificationError) {
+        console.error("Error creating maintenance visit notification:", notificationError);
+        // Don't fail the update if notification fails
+      }
+    }
+
+    return res.json({
+      message: "Work order updated successfully",
+      request: {
+        id: updatedRequest.id,
+        status: updatedRequest.status,
+        priority: updatedRequest.priority,
+        category: updatedRequest.category,
+        contractor: updatedRequest.contractor,
+        scheduledStart: updatedRequest.scheduledStart,
+        scheduledEnd: updatedRequest.scheduledEnd,
+        sla: getSlaStatus(updatedRequest, now),
+      }
+    });
+  } catch (error) {
+    console.error("Error updating maintenance work order:", error);
+    return res.status(500).json({ message: "Failed to update work order" });
+  }
+};
+
+// ---------------------------------------------- ADD MAINTENANCE COST ----------------------------------------------
+export const addMaintenanceCost = async (req, res) => {
+  try {
+    const { requestId } = req.params;
+    const { costType, amount, description, date } = req.body;
+    const ownerId = req.user?.id;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    if (!["LABOR", "PARTS"].includes(costType)) {
+      return res.status(400).json({ message: "Cost type must be LABOR or PARTS" });
+    }
+
+    const parsedAmount = parseFloat(amount);
+    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      return res.status(400).json({ message: "Amount must be greater than zero" });
+    }
+
+    const costDate = date ? new Date(date) : new Date();
+    if (isNaN(costDate.getTime())) {
+      return res.status(400).json({ message: "Invalid date" });
+    }
+
+    const request = await prisma.maintenanceRequest.findFirst({
+      where: { id: requestId, property: { ownerId } },
+      select: { id: true, propertyId: true, unitId: true, description: true }
+    });
+
+    if (!request) {
+      return res.status(404).json({ message: "Maintenance request not found or not accessible" });
+    }
+
+    // Costs are booked as regular expenses so financial reports pick them up
+    const label = costType === "LABOR" ? "Maintenance labor" : "Maintenance parts";
+    const expense = await prisma.expense.create({
+      data: {
+        propertyId: request.propertyId,
+        unitId: request.unitId,
+        amount: parsedAmount,
+        description: description?.trim() ? `${label}: ${description.trim()}` : `${label}: ${request.description.slice(0, 60)}`,
+        date: costDate,
+        maintenanceRequestId: request.id,
+        costType,
+        receiptUrl: req.file ? `/uploads/maintenance/receipts/${req.file.filename}` : null
+      },
+      select: { id: true, costType: true, amount: true, description: true, date: true, receiptUrl: true }
+    });
+
+    return res.status(201).json({
+      message: "Cost recorded successfully",
+      cost: expense
+    });
+  } catch (error) {
+    console.error("Error adding maintenance cost:", error);
+    return res.status(500).json({ message: "Failed to record cost" });
+  }
+};
+
+// ---------------------------------------------- DELETE MAINTENANCE COST ----------------------------------------------
+export const deleteMaintenanceCost = async (req, res) => {
+  try {
+    const { requestId, costId } = req.params;
+    const ownerId = req.user?.id;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const cost = await prisma.expense.findFirst({
+      where: {
+        id: costId,
+        maintenanceRequestId: requestId,
+        property: { ownerId }
+      }
+    });
+
+    if (!cost) {
+      return res.status(404).json({ message: "Cost not found" });
+    }
+
+    await prisma.expense.delete({ where: { id: costId } });
+
+    return res.json({ message: "Cost removed successfully" });
+  } catch (error) {
+    console.error("Error deleting maintenance cost:", error);
+    return res.status(500).json({ message: "Failed to remove cost" });
+  }
+};
+
+// ---------------------------------------------- GET CONTRACTORS ----------------------------------------------
+export const getContractors = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const contractors = await prisma.contractor.findMany({
+      where: { ownerId },
+      select: {
+        ...contractorSelect,
+        _count: { select: { workOrders: { where: { status: { not: "RESOLVED" } } } } }
+      },
+      orderBy: { name: "asc" }
+    });
+
+    return res.json(contractors.map(({ _count, ...contractor }) => ({
+      ...contractor,
+      openWorkOrders: _count.workOrders,
+    })));
+  } catch (error) {
+    console.error("Error fetching contractors:", error);
+    return res.status(500).json({ message: "Failed to fetch contractors" });
+  }
+};
+
+// ---------------------------------------------- CREATE CONTRACTOR ----------------------------------------------
+export const createContractor = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { name, company, specialty, phone, email } = req.body;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    if (!name?.trim()) {
+      return res.status(400).json({ message: "Contractor name is required" });
+    }
+
+    if (!phone?.trim() && !email?.trim()) {
+      return res.status(400).json({ message: "Add a phone number or email so the contractor can be reached" });
+    }
+
+    if (specialty && !MAINTENANCE_CATEGORIES.includes(specialty)) {
+      return res.status(400).json({ message: `Invalid specialty. Must be one of: ${MAINTENANCE_CATEGORIES.join(", ")}` });
+    }
+
+    const contractor = await prisma.contractor.create({
+      data: {
+        ownerId,
+        name: name.trim(),
+        company: company?.trim() || null,
+        specialty: specialty || null,
+        phone: phone?.trim() || null,
+        email: email?.trim() || null,
+      },
+      select: contractorSelect
+    });
+
+    return res.status(201).json({
+      message: "Contractor added successfully",
+      contractor: { ...contractor, openWorkOrders: 0 }
+    });
+  } catch (error) {
+    console.error("Error creating contractor:", error);
+    return res.status(500).json({ message: "Failed to add contractor" });
+  }
+};
+
+// ---------------------------------------------- DELETE CONTRACTOR ----------------------------------------------
+export const deleteContractor = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { contractorId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const contractor = await prisma.contractor.findFirst({ where: { id: contractorId, ownerId } });
+    if (!contractor) {
+      return res.status(404).json({ message: "Contractor not found" });
+    }
+
+    // Work orders keep their history; the assignee is cleared (onDelete: SetNull)
+    await prisma.contractor.delete({ where: { id: contractorId } });
+
+    return res.json({ message: "Contractor removed successfully" });
+  } catch (error) {
+    console.error("Error deleting contractor:", error);
+    return res.status(500).json({ message: "Failed to remove contractor" });
+  }
+};
+
 // ---------------------------------------------- GET MAINTENANCE STATISTICS ----------------------------------------------
 export const getMaintenanceStats = async (req, res) => {
   try {
@@ -393,7 +820,7 @@ export const getMaintenanceStats = async (req, res) => {
       .filter(r => r.status === "RESOLVED")
       .map(r => {
         const createdAt = new Date(r.createdAt);
-        const updatedAt = new Date(r.updatedAt);
+        const updatedAt = new Date(r.resolvedAt || r.updatedAt);
         const diffTime = updatedAt.getTime() - createdAt.getTime();
         const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
         return diffDays;
@@ -419,15 +846,21 @@ export const getMaintenanceStats = async (req, res) => {
       requestsByProperty[propertyTitle][request.status.toLowerCase().replace('_', '')]++;
     });
 
-    // Find urgent requests (open for more than 7 days)
+    // Urgent = unresolved HIGH/EMERGENCY work orders
     const now = new Date();
-    const urgentRequests = requests.filter(request => {
-      if (request.status !== "OPEN") return false;
-      const createdAt = new Date(request.createdAt);
-      const diffTime = now.getTime() - createdAt.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      return diffDays >= 7;
-    }).length;
+    const urgentRequests = requests.filter(request =>
+      request.status !== "RESOLVED" && (request.priority === "HIGH" || request.priority === "EMERGENCY")
+    ).length;
+
+    // SLA: open breaches and the share of resolved requests that met their deadlines
+    const slaStatuses = requests.map(request => ({ request, sla: getSlaStatus(request, now) }));
+    const slaBreachedRequests = slaStatuses.filter(({ request, sla }) =>
+      request.status !== "RESOLVED" && sla.state === "BREACHED"
+    ).length;
+    const resolvedSla = slaStatuses.filter(({ request }) => request.status === "RESOLVED");
+    const slaComplianceRate = resolvedSla.length > 0
+      ? Math.round((resolvedSla.filter(({ sla }) => sla.state === "MET").length / resolvedSla.length) * 100)
+      : 100;
 
     // Calculate resolution rate
     const resolutionRate = totalRequests > 0 ? Math.round((resolvedRequests / totalRequests) * 100) : 0;
@@ -439,6 +872,8 @@ export const getMaintenanceStats = async (req, res) => {
         inProgressRequests,
         resolvedRequests,
         urgentRequests,
+        slaBreachedRequests,
+        slaComplianceRate,
         resolutionRate,
         averageResolutionTime,
       },
@@ -483,6 +918,13 @@ export const deleteMaintenanceRequest = async (req, res) => {
       where: { id: requestId }
     });
 
+    // The request no longer counts toward the reporter's behavior analysis
+    try {
+      await refreshLeaseBehavior(await getMaintenanceRequestLeaseIds(existingRequest), "MAINTENANCE");
+    } catch (behaviorError) {
+      console.error("Error refreshing behavior analysis:", behaviorError);
+    }
+
     return res.json({ message: "Maintenance request deleted successfully" });
   } catch (error) {
     console.error("Error deleting maintenance request:", error);
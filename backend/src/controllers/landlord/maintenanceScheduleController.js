@@ -0,0 +1,304 @@
+// file: maintenanceScheduleController.js
+import prisma from "../../libs/prismaClient.js";
+import { MAINTENANCE_PRIORITIES, MAINTENANCE_CATEGORIES } from "../../services/maintenanceSlaService.js";
+import {
+  MAX_INTERVAL_MONTHS,
+  MAX_LEAD_DAYS,
+  addMonths,
+  getScheduleOccurrences
+} from "../../services/maintenanceScheduleService.js";
+
+const scheduleInclude = {
+  property: { select: { id: true, title: true } },
+  unit: { select: { id: true, label: true } },
+  contractor: { select: { id: true, name: true, company: true } },
+};
+
+/**
+ * Validate schedule fields from the request body. Only fields present in the body are
+ * checked, so the same helper serves create and partial update.
+ * Returns { data } or { status, message }.
+ */
+const buildScheduleData = async (body, ownerId, existing) => {
+  const { propertyId, unitId, title, description, category, priority, intervalMonths, nextDueAt, leadDays, contractorId, isActive } = body;
+  const data = {};
+
+  if (propertyId !== undefined || unitId !== undefined) {
+    const targetPropertyId = propertyId ?? existing?.propertyId;
+    const property = await prisma.property.findFirst({ where: { id: targetPropertyId, ownerId } });
+    if (!property) {
+      return { status: 404, message: "Property not found or not accessible" };
+    }
+    data.propertyId = property.id;
+
+    const targetUnitId = unitId !== undefined ? unitId : existing?.unitId;
+    if (targetUnitId) {
+      const unit = await prisma.unit.findFirst({ where: { id: targetUnitId, propertyId: property.id } });
+      if (!unit) {
+        return { status: 404, message: "Unit not found in this property" };
+      }
+    }
+    data.unitId = targetUnitId || null;
+  }
+
+  if (title !== undefined) {
+    if (!title?.trim()) {
+      return { status: 400, message: "Title is required" };
+    }
+    data.title = title.trim();
+  }
+
+  if (description !== undefined) {
+    data.description = description?.trim() || null;
+  }
+
+  if (category !== undefined) {
+    if (!MAINTENANCE_CATEGORIES.includes(category)) {
+      return { status: 400, message: `Invalid category. Must be one of: ${MAINTENANCE_CATEGORIES.join(", ")}` };
+    }
+    data.category = category;
+  }
+
+  if (priority !== undefined) {
+    if (!MAINTENANCE_PRIORITIES.includes(priority)) {
+      return { status: 400, message: `Invalid priority. Must be one of: ${MAINTENANCE_PRIORITIES.join(", ")}` };
+    }
+    data.priority = priority;
+  }
+
+  if (intervalMonths !== undefined) {
+    const months = Number(intervalMonths);
+    if (!Number.isInteger(months) || months < 1 || months > MAX_INTERVAL_MONTHS) {
+      return { status: 400, message: `Interval must be between 1 and ${MAX_INTERVAL_MONTHS} months` };
+    }
+    data.intervalMonths = months;
+  }
+
+  if (nextDueAt !== undefined) {
+    const dueAt = new Date(nextDueAt);
+    if (isNaN(dueAt.getTime())) {
+      return { status: 400, message: "Invalid due date" };
+    }
+    data.nextDueAt = dueAt;
+  }
+
+  if (leadDays !== undefined) {
+    const days = Number(leadDays);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_LEAD_DAYS) {
+      return { status: 400, message: `Lead time must be between 0 and ${MAX_LEAD_DAYS} days` };
+    }
+    data.leadDays = days;
+  }
+
+  if (contractorId !== undefined) {
+    if (contractorId) {
+      const contractor = await prisma.contractor.findFirst({ where: { id: contractorId, ownerId } });
+      if (!contractor) {
+        return { status: 404, message: "Contractor not found" };
+      }
+    }
+    data.contractorId = contractorId || null;
+  }
+
+  if (isActive !== undefined) {
+    data.isActive = Boolean(isActive);
+  }
+
+  return { data };
+};
+
+// ---------------------------------------------- GET MAINTENANCE SCHEDULES ----------------------------------------------
+export const getMaintenanceSchedules = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const schedules = await prisma.maintenanceSchedule.findMany({
+      where: { ownerId },
+      include: {
+        ...scheduleInclude,
+        _count: { select: { requests: { where: { status: { not: "RESOLVED" } } } } }
+      },
+      orderBy: [{ isActive: "desc" }, { nextDueAt: "asc" }]
+    });
+
+    return res.json(schedules.map(({ _count, ...schedule }) => ({
+      ...schedule,
+      openWorkOrders: _count.requests,
+    })));
+  } catch (error) {
+    console.error("Error fetching maintenance schedules:", error);
+    return res.status(500).json({ message: "Failed to fetch maintenance schedules" });
+  }
+};
+
+// ---------------------------------------------- CREATE MAINTENANCE SCHEDULE ----------------------------------------------
+export const createMaintenanceSchedule = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const { propertyId, title, intervalMonths, nextDueAt } = req.body;
+    if (!propertyId || !title?.trim() || intervalMonths === undefined || !nextDueAt) {
+      return res.status(400).json({ message: "Property, title, interval and first due date are required" });
+    }
+
+    const result = await buildScheduleData(req.body, ownerId, null);
+    if (!result.data) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const schedule = await prisma.maintenanceSchedule.create({
+      data: { ...result.data, ownerId },
+      include: scheduleInclude
+    });
+
+    return res.status(201).json({
+      message: "Maintenance schedule created successfully",
+      schedule: { ...schedule, openWorkOrders: 0 }
+    });
+  } catch (error) {
+    console.error("Error creating maintenance schedule:", error);
+    return res.status(500).json({ message: "Failed to create maintenance schedule" });
+  }
+};
+
+// ---------------------------------------------- UPDATE MAINTENANCE SCHEDULE ----------------------------------------------
+export const updateMaintenanceSchedule = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { scheduleId } = req.params;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const existing = await prisma.maintenanceSchedule.findFirst({ where: { id: scheduleId, ownerId } });
+    if (!existing) {
+      return res.status(404).json({ message: "Maintenance schedule not found" });
+    }
+
+    const result = await buildScheduleData(req.body, ownerId, existing);
+    if (!result.data) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const schedule = await prisma.maintenanceSchedule.update({
+      where: { id: scheduleId },
+      data: result.data,
+      include: scheduleInclude
+    });
+
+    return res.json({ message: "Maintenance schedule updated successfully", schedule });
+  } catch (error) {
+    console.error("Error updating maintenance schedule:", error);
+    return res.status(500).json({ message: "Failed to update maintenance schedule" });
+  }
+};
+
+// ---------------------------------------------- DELETE MAINTENANCE SCHEDULE ----------------------------------------------
+export const deleteMaintenanceSchedule = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { scheduleId } = req.params;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const schedule = await prisma.maintenanceSchedule.findFirst({ where: { id: scheduleId, ownerId } });
+    if (!schedule) {
+      return res.status(404).json({ message: "Maintenance schedule not found" });
+    }
+
+    // Work orders it already generated are kept (scheduleId is cleared)
+    await prisma.maintenanceSchedule.delete({ where: { id: scheduleId } });
+
+    return res.json({ message: "Maintenance schedule deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting maintenance schedule:", error);
+    return res.status(500).json({ message: "Failed to delete maintenance schedule" });
+  }
+};
+
+// ---------------------------------------------- GET PREVENTIVE MAINTENANCE CALENDAR ----------------------------------------------
+export const getMaintenanceScheduleCalendar = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    // Defaults to the current month; ranges are capped at a year
+    const today = new Date();
+    const from = req.query.from ? new Date(req.query.from) : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+    let to = req.query.to ? new Date(req.query.to) : addMonths(from, 1);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      return res.status(400).json({ message: "Invalid calendar range" });
+    }
+    if (to > addMonths(from, 12)) to = addMonths(from, 12);
+
+    const [schedules, workOrders] = await Promise.all([
+      prisma.maintenanceSchedule.findMany({
+        where: { ownerId, isActive: true, nextDueAt: { lte: to } },
+        include: scheduleInclude
+      }),
+      // Occurrences that were already turned into work orders
+      prisma.maintenanceRequest.findMany({
+        where: {
+          property: { ownerId },
+          scheduleId: { not: null },
+          resolutionDueAt: { gte: from, lte: to }
+        },
+        select: {
+          id: true,
+          scheduleId: true,
+          description: true,
+          status: true,
+          priority: true,
+          category: true,
+          resolutionDueAt: true,
+          ...scheduleInclude
+        }
+      })
+    ]);
+
+    const events = [
+      ...workOrders.map(request => ({
+        id: `request_${request.id}`,
+        scheduleId: request.scheduleId,
+        maintenanceRequestId: request.id,
+        title: request.description,
+        category: request.category,
+        priority: request.priority,
+        dueAt: request.resolutionDueAt,
+        status: request.status,
+        property: request.property,
+        unit: request.unit,
+        contractor: request.contractor,
+      })),
+      ...schedules.flatMap(schedule =>
+        getScheduleOccurrences(schedule, from, to).map(dueAt => ({
+          id: `schedule_${schedule.id}_${dueAt.getTime()}`,
+          scheduleId: schedule.id,
+          maintenanceRequestId: null,
+          title: schedule.title,
+          category: schedule.category,
+          priority: schedule.priority,
+          dueAt,
+          status: "PLANNED",
+          property: schedule.property,
+          unit: schedule.unit,
+          contractor: schedule.contractor,
+        }))
+      )
+    ].sort((a, b) => new Date(a.dueAt) - new Date(b.dueAt));
+
+    return res.json({ from, to, events });
+  } catch (error) {
+    console.error("Error fetching maintenance calendar:", error);
+    return res.status(500).json({ message: "Failed to fetch maintenance calendar" });
+  }
+};
@@ -1,6 +1,33 @@
 // file: messageController.js
 import prisma from "../../libs/prismaClient.js";
 import { createMessageNotification } from "../../services/notificationService.js";
+import { emitToUser, markConversationRead } from "../../services/realtimeService.js";
+import {
+  messageAttachmentSelect,
+  buildMessageAttachments,
+  formatMessageAttachment,
+  removeMessageAttachmentFiles
+} from "../../services/messageAttachmentService.js";
+import { removeUploadedMessageFiles } from "../../middlewares/messageAttachmentUpload.js";
+import {
+  conversationScopeInclude,
+  formatConversationMeta,
+  conversationsForUser,
+  setConversationArchived,
+  touchConversation,
+  resolveConversationScope,
+  findOrCreateConversation,
+  searchConversationMessages
+} from "../../services/conversationService.js";
+
+const participantSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  avatarUrl: true,
+  role: true,
+};
 
 // Helper function to check if a conversation is an inquiry
 const checkIfInquiry = async (tenantId, landlordId) => {
@@ -38,15 +65,11 @@ export const getLandlordConversations = async (req, res) => {
       return res.status(401).json({ message: "Unauthorized: owner not found" });
     }
 
-    // Get all conversations where the landlord is either userA or userB
+    // Inbox by default, ?archived=true for the landlord's archived threads
     const conversations = await prisma.conversation.findMany({
-      where: {
-        OR: [
-          { userAId: ownerId },
-          { userBId: ownerId }
-        ]
-      },
+      where: conversationsForUser(ownerId, req.query.archived === "true"),
       include: {
+        ...conversationScopeInclude,
         userA: {
           select: {
             id: true,
@@ -78,7 +101,8 @@ export const getLandlordConversations = async (req, res) => {
                 lastName: true,
                 avatarUrl: true,
               }
-            }
+            },
+            _count: { select: { attachments: true } }
           }
         },
         _count: {
@@ -139,6 +163,7 @@ export const getLandlordConversations = async (req, res) => {
         lastMessage: lastMessage ? {
           id: lastMessage.id,
           content: lastMessage.content,
+          attachmentCount: lastMessage._count.attachments,
           isRead: lastMessage.isRead,
           createdAt: lastMessage.createdAt,
           sender: {
@@ -154,6 +179,7 @@ export const getLandlordConversations = async (req, res) => {
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
         isInquiry: isInquiry, // Dynamic inquiry check
+        ...formatConversationMeta(conversation, ownerId),
       };
     }));
 
@@ -188,6 +214,7 @@ export const getConversationMessages = async (req, res) => {
         ]
       },
       include: {
+        ...conversationScopeInclude,
         userA: {
           select: {
             id: true,
@@ -228,20 +255,14 @@ export const getConversationMessages = async (req, res) => {
             avatarUrl: true,
             role: true,
           }
-        }
+        },
+        attachments: { select: messageAttachmentSelect, orderBy: { createdAt: "asc" } }
       },
       orderBy: { createdAt: "asc" },
     });
 
-    // Mark messages as read (only messages from other user)
-    await prisma.message.updateMany({
-      where: {
-        conversationId: conversationId,
-        senderId: { not: ownerId },
-        isRead: false
-      },
-      data: { isRead: true }
-    });
+    // Mark messages as read (only messages from other user) and send the read receipt live
+    await markConversationRead(conversation, ownerId);
 
     // Format the response
     const formattedMessages = messages.map((message) => ({
@@ -249,6 +270,7 @@ export const getConversationMessages = async (req, res) => {
       conversationId: message.conversationId,
       senderId: message.senderId,
       content: message.content,
+      attachments: message.attachments.map(formatMessageAttachment),
       isRead: message.isRead,
       createdAt: message.createdAt,
       sender: {
@@ -279,6 +301,7 @@ export const getConversationMessages = async (req, res) => {
         },
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
+        ...formatConversationMeta(conversation, ownerId),
       },
       messages: formattedMessages
     });
@@ -293,13 +316,17 @@ export const sendMessage = async (req, res) => {
   try {
     const { conversationId, content } = req.body;
     const senderId = req.user?.id;
+    const files = req.files || [];
 
     if (!senderId) {
+      removeUploadedMessageFiles(files);
       return res.status(401).json({ message: "Unauthorized: user not found" });
     }
 
-    if (!conversationId || !content) {
-      return res.status(400).json({ message: "Conversation ID and content are required" });
+    // A message needs text, at least one attachment, or both
+    if (!conversationId || (!content?.trim() && files.length === 0)) {
+      removeUploadedMessageFiles(files);
+      return res.status(400).json({ message: "Conversation ID and a message or attachment are required" });
     }
 
     // Verify the conversation belongs to the user
@@ -314,6 +341,7 @@ export const sendMessage = async (req, res) => {
     });
 
     if (!conversation) {
+      removeUploadedMessageFiles(files);
       return res.status(404).json({ message: "Conversation not found or not accessible" });
     }
 
@@ -322,7 +350,8 @@ export const sendMessage = async (req, res) => {
       data: {
         conversationId: conversationId,
         senderId: senderId,
-        content: content.trim(),
+        content: content?.trim() || "",
+        attachments: { create: buildMessageAttachments(files) },
       },
       include: {
         sender: {
@@ -334,15 +363,13 @@ export const sendMessage = async (req, res) => {
             avatarUrl: true,
             role: true,
           }
-        }
+        },
+        attachments: { select: messageAttachmentSelect, orderBy: { createdAt: "asc" } }
       }
     });
 
-    // Update conversation's updatedAt timestamp
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: { updatedAt: new Date() }
-    });
+    // Update conversation's updatedAt timestamp (and un-archive it for both sides)
+    await touchConversation(conversationId);
 
     // Get the recipient (other user in the conversation)
     const recipientId = conversation.userAId === senderId ? conversation.userBId : conversation.userAId;
@@ -359,27 +386,33 @@ export const sendMessage = async (req, res) => {
       // Don't fail the message send if notification fails
     }
 
-    return res.json({
-      message: {
-        id: message.id,
-        conversationId: message.conversationId,
-        senderId: message.senderId,
-        content: message.content,
-        isRead: message.isRead,
-        createdAt: message.createdAt,
-        sender: {
-          id: message.sender.id,
-          firstName: message.sender.firstName,
-          lastName: message.sender.lastName,
-          email: message.sender.email,
-          avatarUrl: message.sender.avatarUrl,
-          role: message.sender.role,
-          fullName: `${message.sender.firstName || ''} ${message.sender.lastName || ''}`.trim() || message.sender.email,
-        }
+    const formattedMessage = {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      content: message.content,
+      attachments: message.attachments.map(formatMessageAttachment),
+      isRead: message.isRead,
+      createdAt: message.createdAt,
+      sender: {
+        id: message.sender.id,
+        firstName: message.sender.firstName,
+        lastName: message.sender.lastName,
+        email: message.sender.email,
+        avatarUrl: message.sender.avatarUrl,
+        role: message.sender.role,
+        fullName: `${message.sender.firstName || ''} ${message.sender.lastName || ''}`.trim() || message.sender.email,
       }
-    });
+    };
+
+    // Deliver live to the recipient and to the sender's other open tabs
+    emitToUser(recipientId, "message:new", { message: formattedMessage });
+    emitToUser(senderId, "message:new", { message: formattedMessage });
+
+    return res.json({ message: formattedMessage });
   } catch (error) {
     console.error("Error sending message:", error);
+    removeUploadedMessageFiles(req.files);
     return res.status(500).json({ message: "Failed to send message" });
   }
 };
@@ -405,7 +438,8 @@ export const deleteMessage = async (req, res) => {
         senderId: userId, // Only sender can delete their own message
       },
       include: {
-        conversation: true
+        conversation: true,
+        attachments: { select: { storedName: true } }
       }
     });
 
@@ -425,13 +459,15 @@ export const deleteMessage = async (req, res) => {
         permanentlyDeleted: true
       });
     } else {
-      // Mark message as deleted (soft delete)
+      // Mark message as deleted (soft delete); its attachments are removed for good
       const updatedMessage = await prisma.message.update({
         where: { id: messageId },
         data: {
-          content: "This message was deleted"
+          content: "This message was deleted",
+          attachments: { deleteMany: {} }
         }
       });
+      removeMessageAttachmentFiles(message.attachments);
 
       return res.json({
         message: "Message deleted successfully",
@@ -450,7 +486,7 @@ export const deleteMessage = async (req, res) => {
 // ---------------------------------------------- CREATE OR GET CONVERSATION ----------------------------------------------
 export const createOrGetConversation = async (req, res) => {
   try {
-    const { otherUserId } = req.body;
+    const { otherUserId, unitId, leaseId } = req.body;
     const currentUserId = req.user?.id;
 
     if (!currentUserId) {
@@ -465,70 +501,18 @@ export const createOrGetConversation = async (req, res) => {
       return res.status(400).json({ message: "Cannot create conversation with yourself" });
     }
 
-    // Check if conversation already exists
-    let conversation = await prisma.conversation.findFirst({
-      where: {
-        OR: [
-          { userAId: currentUserId, userBId: otherUserId },
-          { userAId: otherUserId, userBId: currentUserId }
-        ]
-      },
-      include: {
-        userA: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            avatarUrl: true,
-            role: true,
-          }
-        },
-        userB: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            avatarUrl: true,
-            role: true,
-          }
-        }
-      }
-    });
-
-    // If conversation doesn't exist, create it
-    if (!conversation) {
-      conversation = await prisma.conversation.create({
-        data: {
-          userAId: currentUserId,
-          userBId: otherUserId,
-        },
-        include: {
-          userA: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              avatarUrl: true,
-              role: true,
-            }
-          },
-          userB: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              avatarUrl: true,
-              role: true,
-            }
-          }
-        }
-      });
+    // Optional unit/lease thread; without one this is the pair's general conversation
+    const scope = await resolveConversationScope({ landlordId: currentUserId, tenantId: otherUserId, unitId, leaseId });
+    if (!scope.data) {
+      return res.status(scope.status).json({ message: scope.message });
     }
 
+    const conversation = await findOrCreateConversation(currentUserId, otherUserId, scope.data, {
+      userA: { select: participantSelect },
+      userB: { select: participantSelect },
+      ...conversationScopeInclude,
+    });
+
     const otherUser = conversation.userAId === currentUserId ? conversation.userB : conversation.userA;
 
     return res.json({
@@ -546,6 +530,7 @@ export const createOrGetConversation = async (req, res) => {
         },
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
+        ...formatConversationMeta(conversation, currentUserId),
       }
     });
   } catch (error) {
@@ -554,18 +539,24 @@ export const createOrGetConversation = async (req, res) => {
   }
 };
 
-// ---------------------------------------------- DELETE CONVERSATION ----------------------------------------------
-export const deleteConversation = async (req, res) => {
+// ---------------------------------------------- UPDATE CONVERSATION (TITLE / ARCHIVE) ----------------------------------------------
+// Archiving replaces deleting: the thread leaves the landlord's inbox but the history is kept
+export const updateConversation = async (req, res) => {
   try {
     const { conversationId } = req.params;
+    const { title, archived } = req.body;
     const ownerId = req.user?.id;
 
     if (!ownerId) {
       return res.status(401).json({ message: "Unauthorized: owner not found" });
     }
 
-    if (!conversationId) {
-      return res.status(400).json({ message: "Conversation ID is required" });
+    if (title === undefined && archived === undefined) {
+      return res.status(400).json({ message: "Nothing to update" });
+    }
+
+    if (title !== undefined && title !== null && (typeof title !== "string" || title.trim().length > 100)) {
+      return res.status(400).json({ message: "Title must be at most 100 characters" });
     }
 
     // Verify the conversation belongs to the user
@@ -583,15 +574,52 @@ export const deleteConversation = async (req, res) => {
       return res.status(404).json({ message: "Conversation not found or not accessible" });
     }
 
-    // Delete the conversation (messages will be deleted due to cascade)
-    await prisma.conversation.delete({
-      where: { id: conversationId }
+    let updated = conversation;
+    if (title !== undefined) {
+      // Renaming is shared by both participants; an empty title falls back to the other user's name
+      updated = await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { title: title?.trim() || null, updatedAt: conversation.updatedAt }
+      });
+    }
+    if (archived !== undefined) {
+      updated = await setConversationArchived(updated, ownerId, Boolean(archived));
+    }
+
+    return res.json({
+      message: archived === undefined
+        ? "Conversation updated successfully"
+        : archived ? "Conversation archived" : "Conversation moved to inbox",
+      conversation: {
+        id: updated.id,
+        title: updated.title,
+        ...formatConversationMeta(updated, ownerId),
+      }
     });
+  } catch (error) {
+    console.error("Error updating conversation:", error);
+    return res.status(500).json({ message: "Failed to update conversation" });
+  }
+};
+
+// ---------------------------------------------- SEARCH MESSAGES ----------------------------------------------
+export const searchMessages = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const query = typeof req.query.q === "string" ? req.query.q : "";
+    if (query.trim().length < 2) {
+      return res.status(400).json({ message: "Search query must be at least 2 characters" });
+    }
 
-    return res.json({ message: "Conversation deleted successfully" });
+    const results = await searchConversationMessages(ownerId, query);
+    return res.json({ query: query.trim(), results });
   } catch (error) {
-    console.error("Error deleting conversation:", error);
-    return res.status(500).json({ message: "Failed to delete conversation" });
+    console.error("Error searching messages:", error);
+    return res.status(500).json({ message: "Failed to search messages" });
   }
 };
 
@@ -603,14 +631,9 @@ export const getMessageStats = async (req, res) => {
       return res.status(401).json({ message: "Unauthorized: owner not found" });
     }
 
-    // Get conversation and message statistics
+    // Get conversation and message statistics (conversation counts are for the inbox)
     const totalConversations = await prisma.conversation.count({
-      where: {
-        OR: [
-          { userAId: ownerId },
-          { userBId: ownerId }
-        ]
-      }
+      where: conversationsForUser(ownerId)
     });
 
     const totalMessages = await prisma.message.count({
@@ -643,10 +666,7 @@ export const getMessageStats = async (req, res) => {
 
     const recentConversations = await prisma.conversation.count({
       where: {
-        OR: [
-          { userAId: ownerId },
-          { userBId: ownerId }
-        ],
+        ...conversationsForUser(ownerId),
         updatedAt: {
           gte: sevenDaysAgo
         }
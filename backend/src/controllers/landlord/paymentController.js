@@ -1,5 +1,10 @@
 import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
 import { createPaymentNotification } from "../../services/notificationService.js";
+import { applyPaymentToSchedule, describeLateFeeRule, getLeaseRentSchedule } from "../../services/rentScheduleService.js";
+import { refreshLeaseBehavior } from "../../services/tenantBehaviorService.js";
+import { refundPaymentIntent } from "../../services/paymentService.js";
+import { resolveConversationScope, findOrCreateConversation, touchConversation } from "../../services/conversationService.js";
 
 // ---------------------------------------------- GET LANDLORD PAYMENTS ----------------------------------------------
 export const getLandlordPayments = async (req, res) => {
@@ -159,6 +164,10 @@ export const getPaymentDetails = async (req, res) => {
               }
             }
           }
+        },
+        charge: true,
+        intent: {
+          select: { id: true, provider: true, status: true, failureReason: true }
         }
       }
     });
@@ -167,6 +176,23 @@ export const getPaymentDetails = async (req, res) => {
       return res.status(404).json({ message: "Payment not found" });
     }
 
+    // Late fees assessed on this lease, so the landlord sees what is owed beyond rent
+    const lateFeeCharges = await prisma.rentCharge.findMany({
+      where: { leaseId: payment.leaseId, type: "LATE_FEE" },
+      include: { allocations: { select: { amount: true } } },
+      orderBy: { dueDate: "asc" }
+    });
+
+    const lateFees = lateFeeCharges.map(fee => ({
+      id: fee.id,
+      periodStart: fee.periodStart,
+      dueDate: fee.dueDate,
+      amount: fee.amount,
+      amountPaid: fee.allocations.reduce((sum, a) => sum + a.amount, 0),
+      status: fee.status,
+      paidAt: fee.paidAt
+    }));
+
     return res.json({
       id: payment.id,
       amount: payment.amount,
@@ -179,7 +205,10 @@ export const getPaymentDetails = async (req, res) => {
       note: payment.note,
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
-      lease: payment.lease
+      lease: payment.lease,
+      charge: payment.charge,
+      intent: payment.intent,
+      lateFees
     });
   } catch (error) {
     console.error("Error fetching payment details:", error);
@@ -215,13 +244,19 @@ export const updatePaymentStatus = async (req, res) => {
             }
           }
         }
-      }
+      },
+      include: { intent: { select: { id: true } } }
     });
 
     if (!existingPayment) {
       return res.status(404).json({ message: "Payment not found" });
     }
 
+    // Provider payments move only through provider events (confirm / webhook / refund)
+    if (existingPayment.intent && status && status !== existingPayment.status) {
+      return res.status(400).json({ message: "This payment's status is managed by the payment provider" });
+    }
+
     // Update payment
     const updateData = {};
     if (status) {
@@ -265,6 +300,18 @@ export const updatePaymentStatus = async (req, res) => {
       }
     });
 
+    // Re-evaluate the installment this payment settles
+    if (status && status !== existingPayment.status) {
+      try {
+        await applyPaymentToSchedule(updatedPayment.id);
+      } catch (scheduleError) {
+        console.error("Error applying payment to rent schedule:", scheduleError);
+      }
+
+      // Payment timing feeds the tenant's behavior analysis
+      await refreshLeaseBehavior([updatedPayment.leaseId], "PAYMENT");
+    }
+
     // Create notification if payment status changed
     if (status && status !== existingPayment.status) {
       try {
@@ -296,6 +343,58 @@ export const updatePaymentStatus = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- REFUND PAYMENT ----------------------------------------------
+export const refundPayment = async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+    const ownerId = req.user?.id;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const payment = await prisma.payment.findFirst({
+      where: {
+        id: paymentId,
+        lease: {
+          unit: {
+            property: {
+              ownerId: ownerId
+            }
+          }
+        }
+      },
+      include: { intent: true }
+    });
+
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+
+    if (!payment.intent) {
+      return res.status(400).json({ message: "Only payments made through the payment provider can be refunded" });
+    }
+
+    if (payment.status !== "PAID" || payment.intent.status !== "SUCCEEDED") {
+      return res.status(400).json({ message: "Only paid payments can be refunded" });
+    }
+
+    // The payment turns REFUNDED when the provider's refund webhook arrives
+    await refundPaymentIntent(payment.intent);
+
+    return res.json({
+      message: "Refund requested. The payment will be marked as refunded once the provider confirms it.",
+      payment: {
+        id: payment.id,
+        status: payment.status
+      }
+    });
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+    return res.status(500).json({ message: "Failed to refund payment" });
+  }
+};
+
 // ---------------------------------------------- GET PAYMENT STATISTICS ----------------------------------------------
 export const getPaymentStats = async (req, res) => {
   try {
@@ -472,6 +571,9 @@ export const getLeasePaymentHistory = async (req, res) => {
       orderBy: { createdAt: 'desc' }
     });
 
+    // Expected installments (upcoming, due, overdue, paid)
+    const schedule = await getLeaseRentSchedule(leaseId);
+
     return res.json({
       lease: {
         id: lease.id,
@@ -492,8 +594,10 @@ export const getLeasePaymentHistory = async (req, res) => {
         timingStatus: payment.timingStatus,
         isPartial: payment.isPartial,
         note: payment.note,
+        chargeId: payment.chargeId,
         createdAt: payment.createdAt
-      }))
+      })),
+      schedule
     });
   } catch (error) {
     console.error("Error fetching lease payment history:", error);
@@ -550,11 +654,12 @@ export const sendPaymentReminder = async (req, res) => {
     }
 
     // Create reminder message (no conditions - just send like inquiry system)
+    const lateFeeRule = describeLateFeeRule(lease);
     const defaultMessage = `Hello ${lease.tenant.firstName || 'Tenant'},
 
 This is a friendly reminder about your rent payment for ${lease.unit.property.title} - ${lease.unit.label}.
 
-Please make your payment as soon as possible to avoid any late fees.
+Please make your payment as soon as possible to avoid any late fees.${lateFeeRule ? ` ${lateFeeRule}` : ''}
 
 Thank you for your prompt attention to this matter.
 
@@ -563,27 +668,13 @@ Your Landlord`;
 
     const reminderContent = message || defaultMessage;
 
-    // Create a pre-message in the conversation between landlord and tenant
-    // First, find or create a conversation between the landlord and tenant
-    let conversation = await prisma.conversation.findFirst({
-      where: {
-        OR: [
-          { userAId: ownerId, userBId: lease.tenant.id },
-          { userAId: lease.tenant.id, userBId: ownerId }
-        ]
-      }
-    });
-
-    if (!conversation) {
-      // Create new conversation if it doesn't exist
-      conversation = await prisma.conversation.create({
-        data: {
-          userAId: ownerId,
-          userBId: lease.tenant.id,
-          title: `Conversation with ${lease.tenant.firstName} ${lease.tenant.lastName}`
-        }
-      });
+    // Create a pre-message in the lease's thread between landlord and tenant
+    // (found or created, so reminders don't mix with other units' conversations)
+    const scope = await resolveConversationScope({ landlordId: ownerId, tenantId: lease.tenant.id, leaseId: lease.id });
+    if (!scope.data) {
+      return res.status(scope.status).json({ message: scope.message });
     }
+    const conversation = await findOrCreateConversation(ownerId, lease.tenant.id, scope.data);
 
     // Create the payment reminder message
     const reminderMessage = await prisma.message.create({
@@ -595,22 +686,12 @@ Your Landlord`;
       }
     });
 
-    // Update conversation's updatedAt timestamp
-    await prisma.conversation.update({
-      where: { id: conversation.id },
-      data: { updatedAt: new Date() }
-    });
+    // Update conversation's updatedAt timestamp (and un-archive it for both sides)
+    await touchConversation(conversation.id);
 
     // Create notification for the tenant
     try {
-      await prisma.notification.create({
-        data: {
-          userId: lease.tenant.id,
-          type: "PAYMENT_REMINDER",
-          message: `Payment Reminder: Your landlord has sent you a payment reminder for ${lease.unit.property.title} - ${lease.unit.label}. Please check your messages.`,
-          status: "UNREAD"
-        }
-      });
+      await createNotification(lease.tenant.id, "PAYMENT_REMINDER", `Payment Reminder: Your landlord has sent you a payment reminder for ${lease.unit.property.title} - ${lease.unit.label}. Please check your messages.`);
     } catch (notificationError) {
       console.error("Error creating payment reminder notification:", notificationError);
     }
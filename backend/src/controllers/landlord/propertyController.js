@@ -472,13 +472,21 @@ export const getPropertyUnits = async (req, res) => {
         // Views
         viewCount: true,
 
-        // Reviews summary only
+        // Reviews summary only (published reviews)
         _count: {
-          select: { reviews: true },
+          select: { reviews: { where: { status: "PUBLISHED" } } },
         },
         reviews: {
+          where: { status: "PUBLISHED" },
           select: { rating: true },
         },
+
+        // Scheduled move-out (tenant gave notice)
+        Lease: {
+          where: { status: "ACTIVE", termination: { status: "NOTICE" } },
+          select: { termination: { select: { moveOutDate: true } } },
+          take: 1,
+        },
       },
       orderBy: { createdAt: "desc" },
     });
@@ -496,11 +504,12 @@ export const getPropertyUnits = async (req, res) => {
       // round to nearest whole star (0–5)
       const starRating = Math.round(decimalAvg);
 
-      const { reviews, _count, ...rest } = unit;
+      const { reviews, _count, Lease, ...rest } = unit;
 
       return {
         ...rest,
         isListed: unit.listedAt !== null,  // boolean for UI
+        moveOutDate: Lease[0]?.termination?.moveOutDate || null,
         reviewsSummary: {
           total,
           average: starRating, // 👈 only 0–5 now
@@ -539,6 +548,7 @@ export const getUnitDetails = async (req, res) => {
       include: {
         amenities: true,
         reviews: {
+          where: { status: "PUBLISHED" },
           take: 10,
           orderBy: { createdAt: "desc" },
           select: {
@@ -546,6 +556,8 @@ export const getUnitDetails = async (req, res) => {
             rating: true,
             comment: true,
             createdAt: true,
+            landlordReply: true,
+            landlordRepliedAt: true,
             tenant: {
               select: {
                 id: true,
@@ -566,6 +578,18 @@ export const getUnitDetails = async (req, res) => {
             municipality: { select: { name: true } },
           },
         },
+        listings: {
+          take: 1,
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            status: true,
+            amount: true,
+            paymentStatus: true,
+            paidAt: true,
+            receiptNumber: true,
+          },
+        },
       },
     });
 
@@ -575,14 +599,14 @@ export const getUnitDetails = async (req, res) => {
         .json({ message: "Unit not found or not accessible" });
     }
 
-    // --- Count total reviews ---
+    // --- Count total published reviews ---
     const totalReviews = await prisma.unitReview.count({
-      where: { unitId: unit.id },
+      where: { unitId: unit.id, status: "PUBLISHED" },
     });
 
     // --- Compute average rating ---
     const avgRating = await prisma.unitReview.aggregate({
-      where: { unitId: unit.id },
+      where: { unitId: unit.id, status: "PUBLISHED" },
       _avg: { rating: true },
     });
 
@@ -601,8 +625,10 @@ export const getUnitDetails = async (req, res) => {
       .join(", ");
 
     // --- Response ---
+    const { listings, ...unitData } = unit;
     return res.json({
-      ...unit,
+      ...unitData,
+      latestListing: listings[0] || null,
       isListed: unit.listedAt != null, // derived flag
       listedAt: unit.listedAt, // raw datetime
       property: {
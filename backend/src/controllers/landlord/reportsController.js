@@ -1,4 +1,6 @@
 import prisma from "../../libs/prismaClient.js";
+import { calculateRenewalMetrics } from "../../services/leaseRenewalService.js";
+import { getCurrentBehaviorSnapshots } from "../../services/tenantBehaviorService.js";
 
 // ---------------------------------------------- GET PROPERTY PERFORMANCE REPORTS ----------------------------------------------
 export const getPropertyPerformanceReport = async (req, res) => {
@@ -95,6 +97,12 @@ export const getPropertyPerformanceReport = async (req, res) => {
       // Calculate expenses
       const totalExpenses = property.Expense.reduce((sum, expense) => sum + expense.amount, 0);
       
+      // Maintenance work order costs (labor/parts expenses linked to a request)
+      const maintenanceCost = property.Expense
+        .filter(expense => expense.maintenanceRequestId)
+        .reduce((sum, expense) => sum + expense.amount, 0);
+      const maintenanceCostPerUnit = totalUnits > 0 ? maintenanceCost / totalUnits : 0;
+
       // Calculate net income
       const netIncome = totalRevenue - totalExpenses;
       
@@ -111,6 +119,8 @@ export const getPropertyPerformanceReport = async (req, res) => {
         occupancyRate: Math.round(occupancyRate * 100) / 100,
         totalRevenue,
         totalExpenses,
+        maintenanceCost,
+        maintenanceCostPerUnit: Math.round(maintenanceCostPerUnit * 100) / 100,
         netIncome,
         roi: Math.round(roi * 100) / 100,
         address: `${property.street}, ${property.barangay}`,
@@ -131,6 +141,7 @@ export const getPropertyPerformanceReport = async (req, res) => {
     const totalRevenue = propertyPerformance.reduce((sum, p) => sum + p.totalRevenue, 0);
     const totalExpenses = propertyPerformance.reduce((sum, p) => sum + p.totalExpenses, 0);
     const totalNetIncome = totalRevenue - totalExpenses;
+    const totalMaintenanceCost = propertyPerformance.reduce((sum, p) => sum + p.maintenanceCost, 0);
 
     return res.json({
       period,
@@ -144,6 +155,8 @@ export const getPropertyPerformanceReport = async (req, res) => {
         totalRevenue,
         totalExpenses,
         totalNetIncome,
+        totalMaintenanceCost,
+        maintenanceCostPerUnit: totalUnits > 0 ? Math.round((totalMaintenanceCost / totalUnits) * 100) / 100 : 0,
         averageROI: totalProperties > 0 ? 
           Math.round((propertyPerformance.reduce((sum, p) => sum + p.roi, 0) / totalProperties) * 100) / 100 : 0
       },
@@ -201,7 +214,9 @@ export const getFinancialTrendsReport = async (req, res) => {
         status: 'PAID',
         paidAt: {
           gte: startDate
-        }
+        },
+        // Collected late fees are counted through their Income rows
+        OR: [{ chargeId: null }, { charge: { type: { not: "LATE_FEE" } } }]
       },
       select: {
         amount: true,
@@ -400,34 +415,33 @@ export const getTenantAnalyticsReport = async (req, res) => {
             timingStatus: true,
             paidAt: true,
             createdAt: true
-          }
-        },
-        TenantBehaviorAnalysis: {
-          select: {
-            paymentReliability: true,
-            maintenanceRequestsCount: true,
-            aiRiskScore: true,
-            riskLevel: true,
-            aiSummary: true
-          }
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 3 // Recent payments for the list
         }
       }
     });
 
+    // Behavior metrics come from each lease's stored analysis instead of scanning every payment
+    const leaseIds = leases.map(lease => lease.id);
+    const snapshots = await getCurrentBehaviorSnapshots(leaseIds);
+    const analyses = leases.map(lease => snapshots.get(lease.id)).filter(Boolean);
+
+    const paymentCounts = await prisma.payment.groupBy({
+      by: ['status'],
+      where: { leaseId: { in: leaseIds } },
+      _count: { _all: true }
+    });
+
     // Calculate tenant metrics
     const totalTenants = leases.length;
-    const totalPayments = leases.reduce((sum, lease) => sum + lease.payments.length, 0);
-    const paidPayments = leases.reduce((sum, lease) => 
-      sum + lease.payments.filter(p => p.status === 'PAID').length, 0
-    );
-    const onTimePayments = leases.reduce((sum, lease) => 
-      sum + lease.payments.filter(p => p.timingStatus === 'ONTIME').length, 0
-    );
-    const latePayments = leases.reduce((sum, lease) => 
-      sum + lease.payments.filter(p => p.timingStatus === 'LATE').length, 0
-    );
-
-    const paymentReliability = totalPayments > 0 ? (onTimePayments / totalPayments) * 100 : 0;
+    const totalPayments = paymentCounts.reduce((sum, group) => sum + group._count._all, 0);
+    const paidPayments = paymentCounts.find(group => group.status === 'PAID')?._count._all || 0;
+    const settledPayments = analyses.reduce((sum, analysis) => sum + analysis.totalPayments, 0);
+    const onTimePayments = analyses.reduce((sum, analysis) => sum + analysis.onTimePayments, 0);
+    const latePayments = analyses.reduce((sum, analysis) => sum + analysis.latePayments, 0);
+
+    const paymentReliability = settledPayments > 0 ? (onTimePayments / settledPayments) * 100 : 0;
     const paymentSuccessRate = totalPayments > 0 ? (paidPayments / totalPayments) * 100 : 0;
 
     // Calculate risk distribution
@@ -438,37 +452,42 @@ export const getTenantAnalyticsReport = async (req, res) => {
     };
 
     leases.forEach(lease => {
-      if (lease.TenantBehaviorAnalysis.length > 0) {
-        const analysis = lease.TenantBehaviorAnalysis[0];
-        if (analysis.riskLevel) {
-          riskDistribution[analysis.riskLevel.toLowerCase()]++;
-        }
+      const analysis = snapshots.get(lease.id);
+      if (analysis?.riskLevel) {
+        riskDistribution[analysis.riskLevel.toLowerCase()]++;
       } else {
         // Default to medium risk if no analysis
         riskDistribution.medium++;
       }
     });
 
-    // Calculate average metrics
-    const avgPaymentReliability = leases.reduce((sum, lease) => {
-      if (lease.TenantBehaviorAnalysis.length > 0) {
-        return sum + (lease.TenantBehaviorAnalysis[0].paymentReliability || 0);
-      }
-      return sum;
-    }, 0) / totalTenants;
+    // Calculate average metrics (reliability over tenants who have paid at least once)
+    const ratedAnalyses = analyses.filter(analysis => analysis.paymentReliability !== null);
+    const avgPaymentReliability = ratedAnalyses.length > 0
+      ? ratedAnalyses.reduce((sum, analysis) => sum + analysis.paymentReliability, 0) / ratedAnalyses.length
+      : 0;
 
-    const avgMaintenanceRequests = leases.reduce((sum, lease) => {
-      if (lease.TenantBehaviorAnalysis.length > 0) {
-        return sum + (lease.TenantBehaviorAnalysis[0].maintenanceRequestsCount || 0);
-      }
-      return sum;
-    }, 0) / totalTenants;
+    const avgMaintenanceRequests = totalTenants > 0
+      ? analyses.reduce((sum, analysis) => sum + analysis.maintenanceRequestsCount, 0) / totalTenants
+      : 0;
+
+    // Renewal rate and tenancy length come from every lease's renewal chain, not just active ones
+    const leaseHistory = await prisma.lease.findMany({
+      where: {
+        unit: {
+          property: {
+            ownerId: ownerId
+          }
+        }
+      },
+      select: { id: true, previousLeaseId: true, startDate: true, endDate: true, status: true }
+    });
+    const renewalMetrics = calculateRenewalMetrics(leaseHistory);
 
     // Get tenant details for the list
     const tenantDetails = leases.map(lease => {
-      const analysis = lease.TenantBehaviorAnalysis[0] || {};
-      const recentPayments = lease.payments.slice(-3); // Last 3 payments
-      
+      const analysis = snapshots.get(lease.id) || {};
+
       return {
         tenantId: lease.tenant.id,
         tenantName: `${lease.tenant.firstName || ''} ${lease.tenant.lastName || ''}`.trim(),
@@ -482,7 +501,8 @@ export const getTenantAnalyticsReport = async (req, res) => {
         riskLevel: analysis.riskLevel || 'MEDIUM',
         aiRiskScore: analysis.aiRiskScore || 0,
         aiSummary: analysis.aiSummary || 'No analysis available',
-        recentPayments: recentPayments.map(p => ({
+        lastAnalysisDate: analysis.updatedAt || null,
+        recentPayments: lease.payments.map(p => ({
           amount: p.amount,
           status: p.status,
           timingStatus: p.timingStatus,
@@ -502,7 +522,13 @@ export const getTenantAnalyticsReport = async (req, res) => {
       riskDistribution,
       averageMetrics: {
         paymentReliability: Math.round(avgPaymentReliability * 100) / 100,
-        maintenanceRequests: Math.round(avgMaintenanceRequests * 100) / 100
+        maintenanceRequests: Math.round(avgMaintenanceRequests * 100) / 100,
+        renewalRate: renewalMetrics.renewalRate,
+        averageLeaseDuration: renewalMetrics.averageLeaseDuration
+      },
+      renewals: {
+        renewedLeases: renewalMetrics.renewedLeases,
+        renewalEligibleLeases: renewalMetrics.renewalEligibleLeases
       },
       tenantDetails: tenantDetails.sort((a, b) => b.paymentReliability - a.paymentReliability)
     });
@@ -0,0 +1,58 @@
+// file: reviewController.js
+import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { validateReviewReply } from "../../services/unitReviewService.js";
+
+// ---------------------------------------------- REPLY TO REVIEW ----------------------------------------------
+// Public reply on a published review of one of the landlord's units (an empty reply removes it)
+export const replyToUnitReview = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { reviewId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const validation = validateReviewReply(req.body.reply);
+    if (validation.status) {
+      return res.status(validation.status).json({ message: validation.message });
+    }
+
+    const review = await prisma.unitReview.findFirst({
+      where: { id: reviewId, status: "PUBLISHED", unit: { property: { ownerId } } },
+      include: { unit: { select: { label: true, property: { select: { title: true } } } } }
+    });
+
+    if (!review) {
+      return res.status(404).json({ message: "Review not found or not accessible" });
+    }
+
+    const reply = validation.data;
+    const updated = await prisma.unitReview.update({
+      where: { id: review.id },
+      data: {
+        landlordReply: reply,
+        landlordRepliedAt: reply ? new Date() : null
+      },
+      select: { id: true, landlordReply: true, landlordRepliedAt: true }
+    });
+
+    if (reply && !review.landlordReply) {
+      try {
+        await createNotification(review.tenantId, "REVIEW", `Your landlord replied to your review of ${review.unit.property.title} - Unit ${review.unit.label}`);
+      } catch (notificationError) {
+        console.error("Error creating review reply notification:", notificationError);
+        // Don't fail the reply if notification fails
+      }
+    }
+
+    return res.json({
+      message: reply ? "Reply posted" : "Reply removed",
+      review: updated
+    });
+  } catch (error) {
+    console.error("Error replying to unit review:", error);
+    return res.status(500).json({ message: "Failed to reply to review" });
+  }
+};
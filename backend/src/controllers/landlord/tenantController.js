@@ -1,5 +1,26 @@
 // file: tenantController.js
 import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { calculateRenewalMetrics } from "../../services/leaseRenewalService.js";
+import {
+  calculateAveragePaymentDelay,
+  categorizeTenantBehavior,
+  generateDetailedBehaviorSummary,
+  getCurrentBehaviorSnapshots,
+  formatBehaviorSnapshot,
+  getBehaviorHistory,
+  getReliabilityTrend,
+  formatScoreBreakdown,
+  getBehaviorScoreWeights,
+  validateBehaviorScoreWeights,
+  saveBehaviorScoreWeights,
+  refreshLeaseBehavior
+} from "../../services/tenantBehaviorService.js";
+import { screenApplication } from "../../services/tenantScreeningService.js";
+
+// Approved applications are marked by this prefix on aiScreeningSummary. Only the start of the
+// field counts: the screening summary that follows repeats text the tenant typed.
+const APPROVAL_PREFIX = "APPROVED:";
 
 // ---------------------------------------------- GET ALL TENANTS FOR LANDLORD ----------------------------------------------
 export const getLandlordTenants = async (req, res) => {
@@ -29,7 +50,7 @@ export const getLandlordTenants = async (req, res) => {
           {
             aiScreeningSummary: {
               not: {
-                contains: "APPROVED"
+                startsWith: APPROVAL_PREFIX
               }
             }
           }
@@ -75,7 +96,7 @@ export const getLandlordTenants = async (req, res) => {
           }
         },
         aiScreeningSummary: {
-          contains: "APPROVED"
+          startsWith: APPROVAL_PREFIX
         }
       },
       include: {
@@ -163,24 +184,16 @@ export const getLandlordTenants = async (req, res) => {
           },
           orderBy: { createdAt: "desc" },
           take: 3
-        },
-        TenantBehaviorAnalysis: {
-          where: {
-            lease: {
-              unit: {
-                property: {
-                  ownerId: ownerId
-                }
-              }
-            }
-          },
-          orderBy: { createdAt: "desc" },
-          take: 1
         }
       },
       orderBy: { createdAt: "desc" }
     });
 
+    // Stored behavior analysis of each tenant's current lease
+    const behaviorSnapshots = await getCurrentBehaviorSnapshots(
+      existingTenants.map(tenant => tenant.Lease[0]?.id).filter(Boolean)
+    );
+
     console.log(`✅ Found ${applications.length} applications for landlord ${ownerId}`);
 
     // Format applications (pending screening)
@@ -241,32 +254,7 @@ export const getLandlordTenants = async (req, res) => {
     // Format existing tenants (with draft or active leases)
     const formattedTenants = existingTenants.map((tenant) => {
       const lease = tenant.Lease[0]; // Should only have one lease per property owner
-      const behaviorAnalysis = tenant.TenantBehaviorAnalysis?.[0];
-      
-      // Calculate payment reliability
-      const allPayments = tenant.Lease.flatMap(lease => lease.payments);
-      const totalPayments = allPayments.length;
-      const onTimePayments = allPayments.filter(payment => 
-        payment.timingStatus === "ONTIME" || payment.timingStatus === "ADVANCE"
-      ).length;
-      const paymentReliability = totalPayments > 0 ? (onTimePayments / totalPayments) * 100 : 0;
-
-      // Calculate maintenance request count
-      const maintenanceCount = tenant.MaintenanceRequest.length;
-      const recentMaintenanceCount = tenant.MaintenanceRequest.filter(req => {
-        const createdAt = new Date(req.createdAt);
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        return createdAt > thirtyDaysAgo;
-      }).length;
-
-      // Determine risk level
-      let riskLevel = "LOW";
-      if (paymentReliability < 70 || maintenanceCount > 5 || recentMaintenanceCount > 2) {
-        riskLevel = "HIGH";
-      } else if (paymentReliability < 85 || maintenanceCount > 2 || recentMaintenanceCount > 1) {
-        riskLevel = "MEDIUM";
-      }
+      const behaviorAnalysis = lease && behaviorSnapshots.get(lease.id);
 
       return {
         id: tenant.id,
@@ -308,19 +296,8 @@ export const getLandlordTenants = async (req, res) => {
           }
         } : null,
 
-        // Behavior analysis
-        behaviorAnalysis: {
-          riskLevel,
-          paymentReliability: Math.round(paymentReliability),
-          totalPayments,
-          onTimePayments,
-          maintenanceRequestsCount: maintenanceCount,
-          recentMaintenanceCount,
-          hasFrequentComplaints: recentMaintenanceCount > 2,
-          aiRiskScore: behaviorAnalysis?.aiRiskScore || Math.round(100 - paymentReliability),
-          aiSummary: behaviorAnalysis?.aiSummary || generateBehaviorSummary(paymentReliability, maintenanceCount, recentMaintenanceCount),
-          lastAnalysisDate: behaviorAnalysis?.updatedAt || tenant.updatedAt,
-        },
+        // Behavior analysis (latest snapshot of the current lease)
+        behaviorAnalysis: behaviorAnalysis ? formatBehaviorSnapshot(behaviorAnalysis) : null,
 
         // Recent activity
         recentPayments: lease?.payments?.slice(0, 3) || [],
@@ -434,30 +411,20 @@ export const updateTenantApplicationStatus = async (req, res) => {
       await prisma.tenantScreening.update({
         where: { id: applicationId },
         data: {
-          // Use aiScreeningSummary to store approval notes since notes field doesn't exist
-          aiScreeningSummary: `APPROVED: ${notes || 'Application approved - awaiting lease assignment'}`
+          // Use aiScreeningSummary to store approval notes since notes field doesn't exist;
+          // the note stays on one line above the screening breakdown
+          aiScreeningSummary: [
+            `${APPROVAL_PREFIX} ${notes?.replace(/\s+/g, ' ').trim() || 'Application approved - awaiting lease assignment'}`,
+            application.aiScreeningSummary
+          ].filter(Boolean).join('\n')
         }
       });
 
       // Create notification for tenant
-      await prisma.notification.create({
-        data: {
-          userId: application.tenantId,
-          type: 'APPLICATION',
-          message: `Congratulations! Your application for ${application.unit.property.title} - ${application.unit.label} has been approved! The landlord will assign you a lease soon.`,
-          status: 'UNREAD'
-        }
-      });
+      await createNotification(application.tenantId, 'APPLICATION', `Congratulations! Your application for ${application.unit.property.title} - ${application.unit.label} has been approved! The landlord will assign you a lease soon.`);
 
       // Create notification for landlord
-      await prisma.notification.create({
-        data: {
-          userId: ownerId,
-          type: 'APPLICATION',
-          message: `Application approved for ${application.unit.property.title} - ${application.unit.label}. Please assign a lease to the tenant.`,
-          status: 'UNREAD'
-        }
-      });
+      await createNotification(ownerId, 'APPLICATION', `Application approved for ${application.unit.property.title} - ${application.unit.label}. Please assign a lease to the tenant.`);
 
       res.json({
         message: "Application approved successfully. Please assign a lease to the tenant.",
@@ -472,14 +439,7 @@ export const updateTenantApplicationStatus = async (req, res) => {
       });
 
       // Create notification for tenant
-      await prisma.notification.create({
-        data: {
-          userId: application.tenantId,
-          type: 'APPLICATION',
-          message: `Your application for ${application.unit.property.title} - ${application.unit.label} has been rejected. ${notes ? 'Reason: ' + notes : ''}`,
-          status: 'UNREAD'
-        }
-      });
+      await createNotification(application.tenantId, 'APPLICATION', `Your application for ${application.unit.property.title} - ${application.unit.label} has been rejected. ${notes ? 'Reason: ' + notes : ''}`);
 
       res.json({
         message: "Application rejected successfully"
@@ -544,7 +504,10 @@ export const getTenantDetails = async (req, res) => {
             payments: {
               orderBy: { createdAt: "desc" }
             },
-            TenantBehaviorAnalysis: true
+            TenantBehaviorAnalysis: {
+              orderBy: { createdAt: "desc" },
+              take: 1
+            }
           }
         },
         maintenanceRequests: {
@@ -635,7 +598,8 @@ export const getTenantDetails = async (req, res) => {
         maintenanceRequestsCount: maintenanceCount,
         recentMaintenanceCount,
         hasFrequentComplaints: recentMaintenanceCount > 2,
-        aiRiskScore: behaviorAnalysis?.aiRiskScore || Math.round(100 - paymentReliability),
+        // Stored scores are 0 → 1; shown out of 100
+        aiRiskScore: behaviorAnalysis?.aiRiskScore != null ? Math.round(behaviorAnalysis.aiRiskScore * 100) : Math.round(100 - paymentReliability),
         aiSummary: behaviorAnalysis?.aiSummary || generateDetailedBehaviorSummary(
           paymentReliability, 
           maintenanceCount, 
@@ -647,10 +611,9 @@ export const getTenantDetails = async (req, res) => {
       },
       screeningInfo: latestScreening ? {
         id: latestScreening.id,
-        screeningRiskLevel: latestScreening.screeningRiskLevel,
+        screeningRiskLevel: latestScreening.riskLevel,
         aiScreeningSummary: latestScreening.aiScreeningSummary,
         createdAt: latestScreening.createdAt,
-        status: latestScreening.status,
       } : null,
     });
   } catch (error) {
@@ -660,98 +623,69 @@ export const getTenantDetails = async (req, res) => {
 };
 
 // ---------------------------------------------- RUN AUTOMATED TENANT SCREENING ----------------------------------------------
+// body: { applicationId } or { tenantId, unitId } (latest application of the tenant for that unit).
+// Scores the application data and stores the result on the application.
 export const runTenantScreening = async (req, res) => {
   try {
-    const { tenantId, unitId } = req.body;
+    const { applicationId, tenantId, unitId } = req.body;
     const ownerId = req.user?.id;
 
     if (!ownerId) {
       return res.status(401).json({ message: "Unauthorized: owner not found" });
     }
 
-    if (!tenantId || !unitId) {
-      return res.status(400).json({ message: "Tenant ID and Unit ID are required" });
+    if (!applicationId && (!tenantId || !unitId)) {
+      return res.status(400).json({ message: "Application ID, or Tenant ID and Unit ID, are required" });
     }
 
-    // Verify tenant and unit belong to landlord
-    const tenant = await prisma.user.findFirst({
+    // The application must be for one of the landlord's units
+    const application = await prisma.tenantScreening.findFirst({
       where: {
-        id: tenantId,
-        role: "TENANT",
-        Lease: {
-          some: {
-            unit: {
-              property: {
-                ownerId: ownerId
-              }
-            }
+        ...(applicationId ? { id: applicationId } : { tenantId, unitId }),
+        unit: {
+          property: {
+            ownerId: ownerId
           }
         }
-      }
-    });
-
-    const unit = await prisma.unit.findFirst({
-      where: {
-        id: unitId,
-        property: {
-          ownerId: ownerId
-        }
       },
       include: {
-        property: {
+        unit: {
           select: {
             id: true,
-            title: true,
-            address: true,
+            label: true,
+            targetPrice: true,
+            unitLeaseRules: true
           }
         }
-      }
+      },
+      orderBy: { createdAt: "desc" }
     });
 
-    if (!tenant || !unit) {
-      return res.status(404).json({ message: "Tenant or unit not found or not accessible" });
+    if (!application) {
+      return res.status(404).json({ message: "No application found for this tenant and unit" });
     }
 
-    // Simulate automated screening process
-    const screeningResult = await performAutomatedScreening(tenant, unit);
+    const result = screenApplication(application, application.unit);
 
-    // Create or update screening record
-    const screening = await prisma.tenantScreening.upsert({
-      where: {
-        tenantId_unitId: {
-          tenantId: tenantId,
-          unitId: unitId
-        }
-      },
-      update: {
-        screeningRiskLevel: screeningResult.riskLevel,
-        aiScreeningSummary: screeningResult.summary,
-        status: screeningResult.status,
-        updatedAt: new Date(),
-      },
-      create: {
-        tenantId: tenantId,
-        unitId: unitId,
-        fullName: `${tenant.firstName || ''} ${tenant.lastName || ''}`.trim(),
-        screeningRiskLevel: screeningResult.riskLevel,
-        aiScreeningSummary: screeningResult.summary,
-        status: screeningResult.status,
+    const screening = await prisma.tenantScreening.update({
+      where: { id: application.id },
+      data: {
+        aiRiskScore: result.aiRiskScore,
+        riskLevel: result.riskLevel,
+        aiScreeningSummary: keepApprovalNote(application.aiScreeningSummary, result.summary),
       }
     });
 
     return res.json({
       message: "Tenant screening completed successfully",
-      screening: {
-        id: screening.id,
-        tenantId: screening.tenantId,
-        unitId: screening.unitId,
-        riskLevel: screening.screeningRiskLevel,
-        summary: screening.aiScreeningSummary,
-        status: screening.status,
-        createdAt: screening.createdAt,
-        updatedAt: screening.updatedAt,
+      screening: formatScreening(screening),
+      breakdown: {
+        score: result.score,
+        riskLevel: result.riskLevel,
+        weights: result.weights,
+        checks: result.checks,
       },
-      recommendations: screeningResult.recommendations,
+      recommendations: result.recommendations,
     });
   } catch (error) {
     console.error("Error running tenant screening:", error);
@@ -790,7 +724,8 @@ export const getScreeningResults = async (req, res) => {
               select: {
                 id: true,
                 title: true,
-                address: true,
+                street: true,
+                barangay: true,
               }
             }
           }
@@ -803,7 +738,10 @@ export const getScreeningResults = async (req, res) => {
       return res.status(404).json({ message: "No screening results found for this tenant" });
     }
 
-    return res.json(screenings);
+    return res.json(screenings.map(screening => ({
+      ...formatScreening(screening),
+      unit: screening.unit,
+    })));
   } catch (error) {
     console.error("Error fetching screening results:", error);
     return res.status(500).json({ message: "Failed to fetch screening results" });
@@ -825,7 +763,7 @@ export const generateBehaviorReport = async (req, res) => {
       return res.status(400).json({ message: "Tenant ID is required" });
     }
 
-    // Get comprehensive tenant data
+    // Tenant with their leases on the landlord's units; the metrics come from the stored snapshots
     const tenant = await prisma.user.findFirst({
       where: {
         id: tenantId,
@@ -849,49 +787,16 @@ export const generateBehaviorReport = async (req, res) => {
               }
             }
           },
-          include: {
-            unit: {
-              include: {
-                property: {
-                  select: {
-                    id: true,
-                    title: true,
-                    address: true,
-                  }
-                }
-              }
-            },
-            payments: {
-              orderBy: { createdAt: "desc" }
-            },
-            TenantBehaviorAnalysis: true
-          }
+          select: { id: true, status: true, startDate: true, endDate: true, previousLeaseId: true },
+          orderBy: { startDate: "desc" }
         },
-        maintenanceRequests: {
+        MaintenanceRequest: {
           where: {
             property: {
               ownerId: ownerId
             }
           },
-          orderBy: { createdAt: "desc" },
-          include: {
-            property: {
-              select: {
-                id: true,
-                title: true,
-                address: true,
-              }
-            },
-            unit: {
-              select: {
-                id: true,
-                label: true,
-              }
-            }
-          }
-        },
-        tenantScreenings: {
-          orderBy: { createdAt: "desc" }
+          select: { description: true, status: true, createdAt: true, updatedAt: true }
         }
       }
     });
@@ -900,8 +805,12 @@ export const generateBehaviorReport = async (req, res) => {
       return res.status(404).json({ message: "Tenant not found or not accessible" });
     }
 
+    const leaseIds = tenant.Lease.map(lease => lease.id);
+    const snapshots = await getCurrentBehaviorSnapshots(leaseIds);
+    const history = await getBehaviorHistory(leaseIds);
+
     // Generate comprehensive behavior report
-    const report = generateComprehensiveBehaviorReport(tenant, reportType);
+    const report = generateComprehensiveBehaviorReport(tenant, reportType, snapshots, history);
 
     return res.json(report);
   } catch (error) {
@@ -910,6 +819,54 @@ export const generateBehaviorReport = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- GET BEHAVIOR SCORE WEIGHTS ----------------------------------------------
+export const getBehaviorWeights = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const weights = await getBehaviorScoreWeights(ownerId);
+
+    return res.json({ weights });
+  } catch (error) {
+    console.error("Error fetching behavior score weights:", error);
+    return res.status(500).json({ message: "Failed to fetch behavior score weights" });
+  }
+};
+
+// ---------------------------------------------- UPDATE BEHAVIOR SCORE WEIGHTS ----------------------------------------------
+export const updateBehaviorWeights = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const current = await getBehaviorScoreWeights(ownerId);
+    const result = validateBehaviorScoreWeights(req.body, current);
+    if (!result.data) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const weights = await saveBehaviorScoreWeights(ownerId, result.data);
+
+    // Re-score current tenants with the new weights in the background (one snapshot per lease)
+    prisma.lease.findMany({
+      where: { status: "ACTIVE", unit: { property: { ownerId } } },
+      select: { id: true }
+    })
+      .then(activeLeases => refreshLeaseBehavior(activeLeases.map(lease => lease.id), "WEIGHTS"))
+      .catch(rescoreError => console.error("Error re-scoring tenants with new weights:", rescoreError));
+
+    return res.json({ message: "Behavior score weights updated. Tenant scores are being recalculated.", weights });
+  } catch (error) {
+    console.error("Error updating behavior score weights:", error);
+    return res.status(500).json({ message: "Failed to update behavior score weights" });
+  }
+};
+
 // ---------------------------------------------- GET TENANT STATISTICS ----------------------------------------------
 export const getTenantStats = async (req, res) => {
   try {
@@ -943,8 +900,9 @@ export const getTenantStats = async (req, res) => {
             }
           },
           include: {
-            payments: true,
-            TenantBehaviorAnalysis: true
+            payments: {
+              include: { charge: { select: { dueDate: true } } }
+            }
           }
         },
         maintenanceRequests: {
@@ -1019,76 +977,25 @@ export const getTenantStats = async (req, res) => {
 
 // ---------------------------------------------- HELPER FUNCTIONS ----------------------------------------------
 
-function generateBehaviorSummary(paymentReliability, maintenanceCount, recentMaintenanceCount) {
-  if (paymentReliability >= 90 && maintenanceCount <= 1) {
-    return "Excellent tenant with consistent on-time payments and minimal maintenance requests.";
-  } else if (paymentReliability >= 80 && maintenanceCount <= 2) {
-    return "Good tenant with mostly reliable payments and reasonable maintenance needs.";
-  } else if (paymentReliability >= 70 && maintenanceCount <= 3) {
-    return "Average tenant with some payment delays and moderate maintenance requests.";
-  } else {
-    return "High-risk tenant with frequent payment issues and excessive maintenance requests.";
-  }
+// Re-screening keeps the approval line (APPROVAL_PREFIX) above the new summary
+function keepApprovalNote(currentSummary, summary) {
+  const firstLine = currentSummary?.split("\n")[0];
+  return firstLine?.startsWith(APPROVAL_PREFIX) ? `${firstLine}\n${summary}` : summary;
 }
 
-function generateDetailedBehaviorSummary(paymentReliability, maintenanceCount, recentMaintenanceCount, averageDelay) {
-  const summary = [];
-  
-  if (paymentReliability >= 90) {
-    summary.push("Excellent payment history with 90%+ on-time payments");
-  } else if (paymentReliability >= 80) {
-    summary.push("Good payment history with mostly reliable payments");
-  } else if (paymentReliability >= 70) {
-    summary.push("Average payment history with some delays");
-  } else {
-    summary.push("Poor payment history with frequent delays");
-  }
-
-  if (averageDelay > 0) {
-    summary.push(`Average payment delay of ${averageDelay} days`);
-  }
-
-  if (maintenanceCount === 0) {
-    summary.push("No maintenance requests submitted");
-  } else if (maintenanceCount <= 2) {
-    summary.push("Minimal maintenance requests");
-  } else if (maintenanceCount <= 5) {
-    summary.push("Moderate maintenance requests");
-  } else {
-    summary.push("Excessive maintenance requests");
-  }
-
-  if (recentMaintenanceCount > 2) {
-    summary.push("Recent increase in maintenance requests");
-  }
-
-  return summary.join(". ") + ".";
-}
-
-function categorizeTenantBehavior(paymentReliability, maintenanceCount) {
-  if (paymentReliability >= 90 && maintenanceCount <= 1) {
-    return "EXCELLENT";
-  } else if (paymentReliability >= 80 && maintenanceCount <= 2) {
-    return "GOOD";
-  } else if (paymentReliability >= 70 && maintenanceCount <= 3) {
-    return "AVERAGE";
-  } else {
-    return "HIGH_RISK";
-  }
-}
-
-function calculateAveragePaymentDelay(payments) {
-  const latePayments = payments.filter(payment => payment.timingStatus === "LATE");
-  if (latePayments.length === 0) return 0;
-  
-  const totalDelay = latePayments.reduce((sum, payment) => {
-    const dueDate = new Date(payment.createdAt);
-    const paidDate = new Date(payment.paidAt || payment.updatedAt);
-    const delay = Math.ceil((paidDate - dueDate) / (1000 * 60 * 60 * 24));
-    return sum + Math.max(0, delay);
-  }, 0);
-  
-  return Math.round(totalDelay / latePayments.length);
+// Screening row as the landlord UI shows it (score out of 100, higher is better)
+function formatScreening(screening) {
+  return {
+    id: screening.id,
+    tenantId: screening.tenantId,
+    unitId: screening.unitId,
+    riskLevel: screening.riskLevel,
+    aiRiskScore: screening.aiRiskScore,
+    score: screening.aiRiskScore != null ? Math.round((1 - screening.aiRiskScore) * 100) : null,
+    summary: screening.aiScreeningSummary,
+    createdAt: screening.createdAt,
+    updatedAt: screening.updatedAt,
+  };
 }
 
 function calculateTenantRetentionRate(tenants) {
@@ -1101,96 +1008,29 @@ function calculateScreeningCompletionRate(tenants) {
   return tenants.length > 0 ? (tenantsWithScreenings.length / tenants.length) * 100 : 0;
 }
 
-async function performAutomatedScreening(tenant, unit) {
-  // Simulate API calls to external screening services
-  // In a real implementation, this would call actual screening APIs
-  
-  const mockScreeningData = {
-    creditScore: Math.floor(Math.random() * 200) + 500, // 500-700
-    criminalBackground: Math.random() > 0.1, // 90% clean
-    evictionHistory: Math.random() > 0.05, // 95% clean
-    employmentVerification: Math.random() > 0.15, // 85% verified
-    incomeVerification: Math.random() > 0.2, // 80% verified
-  };
-
-  // Calculate risk level based on screening results
-  let riskLevel = "LOW";
-  let riskScore = 0;
-
-  if (mockScreeningData.creditScore < 600) riskScore += 30;
-  else if (mockScreeningData.creditScore < 650) riskScore += 15;
-
-  if (!mockScreeningData.criminalBackground) riskScore += 40;
-  if (!mockScreeningData.evictionHistory) riskScore += 35;
-  if (!mockScreeningData.employmentVerification) riskScore += 20;
-  if (!mockScreeningData.incomeVerification) riskScore += 15;
-
-  if (riskScore >= 50) riskLevel = "HIGH";
-  else if (riskScore >= 25) riskLevel = "MEDIUM";
-
-  // Generate AI summary
-  const summary = generateScreeningSummary(mockScreeningData, riskLevel);
-  
-  // Generate recommendations
-  const recommendations = generateScreeningRecommendations(mockScreeningData, riskLevel);
+function generateComprehensiveBehaviorReport(tenant, reportType, snapshots, history) {
+  const leaseSnapshots = tenant.Lease.map(lease => snapshots.get(lease.id)).filter(Boolean);
+  const sumOf = (field) => leaseSnapshots.reduce((sum, snapshot) => sum + snapshot[field], 0);
 
-  return {
-    riskLevel,
-    riskScore,
-    summary,
-    status: "COMPLETED",
-    recommendations,
-    screeningData: mockScreeningData,
-  };
-}
+  // Current standing comes from the active lease (or the most recent one)
+  const currentLease = tenant.Lease.find(lease => lease.status === "ACTIVE") || tenant.Lease[0];
+  const currentSnapshot = currentLease ? snapshots.get(currentLease.id) : null;
 
-function generateScreeningSummary(data, riskLevel) {
-  const summary = [];
-  
-  summary.push(`Credit Score: ${data.creditScore}`);
-  summary.push(`Criminal Background: ${data.criminalBackground ? 'Clean' : 'Issues Found'}`);
-  summary.push(`Eviction History: ${data.evictionHistory ? 'Clean' : 'Previous Evictions'}`);
-  summary.push(`Employment: ${data.employmentVerification ? 'Verified' : 'Not Verified'}`);
-  summary.push(`Income: ${data.incomeVerification ? 'Verified' : 'Not Verified'}`);
-  
-  summary.push(`Overall Risk Level: ${riskLevel}`);
-  
-  return summary.join(". ");
-}
+  const totalPayments = sumOf("totalPayments");
+  const onTimePayments = sumOf("onTimePayments");
+  const latePayments = sumOf("latePayments");
+  const paymentReliability = totalPayments > 0 ? (onTimePayments / totalPayments) * 100 : 0;
+  const averagePaymentDelay = latePayments > 0
+    ? Math.round(leaseSnapshots.reduce((sum, snapshot) => sum + snapshot.averagePaymentDelay * snapshot.latePayments, 0) / latePayments)
+    : 0;
 
-function generateScreeningRecommendations(data, riskLevel) {
-  const recommendations = [];
-  
-  if (riskLevel === "HIGH") {
-    recommendations.push("Consider requiring additional security deposit");
-    recommendations.push("Request co-signer or guarantor");
-    recommendations.push("Implement stricter payment monitoring");
-  } else if (riskLevel === "MEDIUM") {
-    recommendations.push("Monitor payment behavior closely");
-    recommendations.push("Consider standard security deposit");
-  } else {
-    recommendations.push("Standard lease terms acceptable");
-    recommendations.push("Consider offering lease renewal incentives");
-  }
-  
-  return recommendations;
-}
+  const maintenanceCount = sumOf("maintenanceRequestsCount");
+  const recentMaintenanceCount = sumOf("recentMaintenanceCount");
 
-function generateComprehensiveBehaviorReport(tenant, reportType) {
-  const allPayments = tenant.Lease.flatMap(lease => lease.payments);
-  const totalPayments = allPayments.length;
-  const onTimePayments = allPayments.filter(payment => 
-    payment.timingStatus === "ONTIME" || payment.timingStatus === "ADVANCE"
-  ).length;
-  const paymentReliability = totalPayments > 0 ? (onTimePayments / totalPayments) * 100 : 0;
+  // A tenant who hasn't paid anything yet isn't flagged for it
+  const scoredReliability = totalPayments > 0 ? paymentReliability : 100;
 
-  const maintenanceCount = tenant.maintenanceRequests.length;
-  const recentMaintenanceCount = tenant.maintenanceRequests.filter(req => {
-    const createdAt = new Date(req.createdAt);
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    return createdAt > thirtyDaysAgo;
-  }).length;
+  const renewalMetrics = calculateRenewalMetrics(tenant.Lease);
 
   return {
     tenant: {
@@ -1203,54 +1043,44 @@ function generateComprehensiveBehaviorReport(tenant, reportType) {
     reportType,
     generatedAt: new Date().toISOString(),
     summary: {
-      overallRiskLevel: paymentReliability < 70 || maintenanceCount > 5 ? "HIGH" : 
-                      paymentReliability < 85 || maintenanceCount > 2 ? "MEDIUM" : "LOW",
+      overallRiskLevel: currentSnapshot?.riskLevel || "LOW",
       paymentReliability: Math.round(paymentReliability),
       maintenanceRequestsCount: maintenanceCount,
       recentMaintenanceCount,
-      averagePaymentDelay: calculateAveragePaymentDelay(allPayments),
+      averagePaymentDelay,
+      aiSummary: currentSnapshot?.aiSummary || null,
+      aiCategory: currentSnapshot?.aiCategory || null,
+      lastAnalysisDate: currentSnapshot?.updatedAt || null,
     },
     detailedAnalysis: {
       paymentBehavior: {
         totalPayments,
         onTimePayments,
-        latePayments: allPayments.filter(p => p.timingStatus === "LATE").length,
-        advancePayments: allPayments.filter(p => p.timingStatus === "ADVANCE").length,
+        latePayments,
+        advancePayments: sumOf("advancePayments"),
         reliability: Math.round(paymentReliability),
-        trend: calculatePaymentTrend(allPayments),
+        trend: getReliabilityTrend(history.filter(point => point.leaseId === currentLease?.id)),
       },
       maintenanceBehavior: {
         totalRequests: maintenanceCount,
         recentRequests: recentMaintenanceCount,
-        averageResponseTime: calculateAverageMaintenanceResponseTime(tenant.maintenanceRequests),
-        requestTypes: categorizeMaintenanceRequests(tenant.maintenanceRequests),
+        averageResponseTime: calculateAverageMaintenanceResponseTime(tenant.MaintenanceRequest),
+        requestTypes: categorizeMaintenanceRequests(tenant.MaintenanceRequest),
       },
       leaseHistory: {
         totalLeases: tenant.Lease.length,
         activeLeases: tenant.Lease.filter(l => l.status === "ACTIVE").length,
-        averageLeaseDuration: calculateAverageLeaseDuration(tenant.Lease),
-        renewalRate: calculateRenewalRate(tenant.Lease),
+        averageLeaseDuration: renewalMetrics.averageLeaseDuration,
+        renewalRate: renewalMetrics.renewalRate,
       }
     },
-    recommendations: generateReportRecommendations(paymentReliability, maintenanceCount, recentMaintenanceCount),
-    riskFactors: identifyRiskFactors(paymentReliability, maintenanceCount, recentMaintenanceCount),
+    scoreBreakdown: currentSnapshot ? formatScoreBreakdown(currentSnapshot) : null,
+    history,
+    recommendations: generateReportRecommendations(scoredReliability, maintenanceCount, recentMaintenanceCount),
+    riskFactors: identifyRiskFactors(scoredReliability, maintenanceCount, recentMaintenanceCount, currentSnapshot),
   };
 }
 
-function calculatePaymentTrend(payments) {
-  if (payments.length < 3) return "INSUFFICIENT_DATA";
-  
-  const recentPayments = payments.slice(0, 3);
-  const olderPayments = payments.slice(3, 6);
-  
-  const recentOnTime = recentPayments.filter(p => p.timingStatus === "ONTIME" || p.timingStatus === "ADVANCE").length;
-  const olderOnTime = olderPayments.filter(p => p.timingStatus === "ONTIME" || p.timingStatus === "ADVANCE").length;
-  
-  if (recentOnTime > olderOnTime) return "IMPROVING";
-  if (recentOnTime < olderOnTime) return "DECLINING";
-  return "STABLE";
-}
-
 function calculateAverageMaintenanceResponseTime(requests) {
   const resolvedRequests = requests.filter(req => req.status === "RESOLVED");
   if (resolvedRequests.length === 0) return 0;
@@ -1293,32 +1123,6 @@ function categorizeMaintenanceRequests(requests) {
   return categories;
 }
 
-function calculateAverageLeaseDuration(leases) {
-  if (leases.length === 0) return 0;
-  
-  const totalDuration = leases.reduce((sum, lease) => {
-    const startDate = new Date(lease.startDate);
-    const endDate = lease.endDate ? new Date(lease.endDate) : new Date();
-    const diffTime = endDate.getTime() - startDate.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return sum + diffDays;
-  }, 0);
-  
-  return Math.round(totalDuration / leases.length);
-}
-
-function calculateRenewalRate(leases) {
-  if (leases.length <= 1) return 0;
-  
-  const renewedLeases = leases.filter(lease => {
-    // Simple logic: if there are multiple leases for the same unit, consider it a renewal
-    const sameUnitLeases = leases.filter(l => l.unitId === lease.unitId);
-    return sameUnitLeases.length > 1;
-  });
-  
-  return leases.length > 0 ? (renewedLeases.length / leases.length) * 100 : 0;
-}
-
 function generateReportRecommendations(paymentReliability, maintenanceCount, recentMaintenanceCount) {
   const recommendations = [];
   
@@ -1345,7 +1149,7 @@ function generateReportRecommendations(paymentReliability, maintenanceCount, rec
   return recommendations;
 }
 
-function identifyRiskFactors(paymentReliability, maintenanceCount, recentMaintenanceCount) {
+function identifyRiskFactors(paymentReliability, maintenanceCount, recentMaintenanceCount, snapshot) {
   const riskFactors = [];
   
   if (paymentReliability < 70) {
@@ -1363,7 +1167,19 @@ function identifyRiskFactors(paymentReliability, maintenanceCount, recentMainten
   if (paymentReliability < 50) {
     riskFactors.push("Very poor payment reliability");
   }
-  
+
+  if (snapshot?.communicationScore != null && snapshot.communicationScore < 0.5) {
+    riskFactors.push("Slow or missing replies to messages");
+  }
+
+  if (snapshot?.propertyCareScore != null && snapshot.propertyCareScore < 0.6) {
+    riskFactors.push("Damage found at move-out");
+  }
+
+  if (snapshot?.ruleComplianceScore != null && snapshot.ruleComplianceScore < 0.7) {
+    riskFactors.push("Repeated lease rule violations");
+  }
+
   return riskFactors;
 }
 
@@ -1469,14 +1285,7 @@ export const removeTenant = async (req, res) => {
       .filter((name, index, self) => self.indexOf(name) === index);
 
     if (propertyNames.length > 0) {
-      await prisma.notification.create({
-        data: {
-          userId: tenantId,
-          type: 'APPLICATION',
-          message: `Your application/lease for ${propertyNames.join(', ')} has been cancelled by the landlord. You can reapply if you wish.`,
-          status: 'UNREAD'
-        }
-      });
+      await createNotification(tenantId, 'APPLICATION', `Your application/lease for ${propertyNames.join(', ')} has been cancelled by the landlord. You can reapply if you wish.`);
     }
 
     res.json({
@@ -1692,14 +1501,7 @@ export const assignLeaseToTenant = async (req, res) => {
     });
 
     // Create notification for tenant
-    await prisma.notification.create({
-      data: {
-        userId: application.tenantId,
-        type: 'LEASE',
-        message: `A lease has been assigned to you for ${application.unit.property.title} - ${application.unit.label}. Please review the lease details.`,
-        status: 'UNREAD'
-      }
-    });
+    await createNotification(application.tenantId, 'LEASE', `A lease has been assigned to you for ${application.unit.property.title} - ${application.unit.label}. Please review the lease details.`);
 
     res.json({
       message: "Lease assigned successfully",
@@ -1761,7 +1563,7 @@ export const getTenantsWithPendingApplications = async (req, res) => {
           {
             aiScreeningSummary: {
               not: {
-                contains: "APPROVED"
+                startsWith: APPROVAL_PREFIX
               }
             }
           }
@@ -1881,14 +1683,7 @@ export const removeApprovedTenant = async (req, res) => {
     });
 
     // Send notification to tenant
-    await prisma.notification.create({
-      data: {
-        userId: application.tenant.id,
-        type: 'APPLICATION',
-        message: `Your approved application for ${application.unit.property.title} - ${application.unit.label} has been removed by the landlord.`,
-        status: 'UNREAD'
-      }
-    });
+    await createNotification(application.tenant.id, 'APPLICATION', `Your approved application for ${application.unit.property.title} - ${application.unit.label} has been removed by the landlord.`);
 
     console.log(`✅ Approved application ${applicationId} removed successfully`);
 
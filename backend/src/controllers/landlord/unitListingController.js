@@ -1,13 +1,35 @@
 // file: unitListingController.js
+import crypto from "crypto";
 import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { createPaymentIntent, refundUnusedListingFee } from "../../services/paymentService.js";
+import { checkListingEligibility } from "../../services/listingService.js";
+import { generateListingReceiptPDF } from "../../services/pdfService.js";
+
+const LISTING_FEE_RATE = 0.03; // 3% of the unit's monthly target price
+
+// Listing fee for a unit, rounded to centavos
+const calculateListingFee = (unit) => Math.round(unit.targetPrice * LISTING_FEE_RATE * 100) / 100;
+
+// e.g. LR-20261019-4F9A2C
+const generateReceiptNumber = (paidAt) => {
+  const day = paidAt.toISOString().slice(0, 10).replace(/-/g, "");
+  return `LR-${day}-${crypto.randomBytes(3).toString("hex").toUpperCase()}`;
+};
 
 // ---------------------------------------------- GET ALL CITIES & MUNICIPALITIES ---------------------------------------------- comment it like this in each method
 
 // POST /properties/:propertyId/units/:unitId/listings
+// Body: { paymentIntentId } — the SUCCEEDED listing fee intent (required: admins only approve paid listings)
 export const requestListing = async (req, res) => {
   const { propertyId, unitId } = req.params;
+  const { paymentIntentId } = req.body || {};
   const landlordId = req.user.id; // from auth middleware
 
+  if (!paymentIntentId) {
+    return res.status(400).json({ error: "Pay the listing fee before requesting a listing" });
+  }
+
   try {
     // 1. Validate Unit
     const unit = await prisma.unit.findUnique({
@@ -23,38 +45,48 @@ export const requestListing = async (req, res) => {
     if (unit.property.ownerId !== landlordId) {
       return res.status(403).json({ error: "You do not own this property" });
     }
-    if (unit.status !== "AVAILABLE") {
-      return res.status(400).json({ error: "Unit is not available for listing" });
-    }
 
-    // 2. Check for an existing latest listing
-    const lastListing = await prisma.listing.findFirst({
-      where: { unitId },
-      orderBy: { createdAt: "desc" }
+    // 2. Validate the listing fee intent that paid for this request
+    const intent = await prisma.paymentIntent.findFirst({
+      where: { id: paymentIntentId, userId: landlordId, purpose: "LISTING_FEE" }
     });
+    if (!intent || intent.unitId !== unitId) {
+      return res.status(400).json({ error: "Listing fee payment not found for this unit" });
+    }
+    if (intent.status !== "SUCCEEDED") {
+      return res.status(400).json({ error: "Listing fee payment has not succeeded" });
+    }
 
-    if (lastListing) {
-      if (["PENDING", "APPROVED", "ACTIVE"].includes(lastListing.status)) {
-        return res.status(400).json({
-          error: `Unit already has a ${lastListing.status} listing in progress`
-        });
-      }
+    const usedBy = await prisma.listing.findUnique({ where: { providerTxnId: intent.providerRef } });
+    if (usedBy) {
+      return res.status(400).json({ error: "This listing fee payment was already used" });
+    }
 
-      if (lastListing.status === "BLOCKED") {
-        return res.status(400).json({ error: "Unit is blocked from being listed" });
-      }
-      // REJECTED or EXPIRED → allow resubmission
+    // 3. Check the unit and its latest listing; a fee that can no longer be used is refunded
+    const { error: ineligible, lastListing } = await checkListingEligibility(unit);
+    if (ineligible) {
+      const refunded = await refundUnusedListingFee(intent, ineligible);
+      return res.status(400).json({
+        error: refunded ? `${ineligible}. Your listing fee is being refunded.` : ineligible
+      });
     }
 
-    // 3. Create a new listing request
+    const payment = {
+      amount: intent.amount,
+      paymentStatus: "PAID",
+      providerTxnId: intent.providerRef,
+      paidAt: intent.updatedAt, // settled by the succeeded webhook
+      receiptNumber: generateReceiptNumber(intent.updatedAt)
+    };
+
+    // 4. Create a new listing request
     const listing = await prisma.listing.create({
       data: {
         unitId,
         landlordId,
         status: "PENDING",
         attemptCount: lastListing ? lastListing.attemptCount + 1 : 1,
-        amount: 1000, // you can calculate/listing fee logic here
-        paymentStatus: "UNPAID",
+        ...payment,
         riskLevel: "LOW", // default risk level
         fraudRiskScore: 0.1 // default low risk score
       },
@@ -87,14 +119,7 @@ export const requestListing = async (req, res) => {
 
       if (admins.length > 0) {
         const notificationPromises = admins.map(admin => 
-          prisma.notification.create({
-            data: {
-              userId: admin.id,
-              type: 'LISTING_REQUEST',
-              message: `New listing request from ${listing.landlord.firstName} ${listing.landlord.lastName} for ${listing.unit.property.title} - Unit ${listing.unit.label}`,
-              status: 'UNREAD'
-            }
-          })
+          createNotification(admin.id, 'LISTING_REQUEST', `New listing request from ${listing.landlord.firstName} ${listing.landlord.lastName} for ${listing.unit.property.title} - Unit ${listing.unit.label}`)
         );
         
         await Promise.all(notificationPromises);
@@ -105,6 +130,16 @@ export const requestListing = async (req, res) => {
       // Don't fail the listing request if notification fails
     }
 
+    // Send the landlord their receipt
+    if (listing.receiptNumber) {
+      try {
+        await createNotification(landlordId, 'LISTING', `Receipt ${listing.receiptNumber}: listing fee of ₱${listing.amount.toLocaleString()} paid for ${listing.unit.property.title} - Unit ${listing.unit.label}`);
+      } catch (notificationError) {
+        console.error("Error creating listing receipt notification:", notificationError);
+        // Don't fail the listing request if notification fails
+      }
+    }
+
     res.json({
       message: "Listing request submitted successfully",
       listing
@@ -116,6 +151,61 @@ export const requestListing = async (req, res) => {
 };
 
 
+// ---------------------------------------------- CREATE LISTING PAYMENT INTENT ----------------------------------------------
+// POST /property/:propertyId/units/:unitId/listing-payment
+// Starts a provider payment for the listing fee. The fee is computed here, never taken from the client.
+export const createListingPaymentIntent = async (req, res) => {
+  const { propertyId, unitId } = req.params;
+  const { method } = req.body;
+  const landlordId = req.user.id;
+
+  try {
+    const unit = await prisma.unit.findUnique({
+      where: { id: unitId },
+      include: { property: true }
+    });
+    if (!unit) {
+      return res.status(404).json({ error: "Unit not found" });
+    }
+    if (unit.propertyId !== propertyId) {
+      return res.status(400).json({ error: "Unit does not belong to this property" });
+    }
+    if (unit.property.ownerId !== landlordId) {
+      return res.status(403).json({ error: "You do not own this property" });
+    }
+
+    // Never charge for a listing the unit can't get
+    const { error: ineligible } = await checkListingEligibility(unit);
+    if (ineligible) {
+      return res.status(400).json({ error: ineligible });
+    }
+
+    const intent = await createPaymentIntent({
+      purpose: "LISTING_FEE",
+      userId: landlordId,
+      amount: calculateListingFee(unit),
+      method: method || null,
+      unitId,
+      metadata: { propertyId, unitLabel: unit.label }
+    });
+
+    res.status(201).json({
+      message: "Listing fee payment created. Confirm it to start processing.",
+      intent: {
+        id: intent.id,
+        provider: intent.provider,
+        providerRef: intent.providerRef,
+        amount: intent.amount,
+        status: intent.status
+      }
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create listing fee payment" });
+  }
+};
+
+
 // ---------------------------------------------- GET UNITS LISTING STATUS ----------------------------------------------
 // GET /properties/:propertyId/units/listing-status
 // Retrieves all units of a property owned by the landlord and groups them by:
@@ -183,3 +273,47 @@ export const getUnitsListingStatus = async (req, res) => {
     res.status(500).json({ error: "Failed to fetch units listing status" });
   }
 };
+
+
+// ---------------------------------------------- DOWNLOAD LISTING RECEIPT ----------------------------------------------
+// GET /listings/:listingId/receipt
+export const downloadListingReceipt = async (req, res) => {
+  const { listingId } = req.params;
+  const landlordId = req.user?.id;
+
+  try {
+    const listing = await prisma.listing.findFirst({
+      where: { id: listingId, landlordId },
+      include: {
+        unit: {
+          include: {
+            property: {
+              select: { title: true, street: true, barangay: true, zipCode: true }
+            }
+          }
+        },
+        landlord: {
+          select: { firstName: true, lastName: true, email: true }
+        }
+      }
+    });
+
+    if (!listing) {
+      return res.status(404).json({ error: "Listing not found" });
+    }
+    if (!listing.receiptNumber) {
+      return res.status(400).json({ error: "No receipt has been issued for this listing" });
+    }
+
+    const pdfBuffer = await generateListingReceiptPDF(listing);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="receipt-${listing.receiptNumber}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+
+    res.send(pdfBuffer);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to generate listing receipt" });
+  }
+};
@@ -0,0 +1,191 @@
+// file: violationController.js
+import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { removeViolationEvidence } from "../../middlewares/violationEvidenceUpload.js";
+import {
+  violationSelect,
+  getLeaseRuleList,
+  validateViolationInput,
+  formatWarningLevel
+} from "../../services/leaseRuleViolationService.js";
+import { refreshLeaseBehavior } from "../../services/tenantBehaviorService.js";
+
+// Violations can only be logged while the tenant lives in the unit
+const LOGGABLE_LEASE_STATUSES = ["ACTIVE"];
+
+const leaseRuleSelect = {
+  id: true,
+  tenantId: true,
+  leaseNickname: true,
+  status: true,
+  rules: true,
+  unit: {
+    select: {
+      id: true,
+      label: true,
+      unitLeaseRules: true,
+      property: { select: { id: true, title: true } }
+    }
+  }
+};
+
+// ---------------------------------------------- GET TENANT VIOLATIONS ----------------------------------------------
+// The tenant's leases on the landlord's units (with their rules) and every violation logged on them
+export const getTenantViolations = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { tenantId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const leases = await prisma.lease.findMany({
+      where: { tenantId, unit: { property: { ownerId } } },
+      select: leaseRuleSelect,
+      orderBy: { startDate: "desc" }
+    });
+
+    if (leases.length === 0) {
+      return res.status(404).json({ message: "Tenant not found or not accessible" });
+    }
+
+    const violations = await prisma.leaseRuleViolation.findMany({
+      where: { leaseId: { in: leases.map(lease => lease.id) } },
+      select: violationSelect,
+      orderBy: { occurredAt: "desc" }
+    });
+
+    return res.json({
+      leases: leases.map(lease => ({
+        id: lease.id,
+        leaseNickname: lease.leaseNickname,
+        status: lease.status,
+        canLogViolations: LOGGABLE_LEASE_STATUSES.includes(lease.status),
+        unit: { id: lease.unit.id, label: lease.unit.label, property: lease.unit.property },
+        rules: getLeaseRuleList(lease)
+      })),
+      violations
+    });
+  } catch (error) {
+    console.error("Error fetching tenant violations:", error);
+    return res.status(500).json({ message: "Failed to fetch rule violations" });
+  }
+};
+
+// ---------------------------------------------- LOG VIOLATION ----------------------------------------------
+// multipart: ruleIndex, description, warningLevel, occurredAt?, evidence[] (photos)
+export const logLeaseRuleViolation = async (req, res) => {
+  const files = req.files || [];
+
+  try {
+    const ownerId = req.user?.id;
+    const { leaseId } = req.params;
+
+    if (!ownerId) {
+      removeViolationEvidence(files);
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const lease = await prisma.lease.findFirst({
+      where: { id: leaseId, unit: { property: { ownerId } } },
+      select: leaseRuleSelect
+    });
+
+    if (!lease) {
+      removeViolationEvidence(files);
+      return res.status(404).json({ message: "Lease not found or not accessible" });
+    }
+
+    if (!LOGGABLE_LEASE_STATUSES.includes(lease.status)) {
+      removeViolationEvidence(files);
+      return res.status(400).json({ message: "Violations can only be logged on an active lease" });
+    }
+
+    const validation = validateViolationInput(req.body, getLeaseRuleList(lease));
+    if (!validation.data) {
+      removeViolationEvidence(files);
+      return res.status(validation.status).json({ message: validation.message });
+    }
+
+    const violation = await prisma.leaseRuleViolation.create({
+      data: {
+        ...validation.data,
+        leaseId: lease.id,
+        tenantId: lease.tenantId,
+        landlordId: ownerId,
+        evidenceUrls: files.length > 0 ? files.map(file => `/uploads/violations/${file.filename}`) : null
+      },
+      select: violationSelect
+    });
+
+    try {
+      await createNotification(
+        lease.tenantId,
+        "LEASE",
+        `A ${formatWarningLevel(violation.warningLevel)} was logged on your lease for ${lease.unit.property.title} - Unit ${lease.unit.label}: "${violation.ruleText}". Please acknowledge or dispute it.`
+      );
+    } catch (notificationError) {
+      console.error("Error creating violation notification:", notificationError);
+      // Don't fail the violation if notification fails
+    }
+
+    await refreshLeaseBehavior([lease.id], "VIOLATION");
+
+    return res.status(201).json({ message: "Violation logged", violation });
+  } catch (error) {
+    removeViolationEvidence(files);
+    console.error("Error logging lease rule violation:", error);
+    return res.status(500).json({ message: "Failed to log violation" });
+  }
+};
+
+// ---------------------------------------------- WITHDRAW VIOLATION ----------------------------------------------
+// Logged by mistake or resolved in the tenant's favour: stays on record but no longer counts
+export const withdrawLeaseRuleViolation = async (req, res) => {
+  try {
+    const ownerId = req.user?.id;
+    const { violationId } = req.params;
+
+    if (!ownerId) {
+      return res.status(401).json({ message: "Unauthorized: owner not found" });
+    }
+
+    const violation = await prisma.leaseRuleViolation.findFirst({
+      where: { id: violationId, lease: { unit: { property: { ownerId } } } },
+      include: { lease: { select: { unit: { select: { label: true, property: { select: { title: true } } } } } } }
+    });
+
+    if (!violation) {
+      return res.status(404).json({ message: "Violation not found or not accessible" });
+    }
+
+    if (violation.status === "WITHDRAWN") {
+      return res.status(400).json({ message: "This violation was already withdrawn" });
+    }
+
+    const updated = await prisma.leaseRuleViolation.update({
+      where: { id: violation.id },
+      data: { status: "WITHDRAWN", withdrawnAt: new Date() },
+      select: violationSelect
+    });
+
+    try {
+      await createNotification(
+        violation.tenantId,
+        "LEASE",
+        `Your landlord withdrew the violation of "${violation.ruleText}" for ${violation.lease.unit.property.title} - Unit ${violation.lease.unit.label}`
+      );
+    } catch (notificationError) {
+      console.error("Error creating violation withdrawal notification:", notificationError);
+      // Don't fail the withdrawal if notification fails
+    }
+
+    await refreshLeaseBehavior([violation.leaseId], "VIOLATION");
+
+    return res.json({ message: "Violation withdrawn", violation: updated });
+  } catch (error) {
+    console.error("Error withdrawing lease rule violation:", error);
+    return res.status(500).json({ message: "Failed to withdraw violation" });
+  }
+};
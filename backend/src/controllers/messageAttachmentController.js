@@ -0,0 +1,53 @@
+// file: messageAttachmentController.js
+import prisma from "../libs/prismaClient.js";
+import { getMessageAttachmentPath } from "../services/messageAttachmentService.js";
+
+// ---------------------------------------------- GET MESSAGE ATTACHMENT ----------------------------------------------
+// Streams an attachment to either participant of its conversation (landlord or tenant)
+export const getMessageAttachment = async (req, res) => {
+  try {
+    const { attachmentId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized: user not found" });
+    }
+
+    const attachment = await prisma.messageAttachment.findFirst({
+      where: {
+        id: attachmentId,
+        message: {
+          conversation: {
+            OR: [
+              { userAId: userId },
+              { userBId: userId }
+            ]
+          }
+        }
+      }
+    });
+
+    // Same answer for "doesn't exist" and "not yours"
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found or not accessible" });
+    }
+
+    const fileName = encodeURIComponent(attachment.fileName);
+    res.sendFile(getMessageAttachmentPath(attachment), {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Disposition": `inline; filename*=UTF-8''${fileName}`,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      }
+    }, (error) => {
+      if (error && !res.headersSent) {
+        console.error("Error sending message attachment:", error.message);
+        res.status(404).json({ message: "Attachment file not found" });
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching message attachment:", error);
+    return res.status(500).json({ message: "Failed to fetch attachment" });
+  }
+};
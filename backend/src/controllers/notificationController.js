@@ -1,4 +1,12 @@
 import prisma from "../libs/prismaClient.js";
+import { emitToUser } from "../services/realtimeService.js";
+import {
+  getNotificationCategory,
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  sendNotificationEmail,
+  validateNotificationPreferences,
+} from "../services/notificationPreferenceService.js";
 
 // ---------------------------------------------- GET USER NOTIFICATIONS ----------------------------------------------
 export const getUserNotifications = async (req, res) => {
@@ -35,18 +43,7 @@ export const getUserNotifications = async (req, res) => {
     });
 
     // Format notifications for frontend
-    const formattedNotifications = notifications.map((notification) => ({
-      id: notification.id,
-      type: notification.type,
-      message: notification.message,
-      status: notification.status,
-      readAt: notification.readAt,
-      createdAt: notification.createdAt,
-      // Generate appropriate link based on notification type
-      link: generateNotificationLink(notification),
-      // Format time for display
-      time: formatTimeAgo(notification.createdAt),
-    }));
+    const formattedNotifications = notifications.map(formatNotification);
 
     return res.json({
       notifications: formattedNotifications,
@@ -64,6 +61,25 @@ export const getUserNotifications = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- GET UNREAD NOTIFICATION COUNT ----------------------------------------------
+export const getUnreadNotificationCount = async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized: user not found" });
+    }
+
+    const unreadCount = await prisma.notification.count({
+      where: { userId, status: "UNREAD" },
+    });
+
+    return res.json({ unreadCount });
+  } catch (error) {
+    console.error("Error fetching unread notification count:", error);
+    return res.status(500).json({ message: "Failed to fetch unread notification count" });
+  }
+};
+
 // ---------------------------------------------- MARK NOTIFICATION AS READ ----------------------------------------------
 export const markNotificationAsRead = async (req, res) => {
   try {
@@ -90,6 +106,8 @@ export const markNotificationAsRead = async (req, res) => {
       return res.status(404).json({ message: "Notification not found" });
     }
 
+    await pushUnreadCount(userId);
+
     return res.json({ message: "Notification marked as read" });
   } catch (error) {
     console.error("Error marking notification as read:", error);
@@ -118,6 +136,8 @@ export const markAllNotificationsAsRead = async (req, res) => {
       },
     });
 
+    await pushUnreadCount(userId);
+
     return res.json({ 
       message: "All notifications marked as read",
       updatedCount: updatedCount.count,
@@ -150,6 +170,8 @@ export const deleteNotification = async (req, res) => {
       return res.status(404).json({ message: "Notification not found" });
     }
 
+    await pushUnreadCount(userId);
+
     return res.json({ message: "Notification deleted" });
   } catch (error) {
     console.error("Error deleting notification:", error);
@@ -157,17 +179,93 @@ export const deleteNotification = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- GET NOTIFICATION PREFERENCES ----------------------------------------------
+export const getMyNotificationPreferences = async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized: user not found" });
+    }
+
+    const preferences = await getNotificationPreferences(userId);
+
+    return res.json({ preferences });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return res.status(500).json({ message: "Failed to fetch notification preferences" });
+  }
+};
+
+// ---------------------------------------------- UPDATE NOTIFICATION PREFERENCES ----------------------------------------------
+export const updateMyNotificationPreferences = async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized: user not found" });
+    }
+
+    const current = await getNotificationPreferences(userId);
+    const validation = validateNotificationPreferences(req.body, current);
+    if (!validation.data) {
+      return res.status(validation.status).json({ message: validation.message });
+    }
+
+    const preferences = await saveNotificationPreferences(userId, validation.data);
+
+    return res.json({ message: "Notification preferences updated", preferences });
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return res.status(500).json({ message: "Failed to update notification preferences" });
+  }
+};
+
+// Email a notification, linking to where the user can act on it
+const emailNotification = async (userId, type, message) => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+  const path = user?.role === "LANDLORD"
+    ? generateNotificationLink({ type, message })
+    : `/${(user?.role || "tenant").toLowerCase()}`;
+  const result = await sendNotificationEmail(userId, type, message, path);
+  if (!result.success) {
+    console.error("Error emailing notification:", result.error);
+  }
+};
+
 // ---------------------------------------------- CREATE NOTIFICATION (INTERNAL USE) ----------------------------------------------
+// Delivers over the channels the user enabled for the type's category. Returns the in-app
+// notification, or null when the user turned in-app off for that category.
 export const createNotification = async (userId, type, message) => {
   try {
-    const notification = await prisma.notification.create({
-      data: {
-        userId,
-        type,
-        message,
-        status: "UNREAD",
-      },
-    });
+    const { channels } = await getNotificationPreferences(userId);
+    const channel = channels[getNotificationCategory(type)];
+
+    let notification = null;
+    if (channel.inApp) {
+      notification = await prisma.notification.create({
+        data: {
+          userId,
+          type,
+          message,
+          status: "UNREAD",
+        },
+      });
+
+      // Push to the user's open tabs (bell badge + dropdown)
+      try {
+        const unreadCount = await prisma.notification.count({ where: { userId, status: "UNREAD" } });
+        emitToUser(userId, "notification:new", { notification: formatNotification(notification), unreadCount });
+      } catch (pushError) {
+        console.error("Error pushing notification:", pushError);
+        // Don't fail notification creation if the push fails
+      }
+    }
+
+    if (channel.email) {
+      // Sent in the background: callers shouldn't wait on (or fail because of) the mail provider
+      emailNotification(userId, type, message).catch(emailError => {
+        console.error("Error emailing notification:", emailError);
+      });
+    }
 
     return notification;
   } catch (error) {
@@ -178,6 +276,32 @@ export const createNotification = async (userId, type, message) => {
 
 // ---------------------------------------------- HELPER FUNCTIONS ----------------------------------------------
 
+// Shape sent to the frontend (REST list and realtime push)
+function formatNotification(notification) {
+  return {
+    id: notification.id,
+    type: notification.type,
+    message: notification.message,
+    status: notification.status,
+    readAt: notification.readAt,
+    createdAt: notification.createdAt,
+    // Generate appropriate link based on notification type
+    link: generateNotificationLink(notification),
+    // Format time for display
+    time: formatTimeAgo(notification.createdAt),
+  };
+}
+
+// Keep the badge in sync across a user's tabs after reads/deletes
+async function pushUnreadCount(userId) {
+  try {
+    const unreadCount = await prisma.notification.count({ where: { userId, status: "UNREAD" } });
+    emitToUser(userId, "notification:unread", { unreadCount });
+  } catch (pushError) {
+    console.error("Error pushing unread notification count:", pushError);
+  }
+}
+
 // Generate appropriate link based on notification type
 function generateNotificationLink(notification) {
   const { type, message } = notification;
@@ -240,6 +364,12 @@ function generateNotificationLink(notification) {
       }
       return "/landlord/tenants";
       
+    case "REVIEW":
+      return "/landlord/properties";
+
+    case "REVIEW_MODERATION":
+      return "/admin/reviews";
+
     case "MAINTENANCE_REQUEST":
       if (messageLower.includes("maintenance")) {
         return "/landlord/maintenance";
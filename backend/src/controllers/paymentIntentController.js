@@ -0,0 +1,113 @@
+// file: paymentIntentController.js
+import prisma from "../libs/prismaClient.js";
+import { confirmPaymentIntent, handlePaymentWebhook } from "../services/paymentService.js";
+import { isSimulatedPaymentsEnabled } from "../services/payments/simulatedProvider.js";
+
+// Fields of a PaymentIntent safe to hand to the payer
+const formatIntent = (intent) => ({
+  id: intent.id,
+  provider: intent.provider,
+  providerRef: intent.providerRef,
+  purpose: intent.purpose,
+  amount: intent.amount,
+  currency: intent.currency,
+  method: intent.method,
+  status: intent.status,
+  failureReason: intent.failureReason,
+  paymentId: intent.paymentId,
+  createdAt: intent.createdAt,
+  updatedAt: intent.updatedAt,
+});
+
+// ---------------------------------------------- GET PAYMENT INTENT ----------------------------------------------
+export const getPaymentIntent = async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { intentId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized: user not found" });
+    }
+
+    const intent = await prisma.paymentIntent.findFirst({
+      where: { id: intentId, userId }
+    });
+
+    if (!intent) {
+      return res.status(404).json({ message: "Payment intent not found" });
+    }
+
+    return res.json({ intent: formatIntent(intent) });
+  } catch (error) {
+    console.error("Error fetching payment intent:", error);
+    return res.status(500).json({ message: "Failed to fetch payment intent" });
+  }
+};
+
+// ---------------------------------------------- CONFIRM PAYMENT INTENT ----------------------------------------------
+export const confirmPaymentIntentController = async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { intentId } = req.params;
+    const { simulateOutcome } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized: user not found" });
+    }
+
+    if (simulateOutcome && !isSimulatedPaymentsEnabled()) {
+      return res.status(400).json({ message: "simulateOutcome is not available in this environment" });
+    }
+
+    if (simulateOutcome && !["succeed", "fail"].includes(simulateOutcome)) {
+      return res.status(400).json({ message: "simulateOutcome must be 'succeed' or 'fail'" });
+    }
+
+    const intent = await prisma.paymentIntent.findFirst({
+      where: { id: intentId, userId }
+    });
+
+    if (!intent) {
+      return res.status(404).json({ message: "Payment intent not found" });
+    }
+
+    if (intent.status !== "REQUIRES_CONFIRMATION") {
+      return res.status(400).json({ message: `Payment intent is already ${intent.status.toLowerCase()}` });
+    }
+
+    if (simulateOutcome && intent.provider !== "SIMULATED") {
+      return res.status(400).json({ message: "simulateOutcome only applies to simulated payments" });
+    }
+
+    const updatedIntent = await confirmPaymentIntent(intent, { simulateOutcome });
+
+    return res.json({
+      message: "Payment is being processed",
+      intent: formatIntent(updatedIntent)
+    });
+  } catch (error) {
+    console.error("Error confirming payment intent:", error);
+    return res.status(500).json({ message: "Failed to confirm payment" });
+  }
+};
+
+// ---------------------------------------------- PAYMENT PROVIDER WEBHOOK ----------------------------------------------
+export const handlePaymentWebhookController = async (req, res) => {
+  const { provider } = req.params;
+
+  let result;
+  try {
+    result = await handlePaymentWebhook(provider, req.rawBody, req.headers);
+  } catch (error) {
+    if (error.status === 400) {
+      console.error(`Rejected ${provider} payment webhook:`, error.message);
+      return res.status(400).json({ message: "Invalid webhook" });
+    }
+
+    // Not the sender's fault: a 500 makes the provider deliver the event again
+    console.error(`Error handling ${provider} payment webhook:`, error);
+    return res.status(500).json({ message: "Failed to process webhook" });
+  }
+
+  return res.json({ received: true, duplicate: Boolean(result.duplicate) });
+};
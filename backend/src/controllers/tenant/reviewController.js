@@ -0,0 +1,181 @@
+// file: reviewController.js
+import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { REVIEWABLE_LEASE_STATUSES, validateReviewInput } from "../../services/unitReviewService.js";
+
+const tenantReviewSelect = {
+  id: true,
+  rating: true,
+  comment: true,
+  status: true,
+  moderationNote: true,
+  landlordReply: true,
+  landlordRepliedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// Let the admins know a review is waiting in the moderation queue
+const notifyModerators = async (message) => {
+  try {
+    const admins = await prisma.user.findMany({
+      where: { role: "ADMIN" },
+      select: { id: true }
+    });
+    await Promise.all(admins.map(admin => createNotification(admin.id, "REVIEW_MODERATION", message)));
+  } catch (notificationError) {
+    console.error("Error creating review moderation notifications:", notificationError);
+    // Don't fail the review if notification fails
+  }
+};
+
+// ---------------------------------------------- GET REVIEWABLE LEASES ----------------------------------------------
+// The tenant's current and past leases with the review they left for each (if any)
+export const getTenantReviews = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const leases = await prisma.lease.findMany({
+      where: { tenantId, status: { in: REVIEWABLE_LEASE_STATUSES } },
+      select: {
+        id: true,
+        leaseNickname: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        unit: {
+          select: {
+            id: true,
+            label: true,
+            property: { select: { id: true, title: true } }
+          }
+        },
+        reviews: {
+          where: { tenantId },
+          select: tenantReviewSelect,
+          take: 1
+        }
+      },
+      orderBy: { startDate: "desc" }
+    });
+
+    res.json({
+      leases: leases.map(({ reviews, ...lease }) => ({
+        ...lease,
+        review: reviews[0] || null
+      }))
+    });
+  } catch (error) {
+    console.error("Error fetching tenant reviews:", error);
+    res.status(500).json({ message: "Failed to fetch reviews" });
+  }
+};
+
+// ---------------------------------------------- SUBMIT REVIEW ----------------------------------------------
+export const submitUnitReview = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { leaseId } = req.params;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const validation = validateReviewInput(req.body);
+    if (!validation.data) {
+      return res.status(validation.status).json({ message: validation.message });
+    }
+
+    const lease = await prisma.lease.findFirst({
+      where: { id: leaseId, tenantId, status: { in: REVIEWABLE_LEASE_STATUSES } },
+      include: { unit: { select: { id: true, label: true, property: { select: { title: true } } } } }
+    });
+
+    if (!lease) {
+      return res.status(404).json({ message: "Lease not found or not eligible for a review" });
+    }
+
+    const existing = await prisma.unitReview.findUnique({
+      where: { tenantId_unitId_leaseId: { tenantId, unitId: lease.unitId, leaseId: lease.id } }
+    });
+    if (existing) {
+      return res.status(409).json({ message: "You already reviewed this unit for this lease. Edit your review instead." });
+    }
+
+    const review = await prisma.unitReview.create({
+      data: {
+        tenantId,
+        unitId: lease.unitId,
+        leaseId: lease.id,
+        rating: validation.data.rating,
+        comment: validation.data.comment,
+        status: "PENDING"
+      },
+      select: tenantReviewSelect
+    });
+
+    await notifyModerators(`New ${review.rating}-star review awaiting moderation for ${lease.unit.property.title} - Unit ${lease.unit.label}`);
+
+    res.status(201).json({
+      message: "Review submitted. It will appear publicly once approved.",
+      review
+    });
+  } catch (error) {
+    console.error("Error submitting unit review:", error);
+    res.status(500).json({ message: "Failed to submit review" });
+  }
+};
+
+// ---------------------------------------------- UPDATE REVIEW ----------------------------------------------
+// Edits go back through moderation
+export const updateUnitReview = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { reviewId } = req.params;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const validation = validateReviewInput(req.body);
+    if (!validation.data) {
+      return res.status(validation.status).json({ message: validation.message });
+    }
+
+    const existing = await prisma.unitReview.findFirst({
+      where: { id: reviewId, tenantId },
+      include: { unit: { select: { label: true, property: { select: { title: true } } } } }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+
+    const review = await prisma.unitReview.update({
+      where: { id: existing.id },
+      data: {
+        rating: validation.data.rating,
+        comment: validation.data.comment,
+        status: "PENDING",
+        moderatedAt: null,
+        moderatedById: null,
+        moderationNote: null
+      },
+      select: tenantReviewSelect
+    });
+
+    await notifyModerators(`Edited review awaiting moderation for ${existing.unit.property.title} - Unit ${existing.unit.label}`);
+
+    res.json({
+      message: "Review updated. It will appear publicly once approved.",
+      review
+    });
+  } catch (error) {
+    console.error("Error updating unit review:", error);
+    res.status(500).json({ message: "Failed to update review" });
+  }
+};
@@ -1,7 +1,34 @@
 // file: tenantController.js
 import prisma from "../../libs/prismaClient.js";
-import { createMessageNotification } from "../../services/notificationService.js";
+import { createNotification } from "../notificationController.js";
+import { createMessageNotification, createLeaseNotification } from "../../services/notificationService.js";
 import { generateLeasePDF } from "../../services/pdfService.js";
+import { getLeaseRentSchedule, syncRentSchedule } from "../../services/rentScheduleService.js";
+import { createPaymentIntent } from "../../services/paymentService.js";
+import { acceptRenewalOffer, expireRenewalOfferIfStale } from "../../services/leaseRenewalService.js";
+import { MAINTENANCE_CATEGORIES, MAINTENANCE_PRIORITIES, getSlaDeadlines } from "../../services/maintenanceSlaService.js";
+import { getMaintenanceTimeline, addMaintenanceUpdate } from "../../services/maintenanceTimelineService.js";
+import { emitToUser, markConversationRead } from "../../services/realtimeService.js";
+import {
+  messageAttachmentSelect,
+  buildMessageAttachments,
+  formatMessageAttachment,
+  removeMessageAttachmentFiles
+} from "../../services/messageAttachmentService.js";
+import { removeUploadedMessageFiles } from "../../middlewares/messageAttachmentUpload.js";
+import { publicReviewSelect, formatPublicReview, getUnitRatingSummaries, combineRatingSummaries } from "../../services/unitReviewService.js";
+import { refreshLeaseBehavior } from "../../services/tenantBehaviorService.js";
+import { screenApplication } from "../../services/tenantScreeningService.js";
+import {
+  conversationScopeInclude,
+  formatConversationMeta,
+  conversationsForUser,
+  setConversationArchived,
+  touchConversation,
+  resolveConversationScope,
+  findOrCreateConversation,
+  searchConversationMessages
+} from "../../services/conversationService.js";
 
 // Helper function to format property address
 function formatPropertyAddress(property) {
@@ -353,6 +380,14 @@ export const getTenantLeaseDetails = async (req, res) => {
         },
         payments: {
           orderBy: { createdAt: "desc" }
+        },
+        renewalOffers: {
+          where: { status: "PENDING" },
+          orderBy: { createdAt: "desc" },
+          take: 1
+        },
+        renewedBy: {
+          select: { id: true, startDate: true, endDate: true, rentAmount: true, interval: true, status: true }
         }
       }
     });
@@ -407,12 +442,18 @@ export const getTenantLeaseDetails = async (req, res) => {
       .sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt))
       .slice(0, 5);
 
-    // Get upcoming payments (next 3)
-    const upcomingPayments = allPayments
-      .filter(payment => payment.status === "PENDING" && new Date(payment.createdAt) > now)
-      .sort((a, b) => new Date(a.createdAt) - new Date(b.createdAt))
+    // Get upcoming installments (next 3 unpaid from the rent schedule) and the running balance
+    const { installments, summary, balance } = await getLeaseRentSchedule(lease.id);
+    const upcomingPayments = installments
+      .filter(installment => installment.status !== "PAID")
       .slice(0, 3);
 
+    // Pending renewal offer awaiting the tenant's answer (lapsed offers are expired here)
+    let renewalOffer = lease.renewalOffers[0] || null;
+    if (renewalOffer && await expireRenewalOfferIfStale(renewalOffer, now)) {
+      renewalOffer = null;
+    }
+
     // Mock lease rules (in a real app, these would come from the database)
     const leaseRules = [
       {
@@ -449,6 +490,10 @@ export const getTenantLeaseDetails = async (req, res) => {
       endDate: lease.endDate,
       rentAmount: lease.rentAmount,
       interval: lease.interval,
+      gracePeriodDays: lease.gracePeriodDays,
+      lateFeeType: lease.lateFeeType,
+      lateFeeAmount: lease.lateFeeAmount,
+      lateFeeMaxAmount: lease.lateFeeMaxAmount,
       status: lease.status,
       hasFormalDocument: lease.hasFormalDocument,
       leaseDocumentUrl: lease.leaseDocumentUrl,
@@ -515,12 +560,16 @@ export const getTenantLeaseDetails = async (req, res) => {
         dueDate: payment.createdAt,
         createdAt: payment.createdAt
       })),
-      upcomingPayments: upcomingPayments.map(payment => ({
-        id: payment.id,
-        amount: payment.amount,
-        dueDate: payment.createdAt,
-        status: payment.status
+      upcomingPayments: upcomingPayments.map(installment => ({
+        id: installment.id,
+        type: installment.type,
+        amount: installment.amount - installment.amountPaid,
+        dueDate: installment.dueDate,
+        status: installment.status
       })),
+      balance: { ...balance, nextDue: summary.nextDue },
+      renewalOffer,
+      renewedBy: lease.renewedBy,
       leaseRules
     };
 
@@ -568,6 +617,16 @@ export const getTenantPayments = async (req, res) => {
               }
             }
           }
+        },
+        charge: {
+          select: {
+            id: true,
+            dueDate: true,
+            periodStart: true,
+            periodEnd: true,
+            amount: true,
+            status: true
+          }
         }
       },
       orderBy: { createdAt: "desc" }
@@ -580,6 +639,46 @@ export const getTenantPayments = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- GET TENANT RENT SCHEDULE ----------------------------------------------
+export const getTenantRentSchedule = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const lease = await prisma.lease.findFirst({
+      where: {
+        tenantId: tenantId,
+        OR: [
+          { status: "ACTIVE" },
+          { status: "DRAFT" }
+        ]
+      },
+      select: {
+        id: true,
+        leaseNickname: true,
+        rentAmount: true,
+        interval: true,
+        startDate: true,
+        endDate: true,
+        status: true
+      }
+    });
+
+    if (!lease) {
+      return res.status(404).json({ message: "No lease found" });
+    }
+
+    const schedule = await getLeaseRentSchedule(lease.id);
+
+    res.json({ lease, ...schedule });
+  } catch (error) {
+    console.error("Error fetching tenant rent schedule:", error);
+    res.status(500).json({ message: "Failed to fetch rent schedule" });
+  }
+};
+
 // ---------------------------------------------- GET TENANT MAINTENANCE REQUESTS ----------------------------------------------
 export const getTenantMaintenanceRequests = async (req, res) => {
   try {
@@ -607,6 +706,16 @@ export const getTenantMaintenanceRequests = async (req, res) => {
           select: {
             label: true
           }
+        },
+        contractor: {
+          select: {
+            name: true,
+            company: true,
+            phone: true
+          }
+        },
+        attachments: {
+          orderBy: { createdAt: "asc" }
         }
       },
       orderBy: { createdAt: "desc" }
@@ -657,11 +766,78 @@ export const clearMaintenanceRequest = async (req, res) => {
   }
 };
 
+// ---------------------------------------------- GET MAINTENANCE TIMELINE ----------------------------------------------
+export const getTenantMaintenanceTimeline = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { requestId } = req.params;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const maintenanceRequest = await prisma.maintenanceRequest.findFirst({
+      where: { id: requestId, reporterId: tenantId },
+      select: { id: true }
+    });
+
+    if (!maintenanceRequest) {
+      return res.status(404).json({ message: "Maintenance request not found or not accessible" });
+    }
+
+    const timeline = await getMaintenanceTimeline(requestId);
+    res.json(timeline);
+  } catch (error) {
+    console.error("Error fetching maintenance timeline:", error);
+    res.status(500).json({ message: "Failed to fetch maintenance timeline" });
+  }
+};
+
+// ---------------------------------------------- ADD MAINTENANCE COMMENT ----------------------------------------------
+export const addTenantMaintenanceComment = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { requestId } = req.params;
+    const { message } = req.body;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    if (!message?.trim() && !req.file) {
+      return res.status(400).json({ message: "Add a comment or a photo" });
+    }
+
+    const maintenanceRequest = await prisma.maintenanceRequest.findFirst({
+      where: { id: requestId, reporterId: tenantId },
+      include: {
+        property: { select: { id: true, title: true, ownerId: true } },
+        unit: { select: { id: true, label: true } }
+      }
+    });
+
+    if (!maintenanceRequest) {
+      return res.status(404).json({ message: "Maintenance request not found or not accessible" });
+    }
+
+    const update = await addMaintenanceUpdate(maintenanceRequest, tenantId, {
+      type: "COMMENT",
+      message,
+      photoUrl: req.file ? `/uploads/maintenance/${req.file.filename}` : null,
+    });
+
+    res.status(201).json({ message: "Comment added successfully", update });
+  } catch (error) {
+    console.error("Error adding maintenance comment:", error);
+    res.status(500).json({ message: "Failed to add comment" });
+  }
+};
+
 // ---------------------------------------------- SUBMIT MAINTENANCE REQUEST ----------------------------------------------
 export const submitMaintenanceRequest = async (req, res) => {
   try {
     const tenantId = req.user?.id;
-    const { description } = req.body;
+    const { description, category = "GENERAL", priority = "MEDIUM" } = req.body;
 
     if (!tenantId) {
       return res.status(401).json({ message: "Unauthorized: tenant not found" });
@@ -671,12 +847,31 @@ export const submitMaintenanceRequest = async (req, res) => {
       return res.status(400).json({ message: "Description is required" });
     }
 
-    if (!req.file) {
-      return res.status(400).json({ message: "Photo is required" });
+    if (!MAINTENANCE_CATEGORIES.includes(category) || !MAINTENANCE_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ message: "Invalid category or urgency" });
     }
 
-    // Get the file path from the uploaded file
-    const photoUrl = `/uploads/maintenance/${req.file.filename}`;
+    const files = req.files?.attachments || [];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "Add at least one photo or video of the issue" });
+    }
+
+    // Thumbnails are named thumb-<index> after the attachment they belong to
+    const thumbnails = req.files?.attachmentThumbnails || [];
+    const attachments = files.map((file, index) => {
+      const thumbnail = thumbnails.find(thumb => thumb.originalname.startsWith(`thumb-${index}.`));
+      return {
+        kind: file.mimetype.startsWith("video/") ? "VIDEO" : "IMAGE",
+        url: `/uploads/maintenance/${file.filename}`,
+        thumbnailUrl: thumbnail ? `/uploads/maintenance/${thumbnail.filename}` : null,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size
+      };
+    });
+
+    // The first photo stays the request's cover image for list views
+    const photoUrl = attachments.find(attachment => attachment.kind === "IMAGE")?.url ?? null;
 
     // Get the tenant's current lease to get property and unit information
     const currentLease = await prisma.lease.findFirst({
@@ -714,9 +909,14 @@ export const submitMaintenanceRequest = async (req, res) => {
         reporterId: tenantId,
         description: description.trim(),
         photoUrl: photoUrl,
-        status: "OPEN"
+        status: "OPEN",
+        category,
+        priority,
+        ...getSlaDeadlines(priority, new Date()),
+        attachments: { create: attachments }
       },
       include: {
+        attachments: true,
         property: {
           select: {
             id: true,
@@ -748,19 +948,15 @@ export const submitMaintenanceRequest = async (req, res) => {
     // Create notification for the landlord
     try {
       console.log("Creating notification for landlord:", currentLease.unit.property.ownerId);
-      const notification = await prisma.notification.create({
-        data: {
-          userId: currentLease.unit.property.ownerId,
-          type: "MAINTENANCE_REQUEST",
-          message: `New maintenance request submitted for ${currentLease.unit.property.title} - Unit ${currentLease.unit.label}`
-        }
-      });
-      console.log("Notification created successfully:", notification.id);
+      const notification = await createNotification(currentLease.unit.property.ownerId, "MAINTENANCE_REQUEST", `New maintenance request submitted for ${currentLease.unit.property.title} - Unit ${currentLease.unit.label}`);
+      console.log("Notification created successfully:", notification?.id);
     } catch (notificationError) {
       console.error("Error creating maintenance request notification:", notificationError);
       // Don't fail the request if notification fails
     }
 
+    await refreshLeaseBehavior([currentLease.id], "MAINTENANCE");
+
     res.status(201).json({
       message: "Maintenance request submitted successfully",
       request: maintenanceRequest
@@ -887,18 +1083,8 @@ export const browseApprovedProperties = async (req, res) => {
                 }
               },
               reviews: {
-                select: {
-                  id: true,
-                  rating: true,
-                  comment: true,
-                  createdAt: true,
-                  tenant: {
-                    select: {
-                      firstName: true,
-                      lastName: true
-                    }
-                  }
-                },
+                where: { status: 'PUBLISHED' },
+                select: publicReviewSelect,
                 orderBy: { createdAt: 'desc' },
                 take: 5
               },
@@ -920,6 +1106,9 @@ export const browseApprovedProperties = async (req, res) => {
       prisma.property.count({ where })
     ]);
 
+    // Published rating of every listed unit (the card only carries the latest few reviews)
+    const ratingSummaries = await getUnitRatingSummaries(properties.flatMap(property => property.Unit.map(unit => unit.id)));
+
     // Format the response
     const formattedProperties = properties.map(property => {
       // Calculate aggregate data from available units
@@ -928,11 +1117,12 @@ export const browseApprovedProperties = async (req, res) => {
       const minPrice = availableUnits.length > 0 ? Math.min(...availableUnits.map(u => u.targetPrice)) : 0;
       const maxPrice = availableUnits.length > 0 ? Math.max(...availableUnits.map(u => u.targetPrice)) : 0;
       
-      // Get all reviews from all units
-      const allReviews = availableUnits.flatMap(unit => unit.reviews);
-      const avgRating = allReviews.length > 0 
-        ? allReviews.reduce((sum, review) => sum + review.rating, 0) / allReviews.length 
-        : 0;
+      // Latest reviews from all units, newest first
+      const allReviews = availableUnits.flatMap(unit => unit.reviews)
+        .sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt));
+      const { avgRating, reviewCount } = combineRatingSummaries(
+        availableUnits.map(unit => ratingSummaries.get(unit.id)).filter(Boolean)
+      );
 
       // Get unique amenities from all units
       const allAmenities = availableUnits.flatMap(unit => unit.amenities);
@@ -962,15 +1152,9 @@ export const browseApprovedProperties = async (req, res) => {
         },
         
         // Reviews and ratings
-        reviews: allReviews.map(review => ({
-          id: review.id,
-          rating: review.rating,
-          comment: review.comment,
-          createdAt: review.createdAt,
-          tenantName: `${review.tenant.firstName || ''} ${review.tenant.lastName || ''}`.trim() || 'Anonymous'
-        })),
-        avgRating: Math.round(avgRating * 10) / 10,
-        reviewCount: allReviews.length,
+        reviews: allReviews.map(formatPublicReview),
+        avgRating,
+        reviewCount,
         
         // Amenities from all units
         amenities: uniqueAmenities,
@@ -1047,18 +1231,8 @@ export const getPropertyDetailsForTenant = async (req, res) => {
               }
             },
             reviews: {
-              select: {
-                id: true,
-                rating: true,
-                comment: true,
-                createdAt: true,
-                tenant: {
-                  select: {
-                    firstName: true,
-                    lastName: true
-                  }
-                }
-              },
+              where: { status: 'PUBLISHED' },
+              select: publicReviewSelect,
               orderBy: { createdAt: 'desc' }
             },
             listings: {
@@ -1132,13 +1306,7 @@ export const getPropertyDetailsForTenant = async (req, res) => {
           
           amenities: unit.amenities,
           
-          reviews: unit.reviews.map(review => ({
-            id: review.id,
-            rating: review.rating,
-            comment: review.comment,
-            createdAt: review.createdAt,
-            tenantName: `${review.tenant.firstName || ''} ${review.tenant.lastName || ''}`.trim() || 'Anonymous'
-          })),
+          reviews: unit.reviews.map(formatPublicReview),
           avgRating: Math.round(avgRating * 10) / 10,
           reviewCount: unit.reviews.length
         };
@@ -1158,13 +1326,9 @@ export const getPropertyDetailsForTenant = async (req, res) => {
       
       // All reviews for the property
       allReviews: property.Unit.flatMap(unit => unit.reviews.map(review => ({
-        id: review.id,
-        rating: review.rating,
-        comment: review.comment,
-        createdAt: review.createdAt,
-        tenantName: `${review.tenant.firstName || ''} ${review.tenant.lastName || ''}`.trim() || 'Anonymous',
+        ...formatPublicReview(review),
         unitLabel: unit.label
-      }))),
+      }))).sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt)),
       
       avgRating: property.Unit.length > 0 ? 
         Math.round((property.Unit.flatMap(unit => unit.reviews)
@@ -1339,57 +1503,56 @@ export const submitTenantApplication = async (req, res) => {
       return res.status(400).json({ message: "You already have an application for this unit" });
     }
 
+    const applicationData = {
+      // Personal Information
+      fullName: fullName || '',
+      birthdate: birthdate ? new Date(birthdate) : null,
+      governmentIdNumber: governmentIdNumber || null,
+      
+      // Employment & Financial
+      employmentStatus: employmentStatus || null,
+      employerName: employerName || null,
+      monthlyIncome: monthlyIncome ? parseFloat(monthlyIncome) : null,
+      
+      // Background & References
+      previousLandlordName: previousLandlordName || null,
+      previousLandlordContact: previousLandlordContact || null,
+      rentalHistoryNotes: rentalHistoryNotes || null,
+      characterReferences: parsedCharacterReferences || null,
+      
+      // Lifestyle
+      isSmoker: isSmokerBool,
+      hasPets: hasPetsBool,
+      petTypes: petTypes || null,
+      otherLifestyle: parsedOtherLifestyle || null,
+      
+      // Document URLs
+      idImageUrl: finalIdImageUrl || null,
+      selfieUrl: finalSelfieUrl || null,
+      nbiClearanceUrl: finalNbiClearanceUrl || null,
+      biodataUrl: finalBiodataUrl || null,
+      proofOfIncomeUrl: finalProofOfIncomeUrl || null,
+    };
+
+    // Score the application against the unit's rent and house rules
+    const screening = screenApplication(applicationData, unit);
+
     // Create the tenant screening/application record
     const application = await prisma.tenantScreening.create({
       data: {
         tenantId,
         unitId,
+        ...applicationData,
         
-        // Personal Information
-        fullName: fullName || '',
-        birthdate: birthdate ? new Date(birthdate) : null,
-        governmentIdNumber: governmentIdNumber || null,
-        
-        // Employment & Financial
-        employmentStatus: employmentStatus || null,
-        employerName: employerName || null,
-        monthlyIncome: monthlyIncome ? parseFloat(monthlyIncome) : null,
-        
-        // Background & References
-        previousLandlordName: previousLandlordName || null,
-        previousLandlordContact: previousLandlordContact || null,
-        rentalHistoryNotes: rentalHistoryNotes || null,
-        characterReferences: parsedCharacterReferences || null,
-        
-        // Lifestyle
-        isSmoker: isSmokerBool,
-        hasPets: hasPetsBool,
-        petTypes: petTypes || null,
-        otherLifestyle: parsedOtherLifestyle || null,
-        
-        // Document URLs
-        idImageUrl: finalIdImageUrl || null,
-        selfieUrl: finalSelfieUrl || null,
-        nbiClearanceUrl: finalNbiClearanceUrl || null,
-        biodataUrl: finalBiodataUrl || null,
-        proofOfIncomeUrl: finalProofOfIncomeUrl || null,
-        
-        // AI Analysis (will be calculated later)
-        aiRiskScore: 0.2, // Default low risk
-        riskLevel: 'LOW',
-        aiScreeningSummary: 'Application submitted - pending review'
+        // Automated screening
+        aiRiskScore: screening.aiRiskScore,
+        riskLevel: screening.riskLevel,
+        aiScreeningSummary: screening.summary
       }
     });
 
     // Create notification for landlord
-    await prisma.notification.create({
-      data: {
-        userId: unit.property.ownerId,
-        type: 'APPLICATION',
-        message: `New tenant application received for ${unit.property.title} - Unit ${unit.label}`,
-        status: 'UNREAD'
-      }
-    });
+    await createNotification(unit.property.ownerId, 'APPLICATION', `New tenant application received for ${unit.property.title} - Unit ${unit.label}`);
 
     res.json({
       message: "Application submitted successfully",
@@ -1427,7 +1590,8 @@ export const deleteTenantMessage = async (req, res) => {
         senderId: userId, // Only sender can delete their own message
       },
       include: {
-        conversation: true
+        conversation: true,
+        attachments: { select: { storedName: true } }
       }
     });
 
@@ -1447,13 +1611,15 @@ export const deleteTenantMessage = async (req, res) => {
         permanentlyDeleted: true
       });
     } else {
-      // Mark message as deleted (soft delete)
+      // Mark message as deleted (soft delete); its attachments are removed for good
       const updatedMessage = await prisma.message.update({
         where: { id: messageId },
         data: {
-          content: "This message was deleted"
+          content: "This message was deleted",
+          attachments: { deleteMany: {} }
         }
       });
+      removeMessageAttachmentFiles(message.attachments);
 
       return res.json({
         message: "Message deleted successfully",
@@ -1469,18 +1635,24 @@ export const deleteTenantMessage = async (req, res) => {
   }
 };
 
-// ---------------------------------------------- DELETE TENANT CONVERSATION ----------------------------------------------
-export const deleteTenantConversation = async (req, res) => {
+// ---------------------------------------------- UPDATE TENANT CONVERSATION (TITLE / ARCHIVE) ----------------------------------------------
+// Archiving replaces deleting: the thread leaves the tenant's inbox but the history is kept
+export const updateTenantConversation = async (req, res) => {
   try {
     const { conversationId } = req.params;
+    const { title, archived } = req.body;
     const tenantId = req.user?.id;
 
     if (!tenantId) {
       return res.status(401).json({ message: "Unauthorized: tenant not found" });
     }
 
-    if (!conversationId) {
-      return res.status(400).json({ message: "Conversation ID is required" });
+    if (title === undefined && archived === undefined) {
+      return res.status(400).json({ message: "Nothing to update" });
+    }
+
+    if (title !== undefined && title !== null && (typeof title !== "string" || title.trim().length > 100)) {
+      return res.status(400).json({ message: "Title must be at most 100 characters" });
     }
 
     // Find the conversation and verify the tenant has access to it
@@ -1498,26 +1670,52 @@ export const deleteTenantConversation = async (req, res) => {
       return res.status(404).json({ message: "Conversation not found or not accessible" });
     }
 
-    // Check if this is a conversation with the tenant's current landlord
-    const otherUserId = conversation.userAId === tenantId ? conversation.userBId : conversation.userAId;
-    const isInquiry = await checkIfInquiry(tenantId, otherUserId);
-    
-    // If it's NOT an inquiry, it means they have a lease (current landlord) - prevent deletion
-    if (!isInquiry) {
-      return res.status(403).json({ 
-        message: "Cannot delete conversation with your current landlord. This conversation is protected." 
+    let updated = conversation;
+    if (title !== undefined) {
+      // Renaming is shared by both participants; an empty title falls back to the other user's name
+      updated = await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { title: title?.trim() || null, updatedAt: conversation.updatedAt }
       });
     }
+    if (archived !== undefined) {
+      updated = await setConversationArchived(updated, tenantId, Boolean(archived));
+    }
 
-    // Delete the conversation and all its messages
-    await prisma.conversation.delete({
-      where: { id: conversationId }
+    res.json({
+      message: archived === undefined
+        ? "Conversation updated successfully"
+        : archived ? "Conversation archived" : "Conversation moved to inbox",
+      conversation: {
+        id: updated.id,
+        title: updated.title,
+        ...formatConversationMeta(updated, tenantId),
+      }
     });
+  } catch (error) {
+    console.error("Error updating tenant conversation:", error);
+    res.status(500).json({ message: "Failed to update conversation" });
+  }
+};
+
+// ---------------------------------------------- SEARCH TENANT MESSAGES ----------------------------------------------
+export const searchTenantMessages = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const query = typeof req.query.q === "string" ? req.query.q : "";
+    if (query.trim().length < 2) {
+      return res.status(400).json({ message: "Search query must be at least 2 characters" });
+    }
 
-    res.json({ message: "Conversation deleted successfully" });
+    const results = await searchConversationMessages(tenantId, query);
+    res.json({ query: query.trim(), results });
   } catch (error) {
-    console.error("Error deleting tenant conversation:", error);
-    res.status(500).json({ message: "Failed to delete conversation" });
+    console.error("Error searching tenant messages:", error);
+    res.status(500).json({ message: "Failed to search messages" });
   }
 };
 
@@ -1618,15 +1816,12 @@ export const getTenantConversations = async (req, res) => {
       }
     });
 
-    // Get all existing conversations where the tenant is either userA or userB
+    // Inbox by default, ?archived=true for the tenant's archived threads
+    const showArchived = req.query.archived === "true";
     const conversations = await prisma.conversation.findMany({
-      where: {
-        OR: [
-          { userAId: tenantId },
-          { userBId: tenantId }
-        ]
-      },
+      where: conversationsForUser(tenantId, showArchived),
       include: {
+        ...conversationScopeInclude,
         userA: {
           select: {
             id: true,
@@ -1658,7 +1853,8 @@ export const getTenantConversations = async (req, res) => {
                 lastName: true,
                 avatarUrl: true,
               }
-            }
+            },
+            _count: { select: { attachments: true } }
           }
         },
         _count: {
@@ -1704,7 +1900,7 @@ export const getTenantConversations = async (req, res) => {
 
       return {
         id: conversation.id,
-        title: `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email,
+        title: conversation.title || `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email,
         otherUser: {
           id: otherUser.id,
           firstName: otherUser.firstName,
@@ -1717,6 +1913,7 @@ export const getTenantConversations = async (req, res) => {
         lastMessage: lastMessage ? {
           id: lastMessage.id,
           content: lastMessage.content,
+          attachmentCount: lastMessage._count.attachments,
           isRead: lastMessage.isRead,
           createdAt: lastMessage.createdAt,
           sender: {
@@ -1732,18 +1929,24 @@ export const getTenantConversations = async (req, res) => {
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
         isInquiry: isInquiry, // Dynamic inquiry check
+        ...formatConversationMeta(conversation, tenantId),
       };
     }));
 
     // If the tenant has an assigned landlord, check if there's already a conversation with them
     let landlordConversation = null;
-    if (currentLease && currentLease.unit.property.owner) {
+    if (currentLease && currentLease.unit.property.owner && !showArchived) {
       const landlord = currentLease.unit.property.owner;
       
-      // Check if there's already a conversation with this landlord
-      const existingConversation = formattedConversations.find(conv => 
-        conv.otherUser.id === landlord.id
-      );
+      // Check if there's already a conversation with this landlord (archived threads count too)
+      const existingConversation = await prisma.conversation.count({
+        where: {
+          OR: [
+            { userAId: tenantId, userBId: landlord.id },
+            { userAId: landlord.id, userBId: tenantId }
+          ]
+        }
+      });
       
       if (!existingConversation) {
         // Create a virtual conversation entry for the landlord
@@ -1766,6 +1969,9 @@ export const getTenantConversations = async (req, res) => {
           updatedAt: null,
           isLandlord: true, // Flag to indicate this is the assigned landlord
           isInquiry: false, // This is the current landlord, not an inquiry
+          unit: null,
+          lease: null,
+          isArchived: false,
         };
       }
     }
@@ -1808,6 +2014,7 @@ export const getTenantConversationMessages = async (req, res) => {
         ]
       },
       include: {
+        ...conversationScopeInclude,
         userA: {
           select: {
             id: true,
@@ -1848,20 +2055,14 @@ export const getTenantConversationMessages = async (req, res) => {
             avatarUrl: true,
             role: true,
           }
-        }
+        },
+        attachments: { select: messageAttachmentSelect, orderBy: { createdAt: "asc" } }
       },
       orderBy: { createdAt: "asc" },
     });
 
-    // Mark messages as read (only messages from other user)
-    await prisma.message.updateMany({
-      where: {
-        conversationId: conversationId,
-        senderId: { not: tenantId },
-        isRead: false,
-      },
-      data: { isRead: true },
-    });
+    // Mark messages as read (only messages from other user) and send the read receipt live
+    await markConversationRead(conversation, tenantId);
 
     // Format the response
     const otherUser = conversation.userAId === tenantId ? conversation.userB : conversation.userA;
@@ -1870,6 +2071,7 @@ export const getTenantConversationMessages = async (req, res) => {
       conversationId: message.conversationId,
       senderId: message.senderId,
       content: message.content,
+      attachments: message.attachments.map(formatMessageAttachment),
       isRead: message.isRead,
       createdAt: message.createdAt,
       sender: {
@@ -1886,7 +2088,7 @@ export const getTenantConversationMessages = async (req, res) => {
     res.json({
       conversation: {
         id: conversation.id,
-        title: `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email,
+        title: conversation.title || `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email,
         otherUser: {
           id: otherUser.id,
           firstName: otherUser.firstName,
@@ -1898,6 +2100,7 @@ export const getTenantConversationMessages = async (req, res) => {
         },
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
+        ...formatConversationMeta(conversation, tenantId),
       },
       messages: formattedMessages,
     });
@@ -1910,15 +2113,19 @@ export const getTenantConversationMessages = async (req, res) => {
 // ---------------------------------------------- SEND TENANT MESSAGE ----------------------------------------------
 export const sendTenantMessage = async (req, res) => {
   try {
-    const { conversationId, content, recipientId } = req.body;
+    const { conversationId, content, recipientId, unitId, leaseId } = req.body;
     const senderId = req.user?.id;
+    const files = req.files || [];
 
     if (!senderId) {
+      removeUploadedMessageFiles(files);
       return res.status(401).json({ message: "Unauthorized: user not found" });
     }
 
-    if (!content) {
-      return res.status(400).json({ message: "Content is required" });
+    // A message needs text, at least one attachment, or both
+    if (!content?.trim() && files.length === 0) {
+      removeUploadedMessageFiles(files);
+      return res.status(400).json({ message: "A message or attachment is required" });
     }
 
     let conversation;
@@ -1936,30 +2143,19 @@ export const sendTenantMessage = async (req, res) => {
       });
 
       if (!conversation) {
+        removeUploadedMessageFiles(files);
         return res.status(404).json({ message: "Conversation not found or not accessible" });
       }
     } else if (recipientId) {
-      // New conversation - check if one already exists
-      conversation = await prisma.conversation.findFirst({
-        where: {
-          OR: [
-            { userAId: senderId, userBId: recipientId },
-            { userAId: recipientId, userBId: senderId }
-          ]
-        }
-      });
-
-      if (!conversation) {
-        // Create new conversation
-        conversation = await prisma.conversation.create({
-          data: {
-            userAId: senderId,
-            userBId: recipientId,
-            title: null, // Will be auto-generated
-          }
-        });
+      // New conversation - reuse the thread for this landlord (and unit/lease, if given)
+      const scope = await resolveConversationScope({ landlordId: recipientId, tenantId: senderId, unitId, leaseId });
+      if (!scope.data) {
+        removeUploadedMessageFiles(files);
+        return res.status(scope.status).json({ message: scope.message });
       }
+      conversation = await findOrCreateConversation(senderId, recipientId, scope.data);
     } else {
+      removeUploadedMessageFiles(files);
       return res.status(400).json({ message: "Either conversationId or recipientId is required" });
     }
 
@@ -1968,7 +2164,8 @@ export const sendTenantMessage = async (req, res) => {
       data: {
         conversationId: conversation.id,
         senderId: senderId,
-        content: content.trim(),
+        content: content?.trim() || "",
+        attachments: { create: buildMessageAttachments(files) },
       },
       include: {
         sender: {
@@ -1980,15 +2177,13 @@ export const sendTenantMessage = async (req, res) => {
             avatarUrl: true,
             role: true,
           }
-        }
+        },
+        attachments: { select: messageAttachmentSelect, orderBy: { createdAt: "asc" } }
       }
     });
 
-    // Update conversation's updatedAt timestamp
-    await prisma.conversation.update({
-      where: { id: conversation.id },
-      data: { updatedAt: new Date() }
-    });
+    // Update conversation's updatedAt timestamp (and un-archive it for both sides)
+    await touchConversation(conversation.id);
 
     // Get the recipient (other user in the conversation)
     const messageRecipientId = conversation.userAId === senderId ? conversation.userBId : conversation.userAId;
@@ -2005,27 +2200,33 @@ export const sendTenantMessage = async (req, res) => {
       // Don't fail the message send if notification fails
     }
 
-    return res.json({
-      message: {
-        id: message.id,
-        conversationId: message.conversationId,
-        senderId: message.senderId,
-        content: message.content,
-        isRead: message.isRead,
-        createdAt: message.createdAt,
-        sender: {
-          id: message.sender.id,
-          firstName: message.sender.firstName,
-          lastName: message.sender.lastName,
-          email: message.sender.email,
-          avatarUrl: message.sender.avatarUrl,
-          role: message.sender.role,
-          fullName: `${message.sender.firstName || ''} ${message.sender.lastName || ''}`.trim() || message.sender.email,
-        }
+    const formattedMessage = {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      content: message.content,
+      attachments: message.attachments.map(formatMessageAttachment),
+      isRead: message.isRead,
+      createdAt: message.createdAt,
+      sender: {
+        id: message.sender.id,
+        firstName: message.sender.firstName,
+        lastName: message.sender.lastName,
+        email: message.sender.email,
+        avatarUrl: message.sender.avatarUrl,
+        role: message.sender.role,
+        fullName: `${message.sender.firstName || ''} ${message.sender.lastName || ''}`.trim() || message.sender.email,
       }
-    });
+    };
+
+    // Deliver live to the recipient and to the sender's other open tabs
+    emitToUser(messageRecipientId, "message:new", { message: formattedMessage });
+    emitToUser(senderId, "message:new", { message: formattedMessage });
+
+    return res.json({ message: formattedMessage });
   } catch (error) {
     console.error("Error sending tenant message:", error);
+    removeUploadedMessageFiles(req.files);
     res.status(500).json({ message: "Failed to send message" });
   }
 };
@@ -2033,7 +2234,7 @@ export const sendTenantMessage = async (req, res) => {
 // ---------------------------------------------- CREATE OR GET TENANT CONVERSATION ----------------------------------------------
 export const createOrGetTenantConversation = async (req, res) => {
   try {
-    const { otherUserId } = req.body;
+    const { otherUserId, unitId, leaseId } = req.body;
     const currentUserId = req.user?.id;
 
     if (!currentUserId) {
@@ -2048,16 +2249,15 @@ export const createOrGetTenantConversation = async (req, res) => {
       return res.status(400).json({ message: "Cannot create conversation with yourself" });
     }
 
-    // Check if conversation already exists
-    let conversation = await prisma.conversation.findFirst({
-      where: {
-        OR: [
-          { userAId: currentUserId, userBId: otherUserId },
-          { userAId: otherUserId, userBId: currentUserId }
-        ]
-      },
-      include: {
-        userA: {
+    // Optional unit/lease thread (e.g. an inquiry about one unit); otherwise the general conversation
+    const scope = await resolveConversationScope({ landlordId: otherUserId, tenantId: currentUserId, unitId, leaseId });
+    if (!scope.data) {
+      return res.status(scope.status).json({ message: scope.message });
+    }
+
+    const conversation = await findOrCreateConversation(currentUserId, otherUserId, scope.data, {
+      ...conversationScopeInclude,
+      userA: {
           select: {
             id: true,
             firstName: true,
@@ -2067,7 +2267,7 @@ export const createOrGetTenantConversation = async (req, res) => {
             role: true,
           }
         },
-        userB: {
+      userB: {
           select: {
             id: true,
             firstName: true,
@@ -2077,41 +2277,8 @@ export const createOrGetTenantConversation = async (req, res) => {
             role: true,
           }
         }
-      }
     });
 
-    // If conversation doesn't exist, create it
-    if (!conversation) {
-      conversation = await prisma.conversation.create({
-        data: {
-          userAId: currentUserId,
-          userBId: otherUserId,
-        },
-        include: {
-          userA: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              avatarUrl: true,
-              role: true,
-            }
-          },
-          userB: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-              avatarUrl: true,
-              role: true,
-            }
-          }
-        }
-      });
-    }
-
     // Format the response
     const otherUser = conversation.userAId === currentUserId ? conversation.userB : conversation.userA;
     
@@ -2121,7 +2288,7 @@ export const createOrGetTenantConversation = async (req, res) => {
     res.json({
       conversation: {
         id: conversation.id,
-        title: `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email,
+        title: conversation.title || `${otherUser.firstName || ''} ${otherUser.lastName || ''}`.trim() || otherUser.email,
         otherUser: {
           id: otherUser.id,
           firstName: otherUser.firstName,
@@ -2134,6 +2301,7 @@ export const createOrGetTenantConversation = async (req, res) => {
         isInquiry: isInquiry, // Dynamic inquiry check
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
+        ...formatConversationMeta(conversation, currentUserId),
       }
     });
   } catch (error) {
@@ -2150,14 +2318,9 @@ export const getTenantMessageStats = async (req, res) => {
       return res.status(401).json({ message: "Unauthorized: tenant not found" });
     }
 
-    // Get conversation count
+    // Get conversation count (inbox only)
     const totalConversations = await prisma.conversation.count({
-      where: {
-        OR: [
-          { userAId: tenantId },
-          { userBId: tenantId }
-        ]
-      }
+      where: conversationsForUser(tenantId)
     });
 
     // Get total messages count
@@ -2192,10 +2355,7 @@ export const getTenantMessageStats = async (req, res) => {
     
     const recentConversations = await prisma.conversation.count({
       where: {
-        OR: [
-          { userAId: tenantId },
-          { userBId: tenantId }
-        ],
+        ...conversationsForUser(tenantId),
         updatedAt: {
           gte: sevenDaysAgo
         }
@@ -2214,7 +2374,7 @@ export const getTenantMessageStats = async (req, res) => {
   }
 };
 
-// ---------------------------------------------- SUBMIT TENANT PAYMENT (SANDBOX) ----------------------------------------------
+// ---------------------------------------------- SUBMIT TENANT PAYMENT ----------------------------------------------
 export const submitTenantPayment = async (req, res) => {
   try {
     const tenantId = req.user?.id;
@@ -2260,79 +2420,35 @@ export const submitTenantPayment = async (req, res) => {
       return res.status(404).json({ message: "No active lease found. You must have an active lease to make payments." });
     }
 
-    // Simulate payment processing (SANDBOX MODE)
-    // In a real implementation, this would integrate with payment providers like Stripe, GCash, etc.
-    const mockPaymentIntentId = `pi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Simulate 3-second processing delay
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    // Make sure the installments this payment can settle exist
+    await syncRentSchedule(currentLease.id);
 
-    // Create payment record in database
-    const payment = await prisma.payment.create({
-      data: {
-        leaseId: currentLease.id,
-        amount: parseFloat(amount),
-        method: method.toUpperCase(),
-        providerTxnId: mockPaymentIntentId,
-        status: "PAID", // In sandbox mode, all payments are successful
-        timingStatus: "ONTIME", // Default to on-time for sandbox
-        isPartial: false,
-        note: note || `Payment via ${method} - Sandbox Mode`,
-        paidAt: new Date()
-      },
-      include: {
-        lease: {
-          include: {
-            unit: {
-              include: {
-                property: {
-                  select: {
-                    title: true,
-                    ownerId: true
-                  }
-                }
-              }
-            },
-            tenant: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true
-              }
-            }
-          }
-        }
-      }
+    // Open a provider intent; the PENDING payment becomes PAID / FAILED from provider webhooks
+    const intent = await createPaymentIntent({
+      purpose: "RENT",
+      userId: tenantId,
+      leaseId: currentLease.id,
+      amount: parseFloat(amount),
+      method: method.toUpperCase(),
+      note: note || `Payment via ${method}`
     });
 
-    // Create notification for the landlord
-    try {
-      await prisma.notification.create({
-        data: {
-          userId: currentLease.unit.property.ownerId,
-          type: "PAYMENT_RECEIVED",
-          message: `Payment of ₱${parseFloat(amount).toLocaleString()} received from ${payment.lease.tenant.firstName} ${payment.lease.tenant.lastName} for ${currentLease.unit.property.title}`,
-          status: "UNREAD"
-        }
-      });
-    } catch (notificationError) {
-      console.error("Error creating payment notification:", notificationError);
-      // Don't fail the payment if notification fails
-    }
-
     res.status(201).json({
-      message: "Payment processed successfully (Sandbox Mode)",
+      message: "Payment created. Confirm it to start processing.",
       payment: {
-        id: payment.id,
-        amount: payment.amount,
-        method: payment.method,
-        status: payment.status,
-        providerTxnId: payment.providerTxnId,
-        paidAt: payment.paidAt,
-        note: payment.note
+        id: intent.payment.id,
+        amount: intent.payment.amount,
+        method: intent.payment.method,
+        status: intent.payment.status,
+        providerTxnId: intent.payment.providerTxnId,
+        note: intent.payment.note
       },
-      sandbox: true // Indicate this is sandbox mode
+      intent: {
+        id: intent.id,
+        provider: intent.provider,
+        providerRef: intent.providerRef,
+        status: intent.status
+      }
     });
 
   } catch (error) {
@@ -2389,6 +2505,11 @@ export const downloadLeasePDF = async (req, res) => {
             email: true,
             phoneNumber: true,
           }
+        },
+        // Latest structured contract (full agreement) if one was built
+        documents: {
+          orderBy: { version: "desc" },
+          take: 1
         }
       }
     });
@@ -2414,4 +2535,124 @@ export const downloadLeasePDF = async (req, res) => {
     console.error("Error downloading lease PDF:", error);
     res.status(500).json({ message: "Failed to download lease PDF" });
   }
-};
\ No newline at end of file
+};
+
+// ---------------------------------------------- LEASE RENEWAL OFFERS ----------------------------------------------
+// Load a renewal offer addressed to this tenant (with what notifications need)
+const findTenantRenewalOffer = (offerId, tenantId) =>
+  prisma.leaseRenewalOffer.findFirst({
+    where: {
+      id: offerId,
+      lease: { tenantId: tenantId }
+    },
+    include: {
+      lease: {
+        include: {
+          unit: {
+            select: { id: true, label: true, property: { select: { ownerId: true } } }
+          },
+          tenant: { select: { id: true, firstName: true, lastName: true } },
+          renewedBy: { select: { id: true } }
+        }
+      }
+    }
+  });
+
+// ---------------------------------------------- ACCEPT RENEWAL OFFER ----------------------------------------------
+export const acceptLeaseRenewalOffer = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { offerId } = req.params;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const offer = await findTenantRenewalOffer(offerId, tenantId);
+    if (!offer) {
+      return res.status(404).json({ message: "Renewal offer not found" });
+    }
+
+    const now = new Date();
+    if (await expireRenewalOfferIfStale(offer, now)) {
+      return res.status(400).json({ message: "This renewal offer has expired" });
+    }
+
+    if (offer.status !== "PENDING") {
+      return res.status(400).json({ message: `Renewal offer is already ${offer.status.toLowerCase()}` });
+    }
+
+    if (offer.lease.status !== "ACTIVE" || offer.lease.renewedBy) {
+      return res.status(400).json({ message: "This lease can no longer be renewed" });
+    }
+
+    const renewal = await acceptRenewalOffer(offer, now);
+
+    try {
+      await createLeaseNotification(offer.lease.unit.property.ownerId, offer.lease, "RENEWED");
+    } catch (notificationError) {
+      console.error("Error creating lease renewal notification:", notificationError);
+      // Don't fail the acceptance if notification fails
+    }
+
+    res.json({
+      message: renewal.status === "ACTIVE"
+        ? "Lease renewed successfully"
+        : `Lease renewed successfully. The new term starts on ${new Date(renewal.startDate).toLocaleDateString()}`,
+      lease: renewal
+    });
+  } catch (error) {
+    console.error("Error accepting renewal offer:", error);
+    res.status(500).json({ message: "Failed to accept renewal offer" });
+  }
+};
+
+// ---------------------------------------------- DECLINE RENEWAL OFFER ----------------------------------------------
+export const declineLeaseRenewalOffer = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { offerId } = req.params;
+    const { reason } = req.body;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const offer = await findTenantRenewalOffer(offerId, tenantId);
+    if (!offer) {
+      return res.status(404).json({ message: "Renewal offer not found" });
+    }
+
+    if (await expireRenewalOfferIfStale(offer)) {
+      return res.status(400).json({ message: "This renewal offer has expired" });
+    }
+
+    if (offer.status !== "PENDING") {
+      return res.status(400).json({ message: `Renewal offer is already ${offer.status.toLowerCase()}` });
+    }
+
+    const updatedOffer = await prisma.leaseRenewalOffer.update({
+      where: { id: offer.id },
+      data: {
+        status: "DECLINED",
+        respondedAt: new Date(),
+        declineReason: reason?.trim() || null
+      }
+    });
+
+    try {
+      await createLeaseNotification(offer.lease.unit.property.ownerId, offer.lease, "RENEWAL_DECLINED");
+    } catch (notificationError) {
+      console.error("Error creating renewal decline notification:", notificationError);
+      // Don't fail the decline if notification fails
+    }
+
+    res.json({
+      message: "Renewal offer declined",
+      offer: updatedOffer
+    });
+  } catch (error) {
+    console.error("Error declining renewal offer:", error);
+    res.status(500).json({ message: "Failed to decline renewal offer" });
+  }
+};
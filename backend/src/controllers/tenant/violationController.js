@@ -0,0 +1,89 @@
+// file: violationController.js
+import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../notificationController.js";
+import { violationSelect, validateViolationResponse } from "../../services/leaseRuleViolationService.js";
+import { refreshLeaseBehavior } from "../../services/tenantBehaviorService.js";
+
+// ---------------------------------------------- GET MY VIOLATIONS ----------------------------------------------
+// Rule violations logged on any of the tenant's leases, newest first
+export const getTenantViolations = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const violations = await prisma.leaseRuleViolation.findMany({
+      where: { tenantId },
+      select: violationSelect,
+      orderBy: { occurredAt: "desc" }
+    });
+
+    res.json({ violations });
+  } catch (error) {
+    console.error("Error fetching tenant violations:", error);
+    res.status(500).json({ message: "Failed to fetch rule violations" });
+  }
+};
+
+// ---------------------------------------------- RESPOND TO VIOLATION ----------------------------------------------
+// body: { action: "ACKNOWLEDGE" | "DISPUTE", response? } — one answer per violation
+export const respondToViolation = async (req, res) => {
+  try {
+    const tenantId = req.user?.id;
+    const { violationId } = req.params;
+
+    if (!tenantId) {
+      return res.status(401).json({ message: "Unauthorized: tenant not found" });
+    }
+
+    const validation = validateViolationResponse(req.body);
+    if (!validation.data) {
+      return res.status(validation.status).json({ message: validation.message });
+    }
+
+    const violation = await prisma.leaseRuleViolation.findFirst({
+      where: { id: violationId, tenantId },
+      include: { lease: { select: { unit: { select: { label: true, property: { select: { title: true } } } } } } }
+    });
+
+    if (!violation) {
+      return res.status(404).json({ message: "Violation not found" });
+    }
+
+    if (violation.status !== "OPEN") {
+      return res.status(400).json({ message: "You already responded to this violation" });
+    }
+
+    const updated = await prisma.leaseRuleViolation.update({
+      where: { id: violation.id },
+      data: { ...validation.data, respondedAt: new Date() },
+      select: violationSelect
+    });
+
+    try {
+      const unitName = `${violation.lease.unit.property.title} - Unit ${violation.lease.unit.label}`;
+      await createNotification(
+        violation.landlordId,
+        "TENANT",
+        updated.status === "DISPUTED"
+          ? `Your tenant disputed the violation of "${violation.ruleText}" for ${unitName}: ${updated.tenantResponse}`
+          : `Your tenant acknowledged the violation of "${violation.ruleText}" for ${unitName}`
+      );
+    } catch (notificationError) {
+      console.error("Error creating violation response notification:", notificationError);
+      // Don't fail the response if notification fails
+    }
+
+    await refreshLeaseBehavior([violation.leaseId], "VIOLATION");
+
+    res.json({
+      message: updated.status === "DISPUTED" ? "Dispute sent to your landlord" : "Violation acknowledged",
+      violation: updated
+    });
+  } catch (error) {
+    console.error("Error responding to violation:", error);
+    res.status(500).json({ message: "Failed to respond to violation" });
+  }
+};
@@ -8,6 +8,27 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
+// Allowed types and the extension each one is stored with (never the client's extension,
+// since /uploads is served statically)
+const IMAGE_TYPES = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/gif': ['.gif'],
+  'image/webp': ['.webp'],
+};
+const VIDEO_TYPES = {
+  'video/mp4': ['.mp4', '.m4v'],
+  'video/quicktime': ['.mov'],
+  'video/webm': ['.webm'],
+};
+const ALLOWED_TYPES = { ...IMAGE_TYPES, ...VIDEO_TYPES };
+
+// The declared type has to be allowed and agree with the file extension
+const matchesType = (file, types) => {
+  const extensions = types[file.mimetype];
+  return Boolean(extensions && extensions.includes(path.extname(file.originalname).toLowerCase()));
+};
+
 // Configure multer for maintenance image uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -16,14 +37,13 @@ const storage = multer.diskStorage({
   filename: (req, file, cb) => {
     // Generate unique filename with timestamp
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const extension = path.extname(file.originalname);
-    cb(null, `maintenance-${uniqueSuffix}${extension}`);
+    cb(null, `maintenance-${uniqueSuffix}${ALLOWED_TYPES[file.mimetype][0]}`);
   }
 });
 
 // File filter to only allow image files
 const fileFilter = (req, file, cb) => {
-  if (file.mimetype.startsWith('image/')) {
+  if (matchesType(file, IMAGE_TYPES)) {
     cb(null, true);
   } else {
     cb(new Error('Only image files are allowed for maintenance requests'), false);
@@ -39,6 +59,73 @@ const upload = multer({
   }
 });
 
+// ---------------------------- Request attachments (photos + videos)
+
+// Per-request limits, enforced on submit
+export const MAINTENANCE_ATTACHMENT_LIMITS = {
+  maxFiles: 6,
+  maxImageSize: 10 * 1024 * 1024,   // 10MB per photo
+  maxVideoSize: 50 * 1024 * 1024,   // 50MB per video
+  maxTotalSize: 100 * 1024 * 1024,  // 100MB per request
+};
+
+// Photos and short videos; thumbnails are JPEGs rendered by the client
+const attachmentFileFilter = (req, file, cb) => {
+  if (file.fieldname === 'attachmentThumbnails' && matchesType(file, IMAGE_TYPES)) {
+    return cb(null, true);
+  }
+  if (file.fieldname === 'attachments' && matchesType(file, ALLOWED_TYPES)) {
+    return cb(null, true);
+  }
+  cb(new Error('Only image or video files are allowed for maintenance requests'), false);
+};
+
+const attachmentUpload = multer({
+  storage: storage,
+  fileFilter: attachmentFileFilter,
+  limits: {
+    fileSize: MAINTENANCE_ATTACHMENT_LIMITS.maxVideoSize,
+    files: MAINTENANCE_ATTACHMENT_LIMITS.maxFiles * 2, // each attachment may come with a thumbnail
+  }
+});
+
+const removeUploadedFiles = (files = []) => {
+  files.forEach(file => fs.unlink(file.path, () => {}));
+};
+
+// Middleware for multi-file upload: `attachments[]` + matching `attachmentThumbnails[]` (same order)
+export const uploadMaintenanceAttachments = (req, res, next) => {
+  attachmentUpload.fields([
+    { name: 'attachments', maxCount: MAINTENANCE_ATTACHMENT_LIMITS.maxFiles },
+    { name: 'attachmentThumbnails', maxCount: MAINTENANCE_ATTACHMENT_LIMITS.maxFiles },
+  ])(req, res, (err) => {
+    if (err) {
+      return next(err);
+    }
+
+    const attachments = req.files?.attachments || [];
+    const thumbnails = req.files?.attachmentThumbnails || [];
+    const allFiles = [...attachments, ...thumbnails];
+
+    // Per-kind size limits (multer only knows the largest one)
+    const oversized = attachments.find(file =>
+      file.mimetype.startsWith('image/') && file.size > MAINTENANCE_ATTACHMENT_LIMITS.maxImageSize
+    );
+    if (oversized) {
+      removeUploadedFiles(allFiles);
+      return res.status(400).json({ message: `${oversized.originalname} is too large. Photos can be up to 10MB.` });
+    }
+
+    const totalSize = attachments.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAINTENANCE_ATTACHMENT_LIMITS.maxTotalSize) {
+      removeUploadedFiles(allFiles);
+      return res.status(400).json({ message: 'Attachments are too large. The total per request is 100MB.' });
+    }
+
+    next();
+  });
+};
+
 // Middleware for single image upload
 export const uploadMaintenanceImage = (req, res, next) => {
   upload.single('maintenanceImage')(req, res, (err) => {
@@ -57,8 +144,14 @@ export const uploadMaintenanceImage = (req, res, next) => {
 export const handleMaintenanceImageUploadError = (error, req, res, next) => {
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
+      if (error.field === 'attachments') {
+        return res.status(400).json({ message: 'File size too large. Videos can be up to 50MB.' });
+      }
       return res.status(400).json({ message: 'Image size too large. Maximum size is 5MB.' });
     }
+    if (error.code === 'LIMIT_FILE_COUNT' || (error.code === 'LIMIT_UNEXPECTED_FILE' && ['attachments', 'attachmentThumbnails'].includes(error.field))) {
+      return res.status(400).json({ message: `Too many files. Attach up to ${MAINTENANCE_ATTACHMENT_LIMITS.maxFiles} photos or videos.` });
+    }
     if (error.code === 'LIMIT_UNEXPECTED_FILE') {
       return res.status(400).json({ message: 'Unexpected file field.' });
     }
@@ -66,7 +159,11 @@ export const handleMaintenanceImageUploadError = (error, req, res, next) => {
   }
   
   if (error.message === 'Only image files are allowed for maintenance requests') {
-    return res.status(400).json({ message: 'Only image files are allowed for maintenance requests.' });
+    return res.status(400).json({ message: 'Only image files (JPEG, PNG, GIF, WebP) are allowed for maintenance requests.' });
+  }
+
+  if (error.message === 'Only image or video files are allowed for maintenance requests') {
+    return res.status(400).json({ message: 'Only images (JPEG, PNG, GIF, WebP) or videos (MP4, MOV, WebM) are allowed for maintenance requests.' });
   }
   
   next(error);
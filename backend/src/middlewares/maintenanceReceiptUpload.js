@@ -0,0 +1,81 @@
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+
+// Ensure uploads directory exists for maintenance cost receipts
+const uploadsDir = path.join(process.cwd(), 'uploads', 'maintenance', 'receipts');
+if (!fs.existsSync(uploadsDir)) {
+  fs.mkdirSync(uploadsDir, { recursive: true });
+}
+
+// Allowed types and the extension each one is stored with (never the client's extension)
+const ALLOWED_TYPES = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf'],
+};
+
+// Configure multer for receipt uploads
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, uploadsDir);
+  },
+  filename: (req, file, cb) => {
+    // Generate unique filename with timestamp
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, `receipt-${uniqueSuffix}${ALLOWED_TYPES[file.mimetype][0]}`);
+  }
+});
+
+// File filter to allow images and PDFs (scanned or digital receipts); the extension has to agree with the type
+const fileFilter = (req, file, cb) => {
+  const extensions = ALLOWED_TYPES[file.mimetype];
+  if (extensions && extensions.includes(path.extname(file.originalname).toLowerCase())) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only image or PDF files are allowed for receipts'), false);
+  }
+};
+
+// Configure multer for receipts
+const upload = multer({
+  storage: storage,
+  fileFilter: fileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  }
+});
+
+// Middleware for single receipt upload (optional)
+export const uploadMaintenanceReceipt = (req, res, next) => {
+  upload.single('receipt')(req, res, (err) => {
+    if (err) {
+      // If it's a "no file" error, just continue without file
+      if (err.code === 'LIMIT_UNEXPECTED_FILE' || err.message.includes('Unexpected field')) {
+        return next();
+      }
+      return next(err);
+    }
+    next();
+  });
+};
+
+// Error handling middleware
+export const handleMaintenanceReceiptUploadError = (error, req, res, next) => {
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: 'Receipt size too large. Maximum size is 10MB.' });
+    }
+    if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({ message: 'Unexpected file field.' });
+    }
+    return res.status(400).json({ message: error.message });
+  }
+  
+  if (error.message === 'Only image or PDF files are allowed for receipts') {
+    return res.status(400).json({ message: 'Only image (JPEG, PNG, WebP) or PDF files are allowed for receipts.' });
+  }
+  
+  next(error);
+};
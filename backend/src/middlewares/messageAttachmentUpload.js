@@ -0,0 +1,102 @@
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+
+// Message attachments are private to the two participants, so they live outside the
+// public /uploads static folder and are only served by the authenticated attachment route
+export const MESSAGE_ATTACHMENTS_DIR = path.join(process.cwd(), 'private-uploads', 'message-attachments');
+if (!fs.existsSync(MESSAGE_ATTACHMENTS_DIR)) {
+  fs.mkdirSync(MESSAGE_ATTACHMENTS_DIR, { recursive: true });
+}
+
+// Per-message limits, enforced on send
+export const MESSAGE_ATTACHMENT_LIMITS = {
+  maxFiles: 5,
+  maxImageSize: 10 * 1024 * 1024,   // 10MB per image
+  maxPdfSize: 20 * 1024 * 1024,     // 20MB per PDF
+};
+
+// Allowed types and the extension each one is stored with (never the client's extension)
+const ALLOWED_TYPES = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/gif': ['.gif'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf'],
+};
+
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, MESSAGE_ATTACHMENTS_DIR);
+  },
+  filename: (req, file, cb) => {
+    // Generate unique filename with timestamp
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, `message-${uniqueSuffix}${ALLOWED_TYPES[file.mimetype][0]}`);
+  }
+});
+
+// Images and PDFs only; the file extension has to agree with the declared type
+const fileFilter = (req, file, cb) => {
+  const extensions = ALLOWED_TYPES[file.mimetype];
+  if (extensions && extensions.includes(path.extname(file.originalname).toLowerCase())) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only image files (JPEG, PNG, GIF, WebP) and PDF files can be attached to messages'), false);
+  }
+};
+
+const upload = multer({
+  storage: storage,
+  fileFilter: fileFilter,
+  limits: {
+    fileSize: MESSAGE_ATTACHMENT_LIMITS.maxPdfSize,
+    files: MESSAGE_ATTACHMENT_LIMITS.maxFiles,
+  }
+});
+
+export const removeUploadedMessageFiles = (files = []) => {
+  files.forEach(file => fs.unlink(file.path, () => {}));
+};
+
+// Middleware for multi-file upload: `attachments[]` next to the usual message fields
+export const uploadMessageAttachments = (req, res, next) => {
+  upload.array('attachments', MESSAGE_ATTACHMENT_LIMITS.maxFiles)(req, res, (err) => {
+    if (err) {
+      return next(err);
+    }
+
+    // Per-type size limits (multer only knows the largest one)
+    const oversized = (req.files || []).find(file =>
+      file.mimetype.startsWith('image/') && file.size > MESSAGE_ATTACHMENT_LIMITS.maxImageSize
+    );
+    if (oversized) {
+      removeUploadedMessageFiles(req.files);
+      return res.status(400).json({ message: `${oversized.originalname} is too large. Images can be up to 10MB.` });
+    }
+
+    next();
+  });
+};
+
+// Error handling middleware
+export const handleMessageAttachmentUploadError = (error, req, res, next) => {
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: 'File size too large. PDFs can be up to 20MB.' });
+    }
+    if (error.code === 'LIMIT_FILE_COUNT' || (error.code === 'LIMIT_UNEXPECTED_FILE' && error.field === 'attachments')) {
+      return res.status(400).json({ message: `Too many files. Attach up to ${MESSAGE_ATTACHMENT_LIMITS.maxFiles} files per message.` });
+    }
+    if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({ message: 'Unexpected file field.' });
+    }
+    return res.status(400).json({ message: error.message });
+  }
+
+  if (error.message.includes('can be attached to messages')) {
+    return res.status(400).json({ message: 'Only image files (JPEG, PNG, GIF, WebP) and PDF files can be attached to messages.' });
+  }
+
+  next(error);
+};
@@ -0,0 +1,85 @@
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+
+// Ensure uploads directory exists for rule violation evidence
+const uploadsDir = path.join(process.cwd(), 'uploads', 'violations');
+if (!fs.existsSync(uploadsDir)) {
+  fs.mkdirSync(uploadsDir, { recursive: true });
+}
+
+export const MAX_VIOLATION_EVIDENCE_FILES = 5;
+
+// Allowed types and the extension each one is stored with (never the client's extension)
+const ALLOWED_TYPES = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/gif': ['.gif'],
+  'image/webp': ['.webp'],
+};
+
+// Configure multer for violation evidence uploads
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, uploadsDir);
+  },
+  filename: (req, file, cb) => {
+    // Generate unique filename with timestamp
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, `violation-${uniqueSuffix}${ALLOWED_TYPES[file.mimetype][0]}`);
+  }
+});
+
+// File filter to only allow image files; the extension has to agree with the type
+const fileFilter = (req, file, cb) => {
+  const extensions = ALLOWED_TYPES[file.mimetype];
+  if (extensions && extensions.includes(path.extname(file.originalname).toLowerCase())) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only image files are allowed as violation evidence'), false);
+  }
+};
+
+// Configure multer for violation evidence
+const upload = multer({
+  storage: storage,
+  fileFilter: fileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+    files: MAX_VIOLATION_EVIDENCE_FILES,
+  }
+});
+
+// Middleware for the `evidence[]` photos (optional)
+export const uploadViolationEvidence = (req, res, next) => {
+  upload.array('evidence', MAX_VIOLATION_EVIDENCE_FILES)(req, res, (err) => {
+    if (err) {
+      return next(err);
+    }
+    next();
+  });
+};
+
+// Remove uploaded evidence when the request is rejected after the upload
+export const removeViolationEvidence = (files = []) => {
+  files.forEach(file => fs.unlink(file.path, () => {}));
+};
+
+// Error handling middleware
+export const handleViolationEvidenceUploadError = (error, req, res, next) => {
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: 'Image size too large. Maximum size is 5MB.' });
+    }
+    if (error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({ message: `Too many files. Attach up to ${MAX_VIOLATION_EVIDENCE_FILES} photos.` });
+    }
+    return res.status(400).json({ message: error.message });
+  }
+
+  if (error.message === 'Only image files are allowed as violation evidence') {
+    return res.status(400).json({ message: 'Only image files (JPEG, PNG, GIF, WebP) are allowed as violation evidence.' });
+  }
+
+  next(error);
+};
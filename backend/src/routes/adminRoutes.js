@@ -17,6 +17,8 @@ import {
   getTenantLeases,
   getCommissionRevenueDetails
 } from "../controllers/admin/adminController.js";
+import { getScheduledJobs, getJobRuns, triggerJobRun } from "../controllers/admin/jobController.js";
+import { getReviewsForModeration, moderateReview } from "../controllers/admin/reviewController.js";
 
 const router = Router();
 
@@ -37,6 +39,10 @@ router.delete("/property-requests/:listingId", requireAuthentication(["ADMIN"]),
 // ---------------------------- Properties
 router.get("/properties", requireAuthentication(["ADMIN"]), getAllProperties);               // get all properties created by landlords
 
+// ---------------------------- Unit Reviews
+router.get("/reviews", requireAuthentication(["ADMIN"]), getReviewsForModeration);           // moderation queue (?status=PENDING|PUBLISHED|REJECTED|all)
+router.patch("/reviews/:reviewId", requireAuthentication(["ADMIN"]), moderateReview);        // publish or reject a review
+
 // ---------------------------- Financial
 router.get("/payments", requireAuthentication(["ADMIN"]), getAllPayments);                   // get all payments with filters
 router.get("/payments/analytics", requireAuthentication(["ADMIN"]), getPaymentAnalytics);   // get payment analytics and statistics
@@ -46,4 +52,9 @@ router.get("/commission-revenue", requireAuthentication(["ADMIN"]), getCommissio
 router.get("/system-logs", requireAuthentication(["ADMIN"]), getSystemLogs);                // get system logs (user activity)
 router.get("/system-logs/analytics", requireAuthentication(["ADMIN"]), getSystemLogsAnalytics); // get system logs analytics
 
+// ---------------------------- Scheduled Jobs
+router.get("/jobs", requireAuthentication(["ADMIN"]), getScheduledJobs);                     // get scheduled jobs with their latest run
+router.get("/jobs/runs", requireAuthentication(["ADMIN"]), getJobRuns);                      // get job run history
+router.post("/jobs/:jobName/run", requireAuthentication(["ADMIN"]), triggerJobRun);          // run a job now
+
 export default router;
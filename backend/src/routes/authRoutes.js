@@ -1,7 +1,8 @@
 // file: authRoutes.js
 import { Router } from "express";
 import { checkAuthStatus, forgotPassword, getUserInfo, login, logout, onboarding, refresh, register, resendVerification, resetPassword, updateProfile, verifyEmail } from "../controllers/authController.js";
-import { getUserNotifications, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification } from "../controllers/notificationController.js";
+import { getUserNotifications, getUnreadNotificationCount, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, getMyNotificationPreferences, updateMyNotificationPreferences } from "../controllers/notificationController.js";
+import { getMessageAttachment } from "../controllers/messageAttachmentController.js";
 import { requireAuthentication } from "../middlewares/requireAuthentication.js";
 
 const router = Router();
@@ -25,9 +26,15 @@ router.put("/update-profile", requireAuthentication(["ANY_ROLE"]), updateProfile
 
 // Notification routes
 router.get("/notifications", requireAuthentication(["ANY_ROLE"]), getUserNotifications);     // Get user notifications
+router.get("/notifications/unread-count", requireAuthentication(["ANY_ROLE"]), getUnreadNotificationCount); // Unread count for the header badge
 router.put("/notifications/:notificationId/read", requireAuthentication(["ANY_ROLE"]), markNotificationAsRead); // Mark notification as read
 router.put("/notifications/read-all", requireAuthentication(["ANY_ROLE"]), markAllNotificationsAsRead); // Mark all notifications as read
 router.delete("/notifications/:notificationId", requireAuthentication(["ANY_ROLE"]), deleteNotification); // Delete notification
+router.get("/notification-preferences", requireAuthentication(["ANY_ROLE"]), getMyNotificationPreferences); // Channels per notification category
+router.put("/notification-preferences", requireAuthentication(["ANY_ROLE"]), updateMyNotificationPreferences); // Update channels and daily digest
+
+// Message attachment routes (shared by landlords and tenants)
+router.get("/messages/attachments/:attachmentId", requireAuthentication(["ANY_ROLE"]), getMessageAttachment); // Conversation participants only
 
 router.post("/logout", logout);                    // Logout, clear cookies
 
@@ -2,6 +2,10 @@
 import { Router } from "express";
 import { requireAuthentication } from "../middlewares/requireAuthentication.js";
 import { uploadLeaseDocument, handleFileUploadError } from "../middlewares/fileUpload.js";
+import { uploadMaintenanceImage, handleMaintenanceImageUploadError } from "../middlewares/maintenanceImageUpload.js";
+import { uploadMaintenanceReceipt, handleMaintenanceReceiptUploadError } from "../middlewares/maintenanceReceiptUpload.js";
+import { uploadMessageAttachments, handleMessageAttachmentUploadError } from "../middlewares/messageAttachmentUpload.js";
+import { uploadViolationEvidence, handleViolationEvidenceUploadError } from "../middlewares/violationEvidenceUpload.js";
 import { 
   createProperty, 
   updateProperty,
@@ -17,7 +21,7 @@ import {
   getUnitDetails,   // ✅ import our new controller
   getDashboardStats, // ✅ import dashboard stats controller
 } from "../controllers/landlord/propertyController.js";
-import { getUnitsListingStatus, requestListing } from "../controllers/landlord/unitListingController.js";
+import { getUnitsListingStatus, requestListing, createListingPaymentIntent, downloadListingReceipt } from "../controllers/landlord/unitListingController.js";
 import { 
   getLandlordLeases, 
   getLeaseDetails, 
@@ -27,15 +31,40 @@ import {
   getLeaseStats,
   getTenants,
   activateLease,
-  generateLeasePDFController
+  generateLeasePDFController,
+  getLeaseDocument,
+  saveLeaseDocument,
+  createRenewalOffer,
+  withdrawRenewalOffer,
+  createLeaseTermination,
+  cancelLeaseTermination,
+  settleLeaseDeposit,
+  downloadFinalStatement
 } from "../controllers/landlord/leaseController.js";
 import { 
   getLandlordMaintenanceRequests, 
   getMaintenanceRequestDetails, 
   updateMaintenanceRequestStatus, 
   getMaintenanceStats, 
-  deleteMaintenanceRequest 
+  deleteMaintenanceRequest,
+  updateMaintenanceWorkOrder,
+  getContractors,
+  createContractor,
+  deleteContractor,
+  getLandlordMaintenanceTimeline,
+  addLandlordMaintenanceComment,
+  addMaintenanceCost,
+  deleteMaintenanceCost
 } from "../controllers/landlord/maintenanceController.js";
+import {
+  getMaintenanceSchedules,
+  createMaintenanceSchedule,
+  updateMaintenanceSchedule,
+  deleteMaintenanceSchedule,
+  getMaintenanceScheduleCalendar
+} from "../controllers/landlord/maintenanceScheduleController.js";
+import { replyToUnitReview } from "../controllers/landlord/reviewController.js";
+import { getTenantViolations, logLeaseRuleViolation, withdrawLeaseRuleViolation } from "../controllers/landlord/violationController.js";
 import { 
   getLandlordTenants, 
   getTenantDetails, 
@@ -43,6 +72,8 @@ import {
   getScreeningResults, 
   generateBehaviorReport, 
   getTenantStats,
+  getBehaviorWeights,
+  updateBehaviorWeights,
   updateTenantApplicationStatus,
   removeTenant,
   getAvailableLeasesForTenant,
@@ -55,7 +86,8 @@ import {
   getConversationMessages, 
   sendMessage, 
   createOrGetConversation, 
-  deleteConversation, 
+  updateConversation, 
+  searchMessages,
   deleteMessage,
   getMessageStats 
 } from "../controllers/landlord/messageController.js";
@@ -65,7 +97,8 @@ import {
   updatePaymentStatus, 
   getPaymentStats, 
   getLeasePaymentHistory, 
-  sendPaymentReminder
+  sendPaymentReminder,
+  refundPayment
 } from "../controllers/landlord/paymentController.js";
 import { 
   getFinancialOverview, 
@@ -115,10 +148,13 @@ router.get("/property/:propertyId/units/:unitId", requireAuthentication(["LANDLO
 router.post("/property/:propertyId/units", requireAuthentication(["LANDLORD"]), createUnit);                   // create a new unit
 router.put("/property/:propertyId/units/:unitId", requireAuthentication(["LANDLORD"]), updateUnit);            // update a unit
 router.delete("/property/:propertyId/units/:unitId", requireAuthentication(["LANDLORD"]), deleteUnit);         // delete a unit
+router.put("/reviews/:reviewId/reply", requireAuthentication(["LANDLORD"]), replyToUnitReview);                // post, edit or remove a public reply to a unit review
 
 
 // ---------------------------- Listing
 router.post("/property/:propertyId/units/:unitId/request-listing",  requireAuthentication(["LANDLORD"]), requestListing); // landlord attempt to make a listing request
+router.post("/property/:propertyId/units/:unitId/listing-payment",  requireAuthentication(["LANDLORD"]), createListingPaymentIntent); // landlord start the listing fee payment
+router.get("/listings/:listingId/receipt", requireAuthentication(["LANDLORD"]), downloadListingReceipt); // landlord download the listing fee receipt
 
 // ---------------------------- Leases
 router.get("/leases", requireAuthentication(["LANDLORD"]), getLandlordLeases);                                    // get all leases of the landlord
@@ -129,6 +165,14 @@ router.put("/leases/:leaseId", requireAuthentication(["LANDLORD"]), uploadLeaseD
 router.delete("/leases/:leaseId", requireAuthentication(["LANDLORD"]), deleteLease);                            // delete a lease
 router.patch("/leases/:leaseId/activate", requireAuthentication(["LANDLORD"]), activateLease);                     // activate a lease
 router.get("/leases/:leaseId/pdf", requireAuthentication(["LANDLORD"]), generateLeasePDFController);              // generate lease PDF
+router.get("/leases/:leaseId/document", requireAuthentication(["LANDLORD"]), getLeaseDocument);                  // get the latest contract document (+ version history)
+router.post("/leases/:leaseId/document", requireAuthentication(["LANDLORD"]), saveLeaseDocument);                // save the contract builder as a new version
+router.post("/leases/:leaseId/renewal-offers", requireAuthentication(["LANDLORD"]), createRenewalOffer);          // send a renewal offer to the tenant
+router.post("/renewal-offers/:offerId/withdraw", requireAuthentication(["LANDLORD"]), withdrawRenewalOffer);      // withdraw a pending renewal offer
+router.post("/leases/:leaseId/termination", requireAuthentication(["LANDLORD"]), createLeaseTermination);         // give termination notice (move-out date)
+router.delete("/leases/:leaseId/termination", requireAuthentication(["LANDLORD"]), cancelLeaseTermination);       // cancel a notice before move-out
+router.post("/leases/:leaseId/termination/settle", requireAuthentication(["LANDLORD"]), settleLeaseDeposit);      // settle the security deposit (itemized deductions)
+router.get("/leases/:leaseId/final-statement", requireAuthentication(["LANDLORD"]), downloadFinalStatement);     // download the move-out final statement PDF
 
 // ---------------------------- Tenants (for lease creation)
 router.get("/tenants/available", requireAuthentication(["LANDLORD"]), getTenants);                               // get all available tenants for lease creation
@@ -138,11 +182,36 @@ router.get("/maintenance", requireAuthentication(["LANDLORD"]), getLandlordMaint
 router.get("/maintenance/stats", requireAuthentication(["LANDLORD"]), getMaintenanceStats);                      // get maintenance statistics
 router.get("/maintenance/:requestId", requireAuthentication(["LANDLORD"]), getMaintenanceRequestDetails);        // get specific maintenance request details
 router.put("/maintenance/:requestId/status", requireAuthentication(["LANDLORD"]), updateMaintenanceRequestStatus); // update maintenance request status
+router.get("/maintenance/:requestId/timeline", requireAuthentication(["LANDLORD"]), getLandlordMaintenanceTimeline); // status changes, comments and photos
+router.post("/maintenance/:requestId/comments",                                                                   // comment with optional follow-up photo
+  requireAuthentication(["LANDLORD"]),
+  uploadMaintenanceImage,
+  handleMaintenanceImageUploadError,
+  addLandlordMaintenanceComment
+);
+router.post("/maintenance/:requestId/costs",                                                                      // log labor/parts cost (posted as an Expense) with optional receipt
+  requireAuthentication(["LANDLORD"]),
+  uploadMaintenanceReceipt,
+  handleMaintenanceReceiptUploadError,
+  addMaintenanceCost
+);
+router.delete("/maintenance/:requestId/costs/:costId", requireAuthentication(["LANDLORD"]), deleteMaintenanceCost); // remove a logged cost and its expense
+router.put("/maintenance/:requestId/work-order", requireAuthentication(["LANDLORD"]), updateMaintenanceWorkOrder); // set priority, category, assignee and visit window
 router.delete("/maintenance/:requestId", requireAuthentication(["LANDLORD"]), deleteMaintenanceRequest);         // delete maintenance request
+router.get("/contractors", requireAuthentication(["LANDLORD"]), getContractors);                                 // get the landlord's contractors
+router.post("/contractors", requireAuthentication(["LANDLORD"]), createContractor);                              // add a contractor
+router.delete("/contractors/:contractorId", requireAuthentication(["LANDLORD"]), deleteContractor);              // remove a contractor
+router.get("/maintenance-schedules", requireAuthentication(["LANDLORD"]), getMaintenanceSchedules);                  // recurring preventive maintenance schedules
+router.get("/maintenance-schedules/calendar", requireAuthentication(["LANDLORD"]), getMaintenanceScheduleCalendar); // upcoming preventive work (?from&to)
+router.post("/maintenance-schedules", requireAuthentication(["LANDLORD"]), createMaintenanceSchedule);               // add a recurring schedule
+router.put("/maintenance-schedules/:scheduleId", requireAuthentication(["LANDLORD"]), updateMaintenanceSchedule);    // edit, pause or resume a schedule
+router.delete("/maintenance-schedules/:scheduleId", requireAuthentication(["LANDLORD"]), deleteMaintenanceSchedule); // remove a schedule (generated work orders are kept)
 
 // ---------------------------- Tenant Management & Screening
 router.get("/tenants", requireAuthentication(["LANDLORD"]), getLandlordTenants);                                 // get all tenants with behavior analysis
 router.get("/tenants/stats", requireAuthentication(["LANDLORD"]), getTenantStats);                               // get tenant statistics
+router.get("/tenants/behavior-weights", requireAuthentication(["LANDLORD"]), getBehaviorWeights);                 // get behavioral score weights
+router.put("/tenants/behavior-weights", requireAuthentication(["LANDLORD"]), updateBehaviorWeights);              // update behavioral score weights (active leases are re-scored in the background)
 router.get("/tenants/:tenantId", requireAuthentication(["LANDLORD"]), getTenantDetails);                         // get specific tenant details
 router.post("/tenants/screening", requireAuthentication(["LANDLORD"]), runTenantScreening);                      // run automated tenant screening
 router.get("/tenants/:tenantId/screening", requireAuthentication(["LANDLORD"]), getScreeningResults);            // get screening results for tenant
@@ -154,13 +223,29 @@ router.get("/tenants/:tenantId/units/:unitId/available-leases", requireAuthentic
 router.post("/tenants/applications/:applicationId/assign-lease", requireAuthentication(["LANDLORD"]), assignLeaseToTenant);        // assign lease to approved tenant
 router.get("/tenants/pending-applications", requireAuthentication(["LANDLORD"]), getTenantsWithPendingApplications);              // get tenants with pending applications
 
+// ---------------------------- Lease Rule Violations
+router.get("/tenants/:tenantId/violations", requireAuthentication(["LANDLORD"]), getTenantViolations);           // tenant's leases (with rules) and logged violations
+router.post("/leases/:leaseId/violations",                                                                        // log a violation of a lease rule with optional evidence photos
+  requireAuthentication(["LANDLORD"]),
+  uploadViolationEvidence,
+  handleViolationEvidenceUploadError,
+  logLeaseRuleViolation
+);
+router.patch("/violations/:violationId/withdraw", requireAuthentication(["LANDLORD"]), withdrawLeaseRuleViolation); // withdraw a violation (kept on record, no longer counted)
+
 // ---------------------------- Messages
-router.get("/messages", requireAuthentication(["LANDLORD"]), getLandlordConversations);                          // get all conversations
+router.get("/messages", requireAuthentication(["LANDLORD"]), getLandlordConversations);                          // get conversations (?archived=true for the archive)
 router.get("/messages/stats", requireAuthentication(["LANDLORD"]), getMessageStats);                             // get message statistics
+router.get("/messages/search", requireAuthentication(["LANDLORD"]), searchMessages);                             // search message text (?q=)
 router.get("/messages/:conversationId", requireAuthentication(["LANDLORD"]), getConversationMessages);           // get conversation messages
-router.post("/messages", requireAuthentication(["LANDLORD"]), sendMessage);                                      // send a message
+router.post("/messages",                                                                                          // send a message with optional image/PDF attachments
+  requireAuthentication(["LANDLORD"]),
+  uploadMessageAttachments,
+  handleMessageAttachmentUploadError,
+  sendMessage
+);
 router.post("/messages/conversation", requireAuthentication(["LANDLORD"]), createOrGetConversation);             // create or get conversation
-router.delete("/messages/:conversationId", requireAuthentication(["LANDLORD"]), deleteConversation);             // delete conversation
+router.patch("/messages/:conversationId", requireAuthentication(["LANDLORD"]), updateConversation);              // rename / archive / unarchive conversation
 router.delete("/messages/message/:messageId", requireAuthentication(["LANDLORD"]), deleteMessage);               // delete a message
 
 // ---------------------------- Payments
@@ -168,6 +253,7 @@ router.get("/payments", requireAuthentication(["LANDLORD"]), getLandlordPayments
 router.get("/payments/stats", requireAuthentication(["LANDLORD"]), getPaymentStats);                             // get payment statistics
 router.get("/payments/:paymentId", requireAuthentication(["LANDLORD"]), getPaymentDetails);                      // get specific payment details
 router.put("/payments/:paymentId/status", requireAuthentication(["LANDLORD"]), updatePaymentStatus);             // update payment status
+router.post("/payments/:paymentId/refund", requireAuthentication(["LANDLORD"]), refundPayment);                  // refund a provider payment
 router.get("/leases/:leaseId/payments", requireAuthentication(["LANDLORD"]), getLeasePaymentHistory);            // get payment history for a lease
 router.post("/leases/:leaseId/reminder", requireAuthentication(["LANDLORD"]), sendPaymentReminder);              // send payment reminder
 
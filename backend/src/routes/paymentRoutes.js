@@ -0,0 +1,16 @@
+// file: paymentRoutes.js
+import { Router } from "express";
+import { requireAuthentication } from "../middlewares/requireAuthentication.js";
+import {
+  getPaymentIntent,
+  confirmPaymentIntentController,
+  handlePaymentWebhookController
+} from "../controllers/paymentIntentController.js";
+
+const router = Router();
+
+router.get("/intents/:intentId", requireAuthentication(["TENANT", "LANDLORD"]), getPaymentIntent); // poll an intent's status
+router.post("/intents/:intentId/confirm", requireAuthentication(["TENANT", "LANDLORD"]), confirmPaymentIntentController); // confirm an intent with its provider
+router.post("/webhook/:provider", handlePaymentWebhookController); // provider events (signature-verified, no session)
+
+export default router;
@@ -1,15 +1,19 @@
 // file: tenantRoutes.js
 import { Router } from "express";
 import { requireAuthentication } from "../middlewares/requireAuthentication.js";
-import { uploadMaintenanceImage, handleMaintenanceImageUploadError } from "../middlewares/maintenanceImageUpload.js";
+import { uploadMaintenanceImage, uploadMaintenanceAttachments, handleMaintenanceImageUploadError } from "../middlewares/maintenanceImageUpload.js";
 import { uploadTenantDocuments, handleTenantDocumentUploadError } from "../middlewares/tenantDocumentUpload.js";
+import { uploadMessageAttachments, handleMessageAttachmentUploadError } from "../middlewares/messageAttachmentUpload.js";
 import { 
   getTenantDashboardData,
   getTenantLeaseDetails,
   getTenantPayments,
+  getTenantRentSchedule,
   getTenantMaintenanceRequests,
   clearMaintenanceRequest,
   submitMaintenanceRequest,
+  getTenantMaintenanceTimeline,
+  addTenantMaintenanceComment,
   browseApprovedProperties,
   getPropertyDetailsForTenant,
   submitTenantApplication,
@@ -19,11 +23,16 @@ import {
   sendTenantMessage,
   createOrGetTenantConversation,
   deleteTenantMessage,
-  deleteTenantConversation,
+  updateTenantConversation,
+  searchTenantMessages,
   getTenantMessageStats,
   downloadLeasePDF,
-  submitTenantPayment
+  submitTenantPayment,
+  acceptLeaseRenewalOffer,
+  declineLeaseRenewalOffer
 } from "../controllers/tenant/tenantController.js";
+import { getTenantReviews, submitUnitReview, updateUnitReview } from "../controllers/tenant/reviewController.js";
+import { getTenantViolations, respondToViolation } from "../controllers/tenant/violationController.js";
 
 const router = Router();
 
@@ -33,20 +42,39 @@ router.get("/dashboard", requireAuthentication(["TENANT"]), getTenantDashboardDa
 // ---------------------------- Lease
 router.get("/lease", requireAuthentication(["TENANT"]), getTenantLeaseDetails);
 router.get("/lease/:leaseId/pdf", requireAuthentication(["TENANT"]), downloadLeasePDF);
+router.post("/renewal-offers/:offerId/accept", requireAuthentication(["TENANT"]), acceptLeaseRenewalOffer);
+router.post("/renewal-offers/:offerId/decline", requireAuthentication(["TENANT"]), declineLeaseRenewalOffer);
+
+// ---------------------------- Unit Reviews
+router.get("/reviews", requireAuthentication(["TENANT"]), getTenantReviews);                // current and past leases with their review
+router.post("/reviews/:leaseId", requireAuthentication(["TENANT"]), submitUnitReview);      // review the unit of a lease
+router.patch("/reviews/:reviewId", requireAuthentication(["TENANT"]), updateUnitReview);    // edit a review (goes back to moderation)
+
+// ---------------------------- Lease Rule Violations
+router.get("/violations", requireAuthentication(["TENANT"]), getTenantViolations);                   // violations logged on my leases
+router.patch("/violations/:violationId", requireAuthentication(["TENANT"]), respondToViolation);     // acknowledge or dispute a violation
 
 // ---------------------------- Payments
 router.get("/payments", requireAuthentication(["TENANT"]), getTenantPayments);
 router.post("/payments", requireAuthentication(["TENANT"]), submitTenantPayment);
+router.get("/payments/schedule", requireAuthentication(["TENANT"]), getTenantRentSchedule);
 
 // ---------------------------- Maintenance
 router.get("/maintenance-requests", requireAuthentication(["TENANT"]), getTenantMaintenanceRequests);
 router.post("/maintenance-requests", 
   requireAuthentication(["TENANT"]), 
-  uploadMaintenanceImage, 
+  uploadMaintenanceAttachments, 
   handleMaintenanceImageUploadError,
   submitMaintenanceRequest
 );
 router.patch("/maintenance-requests/:requestId/clear", requireAuthentication(["TENANT"]), clearMaintenanceRequest);
+router.get("/maintenance-requests/:requestId/timeline", requireAuthentication(["TENANT"]), getTenantMaintenanceTimeline);
+router.post("/maintenance-requests/:requestId/comments", 
+  requireAuthentication(["TENANT"]), 
+  uploadMaintenanceImage, 
+  handleMaintenanceImageUploadError,
+  addTenantMaintenanceComment
+);
 
 // ---------------------------- Browse Properties
 router.get("/browse-properties", requireAuthentication(["TENANT"]), browseApprovedProperties);
@@ -57,12 +85,18 @@ router.post("/applications/:unitId", requireAuthentication(["TENANT"]), uploadTe
 router.get("/applications", requireAuthentication(["TENANT"]), getTenantApplications);
 
 // ---------------------------- Messages
-router.get("/messages", requireAuthentication(["TENANT"]), getTenantConversations);                    // get all conversations
+router.get("/messages", requireAuthentication(["TENANT"]), getTenantConversations);                    // get conversations (?archived=true for the archive)
 router.get("/messages/stats", requireAuthentication(["TENANT"]), getTenantMessageStats);              // get message statistics
+router.get("/messages/search", requireAuthentication(["TENANT"]), searchTenantMessages);              // search message text (?q=)
 router.get("/messages/:conversationId", requireAuthentication(["TENANT"]), getTenantConversationMessages); // get conversation messages
-router.post("/messages", requireAuthentication(["TENANT"]), sendTenantMessage);                       // send a message
+router.post("/messages",                                                                             // send a message with optional image/PDF attachments
+  requireAuthentication(["TENANT"]),
+  uploadMessageAttachments,
+  handleMessageAttachmentUploadError,
+  sendTenantMessage
+);
 router.post("/messages/conversation", requireAuthentication(["TENANT"]), createOrGetTenantConversation); // create or get conversation
 router.delete("/messages/:messageId", requireAuthentication(["TENANT"]), deleteTenantMessage);         // delete a message
-router.delete("/messages/conversation/:conversationId", requireAuthentication(["TENANT"]), deleteTenantConversation); // delete a conversation
+router.patch("/messages/conversation/:conversationId", requireAuthentication(["TENANT"]), updateTenantConversation); // rename / archive / unarchive a conversation
 
 export default router;
@@ -1,6 +1,8 @@
 // file: server.js
 import dotenv from "dotenv";
 import app from "./app.js";
+import { startJobScheduler } from "./services/jobs/jobRunner.js";
+import { attachRealtimeServer } from "./services/realtimeService.js";
 
 // Load environment variables
 if (process.env.NODE_ENV === "production") {
@@ -13,6 +15,12 @@ if (process.env.NODE_ENV === "production") {
 const PORT = process.env.PORT || 5000;
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`✅ Server is running on http://localhost:${PORT}`);
+
+  // Start in-process scheduled jobs (listing/lease expiry, rent reminders)
+  startJobScheduler();
 });
+
+// Live messaging (new messages, read receipts, typing) and notifications over WebSockets at /ws
+attachRealtimeServer(server);
@@ -0,0 +1,200 @@
+// file: conversationService.js
+import prisma from "../libs/prismaClient.js";
+
+// ---------------------------------------------- CONVERSATION SERVICE ----------------------------------------------
+
+const DELETED_MESSAGE = "This message was deleted";
+const MAX_SEARCH_TERMS = 5;
+const MAX_SEARCH_RESULTS = 50;
+
+const participantSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  avatarUrl: true,
+  role: true,
+};
+
+// Unit / lease a thread is about, for list and header labels
+export const conversationScopeInclude = {
+  unit: {
+    select: {
+      id: true,
+      label: true,
+      property: { select: { id: true, title: true } }
+    }
+  },
+  lease: { select: { id: true, leaseNickname: true, status: true } },
+};
+
+const archiveField = (conversation, userId) =>
+  conversation.userAId === userId ? "userAArchivedAt" : "userBArchivedAt";
+
+/**
+ * Whether the participant has archived the conversation
+ */
+export const isArchivedFor = (conversation, userId) => Boolean(conversation[archiveField(conversation, userId)]);
+
+/**
+ * Scope and archive fields shared by every conversation response
+ */
+export const formatConversationMeta = (conversation, userId) => ({
+  unit: conversation.unit ?? null,
+  lease: conversation.lease ?? null,
+  isArchived: isArchivedFor(conversation, userId),
+});
+
+/**
+ * Where clause for a participant's inbox (default) or archive
+ */
+export const conversationsForUser = (userId, archived = false) => ({
+  OR: [
+    { userAId: userId, userAArchivedAt: archived ? { not: null } : null },
+    { userBId: userId, userBArchivedAt: archived ? { not: null } : null },
+  ]
+});
+
+/**
+ * Archive or restore a conversation for one participant. updatedAt is kept so the
+ * thread doesn't jump to the top of the list.
+ */
+export const setConversationArchived = (conversation, userId, archived) =>
+  prisma.conversation.update({
+    where: { id: conversation.id },
+    data: {
+      [archiveField(conversation, userId)]: archived ? new Date() : null,
+      updatedAt: conversation.updatedAt,
+    }
+  });
+
+/**
+ * Bump a conversation after a new message and bring it back to both inboxes
+ */
+export const touchConversation = (conversationId) =>
+  prisma.conversation.update({
+    where: { id: conversationId },
+    data: { updatedAt: new Date(), userAArchivedAt: null, userBArchivedAt: null }
+  });
+
+/**
+ * Validate an optional unit/lease scope between a landlord and a tenant.
+ * A lease must be the tenant's lease on one of the landlord's units; a unit must belong
+ * to the landlord (tenants may open a thread about any of them as an inquiry).
+ * Returns { data: { unitId, leaseId, title } } or { status, message }.
+ */
+export const resolveConversationScope = async ({ landlordId, tenantId, unitId, leaseId }) => {
+  if (leaseId) {
+    const lease = await prisma.lease.findFirst({
+      where: { id: leaseId, tenantId, unit: { property: { ownerId: landlordId } } },
+      include: { unit: { select: { label: true, property: { select: { title: true } } } } }
+    });
+    if (!lease) {
+      return { status: 404, message: "Lease not found for this conversation" };
+    }
+    return {
+      data: {
+        unitId: lease.unitId,
+        leaseId: lease.id,
+        title: `${lease.unit.property.title} - ${lease.unit.label} (${lease.leaseNickname})`,
+      }
+    };
+  }
+
+  if (unitId) {
+    const unit = await prisma.unit.findFirst({
+      where: { id: unitId, property: { ownerId: landlordId } },
+      include: { property: { select: { title: true } } }
+    });
+    if (!unit) {
+      return { status: 404, message: "Unit not found for this conversation" };
+    }
+    return { data: { unitId: unit.id, leaseId: null, title: `${unit.property.title} - ${unit.label}` } };
+  }
+
+  return { data: { unitId: null, leaseId: null, title: null } };
+};
+
+/**
+ * The pair's thread for a scope (general when unitId and leaseId are null), created on first use
+ */
+export const findOrCreateConversation = async (userId, otherUserId, scope, include) => {
+  const existing = await prisma.conversation.findFirst({
+    where: {
+      OR: [
+        { userAId: userId, userBId: otherUserId },
+        { userAId: otherUserId, userBId: userId }
+      ],
+      unitId: scope.unitId,
+      leaseId: scope.leaseId,
+    },
+    include,
+    orderBy: { createdAt: "asc" },
+  });
+  if (existing) return existing;
+
+  return prisma.conversation.create({
+    data: {
+      userAId: userId,
+      userBId: otherUserId,
+      unitId: scope.unitId,
+      leaseId: scope.leaseId,
+      title: scope.title,
+    },
+    include,
+  });
+};
+
+/**
+ * Case-insensitive search over the user's messages (archived threads included).
+ * Every word of the query has to appear in the message.
+ */
+export const searchConversationMessages = async (userId, query) => {
+  const terms = query.trim().split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS);
+  if (terms.length === 0) return [];
+
+  const messages = await prisma.message.findMany({
+    where: {
+      conversation: {
+        OR: [
+          { userAId: userId },
+          { userBId: userId }
+        ]
+      },
+      NOT: { content: DELETED_MESSAGE },
+      AND: terms.map(term => ({ content: { contains: term, mode: "insensitive" } })),
+    },
+    include: {
+      sender: { select: participantSelect },
+      conversation: {
+        include: {
+          userA: { select: participantSelect },
+          userB: { select: participantSelect },
+          ...conversationScopeInclude,
+        }
+      }
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_SEARCH_RESULTS,
+  });
+
+  const fullName = (user) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email;
+
+  return messages.map(message => {
+    const { conversation } = message;
+    const otherUser = conversation.userAId === userId ? conversation.userB : conversation.userA;
+    return {
+      id: message.id,
+      conversationId: conversation.id,
+      content: message.content,
+      createdAt: message.createdAt,
+      sender: { id: message.sender.id, fullName: fullName(message.sender) },
+      conversation: {
+        id: conversation.id,
+        title: conversation.title || fullName(otherUser),
+        otherUser: { id: otherUser.id, fullName: fullName(otherUser) },
+        ...formatConversationMeta(conversation, userId),
+      }
+    };
+  });
+};
@@ -0,0 +1,103 @@
+// file: jobRunner.js
+import prisma from "../../libs/prismaClient.js";
+import { scheduledJobs } from "./scheduledJobs.js";
+
+// ---------------------------------------------- JOB RUNNER ----------------------------------------------
+// In-process scheduler: every job runs on its own interval and each run is persisted as a JobRun.
+// JOBS_ENABLED=false turns the scheduler off; JOBS_INTERVAL_MS overrides every interval (handy locally).
+
+const JOB_STARTUP_DELAY_MS = 10 * 1000; // first run shortly after boot
+
+const timers = [];
+const runningJobs = new Set();
+
+export const getScheduledJob = (jobName) => scheduledJobs.find((job) => job.name === jobName) || null;
+
+const getJobInterval = (job) => Number(process.env.JOBS_INTERVAL_MS) || job.intervalMs;
+
+/**
+ * Registered jobs with their effective interval and whether they are running right now
+ */
+export const getJobDefinitions = () =>
+  scheduledJobs.map((job) => ({
+    name: job.name,
+    description: job.description,
+    intervalMs: getJobInterval(job),
+    running: runningJobs.has(job.name)
+  }));
+
+export const isJobRunning = (jobName) => runningJobs.has(jobName);
+
+/**
+ * Run a job once and persist the run. Returns null if the job is already running.
+ */
+export const runJob = async (jobName, trigger = "MANUAL", now = new Date()) => {
+  const job = getScheduledJob(jobName);
+  if (!job) {
+    throw new Error(`Unknown job: ${jobName}`);
+  }
+  if (runningJobs.has(jobName)) return null;
+
+  runningJobs.add(jobName);
+  try {
+    const run = await prisma.jobRun.create({
+      data: { jobName, trigger, status: "RUNNING", startedAt: now }
+    });
+
+    try {
+      const result = await job.handler(now);
+      return await prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "SUCCEEDED", result, finishedAt: new Date(), durationMs: Date.now() - now.getTime() }
+      });
+    } catch (error) {
+      console.error(`Job ${jobName} failed:`, error);
+      return await prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "FAILED", error: error.message, finishedAt: new Date(), durationMs: Date.now() - now.getTime() }
+      });
+    }
+  } finally {
+    runningJobs.delete(jobName);
+  }
+};
+
+/**
+ * Start every job on its interval (called once from server.js)
+ */
+export const startJobScheduler = async () => {
+  if (process.env.JOBS_ENABLED === "false") {
+    console.log("⏸️  Scheduled jobs are disabled (JOBS_ENABLED=false)");
+    return;
+  }
+  if (timers.length > 0) return;
+
+  // Runs left RUNNING by a previous process will never finish
+  try {
+    await prisma.jobRun.updateMany({
+      where: { status: "RUNNING" },
+      data: { status: "FAILED", error: "Interrupted by a server restart", finishedAt: new Date() }
+    });
+  } catch (error) {
+    console.error("Error cleaning up interrupted job runs:", error);
+  }
+
+  for (const job of scheduledJobs) {
+    const tick = () => {
+      runJob(job.name, "SCHEDULE").catch((error) => console.error(`Error running job ${job.name}:`, error));
+    };
+
+    timers.push(setTimeout(tick, JOB_STARTUP_DELAY_MS));
+    timers.push(setInterval(tick, getJobInterval(job)));
+  }
+
+  console.log(`⏱️  Scheduled jobs started: ${scheduledJobs.map((job) => job.name).join(", ")}`);
+};
+
+/**
+ * Stop all scheduled timers (runs in progress finish on their own)
+ */
+export const stopJobScheduler = () => {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.length = 0;
+};
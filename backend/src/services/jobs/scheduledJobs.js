@@ -0,0 +1,198 @@
+// file: scheduledJobs.js
+import prisma from "../../libs/prismaClient.js";
+import { createNotification } from "../../controllers/notificationController.js";
+import { createLeaseNotification } from "../notificationService.js";
+import { syncRentSchedule } from "../rentScheduleService.js";
+import { activateStartedRenewals } from "../leaseRenewalService.js";
+import { completeDueMoveOuts } from "../leaseTerminationService.js";
+import { generatePreventiveWorkOrders } from "../maintenanceScheduleService.js";
+import { sendNotificationDigests } from "../notificationPreferenceService.js";
+import { refreshBehaviorSnapshots } from "../tenantBehaviorService.js";
+
+// ---------------------------------------------- SCHEDULED JOBS ----------------------------------------------
+// Each job takes `now` and returns a small JSON summary that is stored on its JobRun.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Days before a due date to remind the tenant (read at run time, after dotenv has loaded)
+const getRentReminderDays = () => Number(process.env.RENT_REMINDER_DAYS) || 3;
+
+const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * ACTIVE listings past their expiresAt → EXPIRED (and the unit is unlisted)
+ */
+const expireListings = async (now) => {
+  const listings = await prisma.listing.findMany({
+    where: { status: "ACTIVE", expiresAt: { lte: now } },
+    include: {
+      unit: {
+        select: { id: true, label: true, property: { select: { title: true } } }
+      }
+    }
+  });
+
+  for (const listing of listings) {
+    await prisma.$transaction([
+      prisma.listing.update({ where: { id: listing.id }, data: { status: "EXPIRED" } }),
+      prisma.unit.update({ where: { id: listing.unitId }, data: { listedAt: null } })
+    ]);
+
+    try {
+      await createNotification(listing.landlordId, "LISTING", `Your listing for ${listing.unit.property.title} - Unit ${listing.unit.label} has expired. Submit a new listing request to list it again.`);
+    } catch (notificationError) {
+      console.error("Error creating listing expiry notification:", notificationError);
+      // Don't fail the job if notification fails
+    }
+  }
+
+  return { expired: listings.length };
+};
+
+/**
+ * Start accepted renewals, complete due move-outs, then ACTIVE leases whose endDate has fully passed → EXPIRED (and the unit is freed)
+ */
+const expireLeases = async (now) => {
+  // Renewals that have started take over their unit before the old term is expired
+  const renewals = await activateStartedRenewals(now);
+
+  // Tenants who gave notice move out on their move-out date (lease → TERMINATED)
+  const moveOuts = await completeDueMoveOuts(now);
+
+  const leases = await prisma.lease.findMany({
+    where: { status: "ACTIVE", endDate: { lt: startOfDay(now) } },
+    include: {
+      tenant: { select: { firstName: true, lastName: true } },
+      unit: {
+        select: { id: true, label: true, status: true, property: { select: { ownerId: true } } }
+      }
+    }
+  });
+
+  let unitsReleased = 0;
+
+  for (const lease of leases) {
+    await prisma.lease.update({ where: { id: lease.id }, data: { status: "EXPIRED" } });
+
+    // Free the unit unless another lease still occupies it
+    const otherActiveLeases = await prisma.lease.count({
+      where: { unitId: lease.unitId, status: "ACTIVE", id: { not: lease.id } }
+    });
+    if (otherActiveLeases === 0 && lease.unit.status === "OCCUPIED") {
+      await prisma.unit.update({ where: { id: lease.unitId }, data: { status: "AVAILABLE" } });
+      unitsReleased++;
+    }
+
+    try {
+      await createLeaseNotification(lease.unit.property.ownerId, lease, "EXPIRED");
+      await createLeaseNotification(lease.tenantId, lease, "EXPIRED");
+    } catch (notificationError) {
+      console.error("Error creating lease expiry notification:", notificationError);
+      // Don't fail the job if notification fails
+    }
+  }
+
+  return {
+    renewalsActivated: renewals.length,
+    movedOut: moveOuts.movedOut,
+    expired: leases.length,
+    unitsReleased: unitsReleased + moveOuts.unitsReleased
+  };
+};
+
+/**
+ * Remind tenants of unpaid rent due within the reminder window (once per installment)
+ */
+const sendRentReminders = async (now) => {
+  const reminderDays = getRentReminderDays();
+
+  // Keep schedules current first (open-ended leases only generate a few installments ahead)
+  const activeLeases = await prisma.lease.findMany({ where: { status: "ACTIVE" }, select: { id: true } });
+  let leasesSynced = 0;
+  for (const lease of activeLeases) {
+    try {
+      await syncRentSchedule(lease.id, now);
+      leasesSynced++;
+    } catch (scheduleError) {
+      console.error(`Error syncing rent schedule for lease ${lease.id}:`, scheduleError);
+    }
+  }
+
+  const charges = await prisma.rentCharge.findMany({
+    where: {
+      type: "RENT",
+      status: { not: "PAID" },
+      reminderSentAt: null,
+      dueDate: { gte: startOfDay(now), lte: new Date(now.getTime() + reminderDays * DAY_MS) },
+      lease: { status: "ACTIVE" }
+    },
+    include: {
+      allocations: { select: { amount: true } },
+      lease: {
+        select: {
+          tenantId: true,
+          unit: { select: { label: true, property: { select: { title: true } } } }
+        }
+      }
+    }
+  });
+
+  let remindersSent = 0;
+
+  for (const charge of charges) {
+    const amountDue = charge.amount - charge.allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+    if (amountDue > 0) {
+      const dueDate = charge.dueDate.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+      await createNotification(charge.lease.tenantId, "PAYMENT", `Reminder: rent of ₱${amountDue.toLocaleString()} for ${charge.lease.unit.property.title} - Unit ${charge.lease.unit.label} is due on ${dueDate}`);
+      remindersSent++;
+    }
+
+    await prisma.rentCharge.update({ where: { id: charge.id }, data: { reminderSentAt: now } });
+  }
+
+  return { leasesSynced, remindersSent, reminderDays };
+};
+
+export const scheduledJobs = [
+  {
+    name: "expire-listings",
+    description: "Mark active listings past their expiry date as EXPIRED",
+    intervalMs: HOUR_MS,
+    handler: expireListings
+  },
+  {
+    name: "expire-leases",
+    description: "Start accepted renewals, complete move-outs and mark active leases past their end date as EXPIRED",
+    intervalMs: HOUR_MS,
+    handler: expireLeases
+  },
+  {
+    name: "rent-reminders",
+    description: "Notify tenants of unpaid rent due in the next few days (RENT_REMINDER_DAYS, default 3)",
+    intervalMs: 6 * HOUR_MS,
+    handler: sendRentReminders
+  },
+  {
+    name: "preventive-maintenance",
+    description: "Create work orders for recurring maintenance schedules whose lead window has opened",
+    intervalMs: 6 * HOUR_MS,
+    handler: generatePreventiveWorkOrders
+  },
+  {
+    name: "notification-digest",
+    description: "Email opted-in users a daily summary of their unread notifications",
+    intervalMs: HOUR_MS,
+    handler: sendNotificationDigests
+  },
+  {
+    name: "tenant-behavior",
+    description: "Snapshot the behavior analysis of active leases not analysed in the last day",
+    intervalMs: 6 * HOUR_MS,
+    handler: refreshBehaviorSnapshots
+  }
+];
@@ -0,0 +1,216 @@
+// file: leaseDocumentService.js
+import prisma from "../libs/prismaClient.js";
+
+// ---------------------------------------------- LEASE DOCUMENT SERVICE ----------------------------------------------
+
+const TEXT_FIELDS = [
+  "leaseNickname", "addressStreet", "addressBarangay", "addressZipCode", "addressCity", "addressMunicipality",
+  "roomDescription", "allowableDepositDeductions", "depositHeldAtName", "depositHeldAtAddress",
+  "tenantFirstName", "tenantLastName", "tenantEmail", "tenantPhone",
+  "landlordFirstName", "landlordLastName", "landlordMailingAddress",
+  "petTypes", "parkingDescription", "sharedUtilitiesNote", "lostKeyPolicy", "maintenanceNote", "additionalTerms",
+  "conditionReportName",
+  "homeGuideWelcomeNote", "homeGuideWelcomeImageUrl", "homeGuideAccessSecurity", "homeGuideHouseRules",
+  "homeGuideCommunication", "homeGuideLeaseInfo"
+];
+const MONEY_FIELDS = ["monthlyRent", "securityDepositAmount"];
+const BOOLEAN_FIELDS = ["petAllowed", "parkingIncluded", "earlyTerminationAllowed"];
+const DATE_FIELDS = ["startDate", "endDate", "conditionReportDate"];
+const ENUM_FIELDS = {
+  endBehavior: ["RENEW_MONTH_TO_MONTH", "TERMINATE_ON_END_DATE", "OTHER"],
+  leaseTermType: ["FIXED", "MONTH_TO_MONTH", "SHORT_TERM", "LONG_TERM"],
+  smokingPolicy: ["YES", "NO", "OUTSIDE_ONLY"],
+  conditionReportType: ["MOVE_IN", "MOVE_OUT", "OTHER"]
+};
+// Json list fields: first text key is required, rows without it are dropped
+const ROW_FIELDS = {
+  oneTimeFees: { text: ["name"], number: ["amount"] },
+  additionalOccupants: { text: ["name", "relationship"], number: [] },
+  utilitiesResponsibilities: { text: ["utility", "paidBy"], number: [] },
+  keysProvided: { text: ["type"], number: ["quantity"] },
+  conditionReportItems: { text: ["item", "space", "condition", "notes"], number: [] }
+};
+
+const LEASE_TYPE_TO_TERM = {
+  STANDARD: "FIXED",
+  MONTH_TO_MONTH: "MONTH_TO_MONTH",
+  SHORT_TERM: "SHORT_TERM",
+  LONG_TERM: "LONG_TERM"
+};
+
+const cleanText = (value) => {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+};
+
+const cleanRows = (value, shape) => {
+  if (!Array.isArray(value)) return null;
+  const rows = value
+    .map(row => {
+      const clean = {};
+      shape.text.forEach(key => { clean[key] = cleanText(row?.[key]); });
+      shape.number.forEach(key => {
+        const number = Number(row?.[key]);
+        clean[key] = Number.isFinite(number) && number >= 0 ? number : 0;
+      });
+      return clean;
+    })
+    .filter(row => row[shape.text[0]]);
+  return rows.length > 0 ? rows : null;
+};
+
+// Image files a contract may embed, by extension
+export const CONTRACT_IMAGE_TYPES = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif"
+};
+
+/**
+ * Images the contract may show: only image files we serve from /uploads/ (the PDF embeds them).
+ * Anything else (other hosts, javascript:, file:, data:, relative paths) is refused.
+ */
+export const isAllowedContractImageUrl = (value) => {
+  if (typeof value !== "string") return false;
+  if (!/^\/uploads\/[\w\-./]+$/.test(value) || value.includes("..")) return false;
+  const extension = value.slice(value.lastIndexOf(".")).toLowerCase();
+  return Object.hasOwn(CONTRACT_IMAGE_TYPES, extension);
+};
+
+/**
+ * Pick and coerce the contract fields from a request body.
+ * Returns { data } or { error } with a message fit for a 400 response.
+ */
+export const parseLeaseDocumentInput = (body = {}) => {
+  const data = {};
+
+  TEXT_FIELDS.forEach(field => { data[field] = cleanText(body[field]); });
+
+  if (data.homeGuideWelcomeImageUrl && !isAllowedContractImageUrl(data.homeGuideWelcomeImageUrl)) {
+    return { error: "homeGuideWelcomeImageUrl must be an uploaded image (/uploads/...)" };
+  }
+
+  for (const field of MONEY_FIELDS) {
+    if (body[field] === undefined || body[field] === null || body[field] === "") {
+      data[field] = null;
+      continue;
+    }
+    const amount = Number(body[field]);
+    if (!Number.isFinite(amount) || amount < 0) return { error: `${field} must be a non-negative number` };
+    data[field] = amount;
+  }
+
+  if (body.securityDepositMonths !== undefined && body.securityDepositMonths !== null && body.securityDepositMonths !== "") {
+    const months = Number(body.securityDepositMonths);
+    if (!Number.isInteger(months) || months < 0) return { error: "securityDepositMonths must be a whole number" };
+    data.securityDepositMonths = months;
+  } else {
+    data.securityDepositMonths = null;
+  }
+
+  BOOLEAN_FIELDS.forEach(field => { data[field] = body[field] === true || body[field] === "true"; });
+
+  for (const field of DATE_FIELDS) {
+    if (!body[field]) {
+      data[field] = null;
+      continue;
+    }
+    const date = new Date(body[field]);
+    if (isNaN(date.getTime())) return { error: `${field} is not a valid date` };
+    data[field] = date;
+  }
+  if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+    return { error: "End date must be after start date" };
+  }
+
+  for (const [field, allowed] of Object.entries(ENUM_FIELDS)) {
+    const value = cleanText(body[field]);
+    if (value && !allowed.includes(value)) return { error: `${field} must be one of: ${allowed.join(", ")}` };
+    data[field] = value;
+  }
+
+  Object.entries(ROW_FIELDS).forEach(([field, shape]) => { data[field] = cleanRows(body[field], shape); });
+
+  data.paymentAccepted = Array.isArray(body.paymentAccepted)
+    ? body.paymentAccepted.map(cleanText).filter(Boolean)
+    : null;
+
+  // Spaces of the condition report follow the items (in order of first appearance)
+  data.conditionReportSpaces = data.conditionReportItems
+    ? [...new Set(data.conditionReportItems.map(item => item.space).filter(Boolean))]
+    : null;
+
+  // Prisma needs undefined (not null) to leave Json columns empty
+  ["oneTimeFees", "paymentAccepted", "additionalOccupants", "utilitiesResponsibilities", "keysProvided",
+    "conditionReportSpaces", "conditionReportItems"].forEach(field => {
+    if (data[field] === null) data[field] = undefined;
+  });
+
+  return { data };
+};
+
+/**
+ * Starting point for the contract builder when a lease has no document yet,
+ * prefilled from the lease, unit, property and both parties.
+ * Expects lease.unit.property (with city, municipality, owner) and lease.tenant.
+ */
+export const buildLeaseDocumentDraft = (lease) => {
+  const property = lease.unit?.property;
+  const owner = property?.owner;
+  const deposit = lease.unit?.securityDeposit ?? null;
+
+  return {
+    leaseNickname: lease.leaseNickname,
+    startDate: lease.startDate,
+    endDate: lease.endDate,
+    endBehavior: lease.endDate ? "TERMINATE_ON_END_DATE" : "RENEW_MONTH_TO_MONTH",
+    leaseTermType: LEASE_TYPE_TO_TERM[lease.leaseType] || null,
+    addressStreet: property?.street || null,
+    addressBarangay: property?.barangay || null,
+    addressZipCode: property?.zipCode || null,
+    addressCity: property?.city?.name || null,
+    addressMunicipality: property?.municipality?.name || null,
+    roomDescription: lease.unit ? `${lease.unit.label}${lease.unit.description ? ` - ${lease.unit.description}` : ""}` : null,
+    monthlyRent: lease.interval === "MONTHLY" ? lease.rentAmount : null,
+    securityDepositAmount: deposit,
+    securityDepositMonths: deposit && lease.interval === "MONTHLY" && lease.rentAmount > 0
+      ? Math.round(deposit / lease.rentAmount)
+      : null,
+    tenantFirstName: lease.tenant?.firstName || null,
+    tenantLastName: lease.tenant?.lastName || null,
+    tenantEmail: lease.tenant?.email || null,
+    tenantPhone: lease.tenant?.phoneNumber || null,
+    landlordFirstName: owner?.firstName || null,
+    landlordLastName: owner?.lastName || null,
+    petAllowed: false,
+    parkingIncluded: false,
+    earlyTerminationAllowed: false
+  };
+};
+
+/**
+ * Save the builder output as the next version of the lease's contract.
+ * Earlier versions are kept for the legal revision history.
+ */
+export const saveLeaseDocumentVersion = async (lease, data, generatedBy, now = new Date()) => {
+  const latest = await prisma.leaseDocument.findFirst({
+    where: { leaseId: lease.id },
+    orderBy: { version: "desc" },
+    select: { version: true }
+  });
+
+  return prisma.leaseDocument.create({
+    data: {
+      ...data,
+      leaseId: lease.id,
+      propertyId: lease.unit.propertyId,
+      unitId: lease.unitId,
+      version: (latest?.version ?? 0) + 1,
+      generatedBy,
+      generatedAt: now
+    }
+  });
+};
@@ -0,0 +1,166 @@
+// file: leaseRenewalService.js
+import prisma from "../libs/prismaClient.js";
+import { syncRentSchedule } from "./rentScheduleService.js";
+
+// ---------------------------------------------- LEASE RENEWAL SERVICE ----------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Suggested start of the next term: the day after the current lease ends
+ */
+export const getDefaultRenewalStart = (lease) => {
+  if (!lease.endDate) return null;
+  return new Date(startOfDay(lease.endDate).getTime() + DAY_MS);
+};
+
+/**
+ * PENDING offer past its response deadline → EXPIRED. Returns true if it expired.
+ */
+export const expireRenewalOfferIfStale = async (offer, now = new Date()) => {
+  if (offer.status !== "PENDING" || !offer.expiresAt || new Date(offer.expiresAt) > now) return false;
+
+  await prisma.leaseRenewalOffer.update({ where: { id: offer.id }, data: { status: "EXPIRED" } });
+  return true;
+};
+
+/**
+ * Hand a unit over from a lease to its renewal (successor becomes ACTIVE)
+ */
+const activateSuccessor = (successor) => [
+  prisma.lease.update({ where: { id: successor.id }, data: { status: "ACTIVE" } }),
+  prisma.lease.updateMany({
+    where: { id: successor.previousLeaseId, status: "ACTIVE" },
+    data: { status: "EXPIRED" }
+  }),
+  prisma.unit.update({ where: { id: successor.unitId }, data: { status: "OCCUPIED" } })
+];
+
+/**
+ * Accept a PENDING offer: create the successor lease linked to the current one.
+ * Terms already started go live immediately; later ones wait as UPCOMING.
+ */
+export const acceptRenewalOffer = async (offer, now = new Date()) => {
+  const lease = await prisma.lease.findUnique({ where: { id: offer.leaseId } });
+  const startsNow = startOfDay(offer.startDate) <= startOfDay(now);
+
+  const [successor] = await prisma.$transaction([
+    prisma.lease.create({
+      data: {
+        unitId: lease.unitId,
+        tenantId: lease.tenantId,
+        previousLeaseId: lease.id,
+        leaseNickname: lease.leaseNickname,
+        leaseType: lease.leaseType,
+        startDate: offer.startDate,
+        endDate: offer.endDate,
+        rentAmount: offer.rentAmount,
+        interval: offer.interval,
+        gracePeriodDays: lease.gracePeriodDays,
+        lateFeeType: lease.lateFeeType,
+        lateFeeAmount: lease.lateFeeAmount,
+        lateFeeMaxAmount: lease.lateFeeMaxAmount,
+        landlordName: lease.landlordName,
+        tenantName: lease.tenantName,
+        rules: lease.rules ?? undefined,
+        status: "UPCOMING"
+      }
+    }),
+    prisma.leaseRenewalOffer.update({
+      where: { id: offer.id },
+      data: { status: "ACCEPTED", respondedAt: now }
+    })
+  ]);
+
+  if (startsNow) {
+    await prisma.$transaction(activateSuccessor(successor));
+    await syncRentSchedule(successor.id, now);
+    return { ...successor, status: "ACTIVE" };
+  }
+
+  return successor;
+};
+
+/**
+ * UPCOMING renewals whose term has started → ACTIVE (previous lease → EXPIRED).
+ * Runs before lease expiry so a renewed unit is never released in between.
+ */
+export const activateStartedRenewals = async (now = new Date()) => {
+  const renewals = await prisma.lease.findMany({
+    where: { status: "UPCOMING", startDate: { lte: now } }
+  });
+
+  for (const renewal of renewals) {
+    await prisma.$transaction(activateSuccessor(renewal));
+    try {
+      await syncRentSchedule(renewal.id, now);
+    } catch (scheduleError) {
+      console.error(`Error syncing rent schedule for lease ${renewal.id}:`, scheduleError);
+    }
+  }
+
+  return renewals;
+};
+
+/**
+ * Group leases into renewal chains (oldest → newest) using previousLeaseId.
+ * Leases whose predecessor is not in the list start their own chain.
+ */
+export const buildLeaseChains = (leases) => {
+  const byId = new Map(leases.map(lease => [lease.id, lease]));
+  const successorOf = new Map();
+  leases.forEach(lease => {
+    if (lease.previousLeaseId && byId.has(lease.previousLeaseId)) {
+      successorOf.set(lease.previousLeaseId, lease);
+    }
+  });
+
+  return leases
+    .filter(lease => !lease.previousLeaseId || !byId.has(lease.previousLeaseId))
+    .map(first => {
+      const chain = [first];
+      let next = successorOf.get(first.id);
+      while (next) {
+        chain.push(next);
+        next = successorOf.get(next.id);
+      }
+      return chain;
+    });
+};
+
+/**
+ * Renewal rate and average tenancy length from real renewal chains.
+ * - renewalRate: % of leases that reached their end (renewed, expired or terminated) and were renewed
+ * - averageLeaseDuration: days from a chain's first start to its last end (or today if open-ended)
+ * DRAFT leases never took effect and are ignored.
+ */
+export const calculateRenewalMetrics = (leases, now = new Date()) => {
+  const effective = leases.filter(lease => lease.status !== "DRAFT");
+  const renewedIds = new Set(effective.map(lease => lease.previousLeaseId).filter(Boolean));
+
+  const eligible = effective.filter(lease =>
+    renewedIds.has(lease.id) || lease.status === "EXPIRED" || lease.status === "TERMINATED"
+  );
+  const renewed = eligible.filter(lease => renewedIds.has(lease.id));
+
+  const chains = buildLeaseChains(effective);
+  const totalDays = chains.reduce((sum, chain) => {
+    const start = new Date(chain[0].startDate);
+    const last = chain[chain.length - 1];
+    const end = last.endDate ? new Date(last.endDate) : now;
+    return sum + Math.max(0, Math.ceil((end.getTime() - start.getTime()) / DAY_MS));
+  }, 0);
+
+  return {
+    renewalRate: eligible.length > 0 ? Math.round((renewed.length / eligible.length) * 100) : 0,
+    averageLeaseDuration: chains.length > 0 ? Math.round(totalDays / chains.length) : 0,
+    renewedLeases: renewed.length,
+    renewalEligibleLeases: eligible.length
+  };
+};
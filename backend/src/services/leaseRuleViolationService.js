@@ -0,0 +1,179 @@
+// file: leaseRuleViolationService.js
+
+// ---------------------------------------------- LEASE RULE VIOLATION SERVICE ----------------------------------------------
+
+export const VIOLATION_WARNING_LEVELS = ["NOTICE", "WARNING", "FINAL_WARNING"];
+
+// OPEN until the tenant answers; WITHDRAWN violations no longer count against them
+export const VIOLATION_STATUSES = ["OPEN", "ACKNOWLEDGED", "DISPUTED", "WITHDRAWN"];
+
+const WARNING_LEVEL_LABELS = {
+  NOTICE: "notice",
+  WARNING: "warning",
+  FINAL_WARNING: "final warning",
+};
+
+// How much of the rule compliance score (0 → 1) each violation takes away
+const WARNING_LEVEL_PENALTIES = {
+  NOTICE: 0.1,
+  WARNING: 0.25,
+  FINAL_WARNING: 0.5,
+};
+
+// Violations on one lease before the tenant is flagged for frequent complaints
+export const FREQUENT_VIOLATION_COUNT = 3;
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_RESPONSE_LENGTH = 1000;
+
+// Fields shown to both the landlord and the tenant
+export const violationSelect = {
+  id: true,
+  leaseId: true,
+  ruleIndex: true,
+  ruleText: true,
+  description: true,
+  warningLevel: true,
+  evidenceUrls: true,
+  occurredAt: true,
+  status: true,
+  tenantResponse: true,
+  respondedAt: true,
+  withdrawnAt: true,
+  createdAt: true,
+  lease: {
+    select: {
+      id: true,
+      leaseNickname: true,
+      unit: {
+        select: {
+          id: true,
+          label: true,
+          property: { select: { id: true, title: true } }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Rules that apply to a lease, as plain text: Lease.rules, or the unit's rules when
+ * the lease doesn't set its own. Stored rules are strings or { text } / { title } objects.
+ */
+export const getLeaseRuleList = (lease) => {
+  const toList = (rules) =>
+    (Array.isArray(rules) ? rules : [])
+      .map(rule => (typeof rule === "string" ? rule : rule?.text || rule?.title || ""))
+      .map(text => text.trim())
+      .filter(Boolean);
+
+  const leaseRules = toList(lease.rules);
+  return leaseRules.length > 0 ? leaseRules : toList(lease.unit?.unitLeaseRules);
+};
+
+/**
+ * Validate a landlord's { ruleIndex, description, warningLevel, occurredAt } against the
+ * lease's rules. Returns { data } or { status, message }.
+ */
+export const validateViolationInput = ({ ruleIndex, description, warningLevel, occurredAt }, rules, now = new Date()) => {
+  if (rules.length === 0) {
+    return { status: 400, message: "This lease has no rules to log a violation against" };
+  }
+
+  const parsedIndex = Number(ruleIndex);
+  if (!Number.isInteger(parsedIndex) || parsedIndex < 0 || parsedIndex >= rules.length) {
+    return { status: 400, message: "Please choose one of the lease rules" };
+  }
+
+  const trimmedDescription = typeof description === "string" ? description.trim() : "";
+  if (!trimmedDescription) {
+    return { status: 400, message: "Please describe what happened" };
+  }
+  if (trimmedDescription.length > MAX_DESCRIPTION_LENGTH) {
+    return { status: 400, message: `Description can be up to ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+
+  if (!VIOLATION_WARNING_LEVELS.includes(warningLevel)) {
+    return { status: 400, message: `Warning level must be one of: ${VIOLATION_WARNING_LEVELS.join(", ")}` };
+  }
+
+  const occurredDate = occurredAt ? new Date(occurredAt) : now;
+  if (Number.isNaN(occurredDate.getTime())) {
+    return { status: 400, message: "Invalid date of the violation" };
+  }
+  if (occurredDate > now) {
+    return { status: 400, message: "The violation date can't be in the future" };
+  }
+
+  return {
+    data: {
+      ruleIndex: parsedIndex,
+      ruleText: rules[parsedIndex],
+      description: trimmedDescription,
+      warningLevel,
+      occurredAt: occurredDate,
+    }
+  };
+};
+
+/**
+ * Validate a tenant's answer ({ action: "ACKNOWLEDGE" | "DISPUTE", response }).
+ * A dispute needs a reason. Returns { data } or { status, message }.
+ */
+export const validateViolationResponse = ({ action, response }) => {
+  if (!["ACKNOWLEDGE", "DISPUTE"].includes(action)) {
+    return { status: 400, message: "Action must be ACKNOWLEDGE or DISPUTE" };
+  }
+
+  if (response !== undefined && response !== null && typeof response !== "string") {
+    return { status: 400, message: "Response must be text" };
+  }
+
+  const trimmedResponse = response?.trim() || null;
+  if (action === "DISPUTE" && !trimmedResponse) {
+    return { status: 400, message: "Please explain why you dispute this violation" };
+  }
+  if (trimmedResponse && trimmedResponse.length > MAX_RESPONSE_LENGTH) {
+    return { status: 400, message: `Response can be up to ${MAX_RESPONSE_LENGTH} characters` };
+  }
+
+  return {
+    data: {
+      status: action === "ACKNOWLEDGE" ? "ACKNOWLEDGED" : "DISPUTED",
+      tenantResponse: trimmedResponse,
+    }
+  };
+};
+
+export const formatWarningLevel = (warningLevel) => WARNING_LEVEL_LABELS[warningLevel] || warningLevel;
+
+/**
+ * Behavior metrics from a lease's violations (withdrawn ones already left out):
+ * rule compliance score, frequent-complaints flag and the complaint notes
+ */
+export const summarizeViolations = (violations) => {
+  const count = violations.length;
+  if (count === 0) {
+    return { violationCount: 0, ruleComplianceScore: 1, hasFrequentViolations: false, complaintNotes: null };
+  }
+
+  const penalty = violations.reduce((sum, violation) => sum + (WARNING_LEVEL_PENALTIES[violation.warningLevel] ?? 0), 0);
+
+  const byLevel = VIOLATION_WARNING_LEVELS
+    .map(level => [level, violations.filter(violation => violation.warningLevel === level).length])
+    .filter(([, levelCount]) => levelCount > 0)
+    .map(([level, levelCount]) => `${levelCount} ${formatWarningLevel(level)}${levelCount > 1 ? "s" : ""}`);
+  const disputed = violations.filter(violation => violation.status === "DISPUTED").length;
+
+  const notes = [`${count} rule violation${count > 1 ? "s" : ""} logged (${byLevel.join(", ")})`];
+  if (disputed > 0) {
+    notes.push(`${disputed} disputed by the tenant`);
+  }
+
+  return {
+    violationCount: count,
+    ruleComplianceScore: Math.max(0, 1 - penalty),
+    hasFrequentViolations: count >= FREQUENT_VIOLATION_COUNT,
+    complaintNotes: notes.join("; "),
+  };
+};
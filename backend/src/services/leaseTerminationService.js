@@ -0,0 +1,117 @@
+// file: leaseTerminationService.js
+import prisma from "../libs/prismaClient.js";
+import { createLeaseNotification } from "./notificationService.js";
+
+// ---------------------------------------------- LEASE TERMINATION SERVICE ----------------------------------------------
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Move-out day reached: lease → TERMINATED, unit → AVAILABLE (unless another
+ * lease still occupies it) and any pending renewal offer is withdrawn.
+ * Returns true when the unit was released.
+ */
+export const completeMoveOut = async (termination, now = new Date()) => {
+  const lease = await prisma.lease.findUnique({
+    where: { id: termination.leaseId },
+    select: { id: true, unitId: true, unit: { select: { status: true } } }
+  });
+
+  const otherActiveLeases = await prisma.lease.count({
+    where: { unitId: lease.unitId, status: "ACTIVE", id: { not: lease.id } }
+  });
+  const releaseUnit = otherActiveLeases === 0 && lease.unit.status === "OCCUPIED";
+
+  await prisma.$transaction([
+    prisma.lease.update({ where: { id: lease.id }, data: { status: "TERMINATED" } }),
+    prisma.leaseTermination.update({
+      where: { id: termination.id },
+      data: { status: "MOVED_OUT", movedOutAt: now }
+    }),
+    prisma.leaseRenewalOffer.updateMany({
+      where: { leaseId: lease.id, status: "PENDING" },
+      data: { status: "WITHDRAWN", respondedAt: now }
+    }),
+    ...(releaseUnit
+      ? [prisma.unit.update({ where: { id: lease.unitId }, data: { status: "AVAILABLE" } })]
+      : [])
+  ]);
+
+  return releaseUnit;
+};
+
+/**
+ * Complete every notice whose move-out date has arrived (run by the
+ * expire-leases job before regular expiry)
+ */
+export const completeDueMoveOuts = async (now = new Date()) => {
+  const terminations = await prisma.leaseTermination.findMany({
+    where: { status: "NOTICE", moveOutDate: { lte: now } },
+    include: {
+      lease: {
+        include: {
+          tenant: { select: { firstName: true, lastName: true } },
+          unit: { select: { label: true, property: { select: { ownerId: true } } } }
+        }
+      }
+    }
+  });
+
+  let unitsReleased = 0;
+  for (const termination of terminations) {
+    if (await completeMoveOut(termination, now)) unitsReleased++;
+
+    try {
+      await createLeaseNotification(termination.lease.unit.property.ownerId, termination.lease, "MOVED_OUT");
+    } catch (notificationError) {
+      console.error("Error creating move-out notification:", notificationError);
+      // Don't fail the job if notification fails
+    }
+  }
+
+  return { movedOut: terminations.length, unitsReleased };
+};
+
+/**
+ * Record the deposit settlement: each deduction is kept as a DepositDeduction
+ * and posted to the property's Income; the rest is refunded to the tenant.
+ */
+export const settleDeposit = async (termination, { depositHeld, deductions }, unit, now = new Date()) => {
+  const totalDeductions = roundMoney(deductions.reduce((sum, item) => sum + item.amount, 0));
+
+  await prisma.$transaction([
+    ...deductions.map(item =>
+      prisma.depositDeduction.create({
+        data: {
+          terminationId: termination.id,
+          description: item.description,
+          amount: roundMoney(item.amount),
+          income: {
+            create: {
+              propertyId: unit.propertyId,
+              unitId: unit.id,
+              amount: roundMoney(item.amount),
+              description: `deposit deduction: ${item.description}`,
+              date: now
+            }
+          }
+        }
+      })
+    ),
+    prisma.leaseTermination.update({
+      where: { id: termination.id },
+      data: {
+        status: "SETTLED",
+        depositHeld: roundMoney(depositHeld),
+        totalDeductions,
+        refundAmount: roundMoney(depositHeld - totalDeductions),
+        settledAt: now
+      }
+    })
+  ]);
+
+  return prisma.leaseTermination.findUnique({
+    where: { id: termination.id },
+    include: { deductions: { orderBy: { createdAt: "asc" } } }
+  });
+};
@@ -0,0 +1,32 @@
+// file: listingService.js
+import prisma from "../libs/prismaClient.js";
+
+// ---------------------------------------------- LISTING SERVICE ----------------------------------------------
+
+/**
+ * Whether a unit may be listed (again) right now, based on its status and its latest listing.
+ * Returns { error } when it may not, plus the latest listing either way.
+ */
+export const checkListingEligibility = async (unit) => {
+  const lastListing = await prisma.listing.findFirst({
+    where: { unitId: unit.id },
+    orderBy: { createdAt: "desc" }
+  });
+
+  if (unit.status !== "AVAILABLE") {
+    return { error: "Unit is not available for listing", lastListing };
+  }
+
+  if (lastListing) {
+    if (["PENDING", "APPROVED", "ACTIVE"].includes(lastListing.status)) {
+      return { error: `Unit already has a ${lastListing.status} listing in progress`, lastListing };
+    }
+
+    if (lastListing.status === "BLOCKED") {
+      return { error: "Unit is blocked from being listed", lastListing };
+    }
+    // REJECTED or EXPIRED → allow resubmission
+  }
+
+  return { error: null, lastListing };
+};
@@ -0,0 +1,111 @@
+// file: maintenanceScheduleService.js
+import prisma from "../libs/prismaClient.js";
+import { createMaintenanceNotification } from "./notificationService.js";
+import { getSlaDeadlines } from "./maintenanceSlaService.js";
+
+// ---------------------------------------------- MAINTENANCE SCHEDULE SERVICE ----------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest supported interval and head start for generated work orders
+export const MAX_INTERVAL_MONTHS = 24;
+export const MAX_LEAD_DAYS = 60;
+
+/**
+ * Same day `months` later, clamped to the end of shorter months (Jan 31 + 1 → Feb 28)
+ */
+export const addMonths = (date, months) => {
+  const source = new Date(date);
+  const result = new Date(source);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(source.getUTCDate(), lastDay));
+  return result;
+};
+
+/**
+ * Due dates of a schedule between `from` and `until`, starting at its nextDueAt
+ */
+export const getScheduleOccurrences = (schedule, from, until) => {
+  const occurrences = [];
+  let dueAt = new Date(schedule.nextDueAt);
+
+  while (dueAt <= until) {
+    if (dueAt >= from) occurrences.push(dueAt);
+    dueAt = addMonths(dueAt, schedule.intervalMonths);
+  }
+
+  return occurrences;
+};
+
+/**
+ * Create the work order of every active schedule whose lead window has opened,
+ * then move the schedule to its next occurrence. Missed occurrences (e.g. a paused
+ * schedule that was resumed) are skipped so each run creates at most one per schedule.
+ */
+export const generatePreventiveWorkOrders = async (now = new Date()) => {
+  const candidates = await prisma.maintenanceSchedule.findMany({
+    where: {
+      isActive: true,
+      nextDueAt: { lte: new Date(now.getTime() + MAX_LEAD_DAYS * DAY_MS) }
+    },
+    include: {
+      property: { select: { id: true, title: true, ownerId: true } },
+      unit: { select: { id: true, label: true } }
+    }
+  });
+
+  const due = candidates.filter(schedule =>
+    schedule.nextDueAt.getTime() - schedule.leadDays * DAY_MS <= now.getTime()
+  );
+
+  let generated = 0;
+  for (const schedule of due) {
+    let nextDueAt = addMonths(schedule.nextDueAt, schedule.intervalMonths);
+    while (nextDueAt.getTime() - schedule.leadDays * DAY_MS <= now.getTime()) {
+      nextDueAt = addMonths(nextDueAt, schedule.intervalMonths);
+    }
+
+    const { responseDueAt } = getSlaDeadlines(schedule.priority, now);
+
+    await prisma.$transaction([
+      prisma.maintenanceRequest.create({
+        data: {
+          propertyId: schedule.propertyId,
+          unitId: schedule.unitId,
+          reporterId: schedule.ownerId,
+          scheduleId: schedule.id,
+          description: schedule.description ? `${schedule.title}: ${schedule.description}` : schedule.title,
+          status: "OPEN",
+          priority: schedule.priority,
+          category: schedule.category,
+          contractorId: schedule.contractorId,
+          // Due on the scheduled date; a pre-assigned contractor counts as the response
+          responseDueAt,
+          resolutionDueAt: schedule.nextDueAt,
+          respondedAt: schedule.contractorId ? now : null
+        }
+      }),
+      prisma.maintenanceSchedule.update({
+        where: { id: schedule.id },
+        data: { nextDueAt, lastGeneratedAt: now }
+      })
+    ]);
+    generated++;
+
+    try {
+      await createMaintenanceNotification(schedule.ownerId, {
+        title: schedule.title,
+        unit: schedule.unit,
+        property: schedule.property,
+        dueAt: schedule.nextDueAt
+      }, "PREVENTIVE");
+    } catch (notificationError) {
+      console.error("Error creating preventive maintenance notification:", notificationError);
+      // Don't fail the job if notification fails
+    }
+  }
+
+  return { generated };
+};
@@ -0,0 +1,73 @@
+// file: maintenanceSlaService.js
+
+// ---------------------------------------------- MAINTENANCE SLA SERVICE ----------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MAINTENANCE_PRIORITIES = ["LOW", "MEDIUM", "HIGH", "EMERGENCY"];
+export const MAINTENANCE_CATEGORIES = ["PLUMBING", "ELECTRICAL", "APPLIANCE", "HVAC", "STRUCTURAL", "PEST", "GENERAL"];
+
+// Hours from the request's creation to first response / resolution
+export const SLA_HOURS = {
+  EMERGENCY: { response: 4, resolution: 24 },
+  HIGH: { response: 24, resolution: 72 },
+  MEDIUM: { response: 48, resolution: 168 },
+  LOW: { response: 72, resolution: 336 }
+};
+
+// Unresolved work orders due within this window are reported as at risk
+const AT_RISK_HOURS = 12;
+
+/**
+ * Response and resolution deadlines for a priority, counted from createdAt
+ */
+export const getSlaDeadlines = (priority, createdAt) => {
+  const hours = SLA_HOURS[priority] || SLA_HOURS.MEDIUM;
+  const start = new Date(createdAt).getTime();
+  return {
+    responseDueAt: new Date(start + hours.response * HOUR_MS),
+    resolutionDueAt: new Date(start + hours.resolution * HOUR_MS)
+  };
+};
+
+/**
+ * SLA standing of a request:
+ * - MET: resolved before its resolution deadline
+ * - BREACHED: a deadline passed before the matching response/resolution
+ * - AT_RISK: unresolved and the next deadline is within AT_RISK_HOURS
+ * - ON_TRACK: otherwise
+ * Requests saved before deadlines were stored fall back to the priority's SLA.
+ */
+export const getSlaStatus = (request, now = new Date()) => {
+  const fallback = getSlaDeadlines(request.priority, request.createdAt);
+  const responseDueAt = request.responseDueAt ? new Date(request.responseDueAt) : fallback.responseDueAt;
+  const resolutionDueAt = request.resolutionDueAt ? new Date(request.resolutionDueAt) : fallback.resolutionDueAt;
+  const respondedAt = request.respondedAt ? new Date(request.respondedAt) : null;
+  const resolvedAt = request.resolvedAt ? new Date(request.resolvedAt) : null;
+
+  const responseBreached = respondedAt ? respondedAt > responseDueAt : now > responseDueAt;
+  const resolutionBreached = resolvedAt ? resolvedAt > resolutionDueAt : now > resolutionDueAt;
+
+  // The deadline that still matters: response first, then resolution
+  const nextDueAt = resolvedAt ? null : (!respondedAt ? responseDueAt : resolutionDueAt);
+  const hoursRemaining = nextDueAt ? Math.round((nextDueAt.getTime() - now.getTime()) / HOUR_MS) : null;
+
+  let state = "ON_TRACK";
+  if (responseBreached || resolutionBreached) {
+    state = "BREACHED";
+  } else if (resolvedAt) {
+    state = "MET";
+  } else if (hoursRemaining !== null && hoursRemaining <= AT_RISK_HOURS) {
+    state = "AT_RISK";
+  }
+
+  return {
+    state,
+    responseDueAt,
+    resolutionDueAt,
+    responseBreached,
+    resolutionBreached,
+    nextDueAt,
+    hoursRemaining
+  };
+};
@@ -0,0 +1,75 @@
+// file: maintenanceTimelineService.js
+import prisma from "../libs/prismaClient.js";
+import { createMaintenanceNotification } from "./notificationService.js";
+
+// ---------------------------------------------- MAINTENANCE TIMELINE SERVICE ----------------------------------------------
+
+const authorSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+  role: true,
+};
+
+/**
+ * All timeline entries of a request, oldest first
+ */
+export const getMaintenanceTimeline = async (requestId) => {
+  const updates = await prisma.maintenanceUpdate.findMany({
+    where: { requestId },
+    include: { author: { select: authorSelect } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return updates.map(update => ({
+    ...update,
+    author: {
+      ...update.author,
+      fullName: `${update.author.firstName || ""} ${update.author.lastName || ""}`.trim() || "Unknown",
+    },
+  }));
+};
+
+/**
+ * Add a timeline entry and notify the other party.
+ * `request` needs reporterId, description, unit, and property (with ownerId).
+ */
+export const addMaintenanceUpdate = async (request, authorId, entry) => {
+  const update = await prisma.maintenanceUpdate.create({
+    data: {
+      requestId: request.id,
+      authorId,
+      type: entry.type,
+      fromStatus: entry.fromStatus ?? null,
+      toStatus: entry.toStatus ?? null,
+      message: entry.message?.trim() || null,
+      photoUrl: entry.photoUrl ?? null,
+    },
+    include: { author: { select: authorSelect } },
+  });
+
+  // Tenant entries go to the landlord, everything else to the reporter
+  const recipientId = authorId === request.reporterId ? request.property.ownerId : request.reporterId;
+  let action = "COMMENT";
+  if (entry.type === "STATUS_CHANGE") {
+    action = entry.toStatus === "RESOLVED" ? "COMPLETED" : "STATUS_CHANGED";
+  }
+
+  // Landlord-created (preventive) work orders have no one else to notify
+  if (recipientId === authorId) return update;
+
+  try {
+    await createMaintenanceNotification(recipientId, {
+      title: request.description.slice(0, 60),
+      unit: request.unit,
+      property: request.property,
+      status: entry.toStatus,
+    }, action);
+  } catch (notificationError) {
+    console.error("Error creating maintenance timeline notification:", notificationError);
+    // Don't fail the update if notification fails
+  }
+
+  return update;
+};
@@ -0,0 +1,54 @@
+// file: messageAttachmentService.js
+import fs from "fs";
+import path from "path";
+import { MESSAGE_ATTACHMENTS_DIR } from "../middlewares/messageAttachmentUpload.js";
+
+// ---------------------------------------------- MESSAGE ATTACHMENT SERVICE ----------------------------------------------
+
+export const messageAttachmentSelect = {
+  id: true,
+  kind: true,
+  storedName: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  createdAt: true,
+};
+
+/**
+ * Rows for prisma's nested `attachments: { create }` from multer's uploaded files
+ */
+export const buildMessageAttachments = (files = []) =>
+  files.map(file => ({
+    kind: file.mimetype === "application/pdf" ? "PDF" : "IMAGE",
+    storedName: file.filename,
+    fileName: file.originalname,
+    mimeType: file.mimetype,
+    size: file.size,
+  }));
+
+/**
+ * Public shape of an attachment. The url points at the participant-only download route,
+ * never at the file on disk.
+ */
+export const formatMessageAttachment = (attachment) => ({
+  id: attachment.id,
+  kind: attachment.kind,
+  fileName: attachment.fileName,
+  mimeType: attachment.mimeType,
+  size: attachment.size,
+  url: `/api/auth/messages/attachments/${attachment.id}`,
+});
+
+/**
+ * Absolute path of a stored attachment (basename only, so a bad row can't escape the folder)
+ */
+export const getMessageAttachmentPath = (attachment) =>
+  path.join(MESSAGE_ATTACHMENTS_DIR, path.basename(attachment.storedName));
+
+/**
+ * Delete attachment files from disk once their rows are gone
+ */
+export const removeMessageAttachmentFiles = (attachments = []) => {
+  attachments.forEach(attachment => fs.unlink(getMessageAttachmentPath(attachment), () => {}));
+};
@@ -0,0 +1,211 @@
+// file: notificationPreferenceService.js
+import prisma from "../libs/prismaClient.js";
+import { sendEmail } from "./email/emailSender.js";
+import { notificationEmailTemplate } from "./email/templates/notificationEmail.js";
+import { notificationDigestTemplate } from "./email/templates/notificationDigest.js";
+
+// ---------------------------------------------- NOTIFICATION PREFERENCE SERVICE ----------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DIGEST_ITEMS = 50;
+
+export const NOTIFICATION_CATEGORIES = ["PAYMENT", "LEASE", "MAINTENANCE", "MESSAGE", "SYSTEM"];
+
+export const CATEGORY_LABELS = {
+  PAYMENT: "Payments",
+  LEASE: "Leases",
+  MAINTENANCE: "Maintenance",
+  MESSAGE: "Messages",
+  SYSTEM: "Account & system",
+};
+
+// Notification.type is free text; every type the app writes falls into one preference category
+const TYPE_CATEGORIES = {
+  PAYMENT: "PAYMENT",
+  PAYMENT_REMINDER: "PAYMENT",
+  LEASE: "LEASE",
+  APPLICATION: "LEASE",
+  TENANT: "LEASE",
+  MAINTENANCE: "MAINTENANCE",
+  MAINTENANCE_REQUEST: "MAINTENANCE",
+  MESSAGE: "MESSAGE",
+};
+
+const DEFAULT_CHANNEL = { inApp: true, email: false };
+
+/**
+ * Preference category of a notification type (unknown types → SYSTEM)
+ */
+export const getNotificationCategory = (type) => TYPE_CATEGORIES[type] || "SYSTEM";
+
+/**
+ * Complete channel map from a stored (possibly partial or outdated) one
+ */
+const normalizeChannels = (channels) =>
+  Object.fromEntries(
+    NOTIFICATION_CATEGORIES.map(category => {
+      const stored = channels?.[category] ?? {};
+      return [category, {
+        inApp: typeof stored.inApp === "boolean" ? stored.inApp : DEFAULT_CHANNEL.inApp,
+        email: typeof stored.email === "boolean" ? stored.email : DEFAULT_CHANNEL.email,
+      }];
+    })
+  );
+
+/**
+ * A user's preferences, falling back to the defaults when they never saved any
+ */
+export const getNotificationPreferences = async (userId) => {
+  const preference = await prisma.notificationPreference.findUnique({ where: { userId } });
+
+  return {
+    channels: normalizeChannels(preference?.channels),
+    dailyDigest: preference?.dailyDigest ?? false,
+  };
+};
+
+/**
+ * Validate a PUT body ({ channels?, dailyDigest? }) and merge it over the current preferences.
+ * Returns { data } or { status, message }.
+ */
+export const validateNotificationPreferences = (body, current) => {
+  const { channels, dailyDigest } = body ?? {};
+
+  if (dailyDigest !== undefined && typeof dailyDigest !== "boolean") {
+    return { status: 400, message: "dailyDigest must be true or false" };
+  }
+
+  if (channels !== undefined && (typeof channels !== "object" || channels === null || Array.isArray(channels))) {
+    return { status: 400, message: "channels must be an object keyed by notification category" };
+  }
+
+  const merged = { ...current.channels };
+  for (const [category, channel] of Object.entries(channels ?? {})) {
+    if (!NOTIFICATION_CATEGORIES.includes(category)) {
+      return { status: 400, message: `Unknown notification category: ${category}` };
+    }
+    if (typeof channel !== "object" || channel === null) {
+      return { status: 400, message: `Channels for ${category} must be an object` };
+    }
+    for (const key of ["inApp", "email"]) {
+      if (channel[key] !== undefined && typeof channel[key] !== "boolean") {
+        return { status: 400, message: `${category}.${key} must be true or false` };
+      }
+    }
+    merged[category] = { ...merged[category], ...channel };
+  }
+
+  return {
+    data: {
+      channels: normalizeChannels(merged),
+      dailyDigest: dailyDigest ?? current.dailyDigest,
+    }
+  };
+};
+
+/**
+ * Save a user's preferences (creates the row on first save)
+ */
+export const saveNotificationPreferences = async (userId, preferences) => {
+  const saved = await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, channels: preferences.channels, dailyDigest: preferences.dailyDigest },
+    update: { channels: preferences.channels, dailyDigest: preferences.dailyDigest },
+  });
+
+  return { channels: normalizeChannels(saved.channels), dailyDigest: saved.dailyDigest };
+};
+
+const getAppUrl = () => process.env.FRONTEND_URL || "http://localhost:5173";
+
+const displayName = (user) => user.firstName || user.email;
+
+/**
+ * Email one notification to the user. `path` is the in-app page the button opens.
+ * Returns the sendEmail result, or { success: false } when the user can't receive email.
+ */
+export const sendNotificationEmail = async (userId, type, message, path) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, firstName: true, isDisabled: true }
+  });
+  if (!user || user.isDisabled) {
+    return { success: false, error: "User cannot receive email" };
+  }
+
+  const category = getNotificationCategory(type);
+  return sendEmail({
+    to: user.email,
+    subject: `RentEase - ${CATEGORY_LABELS[category]}: ${message.length > 60 ? `${message.slice(0, 57)}...` : message}`,
+    html: notificationEmailTemplate({
+      name: displayName(user),
+      category: CATEGORY_LABELS[category],
+      message,
+      url: `${getAppUrl()}${path}`,
+    }),
+  });
+};
+
+/**
+ * Job handler: once a day per opted-in user, email the unread in-app notifications
+ * created since their last digest. Users with nothing unread are skipped (but the
+ * window still moves on).
+ */
+export const sendNotificationDigests = async (now) => {
+  const dueBefore = new Date(now.getTime() - DAY_MS);
+
+  const preferences = await prisma.notificationPreference.findMany({
+    where: {
+      dailyDigest: true,
+      OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: dueBefore } }],
+      user: { isDisabled: false },
+    },
+    include: {
+      user: { select: { id: true, email: true, firstName: true, role: true } }
+    }
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const preference of preferences) {
+    // Everything since the previous digest (the first digest covers the last day)
+    const since = preference.lastDigestAt ?? dueBefore;
+
+    const notifications = await prisma.notification.findMany({
+      where: { userId: preference.userId, status: "UNREAD", createdAt: { gt: since, lte: now } },
+      orderBy: { createdAt: "desc" },
+      take: MAX_DIGEST_ITEMS,
+    });
+
+    if (notifications.length > 0) {
+      const result = await sendEmail({
+        to: preference.user.email,
+        subject: `RentEase - Your daily summary (${notifications.length} unread)`,
+        html: notificationDigestTemplate({
+          name: displayName(preference.user),
+          items: notifications.map(notification => ({
+            category: CATEGORY_LABELS[getNotificationCategory(notification.type)],
+            message: notification.message,
+            createdAt: notification.createdAt,
+          })),
+          url: `${getAppUrl()}/${preference.user.role.toLowerCase()}`,
+        }),
+      });
+
+      if (!result.success) {
+        console.error("Error sending notification digest:", result.error);
+        failed++;
+        continue; // retried on the next run
+      }
+      sent++;
+    }
+
+    await prisma.notificationPreference.update({
+      where: { id: preference.id },
+      data: { lastDigestAt: now }
+    });
+  }
+
+  return { due: preferences.length, sent, failed };
+};
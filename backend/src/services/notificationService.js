@@ -52,6 +52,24 @@ export const createLeaseNotification = async (userId, leaseData, action) => {
     case "RENEWED":
       message = `Lease renewed: ${leaseNickname || 'Unnamed lease'} for ${tenantName}`;
       break;
+    case "RENEWAL_OFFERED":
+      message = `Renewal offer received for ${leaseNickname || 'Unnamed lease'} in ${unitLabel}`;
+      break;
+    case "RENEWAL_DECLINED":
+      message = `Renewal offer declined: ${leaseNickname || 'Unnamed lease'} for ${tenantName}`;
+      break;
+    case "RENEWAL_WITHDRAWN":
+      message = `Renewal offer withdrawn for ${leaseNickname || 'Unnamed lease'} in ${unitLabel}`;
+      break;
+    case "TERMINATION_NOTICE":
+      message = `Termination notice given: ${leaseNickname || 'Unnamed lease'} in ${unitLabel}`;
+      break;
+    case "MOVED_OUT":
+      message = `Move-out completed: ${leaseNickname || 'Unnamed lease'} for ${tenantName}, ${unitLabel} is available again`;
+      break;
+    case "DEPOSIT_SETTLED":
+      message = `Security deposit settled for ${leaseNickname || 'Unnamed lease'} in ${unitLabel}`;
+      break;
     default:
       message = `Lease ${action.toLowerCase()}: ${leaseNickname || 'Unnamed lease'}`;
   }
@@ -80,6 +98,18 @@ export const createMaintenanceNotification = async (userId, maintenanceData, act
     case "COMPLETED":
       message = `Maintenance completed: ${title} in ${unitLabel}`;
       break;
+    case "SCHEDULED":
+      message = `Maintenance visit scheduled for ${new Date(maintenanceData.scheduledStart).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}: ${title} in ${unitLabel}`;
+      break;
+    case "STATUS_CHANGED":
+      message = `Maintenance request is now ${maintenanceData.status.replace("_", " ").toLowerCase()}: ${title} in ${unitLabel}`;
+      break;
+    case "COMMENT":
+      message = `New update on maintenance request: ${title} in ${unitLabel}`;
+      break;
+    case "PREVENTIVE":
+      message = `Preventive maintenance due ${new Date(maintenanceData.dueAt).toLocaleDateString("en-US", { dateStyle: "medium" })}: ${title} in ${unit ? unitLabel : 'all units'} at ${propertyTitle}`;
+      break;
     case "CANCELLED":
       message = `Maintenance cancelled: ${title} in ${unitLabel}`;
       break;
@@ -0,0 +1,286 @@
+// file: paymentService.js
+import prisma from "../libs/prismaClient.js";
+import { createNotification } from "../controllers/notificationController.js";
+import { getPaymentProvider } from "./payments/paymentProviders.js";
+import { applyPaymentToSchedule } from "./rentScheduleService.js";
+import { refreshLeaseBehavior } from "./tenantBehaviorService.js";
+import { checkListingEligibility } from "./listingService.js";
+
+// ---------------------------------------------- PAYMENT SERVICE ----------------------------------------------
+// Drives PaymentIntent (and the linked Payment) through the provider lifecycle:
+// create-intent → confirm → webhook. Payment.status only changes from provider events.
+
+const FINAL_INTENT_STATUSES = ["SUCCEEDED", "FAILED", "REFUNDED"];
+
+/**
+ * Create a provider intent. RENT intents also get a PENDING Payment on the lease.
+ */
+export const createPaymentIntent = async ({ purpose, userId, amount, method, leaseId = null, unitId = null, note = null, metadata = null }) => {
+  const provider = getPaymentProvider();
+  const { providerRef, status } = await provider.createIntent({ amount, currency: "PHP", method, metadata });
+
+  let paymentId = null;
+  if (purpose === "RENT") {
+    const payment = await prisma.payment.create({
+      data: {
+        leaseId,
+        amount,
+        method,
+        providerTxnId: providerRef,
+        status: "PENDING",
+        timingStatus: "ONTIME", // Recomputed by the lease ledger once the payment succeeds
+        isPartial: false,
+        note
+      }
+    });
+    paymentId = payment.id;
+  }
+
+  return prisma.paymentIntent.create({
+    data: {
+      provider: provider.name,
+      providerRef,
+      purpose,
+      userId,
+      leaseId,
+      paymentId,
+      unitId,
+      amount,
+      method,
+      status,
+      metadata
+    },
+    include: { payment: true }
+  });
+};
+
+/**
+ * Confirm an intent with its provider. The outcome arrives later as a webhook.
+ */
+export const confirmPaymentIntent = async (intent, options = {}) => {
+  const provider = getPaymentProvider(intent.provider);
+  const { status } = await provider.confirmIntent(intent.providerRef, options);
+
+  return prisma.paymentIntent.update({
+    where: { id: intent.id },
+    data: { status }
+  });
+};
+
+/**
+ * Ask the provider to refund a SUCCEEDED intent. The refund arrives later as a webhook.
+ */
+export const refundPaymentIntent = async (intent) => {
+  const provider = getPaymentProvider(intent.provider);
+  await provider.refund(intent.providerRef);
+  return intent;
+};
+
+/**
+ * Refund a SUCCEEDED listing fee that no listing was created with, e.g. because its
+ * unit can no longer be listed. Returns false when the fee already paid for a listing.
+ */
+export const refundUnusedListingFee = async (intent, reason) => {
+  if (intent.purpose !== "LISTING_FEE" || intent.status !== "SUCCEEDED") return false;
+
+  const usedBy = await prisma.listing.findUnique({ where: { providerTxnId: intent.providerRef } });
+  if (usedBy) return false;
+
+  await refundPaymentIntent(intent);
+
+  try {
+    await createNotification(intent.userId, "PAYMENT", `Your listing fee of ₱${intent.amount.toLocaleString()} is being refunded: ${reason}`);
+  } catch (notificationError) {
+    console.error("Error creating listing fee refund notification:", notificationError);
+    // Don't fail the refund if notification fails
+  }
+
+  return true;
+};
+
+// Notify the landlord that rent came in (or the tenant that it didn't)
+const notifyRentPaymentEvent = async (intent, type) => {
+  const lease = await prisma.lease.findUnique({
+    where: { id: intent.leaseId },
+    select: {
+      tenantId: true,
+      tenant: { select: { firstName: true, lastName: true } },
+      unit: { select: { property: { select: { title: true, ownerId: true } } } }
+    }
+  });
+  if (!lease) return;
+
+  const amount = `₱${intent.amount.toLocaleString()}`;
+  const notifications = {
+    "payment_intent.succeeded": {
+      userId: lease.unit.property.ownerId,
+      type: "PAYMENT_RECEIVED",
+      message: `Payment of ${amount} received from ${lease.tenant.firstName} ${lease.tenant.lastName} for ${lease.unit.property.title}`
+    },
+    "payment_intent.failed": {
+      userId: lease.tenantId,
+      type: "PAYMENT",
+      message: `Your payment of ${amount} for ${lease.unit.property.title} failed${intent.failureReason ? ` (${intent.failureReason.replace(/_/g, " ")})` : ""}`
+    },
+    "charge.refunded": {
+      userId: lease.tenantId,
+      type: "PAYMENT",
+      message: `Your payment of ${amount} for ${lease.unit.property.title} was refunded`
+    }
+  };
+
+  const notification = notifications[type];
+  if (notification) {
+    await createNotification(notification.userId, notification.type, notification.message);
+  }
+};
+
+/**
+ * Verify, de-duplicate and apply a provider webhook.
+ * Returns { duplicate } or { intent }. Errors with status 400 mean the webhook itself
+ * is invalid (unknown provider, bad signature or payload); any other error is retryable.
+ */
+export const handlePaymentWebhook = async (providerName, rawBody, headers) => {
+  let provider;
+  try {
+    provider = getPaymentProvider(providerName);
+  } catch (error) {
+    throw Object.assign(error, { status: 400 });
+  }
+  const event = provider.parseWebhook(rawBody, headers);
+
+  const intent = event.providerRef
+    ? await prisma.paymentIntent.findUnique({ where: { providerRef: event.providerRef } })
+    : null;
+
+  // A provider may only settle intents it created
+  if (intent && intent.provider !== provider.name) {
+    throw Object.assign(new Error(`${provider.name} webhook for a ${intent.provider} payment intent`), { status: 400 });
+  }
+
+  const occurredAt = event.created ? new Date(event.created) : new Date();
+  let intentData = null;
+  let paymentData = null;
+
+  if (intent) {
+    switch (event.type) {
+      case "payment_intent.succeeded":
+        if (FINAL_INTENT_STATUSES.includes(intent.status)) break;
+        intentData = { status: "SUCCEEDED", failureReason: null };
+        paymentData = { status: "PAID", paidAt: occurredAt };
+        break;
+      case "payment_intent.failed":
+        if (FINAL_INTENT_STATUSES.includes(intent.status)) break;
+        intentData = { status: "FAILED", failureReason: event.data.failureReason || "payment_failed" };
+        paymentData = { status: "FAILED" };
+        break;
+      case "charge.refunded":
+        if (intent.status !== "SUCCEEDED") break;
+        intentData = { status: "REFUNDED" };
+        paymentData = { status: "REFUNDED" };
+        break;
+      default:
+        console.warn(`Ignoring unsupported webhook event ${event.type}`);
+    }
+  }
+
+  // The event is recorded in the same transaction as its effects, so a redelivery
+  // is only skipped as a duplicate once the event was actually applied
+  const operations = [
+    prisma.paymentWebhookEvent.create({
+      data: {
+        provider: provider.name,
+        eventId: event.id,
+        type: event.type,
+        intentId: intent?.id || null,
+        payload: event
+      }
+    })
+  ];
+
+  if (intentData) {
+    operations.push(prisma.paymentIntent.update({
+      where: { id: intent.id },
+      data: intentData
+    }));
+
+    if (intent.paymentId) {
+      operations.push(prisma.payment.update({
+        where: { id: intent.paymentId },
+        data: paymentData
+      }));
+    }
+
+    // Listing fees are refunded when they can no longer be used (refundUnusedListingFee);
+    // one that raced a listing request into use leaves that listing unpaid
+    if (intent.purpose === "LISTING_FEE" && intentData.status === "REFUNDED") {
+      operations.push(prisma.listing.updateMany({
+        where: { providerTxnId: intent.providerRef },
+        data: { paymentStatus: "REFUNDED" }
+      }));
+    }
+  }
+
+  let results;
+  try {
+    results = await prisma.$transaction(operations);
+  } catch (error) {
+    if (error.code === "P2002") return { duplicate: true };
+    throw error;
+  }
+
+  if (!intent) {
+    console.warn(`Webhook ${event.type} for unknown intent ${event.providerRef}`);
+    return { intent: null };
+  }
+
+  if (!intentData) {
+    return { intent };
+  }
+
+  const [, updatedIntent, payment] = results;
+
+  if (intent.paymentId) {
+    // Re-allocate the lease ledger (a PAID payment settles charges, a refund frees them again)
+    try {
+      await applyPaymentToSchedule(intent.paymentId);
+    } catch (scheduleError) {
+      console.error("Error applying payment to rent schedule:", scheduleError);
+    }
+
+    await refreshLeaseBehavior([payment.leaseId], "PAYMENT");
+  }
+
+  // The unit may have stopped being listable while the fee was processing
+  if (intent.purpose === "LISTING_FEE" && updatedIntent.status === "SUCCEEDED") {
+    try {
+      const unit = intent.unitId ? await prisma.unit.findUnique({ where: { id: intent.unitId } }) : null;
+      const { error } = unit ? await checkListingEligibility(unit) : { error: "Unit not found" };
+      if (error) {
+        await refundUnusedListingFee(updatedIntent, error);
+      }
+    } catch (refundError) {
+      console.error("Error refunding ineligible listing fee:", refundError);
+    }
+  }
+
+  if (intent.purpose === "LISTING_FEE" && updatedIntent.status === "REFUNDED") {
+    try {
+      await createNotification(intent.userId, "PAYMENT", `Your listing fee of ₱${intent.amount.toLocaleString()} was refunded`);
+    } catch (notificationError) {
+      console.error("Error creating listing fee refund notification:", notificationError);
+      // Don't fail the webhook if notification fails
+    }
+  }
+
+  if (intent.purpose === "RENT") {
+    try {
+      await notifyRentPaymentEvent(updatedIntent, event.type);
+    } catch (notificationError) {
+      console.error("Error creating payment notification:", notificationError);
+      // Don't fail the webhook if notification fails
+    }
+  }
+
+  return { intent: updatedIntent };
+};
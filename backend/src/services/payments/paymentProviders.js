@@ -0,0 +1,32 @@
+// file: paymentProviders.js
+import { simulatedProvider } from "./simulatedProvider.js";
+
+// ---------------------------------------------- PAYMENT PROVIDERS ----------------------------------------------
+//
+// Every provider adapter implements the same lifecycle:
+//   createIntent({ amount, currency, method, metadata }) → { providerRef, status }
+//   confirmIntent(providerRef, options)                  → { status }  (outcome arrives later as a webhook)
+//   refund(providerRef)                                  → { status }  (refund arrives later as a webhook)
+//   parseWebhook(rawBody, headers)                       → { id, type, providerRef, data }  (throws with status 400 on a bad signature or payload)
+//   isEnabled()                                          → false when the provider may not be used here (optional)
+//
+// Webhook event types: payment_intent.succeeded, payment_intent.failed, charge.refunded
+
+const providers = {
+  SIMULATED: simulatedProvider,
+};
+
+/**
+ * Resolve a provider adapter by name (defaults to PAYMENT_PROVIDER, then SIMULATED).
+ * Throws for unknown providers and for providers disabled in this environment.
+ */
+export const getPaymentProvider = (name = process.env.PAYMENT_PROVIDER || "SIMULATED") => {
+  const provider = providers[String(name).toUpperCase()];
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  if (provider.isEnabled && !provider.isEnabled()) {
+    throw new Error(`Payment provider ${provider.name} is disabled in this environment`);
+  }
+  return provider;
+};
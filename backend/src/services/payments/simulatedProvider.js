@@ -0,0 +1,116 @@
+// file: simulatedProvider.js
+import crypto from "crypto";
+
+// ---------------------------------------------- SIMULATED PAYMENT PROVIDER ----------------------------------------------
+// Local stand-in for a real gateway. It keeps no money and no state of its own: confirming
+// or refunding only schedules a signed webhook back to /api/payments/webhook/simulated,
+// so the rest of the app goes through exactly the same lifecycle as with a real provider.
+
+const SIGNATURE_HEADER = "x-simulated-signature";
+
+// No built-in fallback: anyone reading the source could sign events with it
+const getWebhookSecret = () => {
+  const secret = process.env.SIMULATED_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("SIMULATED_WEBHOOK_SECRET is not set");
+  }
+  return secret;
+};
+const getWebhookUrl = () =>
+  process.env.PAYMENT_WEBHOOK_URL ||
+  `http://localhost:${process.env.PORT || 5000}/api/payments/webhook/simulated`;
+const getDelayMs = () => Number(process.env.SIMULATED_PAYMENT_DELAY_MS ?? 2000);
+
+const randomId = (prefix) => `${prefix}_${Date.now()}_${crypto.randomBytes(6).toString("hex")}`;
+
+// Signature and payload failures are the sender's fault (400); anything else is ours
+const invalidWebhook = (message) => Object.assign(new Error(message), { status: 400 });
+
+const sign = (body) => crypto.createHmac("sha256", getWebhookSecret()).update(body).digest("hex");
+
+// Deliver an event the way a remote provider would: later, over HTTP, signed
+const scheduleWebhook = (type, providerRef, data = {}) => {
+  const event = {
+    id: randomId("sim_evt"),
+    type,
+    created: new Date().toISOString(),
+    data: { providerRef, ...data },
+  };
+
+  setTimeout(async () => {
+    const body = JSON.stringify(event);
+    try {
+      const response = await fetch(getWebhookUrl(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", [SIGNATURE_HEADER]: sign(body) },
+        body,
+      });
+      if (!response.ok) {
+        console.error(`Simulated webhook ${event.type} rejected with status ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error delivering simulated webhook:", error.message);
+    }
+  }, getDelayMs());
+
+  return event;
+};
+
+/**
+ * Simulated payments settle without money changing hands, so production only
+ * accepts them when ALLOW_SIMULATED_PAYMENTS=true
+ */
+export const isSimulatedPaymentsEnabled = () =>
+  process.env.NODE_ENV !== "production" || process.env.ALLOW_SIMULATED_PAYMENTS === "true";
+
+export const simulatedProvider = {
+  name: "SIMULATED",
+
+  isEnabled: isSimulatedPaymentsEnabled,
+
+  async createIntent() {
+    return { providerRef: randomId("sim_pi"), status: "REQUIRES_CONFIRMATION" };
+  },
+
+  /**
+   * options.simulateOutcome: "succeed" (default) or "fail"; SIMULATED_PAYMENT_OUTCOME overrides the default
+   */
+  async confirmIntent(providerRef, options = {}) {
+    const outcome = options.simulateOutcome || process.env.SIMULATED_PAYMENT_OUTCOME || "succeed";
+
+    if (outcome === "fail") {
+      scheduleWebhook("payment_intent.failed", providerRef, { failureReason: "card_declined" });
+    } else {
+      scheduleWebhook("payment_intent.succeeded", providerRef);
+    }
+
+    return { status: "PROCESSING" };
+  },
+
+  async refund(providerRef) {
+    scheduleWebhook("charge.refunded", providerRef);
+    return { status: "PENDING" };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers[SIGNATURE_HEADER];
+    const body = rawBody ? rawBody.toString("utf8") : "";
+    const expected = sign(body);
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw invalidWebhook("Invalid webhook signature");
+    }
+
+    let event;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      throw invalidWebhook("Malformed webhook payload");
+    }
+    return { id: event.id, type: event.type, providerRef: event.data?.providerRef, data: event.data || {}, created: event.created };
+  },
+};
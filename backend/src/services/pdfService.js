@@ -1,14 +1,38 @@
 import puppeteer from 'puppeteer';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { CONTRACT_IMAGE_TYPES, isAllowedContractImageUrl } from './leaseDocumentService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Escape user-typed values so they can't break the markup (or attributes) of a template
+const text = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+// Inline an /uploads/ image as a data URI, so rendering never fetches anything.
+// Returns null for anything that isn't an existing uploaded image.
+const uploadedImageDataUri = (url) => {
+  if (!isAllowedContractImageUrl(url)) return null;
+
+  const filePath = path.join(UPLOADS_DIR, url.slice('/uploads/'.length));
+  if (!filePath.startsWith(UPLOADS_DIR + path.sep) || !fs.existsSync(filePath)) return null;
+
+  const mimeType = CONTRACT_IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+  return `data:${mimeType};base64,${fs.readFileSync(filePath).toString('base64')}`;
+};
+
 /**
- * Generate a PDF lease document
+ * Render an HTML document to an A4 PDF buffer
  */
-export const generateLeasePDF = async (leaseData) => {
+const renderPDF = async (htmlContent) => {
   let browser;
   
   try {
@@ -19,9 +43,13 @@ export const generateLeasePDF = async (leaseData) => {
     });
     
     const page = await browser.newPage();
-    
-    // Generate HTML content for the lease
-    const htmlContent = generateLeaseHTML(leaseData);
+
+    // The templates are static markup; nothing user-supplied should ever get to run
+    await page.setJavaScriptEnabled(false);
+
+    // Templates are self-contained (images are inlined); never let a render reach the network
+    await page.setRequestInterception(true);
+    page.on('request', request => request.url().startsWith('data:') ? request.continue() : request.abort());
     
     // Set the HTML content
     await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
@@ -50,6 +78,29 @@ export const generateLeasePDF = async (leaseData) => {
   }
 };
 
+/**
+ * Generate a PDF lease document. Renders the full contract from the latest
+ * LeaseDocument (leaseData.documents[0]) when one was built, else the summary.
+ */
+export const generateLeasePDF = async (leaseData) => {
+  const contract = leaseData.documents?.[0];
+  return renderPDF(contract ? generateLeaseContractHTML(leaseData, contract) : generateLeaseHTML(leaseData));
+};
+
+/**
+ * Generate a PDF receipt for a paid listing fee
+ */
+export const generateListingReceiptPDF = async (listing) => {
+  return renderPDF(generateListingReceiptHTML(listing));
+};
+
+/**
+ * Generate a PDF final statement for a terminated lease (deposit settlement)
+ */
+export const generateFinalStatementPDF = async (lease) => {
+  return renderPDF(generateFinalStatementHTML(lease));
+};
+
 /**
  * Generate HTML content for the lease document
  */
@@ -378,3 +429,677 @@ const generateLeaseHTML = (lease) => {
     </html>
   `;
 };
+
+/**
+ * Generate HTML content for a listing fee receipt
+ */
+const generateListingReceiptHTML = (listing) => {
+  const formatDate = (dateString) => {
+    if (!dateString) return 'N/A';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatCurrency = (amount) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP'
+    }).format(amount || 0);
+  };
+
+  const property = listing.unit.property;
+  const address = [property.street, property.barangay, property.zipCode].filter(Boolean).join(', ');
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>Receipt ${listing.receiptNumber}</title>
+        <style>
+            body {
+                font-family: Arial, sans-serif;
+                color: #333;
+                max-width: 700px;
+                margin: 0 auto;
+                padding: 20px;
+            }
+            
+            .header {
+                display: flex;
+                justify-content: space-between;
+                border-bottom: 2px solid #333;
+                padding-bottom: 15px;
+                margin-bottom: 25px;
+            }
+            
+            .header h1 {
+                font-size: 22px;
+                margin: 0;
+                color: #2c3e50;
+            }
+            
+            .muted {
+                color: #7f8c8d;
+                font-size: 13px;
+            }
+            
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                margin: 20px 0;
+            }
+            
+            th, td {
+                text-align: left;
+                padding: 10px;
+                border-bottom: 1px solid #e0e0e0;
+            }
+            
+            .total td {
+                font-weight: bold;
+                font-size: 16px;
+                border-top: 2px solid #333;
+            }
+            
+            .paid {
+                display: inline-block;
+                padding: 4px 10px;
+                border-radius: 4px;
+                background: #d4edda;
+                color: #155724;
+                font-weight: bold;
+                font-size: 12px;
+            }
+            
+            .footer {
+                margin-top: 40px;
+                text-align: center;
+                font-size: 12px;
+                color: #7f8c8d;
+                border-top: 1px solid #bdc3c7;
+                padding-top: 20px;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="header">
+            <div>
+                <h1>Official Receipt</h1>
+                <div class="muted">RentEase Listing Fee</div>
+            </div>
+            <div style="text-align: right;">
+                <div><strong>${listing.receiptNumber}</strong></div>
+                <div class="muted">Paid ${formatDate(listing.paidAt)}</div>
+                <div class="paid">${listing.paymentStatus}</div>
+            </div>
+        </div>
+
+        <p><strong>Billed to:</strong> ${listing.landlord.firstName || ''} ${listing.landlord.lastName || ''} (${listing.landlord.email})</p>
+        <p><strong>Payment reference:</strong> ${listing.providerTxnId || 'N/A'}</p>
+
+        <table>
+            <thead>
+                <tr>
+                    <th>Description</th>
+                    <th style="text-align: right;">Amount</th>
+                </tr>
+            </thead>
+            <tbody>
+                <tr>
+                    <td>
+                        Listing fee — ${property.title}, Unit ${listing.unit.label}
+                        <div class="muted">${address || ''}</div>
+                    </td>
+                    <td style="text-align: right;">${formatCurrency(listing.amount)}</td>
+                </tr>
+                <tr class="total">
+                    <td>Total Paid</td>
+                    <td style="text-align: right;">${formatCurrency(listing.amount)}</td>
+                </tr>
+            </tbody>
+        </table>
+
+        <div class="footer">
+            <p>This receipt was generated on ${formatDate(new Date().toISOString())}</p>
+            <p>RentEase Property Management System</p>
+        </div>
+    </body>
+    </html>
+  `;
+};
+
+/**
+ * Generate HTML content for a move-out final statement
+ */
+const generateFinalStatementHTML = (lease) => {
+  const formatDate = (dateString) => {
+    if (!dateString) return 'N/A';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatCurrency = (amount) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP'
+    }).format(amount || 0);
+  };
+
+  const { termination, balance, tenant } = lease;
+  const property = lease.unit.property;
+  const owner = property.owner;
+  const address = [
+    property.street,
+    property.barangay,
+    property.city?.name || property.municipality?.name,
+    property.zipCode
+  ].filter(Boolean).join(', ');
+
+  const deductionRows = termination.deductions.length > 0
+    ? termination.deductions.map(item => `
+                <tr>
+                    <td>${text(item.description)}</td>
+                    <td style="text-align: right;">${formatCurrency(item.amount)}</td>
+                </tr>`).join('')
+    : `
+                <tr>
+                    <td class="muted">No deductions</td>
+                    <td style="text-align: right;">${formatCurrency(0)}</td>
+                </tr>`;
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>Final Statement - ${text(lease.leaseNickname || 'Lease')}</title>
+        <style>
+            body {
+                font-family: Arial, sans-serif;
+                color: #333;
+                max-width: 700px;
+                margin: 0 auto;
+                padding: 20px;
+            }
+            
+            .header {
+                display: flex;
+                justify-content: space-between;
+                border-bottom: 2px solid #333;
+                padding-bottom: 15px;
+                margin-bottom: 25px;
+            }
+            
+            .header h1 {
+                font-size: 22px;
+                margin: 0;
+                color: #2c3e50;
+            }
+            
+            h2 {
+                font-size: 15px;
+                color: #2c3e50;
+                border-bottom: 1px solid #bdc3c7;
+                padding-bottom: 5px;
+                margin-top: 30px;
+            }
+            
+            .muted {
+                color: #7f8c8d;
+                font-size: 13px;
+            }
+            
+            .parties {
+                display: flex;
+                justify-content: space-between;
+                gap: 20px;
+                font-size: 14px;
+            }
+            
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                margin: 10px 0;
+            }
+            
+            th, td {
+                text-align: left;
+                padding: 8px 10px;
+                border-bottom: 1px solid #e0e0e0;
+                font-size: 14px;
+            }
+            
+            .total td {
+                font-weight: bold;
+                font-size: 16px;
+                border-top: 2px solid #333;
+            }
+            
+            .footer {
+                margin-top: 40px;
+                text-align: center;
+                font-size: 12px;
+                color: #7f8c8d;
+                border-top: 1px solid #bdc3c7;
+                padding-top: 20px;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="header">
+            <div>
+                <h1>Final Statement</h1>
+                <div class="muted">Lease termination and security deposit settlement</div>
+            </div>
+            <div style="text-align: right;">
+                <div><strong>${text(lease.leaseNickname || 'Lease')}</strong></div>
+                <div class="muted">Settled ${formatDate(termination.settledAt)}</div>
+            </div>
+        </div>
+
+        <div class="parties">
+            <div>
+                <strong>Landlord</strong><br>
+                ${text(owner.firstName)} ${text(owner.lastName)}<br>
+                <span class="muted">${text(owner.email)}</span>
+            </div>
+            <div>
+                <strong>Tenant</strong><br>
+                ${text(tenant.firstName)} ${text(tenant.lastName)}<br>
+                <span class="muted">${text(tenant.email)}</span>
+            </div>
+            <div>
+                <strong>Premises</strong><br>
+                ${text(property.title)}, Unit ${text(lease.unit.label)}<br>
+                <span class="muted">${text(address)}</span>
+            </div>
+        </div>
+
+        <h2>Tenancy</h2>
+        <table>
+            <tbody>
+                <tr><td>Lease start</td><td style="text-align: right;">${formatDate(lease.startDate)}</td></tr>
+                <tr><td>Notice given</td><td style="text-align: right;">${formatDate(termination.noticeDate)}</td></tr>
+                <tr><td>Move-out date</td><td style="text-align: right;">${formatDate(termination.moveOutDate)}</td></tr>
+                ${termination.reason ? `<tr><td>Reason</td><td style="text-align: right;">${text(termination.reason)}</td></tr>` : ''}
+            </tbody>
+        </table>
+
+        <h2>Rent Account</h2>
+        <table>
+            <tbody>
+                <tr><td>Total charged</td><td style="text-align: right;">${formatCurrency(balance.totalCharged)}</td></tr>
+                <tr><td>Total paid</td><td style="text-align: right;">${formatCurrency(balance.totalPaid)}</td></tr>
+                <tr class="total"><td>Outstanding balance</td><td style="text-align: right;">${formatCurrency(balance.amountDueNow)}</td></tr>
+            </tbody>
+        </table>
+
+        <h2>Security Deposit</h2>
+        <table>
+            <thead>
+                <tr>
+                    <th>Deduction</th>
+                    <th style="text-align: right;">Amount</th>
+                </tr>
+            </thead>
+            <tbody>
+                <tr>
+                    <td><strong>Deposit held</strong></td>
+                    <td style="text-align: right;"><strong>${formatCurrency(termination.depositHeld)}</strong></td>
+                </tr>
+                ${deductionRows}
+                <tr>
+                    <td>Total deductions</td>
+                    <td style="text-align: right;">- ${formatCurrency(termination.totalDeductions)}</td>
+                </tr>
+                <tr class="total">
+                    <td>Refund to tenant</td>
+                    <td style="text-align: right;">${formatCurrency(termination.refundAmount)}</td>
+                </tr>
+            </tbody>
+        </table>
+
+        <div class="footer">
+            <p>This statement was generated on ${formatDate(new Date().toISOString())}</p>
+            <p>RentEase Property Management System</p>
+        </div>
+    </body>
+    </html>
+  `;
+};
+
+/**
+ * Generate HTML content for the full lease contract built from a LeaseDocument
+ */
+const generateLeaseContractHTML = (lease, contract) => {
+  const formatDate = (dateString) => {
+    if (!dateString) return 'N/A';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatCurrency = (amount) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP'
+    }).format(amount || 0);
+  };
+
+  // Contracts saved before URLs were validated may hold anything - only our own uploads are embedded
+  const welcomeImageUrl = uploadedImageDataUri(contract.homeGuideWelcomeImageUrl);
+
+  const humanize = (value) => value ? text(value.replace(/_/g, ' ').toLowerCase()) : 'N/A';
+
+  const row = (label, value) => `<tr><td class="label">${label}</td><td>${value}</td></tr>`;
+
+  const tableOrNone = (rows, headers, emptyText) => rows?.length
+    ? `
+        <table class="list">
+            <thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead>
+            <tbody>${rows.join('')}</tbody>
+        </table>`
+    : `<p class="muted">${emptyText}</p>`;
+
+  const endBehaviorText = {
+    RENEW_MONTH_TO_MONTH: 'Continues on a month-to-month basis after the end date',
+    TERMINATE_ON_END_DATE: 'Ends on the end date unless renewed in writing',
+    OTHER: 'As agreed in the additional terms'
+  };
+
+  const smokingText = {
+    YES: 'Smoking is allowed',
+    NO: 'Smoking is not allowed anywhere on the premises',
+    OUTSIDE_ONLY: 'Smoking is allowed outside the unit only'
+  };
+
+  const landlordName = `${contract.landlordFirstName || ''} ${contract.landlordLastName || ''}`.trim() || 'N/A';
+  const tenantName = `${contract.tenantFirstName || ''} ${contract.tenantLastName || ''}`.trim() || 'N/A';
+  const address = [
+    contract.addressStreet,
+    contract.addressBarangay,
+    contract.addressCity || contract.addressMunicipality,
+    contract.addressZipCode
+  ].filter(Boolean).map(text).join(', ') || 'N/A';
+
+  const lateFeeText = !lease.lateFeeType
+    ? 'None'
+    : lease.lateFeeType === 'PERCENT'
+      ? `${lease.lateFeeAmount}% of the rent due`
+      : lease.lateFeeType === 'DAILY'
+        ? `${formatCurrency(lease.lateFeeAmount)} per day late${lease.lateFeeMaxAmount ? ` (up to ${formatCurrency(lease.lateFeeMaxAmount)} per installment)` : ''}`
+        : `${formatCurrency(lease.lateFeeAmount)} per late installment`;
+
+  const occupantRows = (contract.additionalOccupants || []).map(occupant =>
+    `<tr><td>${text(occupant.name)}</td><td>${text(occupant.relationship) || '-'}</td></tr>`);
+  const feeRows = (contract.oneTimeFees || []).map(fee =>
+    `<tr><td>${text(fee.name)}</td><td style="text-align: right;">${formatCurrency(fee.amount)}</td></tr>`);
+  const utilityRows = (contract.utilitiesResponsibilities || []).map(utility =>
+    `<tr><td>${text(utility.utility)}</td><td>${humanize(utility.paidBy)}</td></tr>`);
+  const keyRows = (contract.keysProvided || []).map(key =>
+    `<tr><td>${text(key.type)}</td><td style="text-align: right;">${key.quantity}</td></tr>`);
+
+  const conditionItems = contract.conditionReportItems || [];
+  const conditionSpaces = contract.conditionReportSpaces?.length
+    ? contract.conditionReportSpaces
+    : [...new Set(conditionItems.map(item => item.space || 'General'))];
+  const conditionSections = conditionSpaces.map(space => {
+    const items = conditionItems.filter(item => (item.space || 'General') === space);
+    return `
+        <h3>${text(space)}</h3>
+        ${tableOrNone(
+          items.map(item => `<tr><td>${text(item.item)}</td><td>${humanize(item.condition)}</td><td>${text(item.notes) || '-'}</td></tr>`),
+          ['Item', 'Condition', 'Notes'],
+          'No items recorded'
+        )}`;
+  }).join('');
+
+  const homeGuideSections = [
+    ['Welcome', contract.homeGuideWelcomeNote],
+    ['Access & Security', contract.homeGuideAccessSecurity],
+    ['House Rules', contract.homeGuideHouseRules],
+    ['Communication', contract.homeGuideCommunication],
+    ['About Your Lease', contract.homeGuideLeaseInfo]
+  ].filter(([, content]) => content);
+  const hasHomeGuide = homeGuideSections.length > 0 || welcomeImageUrl;
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <title>Lease Agreement - ${text(contract.leaseNickname || lease.leaseNickname || 'Lease')}</title>
+        <style>
+            body {
+                font-family: 'Times New Roman', serif;
+                line-height: 1.5;
+                color: #333;
+                max-width: 800px;
+                margin: 0 auto;
+                padding: 20px;
+            }
+            
+            .header {
+                text-align: center;
+                border-bottom: 2px solid #333;
+                padding-bottom: 15px;
+                margin-bottom: 25px;
+            }
+            
+            .header h1 {
+                font-size: 24px;
+                margin: 0;
+                color: #2c3e50;
+            }
+            
+            h2 {
+                font-size: 16px;
+                color: #2c3e50;
+                border-bottom: 1px solid #bdc3c7;
+                padding-bottom: 5px;
+                margin-top: 28px;
+            }
+            
+            h3 {
+                font-size: 14px;
+                margin: 18px 0 6px 0;
+            }
+            
+            .muted {
+                color: #7f8c8d;
+                font-size: 13px;
+            }
+            
+            .prose {
+                white-space: pre-line;
+                font-size: 14px;
+            }
+            
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                margin: 8px 0;
+            }
+            
+            th, td {
+                text-align: left;
+                padding: 6px 8px;
+                border-bottom: 1px solid #e0e0e0;
+                font-size: 14px;
+                vertical-align: top;
+            }
+            
+            td.label {
+                width: 35%;
+                font-weight: bold;
+                color: #34495e;
+            }
+            
+            .list th {
+                background: #f8f9fa;
+            }
+            
+            .appendix {
+                page-break-before: always;
+            }
+            
+            .welcome-image {
+                max-width: 100%;
+                max-height: 300px;
+                margin: 10px 0;
+            }
+            
+            .signature-line {
+                display: flex;
+                justify-content: space-between;
+                margin: 40px 0 10px 0;
+            }
+            
+            .signature-box {
+                width: 45%;
+                border-top: 1px solid #333;
+                text-align: center;
+                padding-top: 5px;
+                font-size: 13px;
+            }
+            
+            .footer {
+                margin-top: 40px;
+                text-align: center;
+                font-size: 12px;
+                color: #7f8c8d;
+                border-top: 1px solid #bdc3c7;
+                padding-top: 20px;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="header">
+            <h1>RESIDENTIAL LEASE AGREEMENT</h1>
+            <div>${text(contract.leaseNickname || lease.leaseNickname || '')}</div>
+            <div class="muted">Version ${contract.version || 1} &middot; ${formatDate(contract.generatedAt)}</div>
+        </div>
+
+        <h2>1. Parties</h2>
+        <table>
+            <tbody>
+                ${row('Landlord', text(landlordName))}
+                ${contract.landlordMailingAddress ? row('Landlord mailing address', text(contract.landlordMailingAddress)) : ''}
+                ${row('Tenant', text(tenantName))}
+                ${row('Tenant contact', [contract.tenantEmail, contract.tenantPhone].filter(Boolean).map(text).join(' / ') || 'N/A')}
+            </tbody>
+        </table>
+        <h3>Additional occupants</h3>
+        ${tableOrNone(occupantRows, ['Name', 'Relationship'], 'No other occupants are allowed to live in the premises.')}
+
+        <h2>2. Premises</h2>
+        <table>
+            <tbody>
+                ${row('Property', text(lease.unit?.property?.title || 'N/A'))}
+                ${row('Unit', text(lease.unit?.label || 'N/A'))}
+                ${row('Address', address)}
+            </tbody>
+        </table>
+        ${contract.roomDescription ? `<p class="prose">${text(contract.roomDescription)}</p>` : ''}
+
+        <h2>3. Term</h2>
+        <table>
+            <tbody>
+                ${row('Term type', humanize(contract.leaseTermType))}
+                ${row('Start date', formatDate(contract.startDate || lease.startDate))}
+                ${row('End date', contract.endDate || lease.endDate ? formatDate(contract.endDate || lease.endDate) : 'Open-ended')}
+                ${row('At the end of the term', endBehaviorText[contract.endBehavior] || 'N/A')}
+                ${row('Early termination', contract.earlyTerminationAllowed ? 'Allowed with written notice' : 'Not allowed')}
+            </tbody>
+        </table>
+
+        <h2>4. Rent and Security Deposit</h2>
+        <table>
+            <tbody>
+                ${row('Rent', `${formatCurrency(lease.rentAmount)} ${humanize(lease.interval)}`)}
+                ${contract.monthlyRent ? row('Monthly rent', formatCurrency(contract.monthlyRent)) : ''}
+                ${row('Grace period', `${lease.gracePeriodDays || 0} day(s) after the due date`)}
+                ${row('Late fee', lateFeeText)}
+                ${row('Payment methods accepted', contract.paymentAccepted?.length ? contract.paymentAccepted.map(humanize).join(', ') : 'N/A')}
+                ${row('Security deposit', `${formatCurrency(contract.securityDepositAmount)}${contract.securityDepositMonths ? ` (${contract.securityDepositMonths} month(s) of rent)` : ''}`)}
+                ${contract.depositHeldAtName ? row('Deposit held at', `${text(contract.depositHeldAtName)}${contract.depositHeldAtAddress ? `, ${text(contract.depositHeldAtAddress)}` : ''}`) : ''}
+            </tbody>
+        </table>
+        ${contract.allowableDepositDeductions ? `
+        <h3>Allowable deposit deductions</h3>
+        <p class="prose">${text(contract.allowableDepositDeductions)}</p>` : ''}
+        <h3>One-time fees</h3>
+        ${tableOrNone(feeRows, ['Fee', 'Amount'], 'No one-time fees.')}
+
+        <h2>5. Rules and Policies</h2>
+        <table>
+            <tbody>
+                ${row('Pets', contract.petAllowed ? `Allowed${contract.petTypes ? `: ${text(contract.petTypes)}` : ''}` : 'Not allowed')}
+                ${row('Smoking', smokingText[contract.smokingPolicy] || 'N/A')}
+                ${row('Parking', contract.parkingIncluded ? `Included${contract.parkingDescription ? `: ${text(contract.parkingDescription)}` : ''}` : 'Not included')}
+            </tbody>
+        </table>
+        <h3>Utilities</h3>
+        ${tableOrNone(utilityRows, ['Utility', 'Paid by'], 'Utilities are not itemized.')}
+        ${contract.sharedUtilitiesNote ? `<p class="prose">${text(contract.sharedUtilitiesNote)}</p>` : ''}
+        ${contract.maintenanceNote ? `
+        <h3>Maintenance</h3>
+        <p class="prose">${text(contract.maintenanceNote)}</p>` : ''}
+
+        <h2>6. Keys</h2>
+        ${tableOrNone(keyRows, ['Key', 'Quantity'], 'No keys recorded.')}
+        ${contract.lostKeyPolicy ? `<p class="prose">${text(contract.lostKeyPolicy)}</p>` : ''}
+
+        ${contract.additionalTerms ? `
+        <h2>7. Additional Terms</h2>
+        <p class="prose">${text(contract.additionalTerms)}</p>` : ''}
+
+        <h2>Signatures</h2>
+        <div class="signature-line">
+            <div class="signature-box">${text(landlordName)} (Landlord) / Date</div>
+            <div class="signature-box">${text(tenantName)} (Tenant) / Date</div>
+        </div>
+
+        ${conditionItems.length > 0 ? `
+        <div class="appendix">
+            <h2>Appendix A - Condition Report</h2>
+            <table>
+                <tbody>
+                    ${row('Report', text(contract.conditionReportName || 'Condition report'))}
+                    ${row('Type', humanize(contract.conditionReportType))}
+                    ${row('Date', formatDate(contract.conditionReportDate))}
+                </tbody>
+            </table>
+            ${conditionSections}
+            <div class="signature-line">
+                <div class="signature-box">Landlord / Date</div>
+                <div class="signature-box">Tenant / Date</div>
+            </div>
+        </div>` : ''}
+
+        ${hasHomeGuide ? `
+        <div class="appendix">
+            <h2>${conditionItems.length > 0 ? 'Appendix B' : 'Appendix A'} - Home Guide</h2>
+            ${welcomeImageUrl ? `<img class="welcome-image" src="${text(welcomeImageUrl)}" alt="Welcome">` : ''}
+            ${homeGuideSections.map(([title, content]) => `
+            <h3>${title}</h3>
+            <p class="prose">${text(content)}</p>`).join('')}
+        </div>` : ''}
+
+        <div class="footer">
+            <p>Contract version ${contract.version || 1} generated on ${formatDate(contract.generatedAt || new Date().toISOString())}</p>
+            <p>RentEase Property Management System</p>
+        </div>
+    </body>
+    </html>
+  `;
+};
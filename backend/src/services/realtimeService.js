@@ -0,0 +1,225 @@
+// file: realtimeService.js
+import { WebSocketServer } from "ws";
+import prisma from "../libs/prismaClient.js";
+import redis from "../libs/redisClient.js";
+import { authenticateAccessToken } from "../middlewares/requireAuthentication.js";
+
+// ---------------------------------------------- REALTIME SERVICE ----------------------------------------------
+// One WebSocket per browser tab at /ws, authenticated with the same accessToken cookie and
+// Redis session check as the REST API. Server → client frames are { type, payload }.
+//   message:new          a message was sent in one of the user's conversations
+//   message:read         the other participant read the conversation
+//   typing               the other participant started/stopped typing
+//   notification:new     a notification was created for the user (with the new unread count)
+//   notification:unread  the unread count changed (read/deleted in another tab)
+// Client → server frames: { type: "typing", conversationId, isTyping } and { type: "read", conversationId }
+// Sockets are closed (code 4001) on logout, when the account is disabled, and on the next
+// heartbeat after their session was revoked or expired.
+
+const REALTIME_PATH = "/ws";
+const HEARTBEAT_MS = 30 * 1000;
+const SESSION_ENDED_CODE = 4001;
+
+// userId → open sockets (a user can have several tabs/devices)
+const clients = new Map();
+
+const parseCookies = (header = "") =>
+  Object.fromEntries(
+    header.split(";")
+      .map(part => part.trim().split("="))
+      .filter(([name, ...value]) => name && value.length)
+      .map(([name, ...value]) => [name, decodeURIComponent(value.join("="))])
+  );
+
+// Same result as req.ip with the app's `trust proxy` set to 1 hop
+const getClientIp = (req) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  return forwarded ? forwarded.split(",").pop().trim() : req.socket.remoteAddress;
+};
+
+const rejectUpgrade = (socket, status, message) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+/**
+ * Conversation the user takes part in (or null) and the other participant's id
+ */
+const findConversationForUser = async (conversationId, userId) => {
+  if (!conversationId) return null;
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, OR: [{ userAId: userId }, { userBId: userId }] },
+    select: { id: true, userAId: true, userBId: true }
+  });
+  if (!conversation) return null;
+  return { ...conversation, otherUserId: conversation.userAId === userId ? conversation.userBId : conversation.userAId };
+};
+
+/**
+ * Close a user's open sockets: all of them, or only those of one session (sid)
+ */
+export const disconnectUser = (userId, sid = null) => {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
+
+  for (const socket of sockets) {
+    if (!sid || socket.session.sid === sid) {
+      socket.close(SESSION_ENDED_CODE, "Session ended");
+    }
+  }
+};
+
+// Same checks as authenticateAccessToken minus the JWT (an access token may expire while
+// the session it belongs to is still valid and gets refreshed over HTTP)
+const isSessionActive = async (userId, { sid, ip }) => {
+  let storedSessionId;
+  try {
+    storedSessionId = await redis.get(`session:${userId}:${ip}`);
+  } catch {
+    storedSessionId = sid; // Redis down: same leniency as the HTTP middleware
+  }
+  if (storedSessionId !== sid) return false;
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { isDisabled: true } });
+  return Boolean(user && !user.isDisabled);
+};
+
+// Close sockets whose session ended since they connected
+const closeEndedSessions = async () => {
+  for (const [userId, sockets] of clients) {
+    for (const socket of sockets) {
+      try {
+        if (!await isSessionActive(userId, socket.session)) {
+          socket.close(SESSION_ENDED_CODE, "Session ended");
+        }
+      } catch (error) {
+        console.error("Realtime session check error:", error.message);
+      }
+    }
+  }
+};
+
+/**
+ * Push an event to every open socket of a user (no-op when they are offline)
+ */
+export const emitToUser = (userId, type, payload) => {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
+
+  const frame = JSON.stringify({ type, payload });
+  for (const socket of sockets) {
+    if (socket.readyState === socket.OPEN) socket.send(frame);
+  }
+};
+
+/**
+ * Mark the other participant's messages in a conversation as read and tell them.
+ * Used by the REST "open conversation" endpoints and the socket "read" frame.
+ */
+export const markConversationRead = async (conversation, readerId) => {
+  const { count } = await prisma.message.updateMany({
+    where: { conversationId: conversation.id, senderId: { not: readerId }, isRead: false },
+    data: { isRead: true }
+  });
+
+  if (count > 0) {
+    const otherUserId = conversation.userAId === readerId ? conversation.userBId : conversation.userAId;
+    emitToUser(otherUserId, "message:read", { conversationId: conversation.id, readerId, readAt: new Date() });
+  }
+
+  return count;
+};
+
+const handleClientFrame = async (userId, raw) => {
+  let frame;
+  try {
+    frame = JSON.parse(raw.toString());
+  } catch {
+    return; // ignore malformed frames
+  }
+
+  const conversation = await findConversationForUser(frame.conversationId, userId);
+  if (!conversation) return;
+
+  switch (frame.type) {
+    case "typing":
+      emitToUser(conversation.otherUserId, "typing", {
+        conversationId: conversation.id,
+        userId,
+        isTyping: Boolean(frame.isTyping)
+      });
+      break;
+    case "read":
+      await markConversationRead(conversation, userId);
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * Accept authenticated WebSocket upgrades on the HTTP server returned by app.listen()
+ */
+export const attachRealtimeServer = (server) => {
+  const wss = new WebSocketServer({ noServer: true });
+  const allowedOrigin = process.env.FRONTEND_URL || "http://localhost:5173";
+
+  server.on("upgrade", async (req, socket, head) => {
+    try {
+      if (new URL(req.url, "http://localhost").pathname !== REALTIME_PATH) {
+        return rejectUpgrade(socket, 404, "Not Found");
+      }
+
+      // Cookies ride along on cross-site upgrades, so only accept the app's own origin
+      if (req.headers.origin !== allowedOrigin) {
+        return rejectUpgrade(socket, 403, "Forbidden");
+      }
+
+      const result = await authenticateAccessToken(parseCookies(req.headers.cookie).accessToken, getClientIp(req));
+      if (!result.user) {
+        return rejectUpgrade(socket, result.status, result.status === 403 ? "Forbidden" : "Unauthorized");
+      }
+
+      const session = { sid: result.user.sid, ip: getClientIp(req) };
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, result.user, session));
+    } catch (error) {
+      console.error("Realtime auth error:", error.message);
+      rejectUpgrade(socket, 401, "Unauthorized");
+    }
+  });
+
+  wss.on("connection", (ws, user, session) => {
+    if (!clients.has(user.id)) clients.set(user.id, new Set());
+    clients.get(user.id).add(ws);
+
+    ws.session = session;
+    ws.isAlive = true;
+    ws.on("pong", () => { ws.isAlive = true; });
+    ws.on("message", (raw) => {
+      handleClientFrame(user.id, raw).catch(error => console.error("Realtime frame error:", error));
+    });
+    ws.on("close", () => {
+      const sockets = clients.get(user.id);
+      sockets?.delete(ws);
+      if (sockets?.size === 0) clients.delete(user.id);
+    });
+  });
+
+  // Drop sockets that stopped answering pings (sleeping laptops, dropped networks)
+  // and those whose session ended
+  const heartbeat = setInterval(() => {
+    closeEndedSessions().catch(error => console.error("Realtime session check error:", error));
+
+    for (const ws of wss.clients) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+};
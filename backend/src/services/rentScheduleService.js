@@ -0,0 +1,558 @@
+// file: rentScheduleService.js
+import prisma from "../libs/prismaClient.js";
+
+// ---------------------------------------------- RENT SCHEDULE SERVICE ----------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INSTALLMENTS = 400;      // longest term expanded up front (e.g. a year of DAILY rent)
+const OPEN_ENDED_LOOKAHEAD = 3;    // installments kept ahead of today for rolling schedules
+
+const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Add `count` lease intervals to a date.
+ * MONTHLY keeps the anchor day and clamps to the month end (Jan 31 → Feb 28).
+ */
+export const addInterval = (date, interval, count = 1) => {
+  const next = new Date(date);
+
+  switch (interval) {
+    case "DAILY":
+      next.setUTCDate(next.getUTCDate() + count);
+      return next;
+    case "WEEKLY":
+      next.setUTCDate(next.getUTCDate() + 7 * count);
+      return next;
+    case "MONTHLY":
+    default: {
+      const anchorDay = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + count);
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(anchorDay, lastDay));
+      return next;
+    }
+  }
+};
+
+/**
+ * Expand a lease into its expected rent installments (pure, no DB access).
+ * Rent is due on the first day of each period. A period that starts before
+ * endDate is charged in full. Leases without endDate, and terms longer than
+ * MAX_INSTALLMENTS, are expanded a few installments past today and extended
+ * on every sync.
+ */
+export const buildRentSchedule = (lease, now = new Date()) => {
+  const start = startOfDay(lease.startDate);
+  const end = lease.endDate ? startOfDay(lease.endDate) : null;
+  const today = startOfDay(now);
+  const rolling = !end || addInterval(start, lease.interval, MAX_INSTALLMENTS) < end;
+  const horizon = rolling ? addInterval(today > start ? today : start, lease.interval, OPEN_ENDED_LOOKAHEAD) : null;
+
+  const installments = [];
+  for (let n = 0; ; n++) {
+    // Always step from the original start so MONTHLY anchors don't drift
+    const periodStart = addInterval(start, lease.interval, n);
+    if ((end && periodStart >= end) || (horizon && periodStart > horizon)) break;
+
+    const nextStart = addInterval(start, lease.interval, n + 1);
+    const lastDay = new Date(nextStart.getTime() - DAY_MS);
+
+    installments.push({
+      type: "RENT",
+      periodStart,
+      periodEnd: end && lastDay > end ? end : lastDay,
+      dueDate: periodStart,
+      amount: lease.rentAmount,
+    });
+  }
+
+  return installments;
+};
+
+/**
+ * Derive the display status of a charge: PAID, UPCOMING, DUE (due date up to
+ * the end of the grace period) or OVERDUE
+ */
+export const getChargeStatus = (charge, now = new Date(), gracePeriodDays = 0) => {
+  if (charge.status === "PAID") return "PAID";
+
+  const today = startOfDay(now).getTime();
+  const due = startOfDay(charge.dueDate).getTime();
+
+  if (due > today) return "UPCOMING";
+  if (today <= due + gracePeriodDays * DAY_MS) return "DUE";
+  return "OVERDUE";
+};
+
+/**
+ * Classify a payment against the installment it pays: ADVANCE (before the
+ * due date), ONTIME (on the due date or within the grace period) or LATE
+ */
+export const getPaymentTiming = (dueDate, paidAt, gracePeriodDays = 0) => {
+  const paidDay = startOfDay(paidAt).getTime();
+  const due = startOfDay(dueDate).getTime();
+
+  if (paidDay < due) return "ADVANCE";
+  if (paidDay <= due + gracePeriodDays * DAY_MS) return "ONTIME";
+  return "LATE";
+};
+
+/**
+ * Late fee owed for one RENT installment under the lease's late-fee rule (pure).
+ * FLAT and PERCENT apply once the grace period has passed; DAILY accrues per
+ * day late until the installment is paid, capped at lateFeeMaxAmount.
+ */
+export const calculateLateFee = (lease, charge, now = new Date()) => {
+  if (!lease.lateFeeType || !lease.lateFeeAmount) return 0;
+
+  const graceEnd = startOfDay(charge.dueDate).getTime() + (lease.gracePeriodDays || 0) * DAY_MS;
+  const settledAt = charge.status === "PAID" && charge.paidAt ? charge.paidAt : now;
+  const daysLate = Math.floor((startOfDay(settledAt).getTime() - graceEnd) / DAY_MS);
+  if (daysLate <= 0) return 0;
+
+  switch (lease.lateFeeType) {
+    case "FLAT":
+      return roundMoney(lease.lateFeeAmount);
+    case "PERCENT":
+      return roundMoney(charge.amount * lease.lateFeeAmount / 100);
+    case "DAILY": {
+      const accrued = lease.lateFeeAmount * daysLate;
+      return roundMoney(lease.lateFeeMaxAmount ? Math.min(accrued, lease.lateFeeMaxAmount) : accrued);
+    }
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Human-readable summary of a lease's late-fee rule, or null when it has none
+ */
+export const describeLateFeeRule = (lease) => {
+  if (!lease.lateFeeType || !lease.lateFeeAmount) return null;
+
+  const money = (value) => `₱${value.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const grace = lease.gracePeriodDays
+    ? `more than ${lease.gracePeriodDays} day${lease.gracePeriodDays === 1 ? "" : "s"} after the due date`
+    : "after the due date";
+
+  switch (lease.lateFeeType) {
+    case "FLAT":
+      return `Rent paid ${grace} incurs a late fee of ${money(lease.lateFeeAmount)}.`;
+    case "PERCENT":
+      return `Rent paid ${grace} incurs a late fee of ${lease.lateFeeAmount}% of the installment.`;
+    case "DAILY":
+      return `Rent paid ${grace} incurs a late fee of ${money(lease.lateFeeAmount)} per day` +
+        (lease.lateFeeMaxAmount ? `, up to ${money(lease.lateFeeMaxAmount)} per installment.` : ".");
+    default:
+      return null;
+  }
+};
+
+/**
+ * Create missing installments for an ACTIVE lease and realign unpaid ones
+ * that have no payments allocated yet with the current lease terms. The lease
+ * ledger is only rebuilt when installments or late fees changed, or when
+ * options.rebuild is set (lease terms such as the grace period were edited).
+ * Safe to call repeatedly.
+ */
+export const syncRentSchedule = async (leaseId, now = new Date(), options = {}) => {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    include: {
+      rentCharges: {
+        where: { type: "RENT" },
+        include: { allocations: { select: { id: true } } }
+      }
+    }
+  });
+
+  if (!lease || lease.status !== "ACTIVE") return;
+
+  const expected = buildRentSchedule(lease, now);
+  const expectedByKey = new Map(expected.map(item => [item.periodStart.getTime(), item]));
+  const existingByKey = new Map(lease.rentCharges.map(charge => [charge.periodStart.getTime(), charge]));
+
+  // Only untouched installments may be rewritten when lease terms change
+  const isUntouched = (charge) => charge.status !== "PAID" && charge.allocations.length === 0;
+
+  const staleIds = lease.rentCharges
+    .filter(charge => isUntouched(charge) && !expectedByKey.has(charge.periodStart.getTime()))
+    .map(charge => charge.id);
+
+  const missing = expected.filter(item => !existingByKey.has(item.periodStart.getTime()));
+
+  const changed = lease.rentCharges.filter(charge => {
+    const item = expectedByKey.get(charge.periodStart.getTime());
+    return item && isUntouched(charge) && (
+      charge.amount !== item.amount ||
+      charge.periodEnd.getTime() !== item.periodEnd.getTime()
+    );
+  });
+
+  if (staleIds.length > 0) {
+    await prisma.rentCharge.deleteMany({ where: { id: { in: staleIds } } });
+  }
+
+  if (missing.length > 0) {
+    await prisma.rentCharge.createMany({
+      data: missing.map(item => ({ leaseId, ...item })),
+      skipDuplicates: true
+    });
+  }
+
+  for (const charge of changed) {
+    const item = expectedByKey.get(charge.periodStart.getTime());
+    await prisma.rentCharge.update({
+      where: { id: charge.id },
+      data: { amount: item.amount, periodEnd: item.periodEnd }
+    });
+  }
+
+  const scheduleChanged = staleIds.length > 0 || missing.length > 0 || changed.length > 0;
+
+  // Late fees grow with time even when nothing else changed
+  if (options.rebuild || scheduleChanged || await syncLateFees(leaseId, now)) {
+    await rebuildLeaseLedger(leaseId, now);
+  }
+};
+
+/**
+ * Assess LATE_FEE charges for RENT installments paid or still unpaid after the
+ * grace period. DAILY fees keep growing until the installment is paid; fees
+ * nobody has paid towards are removed when the rule no longer applies.
+ * Returns true when any fee was created, changed or removed.
+ */
+export const syncLateFees = async (leaseId, now = new Date()) => {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    include: {
+      rentCharges: {
+        include: { allocations: { select: { id: true } } }
+      }
+    }
+  });
+
+  if (!lease) return false;
+
+  let changed = false;
+  const isUntouched = (fee) => fee.status !== "PAID" && fee.allocations.length === 0;
+
+  const rents = lease.rentCharges.filter(charge => charge.type === "RENT");
+  const feesByKey = new Map(
+    lease.rentCharges
+      .filter(charge => charge.type === "LATE_FEE")
+      .map(charge => [charge.periodStart.getTime(), charge])
+  );
+
+  // Fees whose installment was dropped from the schedule go with it
+  const rentKeys = new Set(rents.map(rent => rent.periodStart.getTime()));
+  const orphanIds = [...feesByKey.values()]
+    .filter(fee => !rentKeys.has(fee.periodStart.getTime()) && isUntouched(fee))
+    .map(fee => fee.id);
+  if (orphanIds.length > 0) {
+    await prisma.rentCharge.deleteMany({ where: { id: { in: orphanIds } } });
+    changed = true;
+  }
+
+  for (const rent of rents) {
+    const amount = calculateLateFee(lease, rent, now);
+    const fee = feesByKey.get(rent.periodStart.getTime());
+
+    if (!fee) {
+      if (amount > 0) {
+        const graceEnd = new Date(startOfDay(rent.dueDate).getTime() + (lease.gracePeriodDays || 0) * DAY_MS);
+        await prisma.rentCharge.upsert({
+          where: { leaseId_type_periodStart: { leaseId, type: "LATE_FEE", periodStart: rent.periodStart } },
+          update: {},
+          create: {
+            leaseId,
+            type: "LATE_FEE",
+            periodStart: rent.periodStart,
+            periodEnd: rent.periodEnd,
+            dueDate: new Date(graceEnd.getTime() + DAY_MS), // first day the rent counts as late
+            amount
+          }
+        });
+        changed = true;
+      }
+      continue;
+    }
+
+    if (amount === 0) {
+      if (isUntouched(fee)) {
+        await prisma.rentCharge.delete({ where: { id: fee.id } });
+        changed = true;
+      }
+      continue;
+    }
+
+    if (fee.amount !== amount && fee.status !== "PAID") {
+      await prisma.rentCharge.update({
+        where: { id: fee.id },
+        data: { amount }
+      });
+      changed = true;
+    }
+  }
+
+  return changed;
+};
+
+/**
+ * Keep the Income row of a LATE_FEE charge in step with what has been
+ * collected on it, so late fees show up in the landlord's bookkeeping
+ */
+const syncLateFeeIncome = async (charge, amountPaid, lastPaidAt) => {
+  if (amountPaid <= 0) {
+    await prisma.income.deleteMany({ where: { chargeId: charge.id } });
+    return;
+  }
+
+  const lease = await prisma.lease.findUnique({
+    where: { id: charge.leaseId },
+    select: { unitId: true, unit: { select: { propertyId: true } } }
+  });
+  if (!lease) return;
+
+  const data = {
+    propertyId: lease.unit.propertyId,
+    unitId: lease.unitId,
+    amount: roundMoney(Math.min(amountPaid, charge.amount)),
+    description: "late fee",
+    date: lastPaidAt || new Date()
+  };
+
+  await prisma.income.upsert({
+    where: { chargeId: charge.id },
+    update: data,
+    create: { ...data, chargeId: charge.id }
+  });
+};
+
+/**
+ * Allocate PAID payments (oldest first) against outstanding charges (oldest
+ * due first) and store the result as PaymentAllocation rows. Whatever a
+ * payment has left after every charge is settled stays on the lease as
+ * credit and is picked up by charges created later. Also derives each
+ * payment's chargeId / isPartial / timingStatus and each charge's PAID state.
+ */
+export const allocateLeasePayments = async (leaseId) => {
+  const [lease, charges, payments] = await Promise.all([
+    prisma.lease.findUnique({ where: { id: leaseId }, select: { gracePeriodDays: true } }),
+    prisma.rentCharge.findMany({
+      where: { leaseId },
+      orderBy: [{ dueDate: "asc" }, { type: "desc" }] // RENT before LATE_FEE on the same day
+    }),
+    prisma.payment.findMany({
+      where: { leaseId },
+      orderBy: [{ paidAt: "asc" }, { createdAt: "asc" }]
+    })
+  ]);
+
+  if (!lease) return;
+
+  const open = new Map(charges.map(charge => [charge.id, charge.amount]));
+  const collected = new Map(charges.map(charge => [charge.id, { amount: 0, lastPaidAt: null }]));
+  const settledAt = new Map();
+  const allocations = [];
+  const paymentUpdates = [];
+
+  for (const payment of payments) {
+    if (payment.status !== "PAID") {
+      // Unsettled payments don't count towards any charge
+      if (payment.chargeId || payment.isPartial) {
+        paymentUpdates.push({ id: payment.id, data: { chargeId: null, isPartial: false } });
+      }
+      continue;
+    }
+
+    const paidAt = payment.paidAt || payment.createdAt;
+    let left = payment.amount;
+    let first = null;
+
+    for (const charge of charges) {
+      if (left <= 0) break;
+      const owed = open.get(charge.id);
+      if (owed <= 0) continue;
+
+      const applied = roundMoney(Math.min(left, owed));
+      allocations.push({ paymentId: payment.id, chargeId: charge.id, amount: applied });
+      open.set(charge.id, roundMoney(owed - applied));
+      left = roundMoney(left - applied);
+      first = first || charge;
+
+      const entry = collected.get(charge.id);
+      entry.amount = roundMoney(entry.amount + applied);
+      entry.lastPaidAt = paidAt;
+      if (open.get(charge.id) <= 0) settledAt.set(charge.id, paidAt);
+    }
+
+    const data = {
+      chargeId: first ? first.id : null,
+      isPartial: first ? open.get(first.id) > 0 : false,
+      // Nothing left to settle means the tenant is paying ahead of the schedule
+      timingStatus: first
+        ? getPaymentTiming(first.dueDate, paidAt, first.type === "RENT" ? lease.gracePeriodDays : 0)
+        : "ADVANCE"
+    };
+
+    if (data.chargeId !== payment.chargeId || data.isPartial !== payment.isPartial || data.timingStatus !== payment.timingStatus) {
+      paymentUpdates.push({ id: payment.id, data });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.paymentAllocation.deleteMany({ where: { payment: { leaseId } } }),
+    prisma.paymentAllocation.createMany({ data: allocations }),
+    ...paymentUpdates.map(update => prisma.payment.update({ where: { id: update.id }, data: update.data })),
+    ...charges
+      .filter(charge => {
+        const paidAt = settledAt.get(charge.id) || null;
+        return (charge.status === "PAID") !== Boolean(paidAt) ||
+          (charge.paidAt?.getTime() ?? null) !== (paidAt?.getTime() ?? null);
+      })
+      .map(charge => {
+        const paidAt = settledAt.get(charge.id) || null;
+        return prisma.rentCharge.update({
+          where: { id: charge.id },
+          data: { status: paidAt ? "PAID" : "UNPAID", paidAt }
+        });
+      })
+  ]);
+
+  for (const charge of charges.filter(charge => charge.type === "LATE_FEE")) {
+    const { amount, lastPaidAt } = collected.get(charge.id);
+    await syncLateFeeIncome(charge, amount, lastPaidAt);
+  }
+};
+
+/**
+ * Re-run allocation until late fees settle: paying rent late changes its late
+ * fee, and a new fee takes its share of later payments
+ */
+export const rebuildLeaseLedger = async (leaseId, now = new Date()) => {
+  for (let pass = 0; pass < 3; pass++) {
+    await allocateLeasePayments(leaseId);
+    const feesChanged = await syncLateFees(leaseId, now);
+    if (!feesChanged) return;
+  }
+  await allocateLeasePayments(leaseId);
+};
+
+/**
+ * Bring the ledger of a payment's lease up to date after the payment was
+ * recorded or its status changed. Returns the charge it was first applied to,
+ * its timingStatus and whether it left that charge partly unpaid.
+ */
+export const applyPaymentToSchedule = async (paymentId) => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: { leaseId: true }
+  });
+  if (!payment) return { charge: null, timingStatus: null, isPartial: false };
+
+  await rebuildLeaseLedger(payment.leaseId);
+
+  const updated = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { charge: true }
+  });
+
+  return { charge: updated.charge, timingStatus: updated.timingStatus, isPartial: updated.isPartial };
+};
+
+/**
+ * Get a lease's installments with derived status, a summary and the running
+ * balance (amount due now / credit carried forward) for the UI. Read-only: the
+ * ledger is kept current by syncRentSchedule / applyPaymentToSchedule and the
+ * rent-reminders job.
+ */
+export const getLeaseRentSchedule = async (leaseId, now = new Date()) => {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: { gracePeriodDays: true }
+  });
+  const gracePeriodDays = lease?.gracePeriodDays || 0;
+
+  const [charges, paidPayments] = await Promise.all([
+    prisma.rentCharge.findMany({
+      where: { leaseId },
+      include: {
+        allocations: {
+          include: { payment: { select: { id: true, status: true, paidAt: true, timingStatus: true } } },
+          orderBy: { createdAt: "asc" }
+        }
+      },
+      orderBy: { dueDate: "asc" }
+    }),
+    prisma.payment.aggregate({
+      where: { leaseId, status: "PAID" },
+      _sum: { amount: true }
+    })
+  ]);
+
+  const installments = charges.map(charge => ({
+    id: charge.id,
+    type: charge.type,
+    periodStart: charge.periodStart,
+    periodEnd: charge.periodEnd,
+    dueDate: charge.dueDate,
+    amount: charge.amount,
+    amountPaid: roundMoney(charge.allocations.reduce((sum, a) => sum + a.amount, 0)),
+    status: getChargeStatus(charge, now, charge.type === "RENT" ? gracePeriodDays : 0),
+    paidAt: charge.paidAt,
+    payments: charge.allocations.map(a => ({ ...a.payment, amount: a.amount }))
+  }));
+
+  const byStatus = (status) => installments.filter(i => i.status === status);
+  const overdue = byStatus("OVERDUE");
+  const nextDue = installments.find(i => i.status !== "PAID") || null;
+  const unpaidLateFees = installments.filter(i => i.type === "LATE_FEE" && i.status !== "PAID");
+  const outstanding = (items) => roundMoney(items.reduce((sum, i) => sum + (i.amount - i.amountPaid), 0));
+
+  // Anything paid beyond what has fallen due so far is credit carried forward
+  const today = startOfDay(now);
+  const dueToDate = installments.filter(i => startOfDay(i.dueDate) <= today);
+  const totalPaid = roundMoney(paidPayments._sum.amount || 0);
+  const amountDueNow = outstanding(dueToDate);
+  const credit = roundMoney(Math.max(totalPaid - dueToDate.reduce((sum, i) => sum + i.amountPaid, 0), 0));
+
+  return {
+    installments,
+    gracePeriodDays,
+    summary: {
+      total: installments.length,
+      paid: byStatus("PAID").length,
+      upcoming: byStatus("UPCOMING").length,
+      due: byStatus("DUE").length,
+      overdue: overdue.length,
+      overdueAmount: outstanding(overdue),
+      dueNowAmount: amountDueNow,
+      lateFeesOutstanding: outstanding(unpaidLateFees),
+      nextDue: nextDue ? { id: nextDue.id, dueDate: nextDue.dueDate, amount: roundMoney(nextDue.amount - nextDue.amountPaid) } : null
+    },
+    balance: {
+      totalCharged: roundMoney(dueToDate.reduce((sum, i) => sum + i.amount, 0)),
+      totalPaid,
+      amountDueNow,
+      credit,
+      // Positive → tenant owes this much now; negative → credit on the lease
+      currentBalance: roundMoney(amountDueNow - credit)
+    }
+  };
+};
+
+/**
+ * Running balance of a lease (see getLeaseRentSchedule)
+ */
+export const getLeaseBalance = async (leaseId, now = new Date()) => {
+  const { balance, summary } = await getLeaseRentSchedule(leaseId, now);
+  return { ...balance, nextDue: summary.nextDue };
+};
@@ -0,0 +1,614 @@
+// file: tenantBehaviorService.js
+import prisma from "../libs/prismaClient.js";
+import { summarizeViolations } from "./leaseRuleViolationService.js";
+
+// ---------------------------------------------- TENANT BEHAVIOR SERVICE ----------------------------------------------
+// Behavior analysis is stored per lease in TenantBehaviorAnalysis. Every refresh adds a
+// row, so the latest row is the current analysis and the older ones are its history.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RECENT_MAINTENANCE_DAYS = 30;
+const MAX_HISTORY_POINTS = 100;
+
+// Leases whose behavior is still changing (refreshed by the daily job)
+const TRACKED_LEASE_STATUSES = ["ACTIVE"];
+
+// Behavioral score = weighted average of these parts (TenantBehavior_Logic: 40 / 25 / 20 / 15)
+export const SCORE_PARTS = ["paymentReliability", "communication", "propertyCare", "ruleCompliance"];
+
+export const DEFAULT_SCORE_WEIGHTS = {
+  paymentReliability: 40,
+  communication: 25,
+  propertyCare: 20,
+  ruleCompliance: 15,
+};
+
+// Replying to the landlord within a day earns full marks, after a week (or never) none
+const RESPONSE_TARGET_HOURS = 24;
+const RESPONSE_LIMIT_HOURS = 7 * 24;
+
+// Move-out condition report ratings (same values as the contract builder)
+const CONDITION_SCORES = { NEW: 1, GOOD: 1, FAIR: 0.7, POOR: 0.3, DAMAGED: 0 };
+
+const average = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const roundScore = (value) => (value === null ? null : Math.round(value * 100) / 100);
+const toPercent = (value) => (value === null || value === undefined ? null : Math.round(value * 100));
+
+/**
+ * A landlord's score weights (defaults when they never changed them)
+ */
+export const getBehaviorScoreWeights = async (landlordId) => {
+  const weights = await prisma.behaviorScoreWeights.findUnique({ where: { landlordId } });
+  if (!weights) return { ...DEFAULT_SCORE_WEIGHTS };
+
+  return Object.fromEntries(SCORE_PARTS.map(part => [part, weights[part]]));
+};
+
+/**
+ * Validate a PUT body of weights, merged over the current ones: whole numbers
+ * from 0 to 100 that add up to 100. Returns { data } or { status, message }.
+ */
+export const validateBehaviorScoreWeights = (body, current) => {
+  const merged = { ...current };
+
+  for (const [part, weight] of Object.entries(body ?? {})) {
+    if (!SCORE_PARTS.includes(part)) {
+      return { status: 400, message: `Unknown score part: ${part}` };
+    }
+    if (!Number.isInteger(weight) || weight < 0 || weight > 100) {
+      return { status: 400, message: `${part} must be a whole number from 0 to 100` };
+    }
+    merged[part] = weight;
+  }
+
+  const total = SCORE_PARTS.reduce((sum, part) => sum + merged[part], 0);
+  if (total !== 100) {
+    return { status: 400, message: `Weights must add up to 100 (currently ${total})` };
+  }
+
+  return { data: merged };
+};
+
+/**
+ * Save a landlord's weights (creates the row on first save)
+ */
+export const saveBehaviorScoreWeights = async (landlordId, weights) => {
+  await prisma.behaviorScoreWeights.upsert({
+    where: { landlordId },
+    create: { landlordId, ...weights },
+    update: weights,
+  });
+
+  return weights;
+};
+
+/**
+ * Weighted average of the parts that have data (weights of missing parts are
+ * spread over the rest). Parts and result are 0 → 1, null when nothing is known.
+ */
+export const calculateBehaviorScore = (parts, weights) => {
+  const available = SCORE_PARTS.filter(part => parts[part] !== null && weights[part] > 0);
+  const totalWeight = available.reduce((sum, part) => sum + weights[part], 0);
+  if (totalWeight === 0) return null;
+
+  return available.reduce((sum, part) => sum + parts[part] * weights[part], 0) / totalWeight;
+};
+
+/**
+ * How quickly the tenant answers the landlord in their general and lease threads
+ * during the lease. Each landlord message the tenant hasn't answered yet opens a
+ * wait; the tenant's next message closes it. Waits still open past the limit count
+ * as unanswered.
+ */
+const getCommunicationMetrics = async (lease, landlordId, until, now) => {
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      OR: [
+        { userAId: lease.tenantId, userBId: landlordId },
+        { userAId: landlordId, userBId: lease.tenantId }
+      ],
+      AND: [{ OR: [{ leaseId: lease.id }, { leaseId: null }] }]
+    },
+    select: {
+      messages: {
+        where: { createdAt: { gte: lease.startDate, ...(until ? { lte: until } : {}) } },
+        select: { senderId: true, createdAt: true },
+        orderBy: { createdAt: "asc" }
+      }
+    }
+  });
+
+  const responseHours = [];
+  let unanswered = 0;
+
+  for (const conversation of conversations) {
+    let waitingSince = null;
+    for (const message of conversation.messages) {
+      if (message.senderId === landlordId) {
+        waitingSince = waitingSince ?? message.createdAt;
+      } else if (waitingSince) {
+        responseHours.push((message.createdAt - waitingSince) / HOUR_MS);
+        waitingSince = null;
+      }
+    }
+    if (waitingSince && (until ?? now) - waitingSince > RESPONSE_LIMIT_HOURS * HOUR_MS) {
+      unanswered++;
+    }
+  }
+
+  const waits = responseHours.length + unanswered;
+  if (waits === 0) return { communicationScore: null, averageResponseHours: null };
+
+  const responseScores = responseHours.map(hours =>
+    Math.min(1, Math.max(0, 1 - (hours - RESPONSE_TARGET_HOURS) / (RESPONSE_LIMIT_HOURS - RESPONSE_TARGET_HOURS)))
+  );
+
+  return {
+    communicationScore: roundScore(average([...responseScores, ...Array(unanswered).fill(0)])),
+    averageResponseHours: responseHours.length > 0 ? Math.round(average(responseHours) * 10) / 10 : null,
+  };
+};
+
+/**
+ * Property care from move-out data: the share of the deposit kept for deductions
+ * and the ratings on the move-out condition report. Null while the tenant still lives there.
+ */
+const getPropertyCareScore = (termination, moveOutReport) => {
+  const parts = [];
+
+  if (termination?.status === "SETTLED" && termination.depositHeld > 0) {
+    parts.push(1 - Math.min(1, termination.totalDeductions / termination.depositHeld));
+  }
+
+  const ratings = (Array.isArray(moveOutReport?.conditionReportItems) ? moveOutReport.conditionReportItems : [])
+    .map(item => CONDITION_SCORES[item?.condition])
+    .filter(score => score !== undefined);
+  if (ratings.length > 0) {
+    parts.push(average(ratings));
+  }
+
+  return parts.length > 0 ? roundScore(average(parts)) : null;
+};
+
+/**
+ * Days late per LATE payment, measured against the installment due date
+ * (older unlinked payments fall back to createdAt)
+ */
+export const calculateAveragePaymentDelay = (payments) => {
+  const latePayments = payments.filter(payment => payment.timingStatus === "LATE");
+  if (latePayments.length === 0) return 0;
+
+  const totalDelay = latePayments.reduce((sum, payment) => {
+    const dueDate = new Date(payment.charge?.dueDate || payment.createdAt);
+    const paidDate = new Date(payment.paidAt || payment.updatedAt);
+    const delay = Math.ceil((paidDate - dueDate) / DAY_MS);
+    return sum + Math.max(0, delay);
+  }, 0);
+
+  return Math.round(totalDelay / latePayments.length);
+};
+
+/**
+ * Behavior category from a 0-100 score (behavioral score, or payment reliability alone) and maintenance count
+ */
+export const categorizeTenantBehavior = (score, maintenanceCount) => {
+  if (score >= 90 && maintenanceCount <= 1) {
+    return "EXCELLENT";
+  } else if (score >= 80 && maintenanceCount <= 2) {
+    return "GOOD";
+  } else if (score >= 70 && maintenanceCount <= 3) {
+    return "AVERAGE";
+  } else {
+    return "HIGH_RISK";
+  }
+};
+
+/**
+ * Readable summary of the metrics (reliability is null while there are no payments yet)
+ */
+export const generateDetailedBehaviorSummary = (paymentReliability, maintenanceCount, recentMaintenanceCount, averageDelay, extras = {}) => {
+  const summary = [];
+
+  if (paymentReliability === null) {
+    summary.push("No payment history yet");
+  } else if (paymentReliability >= 90) {
+    summary.push("Excellent payment history with 90%+ on-time payments");
+  } else if (paymentReliability >= 80) {
+    summary.push("Good payment history with mostly reliable payments");
+  } else if (paymentReliability >= 70) {
+    summary.push("Average payment history with some delays");
+  } else {
+    summary.push("Poor payment history with frequent delays");
+  }
+
+  if (averageDelay > 0) {
+    summary.push(`Average payment delay of ${averageDelay} days`);
+  }
+
+  if (maintenanceCount === 0) {
+    summary.push("No maintenance requests submitted");
+  } else if (maintenanceCount <= 2) {
+    summary.push("Minimal maintenance requests");
+  } else if (maintenanceCount <= 5) {
+    summary.push("Moderate maintenance requests");
+  } else {
+    summary.push("Excessive maintenance requests");
+  }
+
+  if (recentMaintenanceCount > 2) {
+    summary.push("Recent increase in maintenance requests");
+  }
+
+  if (extras.averageResponseHours != null) {
+    summary.push(extras.averageResponseHours <= RESPONSE_TARGET_HOURS
+      ? "Responds to messages within a day"
+      : `Takes about ${Math.round(extras.averageResponseHours / 24)} days to respond to messages`);
+  }
+
+  if (extras.violationCount > 0) {
+    summary.push(extras.violationCount === 1
+      ? "One lease rule violation logged"
+      : `${extras.violationCount} lease rule violations logged`);
+  }
+
+  if (extras.propertyCareScore != null) {
+    if (extras.propertyCareScore >= 0.9) summary.push("Left the unit in good condition");
+    else if (extras.propertyCareScore >= 0.6) summary.push("Left the unit with some wear or damage");
+    else summary.push("Left the unit with significant damage");
+  }
+
+  return summary.join(". ") + ".";
+};
+
+const getPaymentBehavior = ({ totalPayments, onTimePayments, latePayments, advancePayments }) => {
+  if (totalPayments === 0) return null;
+  if (latePayments === 0) return advancePayments > onTimePayments / 2 ? "ADVANCE" : "ONTIME";
+  if (latePayments > totalPayments / 2) return "LATE";
+  return "MIXED";
+};
+
+/**
+ * Behavior metrics of one lease as of `now`: its PAID payments, the maintenance
+ * requests the tenant reported for the unit, their replies to the landlord, the
+ * rule violations logged against them and the move-out condition, combined into the landlord's weighted behavioral score
+ */
+export const computeLeaseBehavior = async (leaseId, now = new Date()) => {
+  const lease = await prisma.lease.findUnique({
+    where: { id: leaseId },
+    select: {
+      id: true,
+      tenantId: true,
+      unitId: true,
+      startDate: true,
+      endDate: true,
+      status: true,
+      unit: { select: { property: { select: { ownerId: true } } } },
+      termination: { select: { status: true, depositHeld: true, totalDeductions: true } },
+      documents: {
+        where: { conditionReportType: "MOVE_OUT" },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { conditionReportItems: true }
+      },
+      payments: {
+        where: { status: "PAID" },
+        select: {
+          timingStatus: true,
+          paidAt: true,
+          createdAt: true,
+          updatedAt: true,
+          charge: { select: { dueDate: true } }
+        }
+      },
+      ruleViolations: {
+        where: { status: { not: "WITHDRAWN" } },
+        select: { warningLevel: true, status: true }
+      }
+    }
+  });
+  if (!lease) return null;
+
+  const landlordId = lease.unit.property.ownerId;
+  const until = !TRACKED_LEASE_STATUSES.includes(lease.status) && lease.endDate ? lease.endDate : null;
+  const maintenanceRequests = await prisma.maintenanceRequest.findMany({
+    where: {
+      reporterId: lease.tenantId,
+      unitId: lease.unitId,
+      createdAt: { gte: lease.startDate, ...(until ? { lte: until } : {}) }
+    },
+    select: { createdAt: true }
+  });
+
+  const screening = await prisma.tenantScreening.findFirst({
+    where: { tenantId: lease.tenantId, unitId: lease.unitId },
+    orderBy: { createdAt: "desc" },
+    select: { riskLevel: true, aiScreeningSummary: true }
+  });
+
+  const { payments } = lease;
+  const totalPayments = payments.length;
+  const advancePayments = payments.filter(payment => payment.timingStatus === "ADVANCE").length;
+  const onTimePayments = payments.filter(payment => payment.timingStatus === "ONTIME").length + advancePayments;
+  const latePayments = payments.filter(payment => payment.timingStatus === "LATE").length;
+  const averagePaymentDelay = calculateAveragePaymentDelay(payments);
+
+  // 0 → 1 like the stored column; null until the first payment is made
+  const paymentReliability = totalPayments > 0 ? onTimePayments / totalPayments : null;
+  const reliabilityPercent = paymentReliability === null ? null : paymentReliability * 100;
+
+  const maintenanceRequestsCount = maintenanceRequests.length;
+  const recentSince = new Date(now.getTime() - RECENT_MAINTENANCE_DAYS * DAY_MS);
+  const recentMaintenanceCount = maintenanceRequests.filter(request => request.createdAt > recentSince).length;
+
+  let maintenanceRiskLevel = "LOW";
+  if (maintenanceRequestsCount > 5) maintenanceRiskLevel = "HIGH";
+  else if (maintenanceRequestsCount > 2) maintenanceRiskLevel = "MEDIUM";
+
+  const { communicationScore, averageResponseHours } = await getCommunicationMetrics(lease, landlordId, until, now);
+  const propertyCareScore = getPropertyCareScore(lease.termination, lease.documents[0]);
+  const violations = summarizeViolations(lease.ruleViolations);
+  const ruleComplianceScore = roundScore(violations.ruleComplianceScore);
+
+  const scoreWeights = await getBehaviorScoreWeights(landlordId);
+  const behaviorScore = roundScore(calculateBehaviorScore({
+    paymentReliability,
+    communication: communicationScore,
+    propertyCare: propertyCareScore,
+    ruleCompliance: ruleComplianceScore,
+  }, scoreWeights));
+
+  // Nothing known yet doesn't count against the tenant
+  const scoredBehavior = behaviorScore === null ? 100 : behaviorScore * 100;
+  let riskLevel = "LOW";
+  if (scoredBehavior < 70 || maintenanceRequestsCount > 5 || recentMaintenanceCount > 2) {
+    riskLevel = "HIGH";
+  } else if (scoredBehavior < 85 || maintenanceRequestsCount > 2 || recentMaintenanceCount > 1) {
+    riskLevel = "MEDIUM";
+  }
+
+  const counts = { totalPayments, onTimePayments, latePayments, advancePayments };
+
+  return {
+    tenantId: lease.tenantId,
+    leaseId: lease.id,
+    screeningRiskLevel: screening?.riskLevel ?? null,
+    aiScreeningSummary: screening?.aiScreeningSummary ?? null,
+    paymentBehavior: getPaymentBehavior(counts),
+    paymentReliability,
+    ...counts,
+    averagePaymentDelay,
+    maintenanceRequestsCount,
+    recentMaintenanceCount,
+    maintenanceRiskLevel,
+    hasFrequentComplaints: recentMaintenanceCount > 2 || violations.hasFrequentViolations,
+    complaintNotes: violations.complaintNotes,
+    communicationScore,
+    averageResponseHours,
+    propertyCareScore,
+    ruleComplianceScore,
+    behaviorScore,
+    scoreWeights,
+    aiRiskScore: behaviorScore === null ? null : roundScore(1 - behaviorScore),
+    riskLevel,
+    aiSummary: generateDetailedBehaviorSummary(reliabilityPercent, maintenanceRequestsCount, recentMaintenanceCount, averagePaymentDelay, {
+      averageResponseHours,
+      propertyCareScore,
+      violationCount: violations.violationCount,
+    }),
+    aiCategory: categorizeTenantBehavior(scoredBehavior, maintenanceRequestsCount),
+  };
+};
+
+// Fields compared to decide whether a refresh changed anything
+const SNAPSHOT_METRICS = [
+  "screeningRiskLevel", "paymentBehavior", "paymentReliability", "totalPayments", "onTimePayments",
+  "latePayments", "advancePayments", "averagePaymentDelay", "maintenanceRequestsCount",
+  "recentMaintenanceCount", "maintenanceRiskLevel", "hasFrequentComplaints", "complaintNotes", "communicationScore",
+  "averageResponseHours", "propertyCareScore", "ruleComplianceScore", "behaviorScore", "scoreWeights",
+  "aiRiskScore", "riskLevel",
+];
+
+// scoreWeights is compared part by part (stored JSON doesn't keep key order)
+const sameValue = (field, a, b) =>
+  field === "scoreWeights"
+    ? SCORE_PARTS.every(part => a?.[part] === b?.[part])
+    : (a ?? null) === (b ?? null);
+
+/**
+ * Recompute a lease's behavior and store it as a new snapshot. When nothing changed
+ * since the latest snapshot, that one is only marked as re-checked (updatedAt), so the
+ * history holds one point per change. Returns the current snapshot (null if no lease).
+ */
+export const recordBehaviorSnapshot = async (leaseId, trigger, now = new Date()) => {
+  const metrics = await computeLeaseBehavior(leaseId, now);
+  if (!metrics) return null;
+
+  const latest = await prisma.tenantBehaviorAnalysis.findFirst({
+    where: { leaseId },
+    orderBy: { createdAt: "desc" }
+  });
+
+  if (latest && SNAPSHOT_METRICS.every(field => sameValue(field, latest[field], metrics[field]))) {
+    return prisma.tenantBehaviorAnalysis.update({
+      where: { id: latest.id },
+      data: { updatedAt: now }
+    });
+  }
+
+  return prisma.tenantBehaviorAnalysis.create({
+    data: { ...metrics, trigger, createdAt: now }
+  });
+};
+
+/**
+ * Refresh the snapshot of every lease a payment, maintenance or violation event belongs to.
+ * Errors are logged, not thrown: analysis must never fail the event itself.
+ */
+export const refreshLeaseBehavior = async (leaseIds, trigger) => {
+  for (const leaseId of [...new Set(leaseIds.filter(Boolean))]) {
+    try {
+      await recordBehaviorSnapshot(leaseId, trigger);
+    } catch (error) {
+      console.error(`Error refreshing behavior analysis for lease ${leaseId}:`, error);
+    }
+  }
+};
+
+/**
+ * Leases a maintenance request counts toward: the reporter's leases on its unit
+ */
+export const getMaintenanceRequestLeaseIds = async (request) => {
+  if (!request.unitId) return [];
+
+  const leases = await prisma.lease.findMany({
+    where: {
+      tenantId: request.reporterId,
+      unitId: request.unitId,
+      status: { in: TRACKED_LEASE_STATUSES }
+    },
+    select: { id: true }
+  });
+
+  return leases.map(lease => lease.id);
+};
+
+/**
+ * Latest snapshot for each lease, creating one for leases that were never analysed
+ * (leases from before snapshots existed). Returns Map leaseId → snapshot.
+ */
+export const getCurrentBehaviorSnapshots = async (leaseIds) => {
+  const snapshots = new Map();
+  if (leaseIds.length === 0) return snapshots;
+
+  const rows = await prisma.tenantBehaviorAnalysis.findMany({
+    where: { leaseId: { in: leaseIds } },
+    orderBy: { createdAt: "desc" },
+    distinct: ["leaseId"]
+  });
+  rows.forEach(row => snapshots.set(row.leaseId, row));
+
+  for (const leaseId of leaseIds.filter(id => !snapshots.has(id))) {
+    const snapshot = await recordBehaviorSnapshot(leaseId, "SCHEDULED");
+    if (snapshot) snapshots.set(leaseId, snapshot);
+  }
+
+  return snapshots;
+};
+
+/**
+ * Snapshot in the shape the landlord UI uses (percentages, 0-100 risk score)
+ */
+export const formatBehaviorSnapshot = (snapshot) => ({
+  riskLevel: snapshot.riskLevel,
+  paymentReliability: toPercent(snapshot.paymentReliability),
+  paymentBehavior: snapshot.paymentBehavior,
+  totalPayments: snapshot.totalPayments,
+  onTimePayments: snapshot.onTimePayments,
+  latePayments: snapshot.latePayments,
+  advancePayments: snapshot.advancePayments,
+  averagePaymentDelay: snapshot.averagePaymentDelay,
+  maintenanceRequestsCount: snapshot.maintenanceRequestsCount,
+  recentMaintenanceCount: snapshot.recentMaintenanceCount,
+  maintenanceRiskLevel: snapshot.maintenanceRiskLevel,
+  hasFrequentComplaints: snapshot.hasFrequentComplaints ?? false,
+  complaintNotes: snapshot.complaintNotes,
+  aiRiskScore: toPercent(snapshot.aiRiskScore),
+  behaviorScore: toPercent(snapshot.behaviorScore),
+  aiSummary: snapshot.aiSummary,
+  aiCategory: snapshot.aiCategory,
+  lastAnalysisDate: snapshot.updatedAt,
+});
+
+/**
+ * Score parts (0-100) and the weights a snapshot was scored with
+ */
+export const formatScoreBreakdown = (snapshot) => ({
+  score: toPercent(snapshot.behaviorScore),
+  weights: snapshot.scoreWeights ?? DEFAULT_SCORE_WEIGHTS,
+  parts: {
+    paymentReliability: toPercent(snapshot.paymentReliability),
+    communication: toPercent(snapshot.communicationScore),
+    propertyCare: toPercent(snapshot.propertyCareScore),
+    ruleCompliance: toPercent(snapshot.ruleComplianceScore),
+  },
+  averageResponseHours: snapshot.averageResponseHours,
+});
+
+/**
+ * Snapshot history of the given leases, oldest first (the most recent points only)
+ */
+export const getBehaviorHistory = async (leaseIds) => {
+  if (leaseIds.length === 0) return [];
+
+  const rows = await prisma.tenantBehaviorAnalysis.findMany({
+    where: { leaseId: { in: leaseIds } },
+    orderBy: { createdAt: "desc" },
+    take: MAX_HISTORY_POINTS,
+    select: {
+      leaseId: true,
+      createdAt: true,
+      trigger: true,
+      riskLevel: true,
+      aiRiskScore: true,
+      behaviorScore: true,
+      paymentReliability: true,
+      maintenanceRequestsCount: true,
+    }
+  });
+
+  return rows.reverse().map(row => ({
+    date: row.createdAt,
+    leaseId: row.leaseId,
+    trigger: row.trigger,
+    riskLevel: row.riskLevel,
+    riskScore: toPercent(row.aiRiskScore),
+    behaviorScore: toPercent(row.behaviorScore),
+    paymentReliability: toPercent(row.paymentReliability),
+    maintenanceRequestsCount: row.maintenanceRequestsCount,
+  }));
+};
+
+/**
+ * Reliability trend over the last few snapshots of a history series
+ */
+export const getReliabilityTrend = (history) => {
+  const points = history.filter(point => point.paymentReliability !== null).slice(-4);
+  if (points.length < 3) return "INSUFFICIENT_DATA";
+
+  const change = points[points.length - 1].paymentReliability - points[0].paymentReliability;
+  if (change >= 5) return "IMPROVING";
+  if (change <= -5) return "DECLINING";
+  return "STABLE";
+};
+
+/**
+ * Job handler: snapshot active leases that have no analysis yet or were last checked
+ * over a day ago (backfills old leases and lets the 30-day maintenance window roll on)
+ */
+export const refreshBehaviorSnapshots = async (now) => {
+  const staleBefore = new Date(now.getTime() - DAY_MS);
+
+  const leases = await prisma.lease.findMany({
+    where: {
+      status: { in: TRACKED_LEASE_STATUSES },
+      NOT: { TenantBehaviorAnalysis: { some: { updatedAt: { gt: staleBefore } } } }
+    },
+    select: { id: true }
+  });
+
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const lease of leases) {
+    try {
+      await recordBehaviorSnapshot(lease.id, "SCHEDULED", now);
+      refreshed++;
+    } catch (error) {
+      console.error(`Error refreshing behavior analysis for lease ${lease.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { due: leases.length, refreshed, failed };
+};
@@ -0,0 +1,255 @@
+// file: tenantScreeningService.js
+import { getLeaseRuleList } from "./leaseRuleViolationService.js";
+
+// ---------------------------------------------- TENANT SCREENING SERVICE ----------------------------------------------
+// Scores an application (TenantScreening row) from what the tenant submitted. Every check
+// explains itself, so the landlord can see why an applicant got their score.
+
+// Share of the overall score (0-100) per check
+export const SCREENING_WEIGHTS = {
+  income: 35,
+  documents: 30,
+  references: 20,
+  lifestyle: 15,
+};
+
+// A check below this score is shown as failed
+const PASSING_CHECK_SCORE = 60;
+
+// Income-to-rent ratio → score (highest matching step wins)
+const INCOME_RATIO_STEPS = [
+  { ratio: 3, score: 100 },
+  { ratio: 2.5, score: 85 },
+  { ratio: 2, score: 70 },
+  { ratio: 1.5, score: 45 },
+  { ratio: 1, score: 20 },
+];
+
+// Stated income without a proof of income document only counts for part
+const UNPROVEN_INCOME_FACTOR = 0.7;
+
+const REQUIRED_DOCUMENTS = [
+  { field: "idImageUrl", label: "government ID" },
+  { field: "selfieUrl", label: "selfie with ID" },
+  { field: "nbiClearanceUrl", label: "NBI clearance" },
+  { field: "proofOfIncomeUrl", label: "proof of income" },
+];
+
+const MAX_COUNTED_CHARACTER_REFERENCES = 2;
+
+// Lifestyle answers that can clash with a unit rule. `restrictive` means the rule only
+// conflicts when it forbids the habit ("No pets" vs "Pets allowed with deposit").
+const PROHIBITION_PATTERN = /\bno\b|\bnot\b|n't|prohibit|forbid|strictly|\bban/i;
+const LIFESTYLE_CONFLICTS = [
+  {
+    applies: (screening) => screening.isSmoker === true,
+    label: () => "smoker",
+    pattern: /smok|vap|cigar/i,
+    restrictive: true,
+  },
+  {
+    applies: (screening) => screening.hasPets === true,
+    label: (screening) => (screening.petTypes ? `has pets (${screening.petTypes})` : "has pets"),
+    pattern: /\bpets?\b|\bdogs?\b|\bcats?\b|animal/i,
+    restrictive: true,
+  },
+  {
+    applies: (screening) => screening.otherLifestyle?.drinksAlcohol === true,
+    label: () => "drinks alcohol",
+    pattern: /alcohol|liquor|drink/i,
+    restrictive: true,
+  },
+  {
+    applies: (screening) => screening.otherLifestyle?.musicLoud === true,
+    label: () => "plays loud music",
+    pattern: /noise|noisy|quiet|loud|music/i,
+    restrictive: false,
+  },
+];
+
+const LIFESTYLE_CONFLICT_PENALTY = 50;
+
+const CHECK_LABELS = {
+  income: "Income",
+  documents: "Documents",
+  references: "References",
+  lifestyle: "Lifestyle",
+};
+
+const formatPeso = (amount) => `₱${Math.round(amount).toLocaleString()}`;
+
+// Phone number (7+ digits) or email address
+const isReachableContact = (contact) => {
+  if (typeof contact !== "string") return false;
+  const trimmed = contact.trim();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) || trimmed.replace(/\D/g, "").length >= 7;
+};
+
+const check = (score, details, recommendation = null, extra = {}) => ({
+  score: Math.round(score),
+  passed: score >= PASSING_CHECK_SCORE,
+  details,
+  recommendation,
+  ...extra,
+});
+
+/**
+ * Income-to-rent ratio: monthly income vs the unit's monthly rent (Unit.targetPrice)
+ */
+const checkIncome = (screening, unit) => {
+  const income = screening.monthlyIncome ?? 0;
+  const rent = unit.targetPrice;
+
+  if (income <= 0) {
+    const employment = screening.employmentStatus ? ` (${screening.employmentStatus.toLowerCase().replace(/_/g, " ")})` : "";
+    return check(0, `No monthly income stated${employment}`, "Ask for a guarantor or proof of support before approving", { ratio: null });
+  }
+
+  if (!rent || rent <= 0) {
+    return check(PASSING_CHECK_SCORE, `Income of ${formatPeso(income)} stated, but the unit has no rent set to compare it with`, null, { ratio: null });
+  }
+
+  const ratio = Math.round((income / rent) * 10) / 10;
+  let score = INCOME_RATIO_STEPS.find(step => ratio >= step.ratio)?.score ?? 0;
+  let details = `Income of ${formatPeso(income)} is ${ratio}× the ${formatPeso(rent)} rent`;
+  let recommendation = ratio < 2 ? "Rent takes a large share of the income; consider a guarantor or a larger deposit" : null;
+
+  if (!screening.proofOfIncomeUrl) {
+    score *= UNPROVEN_INCOME_FACTOR;
+    details += ", not backed by a proof of income";
+    recommendation = recommendation || "Ask for a payslip or certificate of employment to confirm the income";
+  }
+
+  return check(score, details, recommendation, { ratio });
+};
+
+/**
+ * Required documents: government ID, selfie holding the ID, NBI clearance, proof of income
+ */
+const checkDocuments = (screening) => {
+  const missing = REQUIRED_DOCUMENTS.filter(document => !screening[document.field]);
+  const provided = REQUIRED_DOCUMENTS.length - missing.length;
+  const score = (provided / REQUIRED_DOCUMENTS.length) * 100;
+
+  if (missing.length === 0) {
+    return check(score, "All required documents provided (ID, selfie, NBI clearance, proof of income)");
+  }
+
+  const missingLabels = missing.map(document => document.label).join(", ");
+  return check(
+    score,
+    `${provided} of ${REQUIRED_DOCUMENTS.length} required documents provided; missing ${missingLabels}`,
+    `Request the missing documents: ${missingLabels}`,
+    { missing: missing.map(document => document.field) }
+  );
+};
+
+/**
+ * References: a previous landlord (up to 50) and character references with
+ * contact details (25 each, up to 2)
+ */
+const checkReferences = (screening) => {
+  const parts = [];
+  let score = 0;
+
+  if (screening.previousLandlordName && isReachableContact(screening.previousLandlordContact)) {
+    score += 50;
+    parts.push(`previous landlord ${screening.previousLandlordName} can be contacted`);
+  } else if (screening.previousLandlordName) {
+    score += 20;
+    parts.push(`previous landlord ${screening.previousLandlordName} named without usable contact details`);
+  }
+
+  const references = Array.isArray(screening.characterReferences) ? screening.characterReferences : [];
+  const reachable = references.filter(reference => reference?.name && isReachableContact(reference.contact));
+  score += Math.min(reachable.length, MAX_COUNTED_CHARACTER_REFERENCES) * 25;
+  if (reachable.length > 0) {
+    parts.push(`${reachable.length} character reference${reachable.length > 1 ? "s" : ""} with contact details`);
+  }
+
+  if (parts.length === 0) {
+    return check(0, "No previous landlord or character references given", "Ask for a previous landlord or at least one character reference");
+  }
+
+  const details = parts.join("; ");
+  return check(
+    score,
+    details.charAt(0).toUpperCase() + details.slice(1),
+    "Call the references to confirm the rental history before approving"
+  );
+};
+
+/**
+ * Lifestyle answers (smoking, pets, alcohol, loud music) against the unit's rules
+ */
+const checkLifestyle = (screening, unit) => {
+  const rules = getLeaseRuleList({ unit });
+  const conflicts = [];
+
+  for (const conflict of LIFESTYLE_CONFLICTS) {
+    if (!conflict.applies(screening)) continue;
+
+    const rule = rules.find(text => conflict.pattern.test(text) && (!conflict.restrictive || PROHIBITION_PATTERN.test(text)));
+    if (rule) {
+      conflicts.push(`${conflict.label(screening)} vs "${rule}"`);
+    }
+  }
+
+  if (conflicts.length === 0) {
+    return check(100, rules.length > 0 ? "No conflicts with the unit rules" : "The unit has no rules to check against", null, { conflicts });
+  }
+
+  return check(
+    Math.max(0, 100 - conflicts.length * LIFESTYLE_CONFLICT_PENALTY),
+    `Conflicts with the unit rules: ${conflicts.join("; ")}`,
+    "Discuss the conflicting house rules with the applicant",
+    { conflicts }
+  );
+};
+
+export const getScreeningRiskLevel = (score) => {
+  if (score >= 75) return "LOW";
+  if (score >= 50) return "MEDIUM";
+  return "HIGH";
+};
+
+/**
+ * Screen an application against its unit ({ targetPrice, unitLeaseRules }).
+ * Returns the overall score (0-100, higher is better), risk level, aiRiskScore (0 → 1,
+ * higher is riskier), the per-check breakdown, recommendations and a readable summary.
+ */
+export const screenApplication = (screening, unit) => {
+  const checks = {
+    income: checkIncome(screening, unit),
+    documents: checkDocuments(screening),
+    references: checkReferences(screening),
+    lifestyle: checkLifestyle(screening, unit),
+  };
+
+  const score = Math.round(
+    Object.entries(SCREENING_WEIGHTS).reduce((sum, [key, weight]) => sum + checks[key].score * weight, 0) / 100
+  );
+  const riskLevel = getScreeningRiskLevel(score);
+
+  const recommendations = Object.values(checks)
+    .map(result => result.recommendation)
+    .filter(Boolean);
+
+  // Stored in aiScreeningSummary, one line per check
+  const summary = [
+    `Screening score ${score}/100 (${riskLevel.toLowerCase()} risk)`,
+    ...Object.entries(checks).map(([key, result]) =>
+      `${CHECK_LABELS[key]} ${result.score}/100 (weight ${SCREENING_WEIGHTS[key]}%): ${result.details}`
+    ),
+  ].join("\n");
+
+  return {
+    score,
+    riskLevel,
+    aiRiskScore: Math.round((1 - score / 100) * 100) / 100,
+    weights: SCREENING_WEIGHTS,
+    checks,
+    recommendations,
+    summary,
+  };
+};
@@ -0,0 +1,113 @@
+// file: unitReviewService.js
+import prisma from "../libs/prismaClient.js";
+
+// ---------------------------------------------- UNIT REVIEW SERVICE ----------------------------------------------
+
+// Tenants can review a unit while living there or after the lease has ended
+export const REVIEWABLE_LEASE_STATUSES = ["ACTIVE", "EXPIRED", "TERMINATED"];
+
+export const REVIEW_STATUSES = ["PENDING", "PUBLISHED", "REJECTED"];
+
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_REPLY_LENGTH = 1000;
+
+// Fields shown wherever a review is public (tenant browse/details, landlord unit page)
+export const publicReviewSelect = {
+  id: true,
+  rating: true,
+  comment: true,
+  createdAt: true,
+  landlordReply: true,
+  landlordRepliedAt: true,
+  tenant: {
+    select: {
+      firstName: true,
+      lastName: true
+    }
+  }
+};
+
+export const reviewerName = (tenant) =>
+  `${tenant?.firstName || ''} ${tenant?.lastName || ''}`.trim() || 'Anonymous';
+
+/**
+ * Public shape of a published review
+ */
+export const formatPublicReview = (review) => ({
+  id: review.id,
+  rating: review.rating,
+  comment: review.comment,
+  createdAt: review.createdAt,
+  tenantName: reviewerName(review.tenant),
+  landlordReply: review.landlordReply,
+  landlordRepliedAt: review.landlordRepliedAt,
+});
+
+/**
+ * Validate a tenant's { rating, comment }. Returns { data } or { status, message }.
+ */
+export const validateReviewInput = ({ rating, comment }) => {
+  const parsedRating = Number(rating);
+  if (!Number.isInteger(parsedRating) || parsedRating < 1 || parsedRating > 5) {
+    return { status: 400, message: "Rating must be a whole number from 1 to 5" };
+  }
+
+  if (comment !== undefined && comment !== null && typeof comment !== "string") {
+    return { status: 400, message: "Comment must be text" };
+  }
+
+  const trimmedComment = comment?.trim() || null;
+  if (trimmedComment && trimmedComment.length > MAX_COMMENT_LENGTH) {
+    return { status: 400, message: `Comment can be up to ${MAX_COMMENT_LENGTH} characters` };
+  }
+
+  return { data: { rating: parsedRating, comment: trimmedComment } };
+};
+
+/**
+ * Validate a landlord's reply text (empty removes the reply). Returns { data } or { status, message }.
+ */
+export const validateReviewReply = (reply) => {
+  if (reply !== undefined && reply !== null && typeof reply !== "string") {
+    return { status: 400, message: "Reply must be text" };
+  }
+
+  const trimmedReply = reply?.trim() || null;
+  if (trimmedReply && trimmedReply.length > MAX_REPLY_LENGTH) {
+    return { status: 400, message: `Reply can be up to ${MAX_REPLY_LENGTH} characters` };
+  }
+
+  return { data: trimmedReply };
+};
+
+/**
+ * Published rating per unit: Map unitId → { avgRating, reviewCount }
+ */
+export const getUnitRatingSummaries = async (unitIds) => {
+  if (unitIds.length === 0) return new Map();
+
+  const groups = await prisma.unitReview.groupBy({
+    by: ["unitId"],
+    where: { unitId: { in: unitIds }, status: "PUBLISHED" },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map(group => [group.unitId, {
+    avgRating: group._avg.rating ?? 0,
+    reviewCount: group._count._all,
+  }]));
+};
+
+/**
+ * Combined rating over several units, weighted by review count and rounded to one decimal
+ */
+export const combineRatingSummaries = (summaries) => {
+  const reviewCount = summaries.reduce((sum, summary) => sum + summary.reviewCount, 0);
+  const total = summaries.reduce((sum, summary) => sum + summary.avgRating * summary.reviewCount, 0);
+
+  return {
+    avgRating: reviewCount > 0 ? Math.round((total / reviewCount) * 10) / 10 : 0,
+    reviewCount,
+  };
+};
@@ -63,10 +63,12 @@ const Leases = lazy(() => import("./pages/private/landlord/Leases"));
 const LeaseDetails = lazy(() => import("./pages/private/landlord/lease/LeaseDetails"));
 const CreateLease = lazy(() => import("./pages/private/landlord/lease/CreateLease"));
 const EditLease = lazy(() => import("./pages/private/landlord/lease/EditLease"));
+const LeaseContract = lazy(() => import("./pages/private/landlord/lease/LeaseContract"));
 
 // Maintenance pages
 const Maintenance = lazy(() => import("./pages/private/landlord/Maintenance"));
 const MaintenanceDetails = lazy(() => import("./pages/private/landlord/maintenance/MaintenanceDetails"));
+const MaintenanceSchedules = lazy(() => import("./pages/private/landlord/maintenance/MaintenanceSchedules"));
 
 // Tenant management pages
 const Tenants = lazy(() => import("./pages/private/landlord/TenantsRefined"));
@@ -124,6 +126,12 @@ const Transactions = lazy(
 const SystemLogs = lazy(
   () => import("./pages/private/admin/SystemLogs")
 );
+const JobHistory = lazy(
+  () => import("./pages/private/admin/JobHistory")
+);
+const ReviewModeration = lazy(
+  () => import("./pages/private/admin/ReviewModeration")
+);
 
 // Shared private pages
 const AccountProfile = lazy(() => import("./pages/private/AccountProfile"));
@@ -355,6 +363,14 @@ const router = createBrowserRouter([
             </Suspense>
           ),
         },
+        {
+          path: "leases/:leaseId/contract",
+          element: (
+            <Suspense fallback={<Loader />}>
+              <LeaseContract />
+            </Suspense>
+          ),
+        },
         {
           path: "maintenance",
           element: (
@@ -363,6 +379,14 @@ const router = createBrowserRouter([
             </Suspense>
           ),
         },
+        {
+          path: "maintenance/schedules",
+          element: (
+            <Suspense fallback={<Loader />}>
+              <MaintenanceSchedules />
+            </Suspense>
+          ),
+        },
         {
           path: "maintenance/:requestId",
           element: (
@@ -611,6 +635,14 @@ const router = createBrowserRouter([
           </Suspense>
         ),
       },
+      {
+        path: "reviews",
+        element: (
+          <Suspense fallback={<Loader />}>
+            <ReviewModeration />
+          </Suspense>
+        ),
+      },
       {
         path: "payments",
         element: (
@@ -635,6 +667,14 @@ const router = createBrowserRouter([
           </Suspense>
         ),
       },
+      {
+        path: "jobs",
+        element: (
+          <Suspense fallback={<Loader />}>
+            <JobHistory />
+          </Suspense>
+        ),
+      },
     ],
   },
   {
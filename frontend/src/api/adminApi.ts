@@ -175,6 +175,8 @@ export interface PropertyRequest {
   status: string;
   amount: number;
   paymentStatus: string;
+  paidAt: string | null;
+  receiptNumber: string | null;
   attemptCount: number;
   riskLevel: string;
   fraudRiskScore: number;
@@ -520,6 +522,135 @@ export const getSystemLogsAnalyticsRequest = async (params: {
   return response;
 };
 
+// Scheduled Jobs Types
+export interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: "SCHEDULE" | "MANUAL";
+  status: "RUNNING" | "SUCCEEDED" | "FAILED";
+  result: Record<string, number> | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+export interface ScheduledJobsResponse {
+  jobs: ScheduledJob[];
+  schedulerEnabled: boolean;
+}
+
+export interface JobRunsResponse {
+  runs: JobRun[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalCount: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Scheduled Jobs API functions
+export const getScheduledJobsRequest = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<ScheduledJobsResponse>("/admin/jobs", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const getJobRunsRequest = async (params: {
+  jobName?: string;
+  status?: string;
+  page?: number;
+  limit?: number;
+  signal?: AbortSignal;
+}) => {
+  const queryParams = new URLSearchParams();
+
+  if (params.jobName) queryParams.append('jobName', params.jobName);
+  if (params.status) queryParams.append('status', params.status);
+  if (params.page) queryParams.append('page', params.page.toString());
+  if (params.limit) queryParams.append('limit', params.limit.toString());
+
+  const response = await privateApi.get<JobRunsResponse>(`/admin/jobs/runs?${queryParams.toString()}`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const runJobRequest = async (jobName: string) => {
+  const response = await privateApi.post<{ message: string; run: JobRun }>(`/admin/jobs/${jobName}/run`);
+  return response;
+};
+
+// Unit Review Moderation Types
+export type ReviewModerationStatus = "PENDING" | "PUBLISHED" | "REJECTED";
+
+export interface ModerationReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  status: ReviewModerationStatus;
+  moderationNote: string | null;
+  moderatedAt: string | null;
+  landlordReply: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tenant: { id: string; name: string; email: string };
+  landlord: { id: string; name: string; email: string };
+  unit: { id: string; label: string };
+  property: { id: string; title: string };
+  lease: { id: string; leaseNickname: string; status: string };
+}
+
+export interface ModerationReviewsResponse {
+  reviews: ModerationReview[];
+  counts: Record<ReviewModerationStatus, number>;
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalCount: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Unit Review Moderation API functions
+export const getModerationReviewsRequest = async (params: {
+  status?: ReviewModerationStatus | "all";
+  page?: number;
+  limit?: number;
+  signal?: AbortSignal;
+}) => {
+  const queryParams = new URLSearchParams();
+
+  if (params.status) queryParams.append('status', params.status);
+  if (params.page) queryParams.append('page', params.page.toString());
+  if (params.limit) queryParams.append('limit', params.limit.toString());
+
+  const response = await privateApi.get<ModerationReviewsResponse>(`/admin/reviews?${queryParams.toString()}`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const moderateReviewRequest = async (
+  reviewId: string,
+  data: { status: "PUBLISHED" | "REJECTED"; note?: string }
+) => {
+  const response = await privateApi.patch<{ message: string }>(`/admin/reviews/${reviewId}`, data);
+  return response;
+};
+
 // Tenant Leases Types
 export interface TenantLeaseInfo {
   id: string;
@@ -624,6 +755,10 @@ export interface CommissionDetail {
   monthlyRent: number;
   commission: number;
   commissionPercentage: number;
+  listingStatus: string;
+  receiptNumber: string | null;
+  providerTxnId: string | null;
+  paidAt: string;
   property: {
     id: string;
     title: string;
@@ -635,7 +770,7 @@ export interface CommissionDetail {
     email: string;
   };
   listingCreatedAt: string;
-  listingExpiresAt: string;
+  listingExpiresAt: string | null;
 }
 
 export interface CommissionRevenueResponse {
@@ -645,6 +780,7 @@ export interface CommissionRevenueResponse {
     end: string;
   };
   summary: {
+    totalPaidListings: number;
     totalActiveListings: number;
     totalMonthlyRent: number;
     totalCommission: number;
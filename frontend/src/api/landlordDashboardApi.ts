@@ -37,7 +37,7 @@ export interface RecentActivity {
 // Types for upcoming tasks
 export interface UpcomingTask {
   id: string;
-  type: 'APPLICATION_REVIEW' | 'LEASE_RENEWAL' | 'INSPECTION' | 'MAINTENANCE_FOLLOWUP';
+  type: 'APPLICATION_REVIEW' | 'LEASE_RENEWAL' | 'INSPECTION' | 'MAINTENANCE_FOLLOWUP' | 'PREVENTIVE_MAINTENANCE';
   title: string;
   description: string;
   dueDate: string;
@@ -64,6 +64,9 @@ export interface UpcomingTask {
     isOverdue?: boolean;
     riskLevel?: string;
     aiRiskScore?: number;
+    maintenanceRequestId?: string;
+    slaState?: string;
+    scheduleId?: string;
   };
 }
 
@@ -8,6 +8,7 @@ export interface FinancialOverview {
     additionalIncome: number;
     totalIncome: number;
     totalExpenses: number;
+    maintenanceExpenses: number;
     netIncome: number;
     totalPendingAmount: number;
     profitMargin: number;
@@ -43,6 +44,8 @@ export interface FinancialOverview {
     amount: number;
     description: string;
     date: string;
+    maintenanceRequestId: string | null;
+    costType: "LABOR" | "PARTS" | null;
     property: {
       title: string;
     };
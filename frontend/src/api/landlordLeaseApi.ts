@@ -1,6 +1,10 @@
 import { privateApi } from "./axios";
+import type { LateFeeType, LeaseBalance } from "@/types/rentScheduleType";
 
 // Types for lease data
+// UPCOMING: accepted renewal waiting for its start date
+export type LeaseStatus = "DRAFT" | "UPCOMING" | "ACTIVE" | "EXPIRED" | "TERMINATED";
+
 export interface Lease {
   id: string;
   leaseNickname: string;
@@ -9,7 +13,11 @@ export interface Lease {
   endDate: string | null;
   rentAmount: number;
   interval: "DAILY" | "WEEKLY" | "MONTHLY";
-  status: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED";
+  gracePeriodDays: number;
+  lateFeeType: LateFeeType | null;
+  lateFeeAmount: number | null;
+  lateFeeMaxAmount: number | null;
+  status: LeaseStatus;
   hasFormalDocument: boolean;
   leaseDocumentUrl: string | null;
   landlordName: string | null;
@@ -72,7 +80,11 @@ export interface LeaseDetails {
   endDate: string | null;
   rentAmount: number;
   interval: "DAILY" | "WEEKLY" | "MONTHLY";
-  status: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED";
+  gracePeriodDays: number;
+  lateFeeType: LateFeeType | null;
+  lateFeeAmount: number | null;
+  lateFeeMaxAmount: number | null;
+  status: LeaseStatus;
   hasFormalDocument: boolean;
   leaseDocumentUrl: string | null;
   landlordName: string | null;
@@ -85,6 +97,7 @@ export interface LeaseDetails {
     label: string;
     status: string;
     targetPrice: number;
+    securityDeposit: number | null;
     property: {
       id: string;
       title: string;
@@ -121,6 +134,7 @@ export interface LeaseDetails {
     isExpiringSoon: boolean;
     isOverdue: boolean;
   };
+  balance: LeaseBalance;
   behaviorAnalysis: {
     id: string;
     paymentBehavior: string | null;
@@ -133,6 +147,181 @@ export interface LeaseDetails {
     aiSummary: string | null;
     aiCategory: string | null;
   } | null;
+  renewalOffers: LeaseRenewalOffer[];
+  previousLease: LeaseRenewalLink | null;
+  renewedBy: LeaseRenewalLink | null;
+  termination: LeaseTermination | null;
+  contract: LeaseContractVersion | null;
+}
+
+export interface DepositDeduction {
+  id: string;
+  description: string;
+  amount: number;
+  createdAt: string;
+}
+
+export interface LeaseTermination {
+  id: string;
+  leaseId: string;
+  noticeDate: string;
+  moveOutDate: string;
+  reason: string | null;
+  originalEndDate: string | null;
+  status: "NOTICE" | "MOVED_OUT" | "SETTLED";
+  movedOutAt: string | null;
+  depositHeld: number | null;
+  totalDeductions: number;
+  refundAmount: number | null;
+  settledAt: string | null;
+  deductions?: DepositDeduction[];
+}
+
+export interface CreateLeaseTerminationData {
+  noticeDate: string;
+  moveOutDate: string;
+  reason?: string;
+}
+
+export interface SettleDepositData {
+  depositHeld: number;
+  deductions: Array<{ description: string; amount: number }>;
+}
+
+export type RenewalOfferStatus = "PENDING" | "ACCEPTED" | "DECLINED" | "WITHDRAWN" | "EXPIRED";
+
+export interface LeaseRenewalOffer {
+  id: string;
+  leaseId: string;
+  startDate: string;
+  endDate: string;
+  rentAmount: number;
+  interval: "DAILY" | "WEEKLY" | "MONTHLY";
+  message: string | null;
+  status: RenewalOfferStatus;
+  expiresAt: string | null;
+  respondedAt: string | null;
+  declineReason: string | null;
+  createdAt: string;
+}
+
+// Neighbouring lease in a renewal chain
+export interface LeaseRenewalLink {
+  id: string;
+  leaseNickname: string;
+  startDate: string;
+  endDate: string | null;
+  status: LeaseStatus;
+}
+
+export interface CreateRenewalOfferData {
+  startDate: string;
+  endDate: string;
+  rentAmount: number;
+  interval: "DAILY" | "WEEKLY" | "MONTHLY";
+  message?: string;
+  expiresAt?: string;
+}
+
+export type ContractUtilityPayer = "TENANT" | "LANDLORD" | "SHARED";
+
+export interface LeaseContractFee {
+  name: string;
+  amount: number;
+}
+
+export interface LeaseContractOccupant {
+  name: string;
+  relationship: string;
+}
+
+export interface LeaseContractUtility {
+  utility: string;
+  paidBy: ContractUtilityPayer;
+}
+
+export interface LeaseContractKey {
+  type: string;
+  quantity: number;
+}
+
+export interface LeaseContractConditionItem {
+  space: string;
+  item: string;
+  condition: string;
+  notes: string;
+}
+
+// Contract builder payload (LeaseDocument fields); blank fields stay empty in the PDF
+export interface LeaseContractData {
+  leaseNickname?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  endBehavior?: "RENEW_MONTH_TO_MONTH" | "TERMINATE_ON_END_DATE" | "OTHER" | null;
+  leaseTermType?: "FIXED" | "MONTH_TO_MONTH" | "SHORT_TERM" | "LONG_TERM" | null;
+  addressStreet?: string | null;
+  addressBarangay?: string | null;
+  addressZipCode?: string | null;
+  addressCity?: string | null;
+  addressMunicipality?: string | null;
+  roomDescription?: string | null;
+  monthlyRent?: number | null;
+  securityDepositAmount?: number | null;
+  securityDepositMonths?: number | null;
+  allowableDepositDeductions?: string | null;
+  depositHeldAtName?: string | null;
+  depositHeldAtAddress?: string | null;
+  oneTimeFees?: LeaseContractFee[] | null;
+  paymentAccepted?: string[] | null;
+  tenantFirstName?: string | null;
+  tenantLastName?: string | null;
+  tenantEmail?: string | null;
+  tenantPhone?: string | null;
+  additionalOccupants?: LeaseContractOccupant[] | null;
+  landlordFirstName?: string | null;
+  landlordLastName?: string | null;
+  landlordMailingAddress?: string | null;
+  petAllowed?: boolean;
+  petTypes?: string | null;
+  smokingPolicy?: "YES" | "NO" | "OUTSIDE_ONLY" | null;
+  parkingIncluded?: boolean;
+  parkingDescription?: string | null;
+  utilitiesResponsibilities?: LeaseContractUtility[] | null;
+  sharedUtilitiesNote?: string | null;
+  keysProvided?: LeaseContractKey[] | null;
+  lostKeyPolicy?: string | null;
+  maintenanceNote?: string | null;
+  earlyTerminationAllowed?: boolean;
+  additionalTerms?: string | null;
+  conditionReportName?: string | null;
+  conditionReportType?: "MOVE_IN" | "MOVE_OUT" | "OTHER" | null;
+  conditionReportDate?: string | null;
+  conditionReportItems?: LeaseContractConditionItem[] | null;
+  homeGuideWelcomeNote?: string | null;
+  homeGuideWelcomeImageUrl?: string | null;
+  homeGuideAccessSecurity?: string | null;
+  homeGuideHouseRules?: string | null;
+  homeGuideCommunication?: string | null;
+  homeGuideLeaseInfo?: string | null;
+}
+
+export interface LeaseContractVersion {
+  id: string;
+  version: number;
+  generatedAt: string;
+  generatedBy?: string | null;
+}
+
+export interface LeaseContractDocument extends LeaseContractData, LeaseContractVersion {
+  leaseId: string;
+  conditionReportSpaces: string[] | null;
+  createdAt: string;
+}
+
+export interface LeaseContractResponse {
+  document: LeaseContractDocument | null;
+  draft: LeaseContractData | null; // prefill when no version exists yet
+  versions: LeaseContractVersion[];
 }
 
 export interface LeaseStats {
@@ -169,6 +358,10 @@ export interface CreateLeaseData {
   endDate?: string;
   rentAmount: number;
   interval: "DAILY" | "WEEKLY" | "MONTHLY";
+  gracePeriodDays?: number;
+  lateFeeType?: LateFeeType | "NONE";
+  lateFeeAmount?: number;
+  lateFeeMaxAmount?: number;
   status: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED";
   hasFormalDocument?: boolean;
   leaseDocumentUrl?: string;
@@ -185,7 +378,11 @@ export interface UpdateLeaseData {
   endDate?: string;
   rentAmount?: number;
   interval?: "DAILY" | "WEEKLY" | "MONTHLY";
-  status?: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED";
+  gracePeriodDays?: number;
+  lateFeeType?: LateFeeType | "NONE";
+  lateFeeAmount?: number;
+  lateFeeMaxAmount?: number;
+  status?: LeaseStatus;
   hasFormalDocument?: boolean;
   leaseDocumentUrl?: string;
   landlordName?: string;
@@ -245,4 +442,70 @@ export const generateLeasePDF = async (leaseId: string): Promise<Blob> => {
     responseType: 'blob'
   });
   return response.data;
-};
\ No newline at end of file
+};
+
+// Latest contract document (or a prefilled draft) and its version history
+export const getLeaseDocumentRequest = async (leaseId: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<LeaseContractResponse>(`/landlord/leases/${leaseId}/document`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// Save the contract builder as a new version
+export const saveLeaseDocumentRequest = async (leaseId: string, data: LeaseContractData) => {
+  const response = await privateApi.post<{ message: string; document: LeaseContractDocument }>(
+    `/landlord/leases/${leaseId}/document`,
+    data
+  );
+  return response;
+};
+
+// Send a renewal offer for an active lease
+export const createRenewalOfferRequest = async (leaseId: string, data: CreateRenewalOfferData) => {
+  const response = await privateApi.post<{ message: string; offer: LeaseRenewalOffer }>(
+    `/landlord/leases/${leaseId}/renewal-offers`,
+    data
+  );
+  return response;
+};
+
+// Withdraw a pending renewal offer
+export const withdrawRenewalOfferRequest = async (offerId: string) => {
+  const response = await privateApi.post<{ message: string; offer: LeaseRenewalOffer }>(
+    `/landlord/renewal-offers/${offerId}/withdraw`
+  );
+  return response;
+};
+
+// Give termination notice (the lease ends on the move-out date)
+export const createLeaseTerminationRequest = async (leaseId: string, data: CreateLeaseTerminationData) => {
+  const response = await privateApi.post<{ message: string; termination: LeaseTermination }>(
+    `/landlord/leases/${leaseId}/termination`,
+    data
+  );
+  return response;
+};
+
+// Cancel a termination notice before move-out
+export const cancelLeaseTerminationRequest = async (leaseId: string) => {
+  const response = await privateApi.delete(`/landlord/leases/${leaseId}/termination`);
+  return response;
+};
+
+// Settle the security deposit with itemized deductions
+export const settleLeaseDepositRequest = async (leaseId: string, data: SettleDepositData) => {
+  const response = await privateApi.post<{ message: string; termination: LeaseTermination }>(
+    `/landlord/leases/${leaseId}/termination/settle`,
+    data
+  );
+  return response;
+};
+
+// Download the move-out final statement PDF
+export const downloadFinalStatement = async (leaseId: string): Promise<Blob> => {
+  const response = await privateApi.get(`/landlord/leases/${leaseId}/final-statement`, {
+    responseType: 'blob'
+  });
+  return response.data;
+};
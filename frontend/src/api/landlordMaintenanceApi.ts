@@ -1,12 +1,54 @@
 import { privateApi } from "./axios";
 
 // Types for maintenance request data
+export type MaintenancePriority = "LOW" | "MEDIUM" | "HIGH" | "EMERGENCY";
+export type MaintenanceCategory = "PLUMBING" | "ELECTRICAL" | "APPLIANCE" | "HVAC" | "STRUCTURAL" | "PEST" | "GENERAL";
+export type SlaState = "ON_TRACK" | "AT_RISK" | "BREACHED" | "MET";
+
+export interface MaintenanceSla {
+  state: SlaState;
+  responseDueAt: string;
+  resolutionDueAt: string;
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+  nextDueAt: string | null;
+  hoursRemaining: number | null;
+}
+
+export interface Contractor {
+  id: string;
+  name: string;
+  company: string | null;
+  specialty: MaintenanceCategory | null;
+  phone: string | null;
+  email: string | null;
+  openWorkOrders?: number;
+}
+
+export interface MaintenanceAttachment {
+  id: string;
+  kind: "IMAGE" | "VIDEO";
+  url: string;
+  thumbnailUrl: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
 export interface MaintenanceRequest {
   id: string;
   description: string;
-  photoUrl: string;
+  photoUrl: string | null;
+  attachments: MaintenanceAttachment[];
   status: "OPEN" | "IN_PROGRESS" | "RESOLVED";
-  priority: "LOW" | "MEDIUM" | "HIGH";
+  priority: MaintenancePriority;
+  category: MaintenanceCategory;
+  contractor: Contractor | null;
+  scheduledStart: string | null;
+  scheduledEnd: string | null;
+  // Set when generated from a preventive maintenance schedule
+  scheduleId: string | null;
+  sla: MaintenanceSla;
   createdAt: string;
   updatedAt: string;
   timeAgo: string;
@@ -33,7 +75,37 @@ export interface MaintenanceRequest {
   };
 }
 
+export interface MaintenanceTimelineEntry {
+  id: string;
+  requestId: string;
+  type: "STATUS_CHANGE" | "COMMENT";
+  fromStatus: string | null;
+  toStatus: string | null;
+  message: string | null;
+  photoUrl: string | null;
+  createdAt: string;
+  author: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    avatarUrl: string | null;
+    role: string;
+    fullName: string;
+  };
+}
+
+export interface MaintenanceCost {
+  id: string;
+  costType: "LABOR" | "PARTS";
+  amount: number;
+  description: string;
+  date: string;
+  receiptUrl: string | null;
+}
+
 export interface MaintenanceRequestDetails extends MaintenanceRequest {
+  costs: MaintenanceCost[];
+  totalCost: number;
   timeInfo: {
     timeAgo: string;
     daysOpen: number;
@@ -74,6 +146,8 @@ export interface MaintenanceStats {
     inProgressRequests: number;
     resolvedRequests: number;
     urgentRequests: number;
+    slaBreachedRequests: number;
+    slaComplianceRate: number;
     resolutionRate: number;
     averageResolutionTime: number;
   };
@@ -90,6 +164,73 @@ export interface UpdateMaintenanceStatusData {
   notes?: string;
 }
 
+export interface UpdateWorkOrderData {
+  priority?: MaintenancePriority;
+  category?: MaintenanceCategory;
+  contractorId?: string | null;
+  scheduledStart?: string | null;
+  scheduledEnd?: string | null;
+}
+
+export interface CreateContractorData {
+  name: string;
+  company?: string;
+  specialty?: MaintenanceCategory;
+  phone?: string;
+  email?: string;
+}
+
+export interface MaintenanceSchedule {
+  id: string;
+  propertyId: string;
+  unitId: string | null;
+  title: string;
+  description: string | null;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  intervalMonths: number;
+  nextDueAt: string;
+  leadDays: number;
+  contractorId: string | null;
+  isActive: boolean;
+  lastGeneratedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  property: { id: string; title: string };
+  unit: { id: string; label: string } | null;
+  contractor: { id: string; name: string; company: string | null } | null;
+  openWorkOrders: number;
+}
+
+export interface MaintenanceScheduleData {
+  propertyId?: string;
+  unitId?: string | null;
+  title?: string;
+  description?: string;
+  category?: MaintenanceCategory;
+  priority?: MaintenancePriority;
+  intervalMonths?: number;
+  nextDueAt?: string;
+  leadDays?: number;
+  contractorId?: string | null;
+  isActive?: boolean;
+}
+
+export interface PreventiveCalendarEvent {
+  id: string;
+  scheduleId: string | null;
+  // Set once the occurrence has been turned into a work order
+  maintenanceRequestId: string | null;
+  title: string;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  dueAt: string;
+  status: "PLANNED" | "OPEN" | "IN_PROGRESS" | "RESOLVED";
+  property: { id: string; title: string };
+  unit: { id: string; label: string } | null;
+  contractor: { id: string; name: string; company: string | null } | null;
+}
+
 // API functions
 export const getLandlordMaintenanceRequestsRequest = async (params?: { signal?: AbortSignal }) => {
   const response = await privateApi.get<MaintenanceRequest[]>("/landlord/maintenance", {
@@ -117,6 +258,90 @@ export const updateMaintenanceRequestStatusRequest = async (requestId: string, d
   return response;
 };
 
+export const getMaintenanceTimelineRequest = async (requestId: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<MaintenanceTimelineEntry[]>(`/landlord/maintenance/${requestId}/timeline`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// FormData with `message` and/or a `maintenanceImage` file
+export const addMaintenanceCommentRequest = async (requestId: string, data: FormData) => {
+  const response = await privateApi.post(`/landlord/maintenance/${requestId}/comments`, data, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response;
+};
+
+// FormData with `costType`, `amount`, optional `description`/`date` and an optional `receipt` file
+export const addMaintenanceCostRequest = async (requestId: string, data: FormData) => {
+  const response = await privateApi.post<{ message: string; cost: MaintenanceCost }>(`/landlord/maintenance/${requestId}/costs`, data, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response;
+};
+
+export const deleteMaintenanceCostRequest = async (requestId: string, costId: string) => {
+  const response = await privateApi.delete(`/landlord/maintenance/${requestId}/costs/${costId}`);
+  return response;
+};
+
+export const updateMaintenanceWorkOrderRequest = async (requestId: string, data: UpdateWorkOrderData) => {
+  const response = await privateApi.put(`/landlord/maintenance/${requestId}/work-order`, data);
+  return response;
+};
+
+export const getContractorsRequest = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<Contractor[]>("/landlord/contractors", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const createContractorRequest = async (data: CreateContractorData) => {
+  const response = await privateApi.post<{ message: string; contractor: Contractor }>("/landlord/contractors", data);
+  return response;
+};
+
+export const deleteContractorRequest = async (contractorId: string) => {
+  const response = await privateApi.delete(`/landlord/contractors/${contractorId}`);
+  return response;
+};
+
+export const getMaintenanceSchedulesRequest = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<MaintenanceSchedule[]>("/landlord/maintenance-schedules", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const getMaintenanceCalendarRequest = async (params: { from: string; to: string; signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ from: string; to: string; events: PreventiveCalendarEvent[] }>("/landlord/maintenance-schedules/calendar", {
+    params: { from: params.from, to: params.to },
+    signal: params.signal,
+  });
+  return response;
+};
+
+export const createMaintenanceScheduleRequest = async (data: MaintenanceScheduleData) => {
+  const response = await privateApi.post<{ message: string; schedule: MaintenanceSchedule }>("/landlord/maintenance-schedules", data);
+  return response;
+};
+
+export const updateMaintenanceScheduleRequest = async (scheduleId: string, data: MaintenanceScheduleData) => {
+  const response = await privateApi.put<{ message: string; schedule: MaintenanceSchedule }>(`/landlord/maintenance-schedules/${scheduleId}`, data);
+  return response;
+};
+
+export const deleteMaintenanceScheduleRequest = async (scheduleId: string) => {
+  const response = await privateApi.delete(`/landlord/maintenance-schedules/${scheduleId}`);
+  return response;
+};
+
 export const deleteMaintenanceRequestRequest = async (requestId: string) => {
   const response = await privateApi.delete(`/landlord/maintenance/${requestId}`);
   return response;
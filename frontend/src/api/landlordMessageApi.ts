@@ -1,4 +1,18 @@
 import { privateApi } from "./axios";
+import { sendRealtime, subscribeRealtime } from "./realtime";
+
+// Unit / lease a conversation is scoped to (null = general thread)
+export interface ConversationUnit {
+  id: string;
+  label: string;
+  property: { id: string; title: string };
+}
+
+export interface ConversationLease {
+  id: string;
+  leaseNickname: string;
+  status: string;
+}
 
 // Types for message data
 export interface Conversation {
@@ -16,6 +30,7 @@ export interface Conversation {
   lastMessage: {
     id: string;
     content: string;
+    attachmentCount?: number;
     isRead: boolean;
     createdAt: string;
     sender: {
@@ -31,6 +46,18 @@ export interface Conversation {
   createdAt: string;
   updatedAt: string;
   isInquiry?: boolean; // Flag to identify inquiry conversations
+  unit: ConversationUnit | null;
+  lease: ConversationLease | null;
+  isArchived: boolean;
+}
+
+export interface MessageAttachment {
+  id: string;
+  kind: "IMAGE" | "PDF";
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string;  // authenticated download route, only served to the conversation participants
 }
 
 export interface Message {
@@ -38,6 +65,7 @@ export interface Message {
   conversationId: string;
   senderId: string;
   content: string;
+  attachments?: MessageAttachment[];
   isRead: boolean;
   createdAt: string;
   sender: {
@@ -66,6 +94,9 @@ export interface ConversationWithMessages {
     };
     createdAt: string;
     updatedAt: string;
+    unit: ConversationUnit | null;
+    lease: ConversationLease | null;
+    isArchived: boolean;
   };
   messages: Message[];
 }
@@ -80,16 +111,49 @@ export interface MessageStats {
 export interface SendMessageData {
   conversationId?: string;
   recipientId?: string;
+  unitId?: string;  // with recipientId: open the thread about this unit / lease
+  leaseId?: string;
   content: string;
+  attachments?: File[]; // images and PDFs, sent as multipart `attachments[]`
 }
 
 export interface CreateConversationData {
   otherUserId: string;
+  unitId?: string;  // scope the thread to a unit (e.g. an inquiry) ...
+  leaseId?: string; // ... or to a lease; omit both for the general conversation
 }
 
+export interface UpdateConversationData {
+  title?: string | null; // empty/null falls back to the other participant's name
+  archived?: boolean;
+}
+
+export interface MessageSearchResult {
+  id: string;
+  conversationId: string;
+  content: string;
+  createdAt: string;
+  sender: { id: string; fullName: string };
+  conversation: {
+    id: string;
+    title: string;
+    otherUser: { id: string; fullName: string };
+    unit: ConversationUnit | null;
+    lease: ConversationLease | null;
+    isArchived: boolean;
+  };
+}
+
+// Events pushed over the realtime socket
+export type MessageRealtimeEvent =
+  | { type: "message:new"; payload: { message: Message } }
+  | { type: "message:read"; payload: { conversationId: string; readerId: string; readAt: string } }
+  | { type: "typing"; payload: { conversationId: string; userId: string; isTyping: boolean } };
+
 // API functions
-export const getLandlordConversationsRequest = async (params?: { signal?: AbortSignal }) => {
+export const getLandlordConversationsRequest = async (params?: { signal?: AbortSignal; archived?: boolean }) => {
   const response = await privateApi.get<Conversation[]>("/landlord/messages", {
+    params: params?.archived ? { archived: true } : undefined,
     signal: params?.signal,
   });
   return response;
@@ -103,7 +167,22 @@ export const getConversationMessagesRequest = async (conversationId: string, par
 };
 
 export const sendMessageRequest = async (data: SendMessageData) => {
-  const response = await privateApi.post("/landlord/messages", data);
+  const { attachments, ...fields } = data;
+  let body: Omit<SendMessageData, "attachments"> | FormData = fields;
+
+  if (attachments?.length) {
+    body = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) body.append(key, value);
+    }
+    for (const file of attachments) body.append("attachments", file);
+  }
+
+  const response = await privateApi.post("/landlord/messages", body, {
+    headers: {
+      'Content-Type': body instanceof FormData ? 'multipart/form-data' : 'application/json',
+    },
+  });
   return response;
 };
 
@@ -112,8 +191,17 @@ export const createOrGetConversationRequest = async (data: CreateConversationDat
   return response;
 };
 
-export const deleteConversationRequest = async (conversationId: string) => {
-  const response = await privateApi.delete(`/landlord/messages/${conversationId}`);
+// Rename and/or archive (archiving replaces deleting; history is kept)
+export const updateConversationRequest = async (conversationId: string, data: UpdateConversationData) => {
+  const response = await privateApi.patch(`/landlord/messages/${conversationId}`, data);
+  return response;
+};
+
+export const searchMessagesRequest = async (query: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ query: string; results: MessageSearchResult[] }>("/landlord/messages/search", {
+    params: { q: query },
+    signal: params?.signal,
+  });
   return response;
 };
 
@@ -127,4 +215,19 @@ export const getMessageStatsRequest = async (params?: { signal?: AbortSignal })
 export const deleteMessageRequest = async (messageId: string) => {
   const response = await privateApi.delete(`/landlord/messages/message/${messageId}`);
   return response;
-};
\ No newline at end of file
+};
+
+// Realtime: live messages, read receipts and typing indicators; returns the unsubscribe function
+export const subscribeToMessageEvents = (onEvent: (event: MessageRealtimeEvent) => void) =>
+  subscribeRealtime((event) => {
+    if (event.type === "message:new" || event.type === "message:read" || event.type === "typing") {
+      onEvent(event as MessageRealtimeEvent);
+    }
+  });
+
+export const sendTypingIndicator = (conversationId: string, isTyping: boolean) =>
+  sendRealtime({ type: "typing", conversationId, isTyping });
+
+// Marks the other participant's messages as read while the conversation is open
+export const markConversationReadLive = (conversationId: string) =>
+  sendRealtime({ type: "read", conversationId });
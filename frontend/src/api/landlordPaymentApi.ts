@@ -1,4 +1,6 @@
 import { privateApi } from "./axios";
+import type { ChargeType, RentSchedule } from "@/types/rentScheduleType";
+import type { PaymentIntentStatus } from "./paymentApi";
 
 // ---------------------------------------------- INTERFACES ----------------------------------------------
 
@@ -8,7 +10,7 @@ export interface Payment {
   paidAt: string | null;
   method: string | null;
   providerTxnId: string | null;
-  status: "PENDING" | "PAID";
+  status: "PENDING" | "PAID" | "FAILED" | "REFUNDED";
   timingStatus: "ONTIME" | "LATE" | "ADVANCE";
   isPartial: boolean;
   note: string | null;
@@ -63,6 +65,31 @@ export interface PaymentDetails extends Payment {
       avatarUrl: string | null;
     };
   };
+  charge: {
+    id: string;
+    type: ChargeType;
+    periodStart: string;
+    periodEnd: string;
+    dueDate: string;
+    amount: number;
+    status: string;
+    paidAt: string | null;
+  } | null;
+  lateFees: Array<{
+    id: string;
+    periodStart: string;
+    dueDate: string;
+    amount: number;
+    amountPaid: number;
+    status: string;
+    paidAt: string | null;
+  }>;
+  intent: {
+    id: string;
+    provider: string;
+    status: PaymentIntentStatus;
+    failureReason: string | null;
+  } | null;
 }
 
 export interface PaymentStats {
@@ -122,8 +149,10 @@ export interface PaymentHistory {
     timingStatus: string;
     isPartial: boolean;
     note: string | null;
+    chargeId: string | null;
     createdAt: string;
   }>;
+  schedule: RentSchedule;
 }
 
 export interface PaymentReminder {
@@ -217,3 +246,14 @@ export const sendPaymentReminderRequest = async (leaseId: string, data?: SendRem
   }>(`/landlord/leases/${leaseId}/reminder`, data);
   return response;
 };
+
+export const refundPaymentRequest = async (paymentId: string) => {
+  const response = await privateApi.post<{
+    message: string;
+    payment: {
+      id: string;
+      status: string;
+    };
+  }>(`/landlord/payments/${paymentId}/refund`);
+  return response;
+};
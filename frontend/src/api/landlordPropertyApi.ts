@@ -1,4 +1,5 @@
 import { privateApi } from "./axios";
+import type { PaymentIntentStatus } from "./paymentApi";
 
 // ---------------------- Dashboard ----------------------
 
@@ -73,11 +74,19 @@ export const updateUnitRequest = (
   privateApi.put(`/landlord/property/${propertyId}/units/${unitId}`, data, { signal: options?.signal });
 
 
+// Post, edit or remove (empty reply) the public reply to a published unit review
+export const replyToUnitReviewRequest = (
+  reviewId: string,
+  reply: string,
+  options?: { signal?: AbortSignal }
+) =>
+  privateApi.put(`/landlord/reviews/${reviewId}/reply`, { reply }, { signal: options?.signal });
+
   // Request listing for a unit
 export const requestListingRequest = (
   propertyId: string,
   unitId: string,
-  data: any, // contains optional notes, revisions, etc.
+  data: any, // contains paymentIntentId of the paid listing fee
   options?: { signal?: AbortSignal }
 ) =>
   privateApi.post(
@@ -86,6 +95,30 @@ export const requestListingRequest = (
     { signal: options?.signal }
   );
 
+  // Download the receipt issued for a paid listing fee
+export const downloadListingReceiptRequest = async (listingId: string): Promise<Blob> => {
+  const response = await privateApi.get(`/landlord/listings/${listingId}/receipt`, {
+    responseType: 'blob'
+  });
+  return response.data;
+};
+
+  // Start the listing fee payment for a unit (fee is computed by the server)
+export const createListingPaymentIntentRequest = (
+  propertyId: string,
+  unitId: string,
+  data: { method?: string },
+  options?: { signal?: AbortSignal }
+) =>
+  privateApi.post<{
+    message: string;
+    intent: { id: string; provider: string; providerRef: string; amount: number; status: PaymentIntentStatus };
+  }>(
+    `/landlord/property/${propertyId}/units/${unitId}/listing-payment`,
+    data,
+    { signal: options?.signal }
+  );
+
 
   
 // ✅ Get categorized listing status for all units in a property
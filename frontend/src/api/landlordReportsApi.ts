@@ -14,6 +14,8 @@ export interface PropertyPerformanceReport {
     totalRevenue: number;
     totalExpenses: number;
     totalNetIncome: number;
+    totalMaintenanceCost: number;
+    maintenanceCostPerUnit: number;
     averageROI: number;
   };
   propertyPerformance: Array<{
@@ -25,6 +27,8 @@ export interface PropertyPerformanceReport {
     occupancyRate: number;
     totalRevenue: number;
     totalExpenses: number;
+    maintenanceCost: number;
+    maintenanceCostPerUnit: number;
     netIncome: number;
     roi: number;
     address: string;
@@ -74,6 +78,12 @@ export interface TenantAnalyticsReport {
   averageMetrics: {
     paymentReliability: number;
     maintenanceRequests: number;
+    renewalRate: number;          // % of ended leases that were renewed
+    averageLeaseDuration: number; // days per tenancy (renewal chain)
+  };
+  renewals: {
+    renewedLeases: number;
+    renewalEligibleLeases: number;
   };
   tenantDetails: Array<{
     tenantId: string;
@@ -31,16 +31,25 @@ export interface TenantWithBehavior {
       status: string;
     };
   } | null;
+  // Latest stored analysis of the current lease (reliability and risk score are null until the first payment)
   behaviorAnalysis: {
     riskLevel: "LOW" | "MEDIUM" | "HIGH";
-    paymentReliability: number;
+    paymentReliability: number | null;
+    paymentBehavior: "ONTIME" | "LATE" | "ADVANCE" | "MIXED" | null;
     totalPayments: number;
     onTimePayments: number;
+    latePayments: number;
+    advancePayments: number;
+    averagePaymentDelay: number;
     maintenanceRequestsCount: number;
     recentMaintenanceCount: number;
+    maintenanceRiskLevel: "LOW" | "MEDIUM" | "HIGH";
     hasFrequentComplaints: boolean;
-    aiRiskScore: number;
+    complaintNotes: string | null; // rule violation summary, e.g. "2 rule violations logged (2 notices)"
+    aiRiskScore: number | null;
+    behaviorScore: number | null;
     aiSummary: string;
+    aiCategory: string;
     lastAnalysisDate: string;
   };
   recentPayments: Array<{
@@ -136,7 +145,6 @@ export interface TenantDetails extends TenantWithBehavior {
     screeningRiskLevel: string | null;
     aiScreeningSummary: string | null;
     createdAt: string;
-    status: string;
   } | null;
 }
 
@@ -145,20 +153,67 @@ export interface ScreeningResult {
   tenantId: string;
   unitId: string;
   riskLevel: string;
-  summary: string;
-  status: string;
+  aiRiskScore: number; // 0 → 1, higher is riskier
+  score: number | null; // 0-100, higher is better
+  summary: string | null; // one line per check
   createdAt: string;
   updatedAt: string;
-  recommendations: string[];
-  screeningData: {
-    creditScore: number;
-    criminalBackground: boolean;
-    evictionHistory: boolean;
-    employmentVerification: boolean;
-    incomeVerification: boolean;
+  unit?: {
+    id: string;
+    label: string;
+    property: { id: string; title: string; street: string; barangay: string };
   };
 }
 
+export type ScreeningCheckName = "income" | "documents" | "references" | "lifestyle";
+
+export interface ScreeningCheck {
+  score: number; // 0-100
+  passed: boolean;
+  details: string;
+  recommendation: string | null;
+  ratio?: number | null; // income: monthly income ÷ rent
+  missing?: string[]; // documents: missing document fields
+  conflicts?: string[]; // lifestyle: answers that clash with the unit rules
+}
+
+export interface ScreeningBreakdown {
+  score: number;
+  riskLevel: string;
+  weights: Record<ScreeningCheckName, number>; // whole percentages adding up to 100
+  checks: Record<ScreeningCheckName, ScreeningCheck>;
+}
+
+export interface RunScreeningResponse {
+  message: string;
+  screening: ScreeningResult;
+  breakdown: ScreeningBreakdown;
+  recommendations: string[];
+}
+
+export type BehaviorScorePart = "paymentReliability" | "communication" | "propertyCare" | "ruleCompliance";
+
+// Whole percentages adding up to 100
+export type BehaviorScoreWeights = Record<BehaviorScorePart, number>;
+
+export interface BehaviorScoreBreakdown {
+  score: number | null; // 0-100, higher is better
+  weights: BehaviorScoreWeights;
+  parts: Record<BehaviorScorePart, number | null>; // null = no data yet (left out of the score)
+  averageResponseHours: number | null;
+}
+
+export interface BehaviorHistoryPoint {
+  date: string;
+  leaseId: string;
+  trigger: "PAYMENT" | "MAINTENANCE" | "MOVE_OUT" | "VIOLATION" | "WEIGHTS" | "SCHEDULED" | null;
+  riskLevel: "LOW" | "MEDIUM" | "HIGH";
+  riskScore: number | null; // 0-100, higher is riskier
+  behaviorScore: number | null;
+  paymentReliability: number | null;
+  maintenanceRequestsCount: number;
+}
+
 export interface BehaviorReport {
   tenant: {
     id: string;
@@ -175,6 +230,9 @@ export interface BehaviorReport {
     maintenanceRequestsCount: number;
     recentMaintenanceCount: number;
     averagePaymentDelay: number;
+    aiSummary: string | null;
+    aiCategory: string | null;
+    lastAnalysisDate: string | null;
   };
   detailedAnalysis: {
     paymentBehavior: {
@@ -204,6 +262,8 @@ export interface BehaviorReport {
       renewalRate: number;
     };
   };
+  scoreBreakdown: BehaviorScoreBreakdown | null;
+  history: BehaviorHistoryPoint[]; // stored snapshots, oldest first
   recommendations: string[];
   riskFactors: string[];
 }
@@ -228,9 +288,45 @@ export interface TenantStats {
   };
 }
 
+export type ViolationWarningLevel = "NOTICE" | "WARNING" | "FINAL_WARNING";
+
+export type ViolationStatus = "OPEN" | "ACKNOWLEDGED" | "DISPUTED" | "WITHDRAWN";
+
+export interface LeaseRuleViolation {
+  id: string;
+  leaseId: string;
+  ruleIndex: number;
+  ruleText: string;
+  description: string;
+  warningLevel: ViolationWarningLevel;
+  evidenceUrls: string[] | null;
+  occurredAt: string;
+  status: ViolationStatus;
+  tenantResponse: string | null;
+  respondedAt: string | null;
+  withdrawnAt: string | null;
+  createdAt: string;
+  lease: {
+    id: string;
+    leaseNickname: string;
+    unit: { id: string; label: string; property: { id: string; title: string } };
+  };
+}
+
+export interface ViolationLease {
+  id: string;
+  leaseNickname: string;
+  status: string;
+  canLogViolations: boolean; // active leases only
+  unit: { id: string; label: string; property: { id: string; title: string } };
+  rules: string[]; // the lease's rules, or the unit's when the lease has none
+}
+
+// Either the application id, or a tenant and unit (their latest application for it)
 export interface RunScreeningData {
-  tenantId: string;
-  unitId: string;
+  applicationId?: string;
+  tenantId?: string;
+  unitId?: string;
 }
 
 // API functions
@@ -256,7 +352,7 @@ export const getTenantStatsRequest = async (params?: { signal?: AbortSignal }) =
 };
 
 export const runTenantScreeningRequest = async (data: RunScreeningData) => {
-  const response = await privateApi.post("/landlord/tenants/screening", data);
+  const response = await privateApi.post<RunScreeningResponse>("/landlord/tenants/screening", data);
   return response;
 };
 
@@ -274,6 +370,40 @@ export const generateBehaviorReportRequest = async (tenantId: string, reportType
   return response;
 };
 
+export const getBehaviorWeightsRequest = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ weights: BehaviorScoreWeights }>("/landlord/tenants/behavior-weights", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const updateBehaviorWeightsRequest = async (weights: Partial<BehaviorScoreWeights>) => {
+  const response = await privateApi.put<{ message: string; weights: BehaviorScoreWeights }>("/landlord/tenants/behavior-weights", weights);
+  return response;
+};
+
+export const getTenantViolationsRequest = async (tenantId: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ leases: ViolationLease[]; violations: LeaseRuleViolation[] }>(`/landlord/tenants/${tenantId}/violations`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// FormData with `ruleIndex`, `description`, `warningLevel`, optional `occurredAt` and up to 5 `evidence` photos
+export const logLeaseRuleViolationRequest = async (leaseId: string, data: FormData) => {
+  const response = await privateApi.post<{ message: string; violation: LeaseRuleViolation }>(`/landlord/leases/${leaseId}/violations`, data, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response;
+};
+
+export const withdrawLeaseRuleViolationRequest = async (violationId: string) => {
+  const response = await privateApi.patch<{ message: string; violation: LeaseRuleViolation }>(`/landlord/violations/${violationId}/withdraw`);
+  return response;
+};
+
 // Tenant Application Types
 export interface TenantApplication {
   id: string;
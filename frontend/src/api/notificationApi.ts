@@ -1,4 +1,5 @@
 import { privateApi } from "./axios";
+import { subscribeRealtime } from "./realtime";
 
 // ---------------------------------------------- INTERFACES ----------------------------------------------
 
@@ -24,12 +25,31 @@ export interface NotificationResponse {
   unreadCount: number;
 }
 
+export interface NotificationRealtimeHandlers {
+  // A notification was just created for the current user
+  onNotification: (notification: Notification, unreadCount: number) => void;
+  // Unread count changed elsewhere (e.g. read or deleted in another tab)
+  onUnreadCount: (unreadCount: number) => void;
+}
+
 export interface NotificationFilters {
   limit?: number;
   offset?: number;
   status?: "ALL" | "UNREAD" | "READ" | "ARCHIVED";
 }
 
+export type NotificationCategory = "PAYMENT" | "LEASE" | "MAINTENANCE" | "MESSAGE" | "SYSTEM";
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationCategory, NotificationChannels>;
+  dailyDigest: boolean; // one email a day with unread in-app notifications
+}
+
 // ---------------------------------------------- API FUNCTIONS ----------------------------------------------
 
 // Get user notifications
@@ -62,6 +82,29 @@ export const deleteNotification = async (notificationId: string): Promise<void>
 
 // Get unread count only (for header badge)
 export const getUnreadCount = async (): Promise<number> => {
-  const response = await getNotifications({ limit: 1, status: "UNREAD" });
-  return response.unreadCount;
+  const response = await privateApi.get<{ unreadCount: number }>('/auth/notifications/unread-count');
+  return response.data.unreadCount;
+};
+
+// Get the current user's delivery channels per category
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  const response = await privateApi.get<{ preferences: NotificationPreferences }>('/auth/notification-preferences');
+  return response.data.preferences;
 };
+
+// Save delivery channels and the daily digest toggle
+export const updateNotificationPreferences = async (preferences: NotificationPreferences): Promise<NotificationPreferences> => {
+  const response = await privateApi.put<{ preferences: NotificationPreferences }>('/auth/notification-preferences', preferences);
+  return response.data.preferences;
+};
+
+// Live notifications pushed over the realtime socket; returns the unsubscribe function
+export const subscribeToNotifications = (handlers: NotificationRealtimeHandlers) =>
+  subscribeRealtime((event) => {
+    if (event.type === "notification:new") {
+      const { notification, unreadCount } = event.payload as { notification: Notification; unreadCount: number };
+      handlers.onNotification(notification, unreadCount);
+    } else if (event.type === "notification:unread") {
+      handlers.onUnreadCount((event.payload as { unreadCount: number }).unreadCount);
+    }
+  });
@@ -0,0 +1,58 @@
+import { privateApi } from "./axios";
+
+// ---------------------------------------------- INTERFACES ----------------------------------------------
+
+export type PaymentIntentStatus = "REQUIRES_CONFIRMATION" | "PROCESSING" | "SUCCEEDED" | "FAILED" | "REFUNDED";
+
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  providerRef: string;
+  purpose: "RENT" | "LISTING_FEE";
+  amount: number;
+  currency: string;
+  method: string | null;
+  status: PaymentIntentStatus;
+  failureReason: string | null;
+  paymentId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConfirmPaymentIntentData {
+  simulateOutcome?: "succeed" | "fail"; // only honoured by the simulated provider
+}
+
+// ---------------------------------------------- API FUNCTIONS ----------------------------------------------
+
+export const getPaymentIntentRequest = async (intentId: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ intent: PaymentIntent }>(`/payments/intents/${intentId}`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+export const confirmPaymentIntentRequest = async (intentId: string, data?: ConfirmPaymentIntentData) => {
+  const response = await privateApi.post<{
+    message: string;
+    intent: PaymentIntent;
+  }>(`/payments/intents/${intentId}/confirm`, data);
+  return response;
+};
+
+// Poll an intent until the provider webhook settles it (SUCCEEDED / FAILED) or we give up
+export const waitForPaymentIntent = async (
+  intentId: string,
+  options?: { intervalMs?: number; timeoutMs?: number; signal?: AbortSignal }
+): Promise<PaymentIntent> => {
+  const intervalMs = options?.intervalMs ?? 1500;
+  const deadline = Date.now() + (options?.timeoutMs ?? 60000);
+
+  while (true) {
+    const { data } = await getPaymentIntentRequest(intentId, { signal: options?.signal });
+    if (!["REQUIRES_CONFIRMATION", "PROCESSING"].includes(data.intent.status) || Date.now() >= deadline) {
+      return data.intent;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
@@ -0,0 +1,74 @@
+// src/api/realtime.ts
+// Single shared WebSocket to the backend's /ws endpoint. It is authenticated by the
+// same accessToken cookie as privateApi, opens on the first subscriber, reconnects
+// with backoff while anyone is subscribed, and closes when the last one leaves.
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:5000/api";
+const REALTIME_URL = `${BACKEND_URL.replace(/\/api\/?$/, "").replace(/^http/, "ws")}/ws`;
+
+const MAX_RETRY_MS = 30000;
+
+export interface RealtimeEvent {
+  type: string;
+  payload: unknown;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const listeners = new Set<RealtimeListener>();
+let socket: WebSocket | null = null;
+let retryMs = 1000;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const connect = () => {
+  retryTimer = null;
+  const current = new WebSocket(REALTIME_URL);
+  socket = current;
+
+  current.onopen = () => {
+    retryMs = 1000;
+  };
+
+  current.onmessage = (message) => {
+    try {
+      const event = JSON.parse(message.data) as RealtimeEvent;
+      listeners.forEach(listener => listener(event));
+    } catch {
+      // ignore malformed frames
+    }
+  };
+
+  current.onclose = () => {
+    // A socket closed by the last unsubscribe has already been replaced or dropped
+    if (socket !== current) return;
+    socket = null;
+    if (listeners.size === 0) return;
+    retryTimer = setTimeout(connect, retryMs);
+    retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+  };
+};
+
+// Listen to every realtime event; returns the unsubscribe function
+export const subscribeRealtime = (listener: RealtimeListener) => {
+  listeners.add(listener);
+  if (!socket && !retryTimer) connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    socket?.close();
+    socket = null;
+  };
+};
+
+// Send a frame to the server; dropped when the socket isn't open (typing/read hints only)
+export const sendRealtime = (frame: Record<string, unknown>) => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+};
@@ -1,4 +1,8 @@
 import { privateApi } from "./axios";
+import type { ChargeType, InstallmentStatus, LateFeeType, LeaseBalance, RentSchedule } from "@/types/rentScheduleType";
+import type { PaymentIntentStatus } from "./paymentApi";
+import type { LeaseRenewalOffer, LeaseStatus } from "./landlordLeaseApi";
+import type { MaintenanceTimelineEntry } from "./landlordMaintenanceApi";
 
 // Types for tenant data
 export interface Tenant {
@@ -109,7 +113,11 @@ export interface TenantLeaseDetails {
   endDate: string | null;
   rentAmount: number;
   interval: "DAILY" | "WEEKLY" | "MONTHLY";
-  status: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED";
+  gracePeriodDays: number;
+  lateFeeType: LateFeeType | null;
+  lateFeeAmount: number | null;
+  lateFeeMaxAmount: number | null;
+  status: LeaseStatus;
   hasFormalDocument: boolean;
   leaseDocumentUrl: string | null;
   landlordName: string | null;
@@ -177,10 +185,21 @@ export interface TenantLeaseDetails {
   }>;
   upcomingPayments: Array<{
     id: string;
+    type: ChargeType;
     amount: number;
     dueDate: string;
-    status: string;
+    status: InstallmentStatus;
   }>;
+  balance: LeaseBalance;
+  renewalOffer: LeaseRenewalOffer | null;
+  renewedBy: {
+    id: string;
+    startDate: string;
+    endDate: string | null;
+    rentAmount: number;
+    interval: "DAILY" | "WEEKLY" | "MONTHLY";
+    status: LeaseStatus;
+  } | null;
   leaseRules: Array<{
     id: string;
     title: string;
@@ -211,6 +230,25 @@ export const getTenantPayments = async (params?: { signal?: AbortSignal }) => {
   return response;
 };
 
+export interface TenantRentSchedule extends RentSchedule {
+  lease: {
+    id: string;
+    leaseNickname: string;
+    rentAmount: number;
+    interval: "DAILY" | "WEEKLY" | "MONTHLY";
+    startDate: string;
+    endDate: string | null;
+    status: string;
+  };
+}
+
+export const getTenantRentSchedule = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<TenantRentSchedule>("/tenant/payments/schedule", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
 export const getTenantMaintenanceRequests = async (params?: { signal?: AbortSignal }) => {
   const response = await privateApi.get("/tenant/maintenance-requests", {
     signal: params?.signal,
@@ -238,6 +276,34 @@ export const clearMaintenanceRequest = async (requestId: string) => {
   return response;
 };
 
+export const getTenantMaintenanceTimeline = async (requestId: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<MaintenanceTimelineEntry[]>(`/tenant/maintenance-requests/${requestId}/timeline`, {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// FormData with `message` and/or a `maintenanceImage` file
+export const addTenantMaintenanceComment = async (requestId: string, data: FormData) => {
+  const response = await privateApi.post(`/tenant/maintenance-requests/${requestId}/comments`, data, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response;
+};
+
+// Published tenant review (with the landlord's public reply, if any)
+export interface PublicUnitReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  createdAt: string;
+  tenantName: string;
+  landlordReply: string | null;
+  landlordRepliedAt: string | null;
+}
+
 // Browse Properties Types
 export interface BrowseProperty {
   id: string;
@@ -257,13 +323,7 @@ export interface BrowseProperty {
     min: number;
     max: number;
   };
-  reviews: Array<{
-    id: string;
-    rating: number;
-    comment: string;
-    createdAt: string;
-    tenantName: string;
-  }>;
+  reviews: PublicUnitReview[];
   avgRating: number;
   reviewCount: number;
   amenities: Array<{
@@ -312,13 +372,7 @@ export interface PropertyUnit {
     name: string;
     category: string;
   }>;
-  reviews: Array<{
-    id: string;
-    rating: number;
-    comment: string;
-    createdAt: string;
-    tenantName: string;
-  }>;
+  reviews: PublicUnitReview[];
   avgRating: number;
   reviewCount: number;
 }
@@ -356,14 +410,7 @@ export interface PropertyDetails {
     name: string;
     category: string;
   }>;
-  allReviews: Array<{
-    id: string;
-    rating: number;
-    comment: string;
-    createdAt: string;
-    tenantName: string;
-    unitLabel: string;
-  }>;
+  allReviews: Array<PublicUnitReview & { unitLabel: string }>;
   avgRating: number;
   totalReviews: number;
 }
@@ -486,6 +533,115 @@ export const downloadLeasePDF = async (leaseId: string): Promise<Blob> => {
   return response.data;
 };
 
+// Respond to a landlord's renewal offer
+export const acceptRenewalOfferRequest = async (offerId: string) => {
+  const response = await privateApi.post<{ message: string; lease: { id: string; status: LeaseStatus; startDate: string } }>(
+    `/tenant/renewal-offers/${offerId}/accept`
+  );
+  return response;
+};
+
+export const declineRenewalOfferRequest = async (offerId: string, reason?: string) => {
+  const response = await privateApi.post<{ message: string; offer: LeaseRenewalOffer }>(
+    `/tenant/renewal-offers/${offerId}/decline`,
+    { reason }
+  );
+  return response;
+};
+
+// Unit Reviews Types
+export type UnitReviewStatus = "PENDING" | "PUBLISHED" | "REJECTED";
+
+export interface TenantUnitReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  status: UnitReviewStatus;
+  moderationNote: string | null; // why it was rejected
+  landlordReply: string | null;
+  landlordRepliedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewableLease {
+  id: string;
+  leaseNickname: string;
+  status: LeaseStatus;
+  startDate: string;
+  endDate: string | null;
+  unit: {
+    id: string;
+    label: string;
+    property: { id: string; title: string };
+  };
+  review: TenantUnitReview | null;
+}
+
+export interface UnitReviewData {
+  rating: number;
+  comment?: string;
+}
+
+// Current and past leases the tenant can review, with their review
+export const getTenantReviewsRequest = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ leases: ReviewableLease[] }>("/tenant/reviews", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// Review the unit of a lease (pending until an admin approves it)
+export const submitUnitReviewRequest = async (leaseId: string, data: UnitReviewData) => {
+  const response = await privateApi.post<{ message: string; review: TenantUnitReview }>(`/tenant/reviews/${leaseId}`, data);
+  return response;
+};
+
+// Edit a review (goes back to moderation)
+export const updateUnitReviewRequest = async (reviewId: string, data: UnitReviewData) => {
+  const response = await privateApi.patch<{ message: string; review: TenantUnitReview }>(`/tenant/reviews/${reviewId}`, data);
+  return response;
+};
+
+// Lease Rule Violations Types
+export type ViolationWarningLevel = "NOTICE" | "WARNING" | "FINAL_WARNING";
+
+export type ViolationStatus = "OPEN" | "ACKNOWLEDGED" | "DISPUTED" | "WITHDRAWN";
+
+export interface TenantRuleViolation {
+  id: string;
+  leaseId: string;
+  ruleIndex: number;
+  ruleText: string;
+  description: string;
+  warningLevel: ViolationWarningLevel;
+  evidenceUrls: string[] | null;
+  occurredAt: string;
+  status: ViolationStatus;
+  tenantResponse: string | null;
+  respondedAt: string | null;
+  withdrawnAt: string | null;
+  createdAt: string;
+  lease: {
+    id: string;
+    leaseNickname: string;
+    unit: { id: string; label: string; property: { id: string; title: string } };
+  };
+}
+
+export const getTenantViolationsRequest = async (params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ violations: TenantRuleViolation[] }>("/tenant/violations", {
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// Acknowledge or dispute (a dispute needs a response) — one answer per violation
+export const respondToViolationRequest = async (violationId: string, data: { action: "ACKNOWLEDGE" | "DISPUTE"; response?: string }) => {
+  const response = await privateApi.patch<{ message: string; violation: TenantRuleViolation }>(`/tenant/violations/${violationId}`, data);
+  return response;
+};
+
 // Submit tenant payment (sandbox)
 export interface TenantPaymentRequest {
   amount: number;
@@ -501,10 +657,14 @@ export interface TenantPaymentResponse {
     method: string;
     status: string;
     providerTxnId: string;
-    paidAt: string;
-    note: string;
+    note: string | null;
+  };
+  intent: {
+    id: string;
+    provider: string;
+    providerRef: string;
+    status: PaymentIntentStatus;
   };
-  sandbox: boolean;
 }
 
 export const submitTenantPayment = async (paymentData: TenantPaymentRequest): Promise<{ data: TenantPaymentResponse }> => {
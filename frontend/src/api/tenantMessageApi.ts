@@ -1,4 +1,18 @@
 import { privateApi } from "./axios";
+import { sendRealtime, subscribeRealtime } from "./realtime";
+
+// Unit / lease a conversation is scoped to (null = general thread)
+export interface ConversationUnit {
+  id: string;
+  label: string;
+  property: { id: string; title: string };
+}
+
+export interface ConversationLease {
+  id: string;
+  leaseNickname: string;
+  status: string;
+}
 
 // Types for message data (same as landlord but for tenant context)
 export interface Conversation {
@@ -16,6 +30,7 @@ export interface Conversation {
   lastMessage: {
     id: string;
     content: string;
+    attachmentCount?: number;
     isRead: boolean;
     createdAt: string;
     sender: {
@@ -32,6 +47,18 @@ export interface Conversation {
   updatedAt: string | null;
   isLandlord?: boolean;
   isInquiry?: boolean; // Flag to identify inquiry conversations
+  unit: ConversationUnit | null;
+  lease: ConversationLease | null;
+  isArchived: boolean;
+}
+
+export interface MessageAttachment {
+  id: string;
+  kind: "IMAGE" | "PDF";
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string;  // authenticated download route, only served to the conversation participants
 }
 
 export interface Message {
@@ -39,6 +66,7 @@ export interface Message {
   conversationId: string;
   senderId: string;
   content: string;
+  attachments?: MessageAttachment[];
   isRead: boolean;
   createdAt: string;
   sender: {
@@ -67,6 +95,9 @@ export interface ConversationWithMessages {
     };
     createdAt: string;
     updatedAt: string;
+    unit: ConversationUnit | null;
+    lease: ConversationLease | null;
+    isArchived: boolean;
   };
   messages: Message[];
 }
@@ -81,16 +112,49 @@ export interface MessageStats {
 export interface SendMessageData {
   conversationId?: string;
   recipientId?: string;
+  unitId?: string;  // with recipientId: open the thread about this unit / lease
+  leaseId?: string;
   content: string;
+  attachments?: File[]; // images and PDFs, sent as multipart `attachments[]`
 }
 
 export interface CreateConversationData {
   otherUserId: string;
+  unitId?: string;  // scope the thread to a unit (e.g. an inquiry) ...
+  leaseId?: string; // ... or to a lease; omit both for the general conversation
+}
+
+export interface UpdateConversationData {
+  title?: string | null; // empty/null falls back to the other participant's name
+  archived?: boolean;
+}
+
+export interface MessageSearchResult {
+  id: string;
+  conversationId: string;
+  content: string;
+  createdAt: string;
+  sender: { id: string; fullName: string };
+  conversation: {
+    id: string;
+    title: string;
+    otherUser: { id: string; fullName: string };
+    unit: ConversationUnit | null;
+    lease: ConversationLease | null;
+    isArchived: boolean;
+  };
 }
 
+// Events pushed over the realtime socket
+export type MessageRealtimeEvent =
+  | { type: "message:new"; payload: { message: Message } }
+  | { type: "message:read"; payload: { conversationId: string; readerId: string; readAt: string } }
+  | { type: "typing"; payload: { conversationId: string; userId: string; isTyping: boolean } };
+
 // API functions for tenant messaging
-export const getTenantConversationsRequest = async (params?: { signal?: AbortSignal }) => {
+export const getTenantConversationsRequest = async (params?: { signal?: AbortSignal; archived?: boolean }) => {
   const response = await privateApi.get<Conversation[]>("/tenant/messages", {
+    params: params?.archived ? { archived: true } : undefined,
     signal: params?.signal,
   });
   return response;
@@ -104,7 +168,22 @@ export const getTenantConversationMessagesRequest = async (conversationId: strin
 };
 
 export const sendTenantMessageRequest = async (data: SendMessageData) => {
-  const response = await privateApi.post("/tenant/messages", data);
+  const { attachments, ...fields } = data;
+  let body: Omit<SendMessageData, "attachments"> | FormData = fields;
+
+  if (attachments?.length) {
+    body = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) body.append(key, value);
+    }
+    for (const file of attachments) body.append("attachments", file);
+  }
+
+  const response = await privateApi.post("/tenant/messages", body, {
+    headers: {
+      'Content-Type': body instanceof FormData ? 'multipart/form-data' : 'application/json',
+    },
+  });
   return response;
 };
 
@@ -125,7 +204,31 @@ export const deleteTenantMessageRequest = async (messageId: string) => {
   return response;
 };
 
-export const deleteTenantConversationRequest = async (conversationId: string) => {
-  const response = await privateApi.delete(`/tenant/messages/conversation/${conversationId}`);
+// Rename and/or archive (archiving replaces deleting; history is kept)
+export const updateTenantConversationRequest = async (conversationId: string, data: UpdateConversationData) => {
+  const response = await privateApi.patch(`/tenant/messages/conversation/${conversationId}`, data);
   return response;
 };
+
+export const searchTenantMessagesRequest = async (query: string, params?: { signal?: AbortSignal }) => {
+  const response = await privateApi.get<{ query: string; results: MessageSearchResult[] }>("/tenant/messages/search", {
+    params: { q: query },
+    signal: params?.signal,
+  });
+  return response;
+};
+
+// Realtime: live messages, read receipts and typing indicators; returns the unsubscribe function
+export const subscribeToTenantMessageEvents = (onEvent: (event: MessageRealtimeEvent) => void) =>
+  subscribeRealtime((event) => {
+    if (event.type === "message:new" || event.type === "message:read" || event.type === "typing") {
+      onEvent(event as MessageRealtimeEvent);
+    }
+  });
+
+export const sendTenantTypingIndicator = (conversationId: string, isTyping: boolean) =>
+  sendRealtime({ type: "typing", conversationId, isTyping });
+
+// Marks the other participant's messages as read while the conversation is open
+export const markTenantConversationReadLive = (conversationId: string) =>
+  sendRealtime({ type: "read", conversationId });
@@ -25,21 +25,22 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { updateTenantApplicationStatusRequest, getAvailableLeasesForTenantRequest, assignLeaseToTenantRequest } from "@/api/landlordTenantApi";
+import {
+  updateTenantApplicationStatusRequest,
+  getAvailableLeasesForTenantRequest,
+  assignLeaseToTenantRequest,
+  runTenantScreeningRequest,
+  type RunScreeningResponse,
+  type ScreeningCheckName,
+} from "@/api/landlordTenantApi";
 import { toast } from "sonner";
 
-interface ScreeningResult {
-  overallScore: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-  recommendations: string[];
-  checks: {
-    identity: { passed: boolean; score: number; details: string };
-    income: { passed: boolean; score: number; details: string };
-    references: { passed: boolean; score: number; details: string };
-    credit: { passed: boolean; score: number; details: string };
-    background: { passed: boolean; score: number; details: string };
-  };
-}
+const CHECK_LABELS: Record<ScreeningCheckName, string> = {
+  income: "Income-to-Rent Ratio",
+  documents: "Documents",
+  references: "References",
+  lifestyle: "Lifestyle vs Unit Rules",
+};
 
 interface AutomatedScreeningModalProps {
   application: any;
@@ -56,59 +57,26 @@ const AutomatedScreeningModal = ({
   onApprove, 
   onReject 
 }: AutomatedScreeningModalProps) => {
-  const [screeningResult, setScreeningResult] = useState<ScreeningResult | null>(null);
+  const [screeningResult, setScreeningResult] = useState<RunScreeningResponse | null>(null);
   const [isScreening, setIsScreening] = useState(false);
+  const [screeningError, setScreeningError] = useState<string | null>(null);
   const [availableLeases, setAvailableLeases] = useState<any[]>([]);
   const [isLoadingLeases, setIsLoadingLeases] = useState(false);
 
-  // Simulate automated screening process
+  // Score the application (income, documents, references, lifestyle) and store the result
   const runAutomatedScreening = async () => {
     setIsScreening(true);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Mock screening results based on application data
-    const mockResult: ScreeningResult = {
-      overallScore: Math.floor(Math.random() * 40) + 60, // 60-100
-      riskLevel: Math.random() > 0.7 ? 'HIGH' : Math.random() > 0.4 ? 'MEDIUM' : 'LOW',
-      recommendations: [
-        "Strong income verification provided",
-        "No criminal background found",
-        "Previous landlord references are positive",
-        "Credit score is within acceptable range"
-      ],
-      checks: {
-        identity: {
-          passed: true,
-          score: 95,
-          details: "Government ID verified, photo matches application"
-        },
-        income: {
-          passed: Math.random() > 0.2,
-          score: Math.floor(Math.random() * 30) + 70,
-          details: "Income documentation provided and verified"
-        },
-        references: {
-          passed: Math.random() > 0.3,
-          score: Math.floor(Math.random() * 25) + 75,
-          details: "Previous landlord provided positive reference"
-        },
-        credit: {
-          passed: Math.random() > 0.4,
-          score: Math.floor(Math.random() * 35) + 65,
-          details: "Credit check completed, score within range"
-        },
-        background: {
-          passed: Math.random() > 0.1,
-          score: Math.floor(Math.random() * 20) + 80,
-          details: "Background check completed, no issues found"
-        }
-      }
-    };
-    
-    setScreeningResult(mockResult);
-    setIsScreening(false);
+    setScreeningError(null);
+    try {
+      const response = await runTenantScreeningRequest({ applicationId: application.id });
+      setScreeningResult(response.data);
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      setScreeningResult(null);
+      setScreeningError(message || "Failed to run tenant screening");
+    } finally {
+      setIsScreening(false);
+    }
   };
 
   // Load available leases for assignment
@@ -247,6 +215,19 @@ const AutomatedScreeningModal = ({
                 </div>
               </CardContent>
             </Card>
+          ) : screeningError ? (
+            <Card>
+              <CardContent className="flex items-center justify-center py-12">
+                <div className="text-center">
+                  <AlertTriangle className="h-8 w-8 text-red-600 mx-auto mb-4" />
+                  <p className="text-gray-600 mb-4">{screeningError}</p>
+                  <Button variant="outline" onClick={runAutomatedScreening}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Try Again
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           ) : screeningResult ? (
             <>
               {/* Overall Score */}
@@ -254,22 +235,22 @@ const AutomatedScreeningModal = ({
                 <CardHeader>
                   <CardTitle className="flex items-center justify-between">
                     <span>Screening Results</span>
-                    <Badge className={getRiskBadgeColor(screeningResult.riskLevel)}>
-                      {screeningResult.riskLevel} Risk
+                    <Badge className={getRiskBadgeColor(screeningResult.breakdown.riskLevel)}>
+                      {screeningResult.breakdown.riskLevel} Risk
                     </Badge>
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="text-center">
-                      <div className={`text-3xl font-bold ${getScoreColor(screeningResult.overallScore)}`}>
-                        {screeningResult.overallScore}%
+                      <div className={`text-3xl font-bold ${getScoreColor(screeningResult.breakdown.score)}`}>
+                        {screeningResult.breakdown.score}/100
                       </div>
                       <p className="text-sm text-gray-600">Overall Score</p>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-gray-900">
-                        {Object.values(screeningResult.checks).filter(check => check.passed).length}/5
+                        {Object.values(screeningResult.breakdown.checks).filter(check => check.passed).length}/{Object.keys(screeningResult.breakdown.checks).length}
                       </div>
                       <p className="text-sm text-gray-600">Checks Passed</p>
                     </div>
@@ -290,8 +271,10 @@ const AutomatedScreeningModal = ({
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {Object.entries(screeningResult.checks).map(([key, check]) => (
-                      <div key={key} className="flex items-center justify-between p-3 border rounded-lg">
+                    {(Object.keys(CHECK_LABELS) as ScreeningCheckName[]).map((key) => {
+                      const check = screeningResult.breakdown.checks[key];
+                      return (
+                      <div key={key} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
                         <div className="flex items-center gap-3">
                           {check.passed ? (
                             <CheckCircle className="h-5 w-5 text-green-600" />
@@ -299,15 +282,21 @@ const AutomatedScreeningModal = ({
                             <XCircle className="h-5 w-5 text-red-600" />
                           )}
                           <div>
-                            <p className="font-medium capitalize">{key.replace(/([A-Z])/g, ' $1')}</p>
+                            <p className="font-medium">{CHECK_LABELS[key]}</p>
                             <p className="text-sm text-gray-600">{check.details}</p>
                           </div>
                         </div>
-                        <div className={`font-semibold ${getScoreColor(check.score)}`}>
-                          {check.score}%
+                        <div className="text-right flex-shrink-0">
+                          <div className={`font-semibold ${getScoreColor(check.score)}`}>
+                            {check.score}/100
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            Weight {screeningResult.breakdown.weights[key]}%
+                          </p>
                         </div>
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -318,14 +307,21 @@ const AutomatedScreeningModal = ({
                   <CardTitle>Recommendations</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <ul className="space-y-2">
-                    {screeningResult.recommendations.map((rec, index) => (
-                      <li key={index} className="flex items-start gap-2">
-                        <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
-                        <span className="text-sm">{rec}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  {screeningResult.recommendations.length > 0 ? (
+                    <ul className="space-y-2">
+                      {screeningResult.recommendations.map((rec, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm">{rec}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="flex items-center gap-2 text-sm text-gray-600">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      Nothing to follow up on before approving
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
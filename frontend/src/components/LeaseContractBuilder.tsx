@@ -0,0 +1,502 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import type {
+  LeaseContractData,
+  LeaseContractFee,
+  LeaseContractOccupant,
+  LeaseContractUtility,
+  LeaseContractKey,
+  LeaseContractConditionItem,
+} from "@/api/landlordLeaseApi";
+
+export type LeaseContractStep = "term" | "rent" | "parties" | "policies" | "condition" | "homeGuide";
+
+interface LeaseContractBuilderProps {
+  step: LeaseContractStep;
+  value: LeaseContractData;
+  onChange: (value: LeaseContractData) => void;
+}
+
+type TextField = {
+  [K in keyof LeaseContractData]-?: NonNullable<LeaseContractData[K]> extends string ? K : never;
+}[keyof LeaseContractData];
+
+type NumberField = "monthlyRent" | "securityDepositAmount" | "securityDepositMonths";
+
+type ListRows = {
+  oneTimeFees: LeaseContractFee;
+  additionalOccupants: LeaseContractOccupant;
+  utilitiesResponsibilities: LeaseContractUtility;
+  keysProvided: LeaseContractKey;
+  conditionReportItems: LeaseContractConditionItem;
+};
+
+const PAYMENT_METHODS = [
+  { value: "CASH", label: "Cash" },
+  { value: "BANK_TRANSFER", label: "Bank Transfer" },
+  { value: "GCASH", label: "GCash" },
+  { value: "MAYA", label: "Maya" },
+  { value: "CHECK", label: "Check" },
+];
+
+const CONDITIONS = ["NEW", "GOOD", "FAIR", "POOR", "DAMAGED"];
+
+const STEP_TITLES: Record<LeaseContractStep, string> = {
+  term: "Term & Premises",
+  rent: "Rent & Deposit",
+  parties: "Parties & Occupants",
+  policies: "Policies, Utilities & Keys",
+  condition: "Condition Report",
+  homeGuide: "Home Guide",
+};
+
+// Date inputs need YYYY-MM-DD; saved versions come back as ISO strings
+const toDateInput = (date?: string | null) => (date ? date.slice(0, 10) : "");
+
+const LeaseContractBuilder = ({ step, value, onChange }: LeaseContractBuilderProps) => {
+  const set = <K extends keyof LeaseContractData>(field: K, fieldValue: LeaseContractData[K]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const rowsOf = <F extends keyof ListRows>(field: F) => (value[field] ?? []) as ListRows[F][];
+
+  const addRow = <F extends keyof ListRows>(field: F, row: ListRows[F]) => {
+    set(field, [...rowsOf(field), row] as LeaseContractData[F]);
+  };
+
+  const updateRow = <F extends keyof ListRows>(field: F, index: number, patch: Partial<ListRows[F]>) => {
+    set(field, rowsOf(field).map((row, i) => (i === index ? { ...row, ...patch } : row)) as LeaseContractData[F]);
+  };
+
+  const removeRow = <F extends keyof ListRows>(field: F, index: number) => {
+    set(field, rowsOf(field).filter((_, i) => i !== index) as LeaseContractData[F]);
+  };
+
+  const textInput = (field: TextField, label: string, placeholder?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        value={(value[field] as string | null | undefined) ?? ""}
+        onChange={(e) => set(field, e.target.value)}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  const textArea = (field: TextField, label: string, placeholder?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Textarea
+        id={field}
+        value={(value[field] as string | null | undefined) ?? ""}
+        onChange={(e) => set(field, e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+      />
+    </div>
+  );
+
+  const numberInput = (field: NumberField, label: string, step = "0.01") => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        type="number"
+        min="0"
+        step={step}
+        value={value[field] ?? ""}
+        onChange={(e) => set(field, e.target.value === "" ? null : Number(e.target.value))}
+      />
+    </div>
+  );
+
+  const addButton = (label: string, onClick: () => void) => (
+    <Button type="button" variant="outline" size="sm" onClick={onClick}>
+      <Plus className="h-4 w-4 mr-1" />
+      {label}
+    </Button>
+  );
+
+  const removeButton = (onClick: () => void) => (
+    <Button type="button" variant="ghost" size="sm" onClick={onClick}>
+      <Trash2 className="h-4 w-4 text-red-500" />
+    </Button>
+  );
+
+  const renderTerm = () => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Term Type</Label>
+          <Select value={value.leaseTermType ?? ""} onValueChange={(v) => set("leaseTermType", v as LeaseContractData["leaseTermType"])}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select term type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="FIXED">Fixed Term</SelectItem>
+              <SelectItem value="MONTH_TO_MONTH">Month-to-Month</SelectItem>
+              <SelectItem value="SHORT_TERM">Short Term</SelectItem>
+              <SelectItem value="LONG_TERM">Long Term</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>At the End of the Term</Label>
+          <Select value={value.endBehavior ?? ""} onValueChange={(v) => set("endBehavior", v as LeaseContractData["endBehavior"])}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select what happens" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="TERMINATE_ON_END_DATE">Ends on the end date</SelectItem>
+              <SelectItem value="RENEW_MONTH_TO_MONTH">Continues month-to-month</SelectItem>
+              <SelectItem value="OTHER">Other (see additional terms)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="contractStartDate">Start Date</Label>
+          <Input
+            id="contractStartDate"
+            type="date"
+            value={toDateInput(value.startDate)}
+            onChange={(e) => set("startDate", e.target.value || null)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contractEndDate">End Date</Label>
+          <Input
+            id="contractEndDate"
+            type="date"
+            value={toDateInput(value.endDate)}
+            onChange={(e) => set("endDate", e.target.value || null)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="earlyTerminationAllowed">Early termination allowed (with written notice)</Label>
+        <Switch
+          id="earlyTerminationAllowed"
+          checked={value.earlyTerminationAllowed ?? false}
+          onCheckedChange={(checked) => set("earlyTerminationAllowed", checked)}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {textInput("addressStreet", "Street")}
+        {textInput("addressBarangay", "Barangay")}
+        {textInput("addressCity", "City")}
+        {textInput("addressMunicipality", "Municipality")}
+        {textInput("addressZipCode", "ZIP Code")}
+      </div>
+      {textArea("roomDescription", "Unit / Room Description", "Describe the rented space, furnishings included...")}
+    </>
+  );
+
+  const renderRent = () => {
+    const accepted = value.paymentAccepted ?? [];
+    const togglePayment = (method: string) => {
+      set("paymentAccepted", accepted.includes(method) ? accepted.filter((m) => m !== method) : [...accepted, method]);
+    };
+
+    return (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {numberInput("monthlyRent", "Monthly Rent (₱)")}
+          {numberInput("securityDepositAmount", "Security Deposit (₱)")}
+          {numberInput("securityDepositMonths", "Deposit (months of rent)", "1")}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Payment Methods Accepted</Label>
+          <div className="flex flex-wrap gap-2">
+            {PAYMENT_METHODS.map((method) => (
+              <Button
+                key={method.value}
+                type="button"
+                size="sm"
+                variant={accepted.includes(method.value) ? "default" : "outline"}
+                onClick={() => togglePayment(method.value)}
+              >
+                {method.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {textInput("depositHeldAtName", "Deposit Held At", "e.g., BDO Savings Account")}
+          {textInput("depositHeldAtAddress", "Deposit Holder Address")}
+        </div>
+        {textArea("allowableDepositDeductions", "Allowable Deposit Deductions", "Unpaid rent, damage beyond normal wear and tear...")}
+
+        <div className="space-y-2">
+          <Label>One-time Fees</Label>
+          {rowsOf("oneTimeFees").map((fee, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={fee.name}
+                onChange={(e) => updateRow("oneTimeFees", index, { name: e.target.value })}
+                placeholder="Fee name"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                className="w-40"
+                value={fee.amount}
+                onChange={(e) => updateRow("oneTimeFees", index, { amount: Number(e.target.value) || 0 })}
+              />
+              {removeButton(() => removeRow("oneTimeFees", index))}
+            </div>
+          ))}
+          {addButton("Add Fee", () => addRow("oneTimeFees", { name: "", amount: 0 }))}
+        </div>
+      </>
+    );
+  };
+
+  const renderParties = () => (
+    <>
+      <h4 className="font-medium text-gray-900">Landlord</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {textInput("landlordFirstName", "First Name")}
+        {textInput("landlordLastName", "Last Name")}
+      </div>
+      {textArea("landlordMailingAddress", "Mailing Address (for notices)")}
+
+      <h4 className="font-medium text-gray-900 pt-2">Tenant</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {textInput("tenantFirstName", "First Name")}
+        {textInput("tenantLastName", "Last Name")}
+        {textInput("tenantEmail", "Email")}
+        {textInput("tenantPhone", "Phone")}
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <Label>Additional Occupants</Label>
+        {rowsOf("additionalOccupants").map((occupant, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={occupant.name}
+              onChange={(e) => updateRow("additionalOccupants", index, { name: e.target.value })}
+              placeholder="Full name"
+            />
+            <Input
+              value={occupant.relationship}
+              onChange={(e) => updateRow("additionalOccupants", index, { relationship: e.target.value })}
+              placeholder="Relationship to tenant"
+            />
+            {removeButton(() => removeRow("additionalOccupants", index))}
+          </div>
+        ))}
+        {addButton("Add Occupant", () => addRow("additionalOccupants", { name: "", relationship: "" }))}
+      </div>
+    </>
+  );
+
+  const renderPolicies = () => (
+    <>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="petAllowed">Pets allowed</Label>
+        <Switch id="petAllowed" checked={value.petAllowed ?? false} onCheckedChange={(checked) => set("petAllowed", checked)} />
+      </div>
+      {value.petAllowed && textInput("petTypes", "Allowed Pets", "e.g., one small dog, cats")}
+
+      <div className="space-y-2">
+        <Label>Smoking Policy</Label>
+        <Select value={value.smokingPolicy ?? ""} onValueChange={(v) => set("smokingPolicy", v as LeaseContractData["smokingPolicy"])}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select smoking policy" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="NO">No smoking</SelectItem>
+            <SelectItem value="OUTSIDE_ONLY">Outside only</SelectItem>
+            <SelectItem value="YES">Smoking allowed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="parkingIncluded">Parking included</Label>
+        <Switch id="parkingIncluded" checked={value.parkingIncluded ?? false} onCheckedChange={(checked) => set("parkingIncluded", checked)} />
+      </div>
+      {value.parkingIncluded && textInput("parkingDescription", "Parking Details", "e.g., one covered slot, B2-14")}
+
+      <div className="space-y-2">
+        <Label>Utilities</Label>
+        {rowsOf("utilitiesResponsibilities").map((utility, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={utility.utility}
+              onChange={(e) => updateRow("utilitiesResponsibilities", index, { utility: e.target.value })}
+              placeholder="e.g., Electricity"
+            />
+            <Select
+              value={utility.paidBy}
+              onValueChange={(v) => updateRow("utilitiesResponsibilities", index, { paidBy: v as LeaseContractUtility["paidBy"] })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TENANT">Tenant</SelectItem>
+                <SelectItem value="LANDLORD">Landlord</SelectItem>
+                <SelectItem value="SHARED">Shared</SelectItem>
+              </SelectContent>
+            </Select>
+            {removeButton(() => removeRow("utilitiesResponsibilities", index))}
+          </div>
+        ))}
+        {addButton("Add Utility", () => addRow("utilitiesResponsibilities", { utility: "", paidBy: "TENANT" }))}
+      </div>
+      {textArea("sharedUtilitiesNote", "Shared Utilities Note", "How shared bills are split...")}
+
+      <div className="space-y-2">
+        <Label>Keys Provided</Label>
+        {rowsOf("keysProvided").map((key, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={key.type}
+              onChange={(e) => updateRow("keysProvided", index, { type: e.target.value })}
+              placeholder="e.g., Front door"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              className="w-28"
+              value={key.quantity}
+              onChange={(e) => updateRow("keysProvided", index, { quantity: parseInt(e.target.value) || 0 })}
+            />
+            {removeButton(() => removeRow("keysProvided", index))}
+          </div>
+        ))}
+        {addButton("Add Key", () => addRow("keysProvided", { type: "", quantity: 1 }))}
+      </div>
+      {textArea("lostKeyPolicy", "Lost Key Policy")}
+      {textArea("maintenanceNote", "Maintenance", "How and when to report repairs...")}
+      {textArea("additionalTerms", "Additional Terms")}
+    </>
+  );
+
+  const renderCondition = () => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {textInput("conditionReportName", "Report Name", "e.g., Move-in inspection")}
+        <div className="space-y-2">
+          <Label>Report Type</Label>
+          <Select
+            value={value.conditionReportType ?? ""}
+            onValueChange={(v) => set("conditionReportType", v as LeaseContractData["conditionReportType"])}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="MOVE_IN">Move-in</SelectItem>
+              <SelectItem value="MOVE_OUT">Move-out</SelectItem>
+              <SelectItem value="OTHER">Other</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="conditionReportDate">Inspection Date</Label>
+          <Input
+            id="conditionReportDate"
+            type="date"
+            value={toDateInput(value.conditionReportDate)}
+            onChange={(e) => set("conditionReportDate", e.target.value || null)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Items</Label>
+        {rowsOf("conditionReportItems").map((item, index) => (
+          <div key={index} className="grid grid-cols-12 items-center gap-2">
+            <Input
+              className="col-span-3"
+              value={item.space}
+              onChange={(e) => updateRow("conditionReportItems", index, { space: e.target.value })}
+              placeholder="Space (e.g., Kitchen)"
+            />
+            <Input
+              className="col-span-3"
+              value={item.item}
+              onChange={(e) => updateRow("conditionReportItems", index, { item: e.target.value })}
+              placeholder="Item (e.g., Sink)"
+            />
+            <div className="col-span-2">
+              <Select value={item.condition} onValueChange={(v) => updateRow("conditionReportItems", index, { condition: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDITIONS.map((condition) => (
+                    <SelectItem key={condition} value={condition}>
+                      {condition.charAt(0) + condition.slice(1).toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              className="col-span-3"
+              value={item.notes}
+              onChange={(e) => updateRow("conditionReportItems", index, { notes: e.target.value })}
+              placeholder="Notes"
+            />
+            <div className="col-span-1">{removeButton(() => removeRow("conditionReportItems", index))}</div>
+          </div>
+        ))}
+        {addButton("Add Item", () => {
+          // New rows keep the space of the previous one so rooms are quick to fill in
+          const previous = rowsOf("conditionReportItems").slice(-1)[0];
+          addRow("conditionReportItems", { space: previous?.space ?? "", item: "", condition: "GOOD", notes: "" });
+        })}
+      </div>
+    </>
+  );
+
+  const renderHomeGuide = () => (
+    <>
+      {textArea("homeGuideWelcomeNote", "Welcome Note")}
+      {textInput("homeGuideWelcomeImageUrl", "Welcome Image URL", "/uploads/...")}
+      {textArea("homeGuideAccessSecurity", "Access & Security", "Gate codes, guard hours, visitor policy...")}
+      {textArea("homeGuideHouseRules", "House Rules", "Quiet hours, garbage schedule...")}
+      {textArea("homeGuideCommunication", "Communication", "Best way and time to reach the landlord...")}
+      {textArea("homeGuideLeaseInfo", "About Your Lease", "Rent due dates, how to pay...")}
+    </>
+  );
+
+  const renderers: Record<LeaseContractStep, () => React.ReactNode> = {
+    term: renderTerm,
+    rent: renderRent,
+    parties: renderParties,
+    policies: renderPolicies,
+    condition: renderCondition,
+    homeGuide: renderHomeGuide,
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{STEP_TITLES[step]}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">{renderers[step]()}</CardContent>
+    </Card>
+  );
+};
+
+export default LeaseContractBuilder;
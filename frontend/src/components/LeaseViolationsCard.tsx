@@ -0,0 +1,370 @@
+import { useState, useEffect, useCallback } from "react";
+import { Gavel, Plus, Loader2, Undo2, MessageSquare, CheckCircle, Clock, XCircle, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import {
+  getTenantViolationsRequest,
+  logLeaseRuleViolationRequest,
+  withdrawLeaseRuleViolationRequest,
+  type LeaseRuleViolation,
+  type ViolationLease,
+  type ViolationStatus,
+  type ViolationWarningLevel,
+} from "@/api/landlordTenantApi";
+
+const MAX_EVIDENCE_PHOTOS = 5;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+const fileUrl = (path: string) => `http://localhost:5000${path}`;
+
+const WARNING_LEVELS: { value: ViolationWarningLevel; label: string }[] = [
+  { value: "NOTICE", label: "Notice" },
+  { value: "WARNING", label: "Warning" },
+  { value: "FINAL_WARNING", label: "Final warning" },
+];
+
+const getWarningBadge = (level: ViolationWarningLevel) => {
+  switch (level) {
+    case "FINAL_WARNING":
+      return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Final warning</Badge>;
+    case "WARNING":
+      return <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">Warning</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Notice</Badge>;
+  }
+};
+
+const getStatusBadge = (status: ViolationStatus) => {
+  switch (status) {
+    case "ACKNOWLEDGED":
+      return <Badge variant="outline" className="text-green-700 border-green-200"><CheckCircle className="h-3 w-3 mr-1" />Acknowledged</Badge>;
+    case "DISPUTED":
+      return <Badge variant="outline" className="text-red-700 border-red-200"><AlertTriangle className="h-3 w-3 mr-1" />Disputed</Badge>;
+    case "WITHDRAWN":
+      return <Badge variant="outline" className="text-gray-500"><XCircle className="h-3 w-3 mr-1" />Withdrawn</Badge>;
+    default:
+      return <Badge variant="outline" className="text-yellow-700 border-yellow-200"><Clock className="h-3 w-3 mr-1" />Awaiting tenant</Badge>;
+  }
+};
+
+const emptyForm = () => ({
+  leaseId: "",
+  ruleIndex: "",
+  warningLevel: "NOTICE" as ViolationWarningLevel,
+  occurredAt: new Date().toISOString().slice(0, 10),
+  description: "",
+  evidence: [] as File[],
+});
+
+// Log broken lease rules for a tenant and follow their acknowledgements/disputes (shown on Tenant Details)
+const LeaseViolationsCard = ({ tenantId }: { tenantId: string }) => {
+  const [leases, setLeases] = useState<ViolationLease[]>([]);
+  const [violations, setViolations] = useState<LeaseRuleViolation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  const fetchViolations = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const response = await getTenantViolationsRequest(tenantId, { signal });
+      setLeases(response.data.leases);
+      setViolations(response.data.violations);
+    } catch (error) {
+      if ((error as { name?: string }).name !== "CanceledError") {
+        console.error("Error fetching rule violations:", error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchViolations(controller.signal);
+    return () => controller.abort();
+  }, [fetchViolations]);
+
+  const loggableLeases = leases.filter((lease) => lease.canLogViolations && lease.rules.length > 0);
+  const selectedLease = loggableLeases.find((lease) => lease.id === form.leaseId);
+
+  const openDialog = () => {
+    setForm({ ...emptyForm(), leaseId: loggableLeases[0]?.id ?? "" });
+    setDialogOpen(true);
+  };
+
+  const handleEvidenceChange = (files: FileList | null) => {
+    const selected = Array.from(files ?? []);
+    if (selected.length > MAX_EVIDENCE_PHOTOS) {
+      toast.error(`Attach up to ${MAX_EVIDENCE_PHOTOS} photos`);
+    }
+    setForm((prev) => ({ ...prev, evidence: selected.slice(0, MAX_EVIDENCE_PHOTOS) }));
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedLease || form.ruleIndex === "") {
+      toast.error("Please choose the rule that was broken");
+      return;
+    }
+    if (!form.description.trim()) {
+      toast.error("Please describe what happened");
+      return;
+    }
+
+    const data = new FormData();
+    data.append("ruleIndex", form.ruleIndex);
+    data.append("warningLevel", form.warningLevel);
+    data.append("description", form.description.trim());
+    if (form.occurredAt) data.append("occurredAt", form.occurredAt);
+    form.evidence.forEach((file) => data.append("evidence", file));
+
+    setSaving(true);
+    try {
+      const response = await logLeaseRuleViolationRequest(selectedLease.id, data);
+      toast.success(response.data.message);
+      setDialogOpen(false);
+      fetchViolations();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to log violation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (violation: LeaseRuleViolation) => {
+    setWithdrawingId(violation.id);
+    try {
+      const response = await withdrawLeaseRuleViolationRequest(violation.id);
+      toast.success(response.data.message);
+      fetchViolations();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to withdraw violation");
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  if (loading) return null;
+
+  const counted = violations.filter((violation) => violation.status !== "WITHDRAWN").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Lease Rule Violations ({counted})
+          </CardTitle>
+          {loggableLeases.length > 0 && (
+            <Button size="sm" variant="outline" onClick={openDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Log Violation
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {violations.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {loggableLeases.length > 0
+              ? "No violations logged. Violations lower the tenant's rule compliance score."
+              : "No violations logged. Violations can be logged on an active lease with rules."}
+          </p>
+        ) : (
+          violations.map((violation) => (
+            <div
+              key={violation.id}
+              className={`p-4 border rounded-lg space-y-2 ${violation.status === "WITHDRAWN" ? "opacity-60" : ""}`}
+            >
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div>
+                  <h4 className="font-medium text-gray-900">"{violation.ruleText}"</h4>
+                  <p className="text-xs text-gray-500">
+                    {violation.lease.unit.property.title} - Unit {violation.lease.unit.label} · {new Date(violation.occurredAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {getWarningBadge(violation.warningLevel)}
+                  {getStatusBadge(violation.status)}
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-700 whitespace-pre-line">{violation.description}</p>
+
+              {violation.evidenceUrls && violation.evidenceUrls.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {violation.evidenceUrls.map((url) => (
+                    <a key={url} href={fileUrl(url)} target="_blank" rel="noreferrer">
+                      <img
+                        src={fileUrl(url)}
+                        alt="Violation evidence"
+                        className="w-20 h-20 object-cover rounded-lg border border-gray-200"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {violation.tenantResponse && (
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs font-medium text-gray-600 flex items-center gap-1 mb-1">
+                    <MessageSquare className="h-3 w-3" />
+                    Tenant's response
+                  </p>
+                  <p className="text-sm text-gray-700">{violation.tenantResponse}</p>
+                </div>
+              )}
+
+              {violation.status !== "WITHDRAWN" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleWithdraw(violation)}
+                  disabled={withdrawingId === violation.id}
+                >
+                  {withdrawingId === violation.id ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Undo2 className="h-4 w-4 mr-2" />
+                  )}
+                  Withdraw
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {/* Log violation dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Log Rule Violation</DialogTitle>
+            <DialogDescription>
+              The tenant is notified and can acknowledge or dispute it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {loggableLeases.length > 1 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-600">Lease</label>
+                <Select
+                  value={form.leaseId}
+                  onValueChange={(leaseId) => setForm((prev) => ({ ...prev, leaseId, ruleIndex: "" }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a lease" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {loggableLeases.map((lease) => (
+                      <SelectItem key={lease.id} value={lease.id}>
+                        {lease.unit.property.title} - Unit {lease.unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-600">Rule broken</label>
+              <Select
+                value={form.ruleIndex}
+                onValueChange={(ruleIndex) => setForm((prev) => ({ ...prev, ruleIndex }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a rule" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectedLease?.rules.map((rule, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {rule}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-600">Warning level</label>
+                <Select
+                  value={form.warningLevel}
+                  onValueChange={(warningLevel) => setForm((prev) => ({ ...prev, warningLevel: warningLevel as ViolationWarningLevel }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WARNING_LEVELS.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-600">Date</label>
+                <Input
+                  type="date"
+                  value={form.occurredAt}
+                  max={new Date().toISOString().slice(0, 10)}
+                  onChange={(e) => setForm((prev) => ({ ...prev, occurredAt: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-600">What happened</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="e.g. Loud music past midnight, reported by two neighbors"
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-600">Evidence photos (optional, up to {MAX_EVIDENCE_PHOTOS})</label>
+              <Input type="file" accept="image/jpeg,image/png,image/gif,image/webp" multiple onChange={(e) => handleEvidenceChange(e.target.files)} />
+              {form.evidence.length > 0 && (
+                <p className="text-xs text-gray-500">{form.evidence.length} photo{form.evidence.length > 1 ? "s" : ""} selected</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Log Violation
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LeaseViolationsCard;
@@ -3,6 +3,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   CreditCard,
   Smartphone,
@@ -15,16 +17,21 @@ import {
   Zap,
   Globe,
   Clock,
-  Receipt
+  Receipt,
+  XCircle
 } from "lucide-react";
 import { toast } from "sonner";
+import { createListingPaymentIntentRequest } from "@/api/landlordPropertyApi";
+import { confirmPaymentIntentRequest, waitForPaymentIntent } from "@/api/paymentApi";
 
 interface ListingPaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onPaymentSuccess: (paymentIntentId: string) => void;
+  // Submits the listing request for the paid fee; rejects when the request fails
+  onPaymentSuccess: (paymentIntentId: string) => Promise<void>;
   unitDetails: {
     id: string;
+    propertyId: string;
     label: string;
     targetPrice: number;
     property: {
@@ -42,9 +49,13 @@ const ListingPaymentModal = ({
 }: ListingPaymentModalProps) => {
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'gcash'>('card');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [paymentStep, setPaymentStep] = useState<'details' | 'processing' | 'success'>('details');
+  const [paymentStep, setPaymentStep] = useState<'details' | 'processing' | 'submitting' | 'success' | 'failed' | 'submitFailed'>('details');
+  const [simulateDecline, setSimulateDecline] = useState(false);
+  const [failureReason, setFailureReason] = useState<string | null>(null);
+  const [paidIntentId, setPaidIntentId] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
-  // Calculate 3% commission
+  // Calculate 3% commission (display only — the server computes the charged fee)
   const monthlyRent = unitDetails.targetPrice;
   const commissionRate = 0.03; // 3%
   const commissionAmount = monthlyRent * commissionRate;
@@ -57,30 +68,63 @@ const ListingPaymentModal = ({
     }).format(amount);
   };
 
-  // Handle payment processing
-  const handlePayment = async () => {
+  // Submit the listing request for a paid fee (also used to retry after a failed submission)
+  const submitListing = async (paymentIntentId: string) => {
     setIsProcessing(true);
-    setPaymentStep('processing');
+    setPaymentStep('submitting');
 
     try {
-      // Simulate payment processing (in real implementation, this would call Stripe API)
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      // Simulate successful payment
-      const mockPaymentIntentId = `pi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
+      await onPaymentSuccess(paymentIntentId);
       setPaymentStep('success');
-      toast.success("Payment successful! Your listing request has been submitted.");
-      
-      // Call success callback after a short delay
+
+      // Close after a short delay
       setTimeout(() => {
-        onPaymentSuccess(mockPaymentIntentId);
         onClose();
       }, 2000);
+    } catch (error) {
+      console.error('Listing request error:', error);
+      const message = (error as { response?: { data?: { error?: string } } }).response?.data?.error;
+      setSubmitError(message || null);
+      setPaymentStep('submitFailed');
+      toast.error("Your listing fee was paid, but the listing request could not be submitted.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle payment processing
+  const handlePayment = async () => {
+    setIsProcessing(true);
+    setPaymentStep('processing');
+
+    try {
+      // create intent → confirm → wait for the provider webhook to settle it
+      const response = await createListingPaymentIntentRequest(unitDetails.propertyId, unitDetails.id, {
+        method: paymentMethod
+      });
+      await confirmPaymentIntentRequest(response.data.intent.id,
+        // Only the simulated provider takes a requested outcome (it succeeds by default)
+        simulateDecline && response.data.intent.provider === 'SIMULATED' ? { simulateOutcome: 'fail' } : undefined
+      );
+      const intent = await waitForPaymentIntent(response.data.intent.id);
+
+      if (intent.status !== 'SUCCEEDED') {
+        setFailureReason(intent.status === 'FAILED' ? intent.failureReason : 'still_processing');
+        setPaymentStep('failed');
+        toast.error(intent.status === 'FAILED'
+          ? "Payment failed. Please try again."
+          : "Payment is taking longer than expected. Please try again later.");
+        return;
+      }
+      
+      setPaidIntentId(intent.id);
+      toast.success("Payment received. Submitting your listing request...");
+      await submitListing(intent.id);
 
     } catch (error) {
       console.error('Payment error:', error);
-      toast.error("Payment failed. Please try again.");
+      const message = (error as { response?: { data?: { error?: string } } }).response?.data?.error;
+      toast.error(message || "Payment failed. Please try again.");
       setPaymentStep('details');
     } finally {
       setIsProcessing(false);
@@ -93,6 +137,10 @@ const ListingPaymentModal = ({
       setPaymentStep('details');
       setIsProcessing(false);
       setPaymentMethod('card');
+      setSimulateDecline(false);
+      setFailureReason(null);
+      setPaidIntentId(null);
+      setSubmitError(null);
     }
   }, [isOpen]);
 
@@ -212,14 +260,22 @@ const ListingPaymentModal = ({
                   </button>
                 </div>
 
-                {/* Sandbox Notice */}
+                {/* Simulated Provider Notice */}
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                   <div className="flex items-start gap-3">
                     <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5" />
                     <div className="text-sm">
-                      <div className="font-semibold text-yellow-800 mb-1">Sandbox Mode</div>
+                      <div className="font-semibold text-yellow-800 mb-1">Simulated Provider</div>
                       <div className="text-yellow-700">
-                        This is a test environment. No real money will be charged. Use test card numbers for testing.
+                        Payments go through the local simulated provider. No real money will be charged; the result arrives a few seconds after you pay.
+                      </div>
+                      <div className="flex items-center gap-2 mt-3">
+                        <Switch
+                          id="simulate-listing-decline"
+                          checked={simulateDecline}
+                          onCheckedChange={setSimulateDecline}
+                        />
+                        <Label htmlFor="simulate-listing-decline" className="text-yellow-800">Simulate a declined payment</Label>
                       </div>
                     </div>
                   </div>
@@ -280,7 +336,7 @@ const ListingPaymentModal = ({
             </div>
             <h3 className="text-xl font-semibold text-gray-900 mb-2">Processing Payment</h3>
             <p className="text-gray-600 mb-4">
-              Please wait while we process your payment...
+              Please wait while the payment provider confirms your payment...
             </p>
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 max-w-md mx-auto">
               <div className="flex items-center gap-2 text-sm text-blue-800">
@@ -291,14 +347,26 @@ const ListingPaymentModal = ({
           </div>
         )}
 
+        {paymentStep === 'submitting' && (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Payment Received</h3>
+            <p className="text-gray-600 mb-4">
+              Your listing fee has been paid. Submitting your unit listing request for admin review...
+            </p>
+          </div>
+        )}
+
         {paymentStep === 'success' && (
           <div className="text-center py-12">
             <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
               <CheckCircle className="h-8 w-8 text-green-600" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">Payment Successful!</h3>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Listing Request Submitted!</h3>
             <p className="text-gray-600 mb-4">
-              Your listing fee has been paid successfully. Your unit listing request is now being submitted for admin review.
+              Your listing fee has been paid and your unit listing request has been submitted for admin review.
             </p>
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 max-w-md mx-auto">
               <div className="flex items-center gap-2 text-sm text-green-800">
@@ -308,6 +376,50 @@ const ListingPaymentModal = ({
             </div>
           </div>
         )}
+
+        {paymentStep === 'failed' && (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <XCircle className="h-8 w-8 text-red-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Payment Failed</h3>
+            <p className="text-gray-600 mb-4">
+              Your listing fee payment was not completed
+              {failureReason ? ` (${failureReason.replace(/_/g, ' ')})` : ''}. Your listing request has not been submitted.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={() => setPaymentStep('details')}>
+                Try Again
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {paymentStep === 'submitFailed' && (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <AlertCircle className="h-8 w-8 text-red-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Listing Request Not Submitted</h3>
+            <p className="text-gray-600 mb-4">
+              Your listing fee was paid, but your listing request could not be submitted
+              {submitError ? ` (${submitError})` : ''}. You can retry the submission without paying again.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              {paidIntentId && (
+                <Button onClick={() => submitListing(paidIntentId)} disabled={isProcessing}>
+                  Retry Submission
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Play } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { MaintenanceAttachment } from "@/api/landlordMaintenanceApi";
+
+interface MaintenanceAttachmentGalleryProps {
+  attachments: MaintenanceAttachment[];
+  // Requests submitted before attachments existed only have a single photo
+  fallbackPhotoUrl?: string | null;
+  size?: "sm" | "md";
+}
+
+const fileUrl = (path: string) => `http://localhost:5000${path}`;
+
+const MaintenanceAttachmentGallery = ({ attachments, fallbackPhotoUrl, size = "md" }: MaintenanceAttachmentGalleryProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const items: MaintenanceAttachment[] = attachments.length > 0 || !fallbackPhotoUrl
+    ? attachments
+    : [{ id: "cover", kind: "IMAGE", url: fallbackPhotoUrl, thumbnailUrl: null, fileName: "Photo", mimeType: "image/*", size: 0 }];
+
+  if (items.length === 0) return null;
+
+  const current = openIndex !== null ? items[openIndex] : null;
+  const tileSize = size === "sm" ? "w-20 h-20" : "w-32 h-32";
+
+  const step = (direction: number) => {
+    if (openIndex === null) return;
+    setOpenIndex((openIndex + direction + items.length) % items.length);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {items.map((attachment, index) => (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className={`relative ${tileSize} rounded-lg overflow-hidden border border-gray-200 bg-gray-100 hover:opacity-90`}
+            title={attachment.fileName}
+          >
+            {attachment.thumbnailUrl || attachment.kind === "IMAGE" ? (
+              <img
+                src={fileUrl(attachment.thumbnailUrl || attachment.url)}
+                alt={attachment.fileName}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full bg-gray-800" />
+            )}
+            {attachment.kind === "VIDEO" && (
+              <span className="absolute inset-0 flex items-center justify-center">
+                <span className="h-8 w-8 rounded-full bg-black/60 flex items-center justify-center">
+                  <Play className="h-4 w-4 text-white" />
+                </span>
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={current !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="text-sm font-medium truncate">
+              {current?.fileName} {items.length > 1 && `(${(openIndex ?? 0) + 1} of ${items.length})`}
+            </DialogTitle>
+          </DialogHeader>
+          {current && (
+            <div className="flex items-center justify-center bg-black rounded-lg overflow-hidden">
+              {current.kind === "VIDEO" ? (
+                <video
+                  key={current.id}
+                  src={fileUrl(current.url)}
+                  poster={current.thumbnailUrl ? fileUrl(current.thumbnailUrl) : undefined}
+                  controls
+                  className="max-h-[70vh] w-full"
+                />
+              ) : (
+                <img src={fileUrl(current.url)} alt={current.fileName} className="max-h-[70vh] object-contain" />
+              )}
+            </div>
+          )}
+          {items.length > 1 && (
+            <div className="flex justify-between">
+              <Button variant="outline" size="sm" onClick={() => step(-1)}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => step(1)}>
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default MaintenanceAttachmentGallery;
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { FileText, Loader2, Plus, Receipt, Trash2, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  addMaintenanceCostRequest,
+  deleteMaintenanceCostRequest,
+  type MaintenanceCost,
+} from "@/api/landlordMaintenanceApi";
+import { toast } from "sonner";
+
+interface MaintenanceCostsProps {
+  requestId: string;
+  costs: MaintenanceCost[];
+  totalCost: number;
+  // Shown while the landlord is about to resolve the request
+  closing?: boolean;
+  onChange: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(amount);
+
+const emptyForm = { costType: "LABOR", amount: "", description: "", date: "" };
+
+const MaintenanceCosts = ({ requestId, costs, totalCost, closing, onChange }: MaintenanceCostsProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const laborTotal = costs.filter(cost => cost.costType === "LABOR").reduce((sum, cost) => sum + cost.amount, 0);
+  const partsTotal = totalCost - laborTotal;
+
+  const handleReceiptSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+      toast.error("Receipts must be an image or PDF");
+      return;
+    }
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error("Receipt size must be less than 10MB");
+      return;
+    }
+    setReceipt(file);
+  };
+
+  const handleAdd = async () => {
+    const formData = new FormData();
+    formData.append("costType", form.costType);
+    formData.append("amount", form.amount);
+    if (form.description.trim()) formData.append("description", form.description.trim());
+    if (form.date) formData.append("date", form.date);
+    if (receipt) formData.append("receipt", receipt);
+
+    setSaving(true);
+    try {
+      const response = await addMaintenanceCostRequest(requestId, formData);
+      toast.success(response.data.message);
+      setForm(emptyForm);
+      setReceipt(null);
+      onChange();
+    } catch (err) {
+      console.error("Error recording maintenance cost:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to record cost");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (costId: string) => {
+    if (!window.confirm("Remove this cost? The matching expense record will be deleted too.")) return;
+
+    setDeletingId(costId);
+    try {
+      await deleteMaintenanceCostRequest(requestId, costId);
+      toast.success("Cost removed successfully");
+      onChange();
+    } catch (err) {
+      console.error("Error removing maintenance cost:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to remove cost");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className={closing ? "border-emerald-300" : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Costs
+          </span>
+          <span className="text-base font-semibold text-gray-900">{formatCurrency(totalCost)}</span>
+        </CardTitle>
+        {closing && (
+          <p className="text-sm text-emerald-700">
+            Log the labor and parts for this job before resolving it. Each cost is booked as a property expense.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {costs.length > 0 && (
+          <div className="space-y-2">
+            {costs.map(cost => (
+              <div key={cost.id} className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{cost.costType}</Badge>
+                    <span className="text-gray-900 truncate">{cost.description}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{new Date(cost.date).toLocaleDateString()}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {cost.receiptUrl && (
+                    <a
+                      href={`http://localhost:5000${cost.receiptUrl}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sky-600 hover:text-sky-700"
+                      title="View receipt"
+                    >
+                      <FileText className="h-4 w-4" />
+                    </a>
+                  )}
+                  <span className="font-medium text-gray-900">{formatCurrency(cost.amount)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                    onClick={() => handleDelete(cost.id)}
+                    disabled={deletingId === cost.id}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-end gap-4 text-xs text-gray-600">
+              <span>Labor {formatCurrency(laborTotal)}</span>
+              <span>Parts {formatCurrency(partsTotal)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* New cost */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={form.costType} onValueChange={(value) => setForm(prev => ({ ...prev, costType: value }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="LABOR">Labor</SelectItem>
+                <SelectItem value="PARTS">Parts</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cost-amount">Amount (₱)</Label>
+            <Input
+              id="cost-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cost-description">Description</Label>
+            <Input
+              id="cost-description"
+              placeholder="e.g. Replacement faucet cartridge"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cost-date">Date</Label>
+            <Input
+              id="cost-date"
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0 text-sm text-gray-600">
+            <label className="inline-flex items-center gap-1 cursor-pointer hover:text-gray-900">
+              <FileText className="h-4 w-4" />
+              Attach receipt
+              <input type="file" accept="image/jpeg,image/png,image/webp,application/pdf" className="hidden" onChange={handleReceiptSelect} />
+            </label>
+            {receipt && (
+              <span className="flex items-center gap-1 text-xs text-gray-500 truncate">
+                {receipt.name}
+                <button type="button" onClick={() => setReceipt(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={saving || !(Number(form.amount) > 0)}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Cost
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MaintenanceCosts;
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { 
   Camera, 
@@ -11,11 +12,75 @@ import {
   Loader2, 
   AlertCircle,
   CheckCircle,
-  Wrench
+  Wrench,
+  Play
 } from "lucide-react";
 import { submitMaintenanceRequest, type MaintenanceRequestSubmission } from "@/api/tenantApi";
 import { toast } from "sonner";
 
+const CATEGORY_OPTIONS = [
+  { value: "PLUMBING", label: "Plumbing" },
+  { value: "ELECTRICAL", label: "Electrical" },
+  { value: "APPLIANCE", label: "Appliance" },
+  { value: "HVAC", label: "Heating / Cooling" },
+  { value: "STRUCTURAL", label: "Structural" },
+  { value: "PEST", label: "Pest Control" },
+  { value: "GENERAL", label: "General" },
+];
+
+const URGENCY_OPTIONS = [
+  { value: "LOW", label: "Low - can wait" },
+  { value: "MEDIUM", label: "Medium - needs attention this week" },
+  { value: "HIGH", label: "High - affects daily living" },
+  { value: "EMERGENCY", label: "Emergency - safety risk or major damage" },
+];
+
+// Mirrors the server's per-request attachment limits
+const MAX_ATTACHMENTS = 6;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 100 * 1024 * 1024;
+const THUMBNAIL_SIZE = 320;
+
+interface SelectedAttachment {
+  file: File;
+  thumbnail: Blob | null;
+  previewUrl: string | null;
+}
+
+// Render a small JPEG preview of a photo or of a video's first second
+const createThumbnail = (file: File): Promise<Blob | null> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const finish = (blob: Blob | null) => {
+      URL.revokeObjectURL(url);
+      resolve(blob);
+    };
+    const draw = (source: CanvasImageSource, width: number, height: number) => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height, 1));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(finish, "image/jpeg", 0.8);
+    };
+
+    if (file.type.startsWith("video/")) {
+      const video = document.createElement("video");
+      video.preload = "metadata";
+      video.muted = true;
+      video.onloadeddata = () => { video.currentTime = Math.min(1, (video.duration || 0) / 2); };
+      video.onseeked = () => draw(video, video.videoWidth, video.videoHeight);
+      video.onerror = () => finish(null);
+      video.src = url;
+    } else {
+      const image = new Image();
+      image.onload = () => draw(image, image.naturalWidth, image.naturalHeight);
+      image.onerror = () => finish(null);
+      image.src = url;
+    }
+  });
+
 interface MaintenanceRequestFormProps {
   isOpen: boolean;
   onClose: () => void;
@@ -24,42 +89,66 @@ interface MaintenanceRequestFormProps {
 
 const MaintenanceRequestForm = ({ isOpen, onClose, onSuccess }: MaintenanceRequestFormProps) => {
   const [description, setDescription] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [category, setCategory] = useState("GENERAL");
+  const [priority, setPriority] = useState("MEDIUM");
+  const [attachments, setAttachments] = useState<SelectedAttachment[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      // Validate file type
-      if (!file.type.startsWith('image/')) {
-        toast.error("Please select an image file");
-        return;
-      }
+  const totalSize = attachments.reduce((sum, attachment) => sum + attachment.file.size, 0);
 
-      // Validate file size (max 5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error("Image size must be less than 5MB");
-        return;
-      }
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
 
-      setSelectedFile(file);
-      
-      // Create preview URL
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
+    const accepted: File[] = [];
+    let runningSize = totalSize;
+    for (const file of files) {
+      const isVideo = file.type.startsWith('video/');
+      if (!isVideo && !file.type.startsWith('image/')) {
+        toast.error(`${file.name} is not a photo or video`);
+        continue;
+      }
+      if (file.size > (isVideo ? MAX_VIDEO_SIZE : MAX_IMAGE_SIZE)) {
+        toast.error(`${file.name} is too large (${isVideo ? "videos up to 50MB" : "photos up to 10MB"})`);
+        continue;
+      }
+      if (attachments.length + accepted.length >= MAX_ATTACHMENTS) {
+        toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`);
+        break;
+      }
+      if (runningSize + file.size > MAX_TOTAL_SIZE) {
+        toast.error("Attachments can total up to 100MB");
+        break;
+      }
+      runningSize += file.size;
+      accepted.push(file);
     }
+
+    setIsProcessing(true);
+    const added = await Promise.all(accepted.map(async file => {
+      const thumbnail = await createThumbnail(file);
+      return { file, thumbnail, previewUrl: thumbnail ? URL.createObjectURL(thumbnail) : null };
+    }));
+    setAttachments(prev => [...prev, ...added]);
+    setIsProcessing(false);
   };
 
-  const handleRemoveImage = () => {
-    setSelectedFile(null);
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
-      setPreviewUrl(null);
-    }
+  const handleRemoveAttachment = (index: number) => {
+    setAttachments(prev => {
+      const removed = prev[index];
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((_, i) => i !== index);
+    });
   };
 
-  // No need for image conversion - we'll send the file directly
+  const clearAttachments = () => {
+    attachments.forEach(attachment => {
+      if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+    });
+    setAttachments([]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,18 +158,25 @@ const MaintenanceRequestForm = ({ isOpen, onClose, onSuccess }: MaintenanceReque
       return;
     }
 
-    if (!selectedFile) {
-      toast.error("Please upload a photo of the maintenance issue");
+    if (attachments.length === 0) {
+      toast.error("Please add at least one photo or video of the maintenance issue");
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      // Create FormData to send file and description
+      // Create FormData to send the files (each with its thumbnail) and description
       const formData = new FormData();
       formData.append('description', description.trim());
-      formData.append('maintenanceImage', selectedFile);
+      formData.append('category', category);
+      formData.append('priority', priority);
+      attachments.forEach((attachment, index) => {
+        formData.append('attachments', attachment.file);
+        if (attachment.thumbnail) {
+          formData.append('attachmentThumbnails', attachment.thumbnail, `thumb-${index}.jpg`);
+        }
+      });
 
       await submitMaintenanceRequest(formData);
       
@@ -88,7 +184,9 @@ const MaintenanceRequestForm = ({ isOpen, onClose, onSuccess }: MaintenanceReque
       
       // Reset form
       setDescription("");
-      handleRemoveImage();
+      setCategory("GENERAL");
+      setPriority("MEDIUM");
+      clearAttachments();
       
       // Close modal and refresh data
       onClose();
@@ -105,7 +203,9 @@ const MaintenanceRequestForm = ({ isOpen, onClose, onSuccess }: MaintenanceReque
   const handleClose = () => {
     if (!isSubmitting) {
       setDescription("");
-      handleRemoveImage();
+      setCategory("GENERAL");
+      setPriority("MEDIUM");
+      clearAttachments();
       onClose();
     }
   };
@@ -140,67 +240,125 @@ const MaintenanceRequestForm = ({ isOpen, onClose, onSuccess }: MaintenanceReque
             </p>
           </div>
 
-          {/* Photo Upload */}
+          {/* Category & Urgency */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory} disabled={isSubmitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Urgency</Label>
+              <Select value={priority} onValueChange={setPriority} disabled={isSubmitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {URGENCY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Photo & Video Upload */}
           <div className="space-y-2">
             <Label>
-              Upload a photo of the issue <span className="text-red-500">*</span>
+              Photos or videos of the issue <span className="text-red-500">*</span>
             </Label>
-            
-            {!selectedFile ? (
+
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/gif,image/webp,video/mp4,video/quicktime,video/webm"
+              multiple
+              onChange={handleFileSelect}
+              className="hidden"
+              id="photo-upload"
+              disabled={isSubmitting || isProcessing}
+            />
+
+            {attachments.length === 0 ? (
               <Card className="border-2 border-dashed border-gray-300 hover:border-gray-400 transition-colors">
                 <CardContent className="p-6">
                   <div className="text-center">
                     <Camera className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                     <div className="space-y-2">
                       <p className="text-sm font-medium text-gray-900">
-                        Upload a photo of the maintenance issue
+                        Show the issue from a few angles
                       </p>
                       <p className="text-xs text-gray-500">
-                        PNG, JPG, or JPEG up to 5MB
+                        Up to {MAX_ATTACHMENTS} files · photos up to 10MB · videos up to 50MB
                       </p>
                     </div>
-                    <input
-                      type="file"
-                      accept="image/*"
-                      onChange={handleFileSelect}
-                      className="hidden"
-                      id="photo-upload"
-                      disabled={isSubmitting}
-                    />
                     <Button
                       type="button"
                       variant="outline"
                       className="mt-4"
                       onClick={() => document.getElementById('photo-upload')?.click()}
-                      disabled={isSubmitting}
+                      disabled={isSubmitting || isProcessing}
                     >
                       <Upload className="h-4 w-4 mr-2" />
-                      Choose Photo
+                      Choose Files
                     </Button>
                   </div>
                 </CardContent>
               </Card>
             ) : (
               <div className="space-y-3">
-                <div className="relative">
-                  <img
-                    src={previewUrl || ""}
-                    alt="Maintenance issue preview"
-                    className="w-full h-48 object-cover rounded-lg border"
-                  />
-                  <Button
-                    type="button"
-                    variant="destructive"
-                    size="sm"
-                    className="absolute top-2 right-2"
-                    onClick={handleRemoveImage}
-                    disabled={isSubmitting}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
+                <div className="grid grid-cols-3 gap-3">
+                  {attachments.map((attachment, index) => (
+                    <div key={`${attachment.file.name}-${index}`} className="relative h-28 rounded-lg border overflow-hidden bg-gray-100">
+                      {attachment.previewUrl ? (
+                        <img
+                          src={attachment.previewUrl}
+                          alt={attachment.file.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-xs text-gray-500 p-2 text-center">
+                          {attachment.file.name}
+                        </div>
+                      )}
+                      {attachment.file.type.startsWith('video/') && (
+                        <span className="absolute bottom-1 left-1 h-6 w-6 rounded-full bg-black/60 flex items-center justify-center">
+                          <Play className="h-3 w-3 text-white" />
+                        </span>
+                      )}
+                      <Button
+                        type="button"
+                        variant="destructive"
+                        size="sm"
+                        className="absolute top-1 right-1 h-6 w-6 p-0"
+                        onClick={() => handleRemoveAttachment(index)}
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  {attachments.length < MAX_ATTACHMENTS && (
+                    <button
+                      type="button"
+                      onClick={() => document.getElementById('photo-upload')?.click()}
+                      disabled={isSubmitting || isProcessing}
+                      className="h-28 rounded-lg border-2 border-dashed border-gray-300 hover:border-gray-400 flex flex-col items-center justify-center text-xs text-gray-500"
+                    >
+                      {isProcessing ? <Loader2 className="h-5 w-5 animate-spin" /> : <Upload className="h-5 w-5 mb-1" />}
+                      {isProcessing ? "" : "Add more"}
+                    </button>
+                  )}
                 </div>
                 <p className="text-sm text-gray-600">
-                  Selected: {selectedFile.name} ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
+                  {attachments.length} of {MAX_ATTACHMENTS} files · {(totalSize / 1024 / 1024).toFixed(1)} MB of 100 MB
                 </p>
               </div>
             )}
@@ -218,7 +376,7 @@ const MaintenanceRequestForm = ({ isOpen, onClose, onSuccess }: MaintenanceReque
             </Button>
             <Button
               type="submit"
-              disabled={isSubmitting || !description.trim() || !selectedFile}
+              disabled={isSubmitting || isProcessing || !description.trim() || attachments.length === 0}
               className="min-w-[120px]"
             >
               {isSubmitting ? (
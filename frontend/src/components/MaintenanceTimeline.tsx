@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { ArrowRight, Camera, Loader2, MessageSquare, RefreshCw, Send, Wrench, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import type { MaintenanceTimelineEntry } from "@/api/landlordMaintenanceApi";
+import { toast } from "sonner";
+
+interface MaintenanceTimelineProps {
+  submittedAt: string;
+  submittedBy?: string;
+  entries: MaintenanceTimelineEntry[];
+  loading?: boolean;
+  // Receives FormData with `message` and/or `maintenanceImage`; rejects on failure
+  onSubmit: (data: FormData) => Promise<void>;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+
+const formatStatus = (status: string | null) => (status || "OPEN").replace("_", " ");
+
+const MaintenanceTimeline = ({ submittedAt, submittedBy, entries, loading, onSubmit }: MaintenanceTimelineProps) => {
+  const [message, setMessage] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image file");
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error("Image size must be less than 5MB");
+      return;
+    }
+    setPhoto(file);
+  };
+
+  const handleSend = async () => {
+    if (!message.trim() && !photo) return;
+
+    const formData = new FormData();
+    if (message.trim()) formData.append("message", message.trim());
+    if (photo) formData.append("maintenanceImage", photo);
+
+    setSending(true);
+    try {
+      await onSubmit(formData);
+      setMessage("");
+      setPhoto(null);
+    } catch (err) {
+      console.error("Error adding maintenance comment:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to add comment");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          <li className="ml-5">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-emerald-100">
+              <Wrench className="h-3 w-3 text-emerald-600" />
+            </span>
+            <p className="text-sm text-gray-900">
+              Request submitted{submittedBy ? ` by ${submittedBy}` : ""}
+            </p>
+            <p className="text-xs text-gray-500">{formatDateTime(submittedAt)}</p>
+          </li>
+
+          {entries.map(entry => (
+            <li key={entry.id} className="ml-5">
+              <span className={`absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full ${
+                entry.type === "STATUS_CHANGE" ? "bg-sky-100" : "bg-gray-100"
+              }`}>
+                {entry.type === "STATUS_CHANGE"
+                  ? <RefreshCw className="h-3 w-3 text-sky-600" />
+                  : <MessageSquare className="h-3 w-3 text-gray-600" />}
+              </span>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-900">
+                <span className="font-medium">{entry.author.fullName}</span>
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">{entry.author.role}</Badge>
+                {entry.type === "STATUS_CHANGE" && (
+                  <span className="flex items-center gap-1 text-gray-600">
+                    changed status {formatStatus(entry.fromStatus)}
+                    <ArrowRight className="h-3 w-3" />
+                    <span className="font-medium text-gray-900">{formatStatus(entry.toStatus)}</span>
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">{formatDateTime(entry.createdAt)}</p>
+              {entry.message && (
+                <p className="mt-2 text-sm text-gray-700 whitespace-pre-line p-3 bg-gray-50 rounded-lg">{entry.message}</p>
+              )}
+              {entry.photoUrl && (
+                <a href={`http://localhost:5000${entry.photoUrl}`} target="_blank" rel="noreferrer">
+                  <img
+                    src={`http://localhost:5000${entry.photoUrl}`}
+                    alt="Follow-up photo"
+                    className="mt-2 w-40 h-28 object-cover rounded-lg border border-gray-200"
+                  />
+                </a>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Composer */}
+      <div className="space-y-2 pt-2 border-t border-gray-100">
+        <Textarea
+          placeholder="Add a comment..."
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={2}
+          className="resize-none"
+          disabled={sending}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <label className="inline-flex items-center gap-1 text-sm text-gray-600 cursor-pointer hover:text-gray-900">
+              <Camera className="h-4 w-4" />
+              Photo
+              <input type="file" accept="image/jpeg,image/png,image/gif,image/webp" className="hidden" onChange={handlePhotoSelect} disabled={sending} />
+            </label>
+            {photo && (
+              <span className="flex items-center gap-1 text-xs text-gray-500 truncate">
+                {photo.name}
+                <button type="button" onClick={() => setPhoto(null)} className="text-gray-400 hover:text-gray-600">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+          </div>
+          <Button size="sm" onClick={handleSend} disabled={sending || (!message.trim() && !photo)}>
+            {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Post
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceTimeline;
@@ -235,7 +235,7 @@ const TenantApplicationReview = ({ application, onApplicationUpdate, onClose }:
                 Application Review
               </Badge>
               <Badge className={getRiskBadgeColor(application.riskAssessment.riskLevel)}>
-                {application.riskAssessment.riskLevel} Risk ({application.riskAssessment.aiRiskScore}%)
+                {application.riskAssessment.riskLevel} Risk ({Math.round(application.riskAssessment.aiRiskScore * 100)}%)
               </Badge>
             </div>
           </div>
@@ -503,12 +503,12 @@ const TenantApplicationReview = ({ application, onApplicationUpdate, onClose }:
             </div>
             <div className="text-right">
               <p className="text-sm text-gray-600">Risk Score</p>
-              <p className="text-2xl font-bold">{application.riskAssessment.aiRiskScore}%</p>
+              <p className="text-2xl font-bold">{Math.round(application.riskAssessment.aiRiskScore * 100)}%</p>
             </div>
           </div>
           {application.riskAssessment.aiScreeningSummary && (
             <div className="p-4 bg-gray-50 rounded-lg">
-              <p className="text-sm">{application.riskAssessment.aiScreeningSummary}</p>
+              <p className="text-sm whitespace-pre-line">{application.riskAssessment.aiScreeningSummary}</p>
             </div>
           )}
         </CardContent>
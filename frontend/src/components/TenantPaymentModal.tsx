@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   CreditCard,
   Smartphone,
@@ -20,10 +21,12 @@ import {
   Clock,
   Receipt,
   Home,
-  User
+  User,
+  XCircle
 } from "lucide-react";
 import { toast } from "sonner";
-import { submitTenantPayment, type TenantPaymentRequest } from "@/api/tenantApi";
+import { submitTenantPayment, getTenantRentSchedule, type TenantPaymentRequest, type TenantRentSchedule } from "@/api/tenantApi";
+import { confirmPaymentIntentRequest, waitForPaymentIntent } from "@/api/paymentApi";
 
 interface TenantPaymentModalProps {
   isOpen: boolean;
@@ -57,9 +60,12 @@ const TenantPaymentModal = ({
 }: TenantPaymentModalProps) => {
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'gcash'>('card');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [paymentStep, setPaymentStep] = useState<'details' | 'processing' | 'success'>('details');
+  const [paymentStep, setPaymentStep] = useState<'details' | 'processing' | 'success' | 'failed'>('details');
   const [amount, setAmount] = useState<string>('');
   const [note, setNote] = useState<string>('');
+  const [schedule, setSchedule] = useState<TenantRentSchedule | null>(null);
+  const [simulateDecline, setSimulateDecline] = useState(false);
+  const [failureReason, setFailureReason] = useState<string | null>(null);
 
   // Format currency
   const formatCurrency = (amount: number) => {
@@ -100,10 +106,27 @@ const TenantPaymentModal = ({
         note: note.trim() || undefined
       };
 
+      // create intent → confirm → wait for the provider webhook to settle it
       const response = await submitTenantPayment(paymentData);
-      
-      setPaymentStep('success');
-      toast.success("Payment successful! Your payment has been processed.");
+      await confirmPaymentIntentRequest(response.data.intent.id,
+        // Only the simulated provider takes a requested outcome (it succeeds by default)
+        simulateDecline && response.data.intent.provider === 'SIMULATED' ? { simulateOutcome: 'fail' } : undefined
+      );
+      const intent = await waitForPaymentIntent(response.data.intent.id);
+
+      if (intent.status === 'FAILED') {
+        setFailureReason(intent.failureReason);
+        setPaymentStep('failed');
+        toast.error("Payment failed. Please try again.");
+        return;
+      }
+
+      if (intent.status === 'SUCCEEDED') {
+        setPaymentStep('success');
+        toast.success("Payment successful! Your payment has been processed.");
+      } else {
+        toast.info("Your payment is still processing. We'll notify your landlord once it completes.");
+      }
       
       // Call success callback after a short delay
       setTimeout(() => {
@@ -120,6 +143,30 @@ const TenantPaymentModal = ({
     }
   };
 
+  // Load the current balance (rent installments + late fees) when opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    getTenantRentSchedule({ signal: controller.signal })
+      .then((response) => setSchedule(response.data))
+      .catch((err) => {
+        if (err.name !== "AbortError") {
+          console.error("Error fetching rent schedule:", err);
+          setSchedule(null);
+        }
+      });
+
+    return () => controller.abort();
+  }, [isOpen]);
+
+  const rentDue = schedule
+    ? schedule.installments
+        .filter((i) => i.type === "RENT" && (i.status === "DUE" || i.status === "OVERDUE"))
+        .reduce((sum, i) => sum + (i.amount - i.amountPaid), 0)
+    : 0;
+  const balanceDue = schedule?.summary.dueNowAmount ?? 0;
+
   // Reset modal state when closed
   useEffect(() => {
     if (!isOpen) {
@@ -128,6 +175,8 @@ const TenantPaymentModal = ({
       setPaymentMethod('card');
       setAmount('');
       setNote('');
+      setSimulateDecline(false);
+      setFailureReason(null);
     }
   }, [isOpen]);
 
@@ -184,6 +233,36 @@ const TenantPaymentModal = ({
               </CardContent>
             </Card>
 
+            {/* Current Balance */}
+            {schedule && balanceDue > 0 && (
+              <Card className="border-red-200 bg-red-50">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Clock className="h-5 w-5 text-red-600" />
+                    Balance Due
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Rent Due:</span>
+                    <span className="font-semibold">{formatCurrency(rentDue)}</span>
+                  </div>
+                  {schedule.summary.lateFeesOutstanding > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Late Fees:</span>
+                      <span className="font-semibold text-red-600">{formatCurrency(schedule.summary.lateFeesOutstanding)}</span>
+                    </div>
+                  )}
+                  <div className="border-t border-red-200 pt-3">
+                    <div className="flex justify-between items-center text-lg font-bold">
+                      <span>Total Due Now:</span>
+                      <span className="text-red-600">{formatCurrency(balanceDue)}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Payment Amount */}
             <Card>
               <CardHeader className="pb-3">
@@ -205,7 +284,9 @@ const TenantPaymentModal = ({
                     step="0.01"
                   />
                   <p className="text-sm text-gray-600">
-                    Suggested: {formatCurrency(leaseDetails.rentAmount)} (full rent)
+                    {balanceDue > 0
+                      ? <>Suggested: {formatCurrency(balanceDue)} (balance due now)</>
+                      : <>Suggested: {formatCurrency(leaseDetails.rentAmount)} (full rent)</>}
                   </p>
                 </div>
                 
@@ -269,14 +350,22 @@ const TenantPaymentModal = ({
                   </button>
                 </div>
 
-                {/* Sandbox Notice */}
+                {/* Simulated Provider Notice */}
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                   <div className="flex items-start gap-3">
                     <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5" />
                     <div className="text-sm">
-                      <div className="font-semibold text-yellow-800 mb-1">Sandbox Mode</div>
+                      <div className="font-semibold text-yellow-800 mb-1">Simulated Provider</div>
                       <div className="text-yellow-700">
-                        This is a test environment. No real money will be charged. All payments are simulated for testing purposes.
+                        Payments go through the local simulated provider. No real money will be charged; the result arrives a few seconds after you pay.
+                      </div>
+                      <div className="flex items-center gap-2 mt-3">
+                        <Switch
+                          id="simulate-decline"
+                          checked={simulateDecline}
+                          onCheckedChange={setSimulateDecline}
+                        />
+                        <Label htmlFor="simulate-decline" className="text-yellow-800">Simulate a declined payment</Label>
                       </div>
                     </div>
                   </div>
@@ -325,8 +414,8 @@ const TenantPaymentModal = ({
                       <ul className="space-y-1 text-gray-600">
                         <li>• You can pay any amount you choose</li>
                         <li>• Payment will be recorded in your payment history</li>
-                        <li>• Your landlord will be notified of the payment</li>
-                        <li>• This is a sandbox environment - no real money is charged</li>
+                        <li>• Your payment stays pending until the provider confirms it</li>
+                        <li>• Your landlord will be notified once the payment succeeds</li>
                       </ul>
                     </div>
                   </div>
@@ -367,7 +456,7 @@ const TenantPaymentModal = ({
             </div>
             <h3 className="text-xl font-semibold text-gray-900 mb-2">Processing Payment</h3>
             <p className="text-gray-600 mb-4">
-              Please wait while we process your payment...
+              Please wait while the payment provider confirms your payment...
             </p>
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 max-w-md mx-auto">
               <div className="flex items-center gap-2 text-sm text-blue-800">
@@ -395,6 +484,27 @@ const TenantPaymentModal = ({
             </div>
           </div>
         )}
+
+        {paymentStep === 'failed' && (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <XCircle className="h-8 w-8 text-red-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Payment Failed</h3>
+            <p className="text-gray-600 mb-4">
+              Your payment of {amount ? formatCurrency(parseFloat(amount)) : 'the amount'} was not completed
+              {failureReason ? ` (${failureReason.replace(/_/g, ' ')})` : ''}. You have not been charged.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={() => setPaymentStep('details')}>
+                Try Again
+              </Button>
+            </div>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from "react";
+import { Gavel, Loader2, CheckCircle, Clock, XCircle, AlertTriangle, MessageSquare } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import {
+  getTenantViolationsRequest,
+  respondToViolationRequest,
+  type TenantRuleViolation,
+  type ViolationStatus,
+  type ViolationWarningLevel,
+} from "@/api/tenantApi";
+
+const MAX_RESPONSE_LENGTH = 1000;
+
+const fileUrl = (path: string) => `http://localhost:5000${path}`;
+
+const WARNING_LABELS: Record<ViolationWarningLevel, string> = {
+  NOTICE: "Notice",
+  WARNING: "Warning",
+  FINAL_WARNING: "Final warning",
+};
+
+const getStatusBadge = (status: ViolationStatus) => {
+  switch (status) {
+    case "ACKNOWLEDGED":
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="h-3 w-3 mr-1" />Acknowledged</Badge>;
+    case "DISPUTED":
+      return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><AlertTriangle className="h-3 w-3 mr-1" />Disputed</Badge>;
+    case "WITHDRAWN":
+      return <Badge className="bg-gray-100 text-gray-600 hover:bg-gray-100"><XCircle className="h-3 w-3 mr-1" />Withdrawn</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100"><Clock className="h-3 w-3 mr-1" />Needs your response</Badge>;
+  }
+};
+
+// Lease rule violations the landlord logged, with acknowledge/dispute (shown on My Lease)
+const TenantViolationsCard = () => {
+  const [violations, setViolations] = useState<TenantRuleViolation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [disputingId, setDisputingId] = useState<string | null>(null);
+  const [response, setResponse] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const fetchViolations = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await getTenantViolationsRequest({ signal });
+      setViolations(res.data.violations);
+    } catch (error) {
+      if ((error as { name?: string }).name !== "CanceledError") {
+        console.error("Error fetching rule violations:", error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchViolations(controller.signal);
+    return () => controller.abort();
+  }, [fetchViolations]);
+
+  const handleRespond = async (violation: TenantRuleViolation, action: "ACKNOWLEDGE" | "DISPUTE") => {
+    if (action === "DISPUTE" && !response.trim()) {
+      toast.error("Please explain why you dispute this violation");
+      return;
+    }
+
+    setSavingId(violation.id);
+    try {
+      const res = await respondToViolationRequest(violation.id, {
+        action,
+        response: action === "DISPUTE" ? response.trim() : undefined,
+      });
+      toast.success(res.data.message);
+      setDisputingId(null);
+      setResponse("");
+      fetchViolations();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to respond to violation");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading || violations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Lease Rule Violations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {violations.map((violation) => {
+          const isDisputing = disputingId === violation.id;
+          const isSaving = savingId === violation.id;
+
+          return (
+            <div key={violation.id} className="p-4 border rounded-lg space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h4 className="font-medium text-gray-900">
+                    {WARNING_LABELS[violation.warningLevel]}: "{violation.ruleText}"
+                  </h4>
+                  <p className="text-xs text-gray-500">
+                    {violation.lease.unit.property.title} - Unit {violation.lease.unit.label} · {new Date(violation.occurredAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {getStatusBadge(violation.status)}
+              </div>
+
+              <p className="text-sm text-gray-700 whitespace-pre-line">{violation.description}</p>
+
+              {violation.evidenceUrls && violation.evidenceUrls.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {violation.evidenceUrls.map((url) => (
+                    <a key={url} href={fileUrl(url)} target="_blank" rel="noreferrer">
+                      <img
+                        src={fileUrl(url)}
+                        alt="Violation evidence"
+                        className="w-20 h-20 object-cover rounded-lg border border-gray-200"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {violation.tenantResponse && (
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs font-medium text-gray-600 flex items-center gap-1 mb-1">
+                    <MessageSquare className="h-3 w-3" />
+                    Your response
+                  </p>
+                  <p className="text-sm text-gray-700">{violation.tenantResponse}</p>
+                </div>
+              )}
+
+              {violation.status === "OPEN" && (
+                isDisputing ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={response}
+                      onChange={(e) => setResponse(e.target.value)}
+                      placeholder="Explain what happened from your side"
+                      maxLength={MAX_RESPONSE_LENGTH}
+                      rows={3}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setDisputingId(null)} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleRespond(violation, "DISPUTE")} disabled={isSaving}>
+                        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Send Dispute
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleRespond(violation, "ACKNOWLEDGE")} disabled={isSaving}>
+                      {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                      Acknowledge
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setDisputingId(violation.id);
+                        setResponse("");
+                      }}
+                      disabled={isSaving}
+                    >
+                      Dispute
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TenantViolationsCard;
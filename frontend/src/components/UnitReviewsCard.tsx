@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from "react";
+import { Star, MessageSquare, Edit3, Loader2, Clock, CheckCircle, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import {
+  getTenantReviewsRequest,
+  submitUnitReviewRequest,
+  updateUnitReviewRequest,
+  type ReviewableLease,
+  type UnitReviewStatus,
+} from "@/api/tenantApi";
+
+const MAX_COMMENT_LENGTH = 1000;
+
+const StarPicker = ({ value, onChange }: { value: number; onChange: (rating: number) => void }) => (
+  <div className="flex items-center gap-1">
+    {[1, 2, 3, 4, 5].map((rating) => (
+      <button
+        key={rating}
+        type="button"
+        onClick={() => onChange(rating)}
+        className="p-0.5"
+        aria-label={`${rating} star${rating > 1 ? "s" : ""}`}
+      >
+        <Star
+          className={`h-6 w-6 ${rating <= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+        />
+      </button>
+    ))}
+  </div>
+);
+
+const getStatusBadge = (status: UnitReviewStatus) => {
+  switch (status) {
+    case "PUBLISHED":
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="h-3 w-3 mr-1" />Published</Badge>;
+    case "REJECTED":
+      return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><XCircle className="h-3 w-3 mr-1" />Not published</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100"><Clock className="h-3 w-3 mr-1" />Awaiting approval</Badge>;
+  }
+};
+
+// Rate and review the unit of each current or past lease (shown on My Lease)
+const UnitReviewsCard = () => {
+  const [leases, setLeases] = useState<ReviewableLease[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingLeaseId, setEditingLeaseId] = useState<string | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchReviews = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const response = await getTenantReviewsRequest({ signal });
+      setLeases(response.data.leases);
+    } catch (error) {
+      if ((error as { name?: string }).name !== "CanceledError") {
+        console.error("Error fetching reviews:", error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchReviews(controller.signal);
+    return () => controller.abort();
+  }, [fetchReviews]);
+
+  const startEditing = (lease: ReviewableLease) => {
+    setEditingLeaseId(lease.id);
+    setRating(lease.review?.rating ?? 0);
+    setComment(lease.review?.comment ?? "");
+  };
+
+  const handleSubmit = async (lease: ReviewableLease) => {
+    if (rating < 1) {
+      toast.error("Please choose a rating");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = { rating, comment: comment.trim() || undefined };
+      const response = lease.review
+        ? await updateUnitReviewRequest(lease.review.id, data)
+        : await submitUnitReviewRequest(lease.id, data);
+      toast.success(response.data.message);
+      setEditingLeaseId(null);
+      fetchReviews();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to save review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || leases.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="h-5 w-5" />
+          Rate Your Home
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {leases.map((lease) => {
+          const isEditing = editingLeaseId === lease.id;
+          const { review } = lease;
+
+          return (
+            <div key={lease.id} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h4 className="font-medium text-gray-900">
+                    {lease.unit.property.title} - Unit {lease.unit.label}
+                  </h4>
+                  <p className="text-xs text-gray-500">
+                    {lease.leaseNickname} · {new Date(lease.startDate).toLocaleDateString()}
+                    {lease.endDate && ` – ${new Date(lease.endDate).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {review && !isEditing && getStatusBadge(review.status)}
+              </div>
+
+              {isEditing ? (
+                <div className="space-y-3">
+                  <StarPicker value={rating} onChange={setRating} />
+                  <Textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="What was it like living here? (optional)"
+                    maxLength={MAX_COMMENT_LENGTH}
+                    rows={3}
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-500">
+                      Reviews are checked by our team before they appear on the listing.
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditingLeaseId(null)} disabled={saving}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleSubmit(lease)} disabled={saving}>
+                        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        {review ? "Save Changes" : "Submit Review"}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ) : review ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-1">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <Star
+                        key={star}
+                        className={`h-4 w-4 ${star <= review.rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+                      />
+                    ))}
+                  </div>
+                  {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+                  {review.status === "REJECTED" && review.moderationNote && (
+                    <p className="text-xs text-red-600">Reason: {review.moderationNote}</p>
+                  )}
+                  {review.landlordReply && (
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs font-medium text-gray-600 flex items-center gap-1 mb-1">
+                        <MessageSquare className="h-3 w-3" />
+                        Landlord's reply
+                      </p>
+                      <p className="text-sm text-gray-700">{review.landlordReply}</p>
+                    </div>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(lease)}>
+                    <Edit3 className="h-4 w-4 mr-2" />
+                    Edit Review
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => startEditing(lease)}>
+                  <Star className="h-4 w-4 mr-2" />
+                  Write a Review
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnitReviewsCard;
@@ -19,6 +19,8 @@ import {
   Database,
   Activity,
   Trash2,
+  Timer,
+  Star,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
@@ -27,7 +29,7 @@ import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { useAuthStore } from "@/stores/useAuthStore";
 import { logoutRequest } from "@/api/authApi";
-import { getNotifications, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, type Notification } from "@/api/notificationApi";
+import { getNotifications, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, subscribeToNotifications, type Notification } from "@/api/notificationApi";
 
 
 // Sidebar configuration for admin
@@ -88,6 +90,11 @@ const sidebarConfig = [
         name: "Property Requests",
         icon: FileText,
       },
+      {
+        path: "/admin/reviews",
+        name: "Review Moderation",
+        icon: Star,
+      },
     ],
   },
   {
@@ -120,6 +127,11 @@ const sidebarConfig = [
         name: "System Logs",
         icon: Activity,
       },
+      {
+        path: "/admin/jobs",
+        name: "Scheduled Jobs",
+        icon: Timer,
+      },
     ],
   },
 ];
@@ -134,10 +146,12 @@ const breadcrumbConfig: Record<string, { name: string; parent?: string }> = {
   "/admin/verifications": { name: "Verifications" },
   "/admin/properties": { name: "All Properties" },
   "/admin/property-requests": { name: "Property Requests" },
+  "/admin/reviews": { name: "Review Moderation" },
   "/admin/payments": { name: "All Payments" },
   "/admin/transactions": { name: "Transactions" },
   "/admin/reports": { name: "Reports" },
   "/admin/system-logs": { name: "System Logs" },
+  "/admin/jobs": { name: "Scheduled Jobs" },
   "/admin/settings": { name: "Settings" },
 };
 
@@ -320,6 +334,24 @@ const Header = ({ onMobileMenuClick }: { onMobileMenuClick: () => void }) => {
     fetchNotifications();
   }, [user]);
 
+  // Live updates: new notifications go to the top of the dropdown, the badge follows the server count
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToNotifications({
+      onNotification: (notification, count) => {
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)].slice(0, 10));
+        setUnreadCount(count);
+      },
+      onUnreadCount: (count) => {
+        setUnreadCount(count);
+        if (count === 0) {
+          setNotifications(prev => prev.map(n => n.status === "UNREAD" ? { ...n, status: "READ" as const } : n));
+        }
+      },
+    });
+  }, [user]);
+
   // Refresh notifications when dropdown opens
   useEffect(() => {
     if (notifsOpen) {
@@ -22,7 +22,7 @@ import { logoutRequest } from "@/api/authApi";
 import { useAuthStore } from "@/stores/useAuthStore";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { getNotifications, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, type Notification } from "@/api/notificationApi";
+import { getNotifications, markNotificationAsRead, markAllNotificationsAsRead, deleteNotification, subscribeToNotifications, type Notification } from "@/api/notificationApi";
 
 // Sidebar configuration for tenants
 const sidebarConfig = [
@@ -266,6 +266,24 @@ const Header = ({ onMobileMenuClick }: { onMobileMenuClick: () => void }) => {
     fetchNotifications();
   }, [user]);
 
+  // Live updates: new notifications go to the top of the dropdown, the badge follows the server count
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToNotifications({
+      onNotification: (notification, count) => {
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)].slice(0, 10));
+        setUnreadCount(count);
+      },
+      onUnreadCount: (count) => {
+        setUnreadCount(count);
+        if (count === 0) {
+          setNotifications(prev => prev.map(n => n.status === "UNREAD" ? { ...n, status: "READ" as const } : n));
+        }
+      },
+    });
+  }, [user]);
+
   // Refresh notifications when dropdown opens
   useEffect(() => {
     if (notifsOpen) {
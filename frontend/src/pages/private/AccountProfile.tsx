@@ -3,6 +3,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -32,11 +33,20 @@ import {
   Key,
   X,
   Save,
+  Bell,
+  Loader2,
 } from "lucide-react";
 import { useAuthStore } from "@/stores/useAuthStore";
 import { supabase } from "@/lib/supabaseClient";
 import { v4 as uuidv4 } from "uuid";
 import { forgotPasswordRequest, updateProfileRequest } from "@/api/authApi";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  type NotificationCategory,
+  type NotificationChannels,
+  type NotificationPreferences,
+} from "@/api/notificationApi";
 
 const MAX_AVATAR_BYTES = 5 * 1024 * 1024; // 5 MB
 
@@ -60,6 +70,177 @@ const initialsOf = (first?: string | null, last?: string | null) => {
   return f + l || "U";
 };
 
+const NOTIFICATION_CATEGORIES: {
+  key: NotificationCategory;
+  label: string;
+  description: string;
+}[] = [
+  { key: "PAYMENT", label: "Payments", description: "Rent reminders, received and late payments" },
+  { key: "LEASE", label: "Leases", description: "New leases, renewals, applications and move-outs" },
+  { key: "MAINTENANCE", label: "Maintenance", description: "Requests, status updates and scheduled work" },
+  { key: "MESSAGE", label: "Messages", description: "New messages from landlords or tenants" },
+  { key: "SYSTEM", label: "Account & system", description: "Listings, properties and account notices" },
+];
+
+const NotificationPreferencesCard = ({
+  accentBg50,
+  accentText600,
+  saveButtonClass,
+}: {
+  accentBg50: string;
+  accentText600: string;
+  saveButtonClass: string;
+}) => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [savedPreferences, setSavedPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getNotificationPreferences()
+      .then((data) => {
+        setPreferences(data);
+        setSavedPreferences(data);
+      })
+      .catch(() => toast.error("Failed to load notification preferences"));
+  }, []);
+
+  const setChannel = (
+    category: NotificationCategory,
+    channel: keyof NotificationChannels,
+    value: boolean
+  ) => {
+    setPreferences((prev) =>
+      prev
+        ? {
+            ...prev,
+            channels: {
+              ...prev.channels,
+              [category]: { ...prev.channels[category], [channel]: value },
+            },
+          }
+        : prev
+    );
+  };
+
+  const hasChanges =
+    JSON.stringify(preferences) !== JSON.stringify(savedPreferences);
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setIsSaving(true);
+    try {
+      const saved = await updateNotificationPreferences(preferences);
+      setPreferences(saved);
+      setSavedPreferences(saved);
+      toast.success("Notification preferences saved");
+    } catch (err) {
+      toast.error(
+        (err as { response?: { data?: { message?: string } } }).response?.data
+          ?.message || "Failed to save notification preferences"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 p-5 md:p-6 space-y-5 shadow-sm hover:shadow-md transition-shadow lg:col-span-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${accentBg50}`}>
+            <Bell className={`h-5 w-5 ${accentText600}`} />
+          </div>
+          <div>
+            <h2 className="font-semibold text-gray-900 text-lg">
+              Notification Preferences
+            </h2>
+            <p className="text-sm text-gray-500">
+              Choose how you hear about each kind of update.
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={!preferences || !hasChanges || isSaving}
+          className={`gap-2 text-white ${saveButtonClass}`}
+        >
+          {isSaving ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <Save size={16} />
+          )}
+          Save
+        </Button>
+      </div>
+
+      {!preferences ? (
+        <div className="flex items-center justify-center py-8 text-gray-500 text-sm gap-2">
+          <Loader2 size={16} className="animate-spin" />
+          Loading preferences...
+        </div>
+      ) : (
+        <>
+          <div className="rounded-xl border border-gray-200 overflow-hidden">
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 px-4 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wide">
+              <span>Category</span>
+              <span className="w-12 text-center">In-app</span>
+              <span className="w-12 text-center">Email</span>
+            </div>
+            {NOTIFICATION_CATEGORIES.map(({ key, label, description }) => (
+              <div
+                key={key}
+                className="grid grid-cols-[1fr_auto_auto] gap-x-6 items-center px-4 py-3 border-t border-gray-100"
+              >
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {label}
+                  </div>
+                  <div className="text-xs text-gray-500">{description}</div>
+                </div>
+                <div className="w-12 flex justify-center">
+                  <Switch
+                    checked={preferences.channels[key].inApp}
+                    onCheckedChange={(value) => setChannel(key, "inApp", value)}
+                    aria-label={`${label} in-app notifications`}
+                  />
+                </div>
+                <div className="w-12 flex justify-center">
+                  <Switch
+                    checked={preferences.channels[key].email}
+                    onCheckedChange={(value) => setChannel(key, "email", value)}
+                    aria-label={`${label} email notifications`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4 px-4 py-3 rounded-xl bg-gray-50">
+            <div>
+              <div className="text-sm font-medium text-gray-900 flex items-center gap-1">
+                <Mail size={14} />
+                Daily digest
+              </div>
+              <div className="text-xs text-gray-500">
+                One email a day summarizing your unread in-app notifications.
+              </div>
+            </div>
+            <Switch
+              checked={preferences.dailyDigest}
+              onCheckedChange={(value) =>
+                setPreferences((prev) =>
+                  prev ? { ...prev, dailyDigest: value } : prev
+                )
+              }
+              aria-label="Daily digest email"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
 const AccountProfile = () => {
   const user = useAuthStore((state) => state.user);
 
@@ -619,6 +800,12 @@ const AccountProfile = () => {
             </Button>
           </div>
         </div>
+
+        <NotificationPreferencesCard
+          accentBg50={theme.accentBg50}
+          accentText600={theme.accentText600}
+          saveButtonClass={`bg-gradient-to-r ${theme.gradientStrongFrom} ${theme.gradientStrongTo} hover:brightness-110`}
+        />
       </div>
 
       {/* Edit Profile Modal */}
@@ -18,19 +18,33 @@ import {
   Users,
   MessageSquare,
   AlertCircle,
+  FileText,
+  X,
+  Archive,
+  ArchiveRestore,
+  Home,
+  Pencil,
 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import DocumentPreview from "@/components/DocumentPreview";
 import { 
   getLandlordConversationsRequest, 
   getConversationMessagesRequest, 
   sendMessageRequest, 
-  deleteConversationRequest,
+  updateConversationRequest,
+  searchMessagesRequest,
   deleteMessageRequest,
   getMessageStatsRequest,
   createOrGetConversationRequest,
+  subscribeToMessageEvents,
+  sendTypingIndicator,
+  markConversationReadLive,
   type Conversation,
   type Message,
   type ConversationWithMessages,
-  type MessageStats
+  type MessageStats,
+  type MessageAttachment,
+  type MessageSearchResult
 } from "@/api/landlordMessageApi";
 import { getLandlordTenantsRequest, type TenantManagementItem } from "@/api/landlordTenantApi";
 import {
@@ -38,8 +52,13 @@ import {
   getTenantConversationMessagesRequest,
   sendTenantMessageRequest,
   deleteTenantMessageRequest,
-  deleteTenantConversationRequest,
+  updateTenantConversationRequest,
+  searchTenantMessagesRequest,
   getTenantMessageStatsRequest,
+  subscribeToTenantMessageEvents,
+  sendTenantTypingIndicator,
+  markTenantConversationReadLive,
+  type MessageRealtimeEvent,
   type Conversation as TenantConversation,
   type Message as TenantMessage,
   type ConversationWithMessages as TenantConversationWithMessages,
@@ -48,6 +67,31 @@ import {
 import { useAuthStore } from "@/stores/useAuthStore";
 import { toast } from "sonner";
 
+// Stop showing "typing..." if the stop event never arrives
+const TYPING_TIMEOUT_MS = 5000;
+// Idle time after the last keystroke before we tell the other side we stopped typing
+const TYPING_IDLE_MS = 2000;
+
+// Same limits the backend enforces on message attachments
+const ATTACHMENT_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"];
+const MAX_ATTACHMENTS = 5;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const MAX_PDF_SIZE = 20 * 1024 * 1024;
+
+// Message search kicks in from this many characters, after a short pause in typing
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// "Property - Unit" (plus the lease nickname) for unit/lease-scoped threads
+const formatConversationScope = (conversation: Pick<Conversation, "unit" | "lease">) => {
+  if (!conversation.unit) return null;
+  const unitLabel = `${conversation.unit.property.title} · ${conversation.unit.label}`;
+  return conversation.lease ? `${unitLabel} · ${conversation.lease.leaseNickname}` : unitLabel;
+};
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
 const Messages = () => {
   const { user } = useAuthStore();
   const [searchParams] = useSearchParams();
@@ -59,11 +103,29 @@ const Messages = () => {
   const [showMobileChat, setShowMobileChat] = useState(false);
   const [hoveredMessage, setHoveredMessage] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
-  const [showDeleteConversationConfirm, setShowDeleteConversationConfirm] = useState<string | null>(null);
+  // Inbox vs. archive, message search results, and the thread/message a search result points to
+  const [showArchived, setShowArchived] = useState(false);
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [searchingMessages, setSearchingMessages] = useState(false);
+  const [pendingConversationId, setPendingConversationId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [sendingMessage, setSendingMessage] = useState(false);
   const [stats, setStats] = useState<MessageStats | null>(null);
+  // Conversation ids where the other participant is typing
+  const [typingConversations, setTypingConversations] = useState<Record<string, boolean>>({});
+  // Files picked for the next message, and the attachment open in the preview dialog
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
+  const [previewAttachment, setPreviewAttachment] = useState<MessageAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
+  // Latest selection for the realtime handler, which is subscribed once per user
+  const selectedConversationRef = useRef<Conversation | null>(null);
+  const showArchivedRef = useRef(false);
+  const typingTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingRef = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const [isAtBottom, setIsAtBottom] = useState(true);
@@ -96,10 +158,16 @@ const Messages = () => {
   }, [checkScrollPosition]);
 
   useEffect(() => {
-    if (messages.length > 0) {
+    if (messages.length === 0) return;
+
+    // Jump to a message opened from search instead of the bottom of the thread
+    const highlighted = highlightedMessageId && document.getElementById(`message-${highlightedMessageId}`);
+    if (highlighted) {
+      highlighted.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
       scrollToBottom();
     }
-  }, [messages, scrollToBottom]);
+  }, [messages, scrollToBottom, highlightedMessageId]);
 
   // Fetch conversations and stats
   useEffect(() => {
@@ -112,8 +180,8 @@ const Messages = () => {
         const isLandlord = user.role === "LANDLORD";
         const [conversationsRes, statsRes] = await Promise.all([
           isLandlord 
-            ? getLandlordConversationsRequest({ signal: controller.signal })
-            : getTenantConversationsRequest({ signal: controller.signal }),
+            ? getLandlordConversationsRequest({ signal: controller.signal, archived: showArchived })
+            : getTenantConversationsRequest({ signal: controller.signal, archived: showArchived }),
           isLandlord 
             ? getMessageStatsRequest({ signal: controller.signal })
             : getTenantMessageStatsRequest({ signal: controller.signal }),
@@ -121,8 +189,8 @@ const Messages = () => {
         
         let conversations = conversationsRes.data;
         
-        // Auto-create conversations for active tenants (landlord only)
-        if (isLandlord) {
+        // Auto-create conversations for active tenants (landlord only, inbox view)
+        if (isLandlord && !showArchived) {
           try {
             const tenantsRes = await getLandlordTenantsRequest({ signal: controller.signal });
             const activeTenants = tenantsRes.data.filter((item: TenantManagementItem) => 
@@ -140,7 +208,9 @@ const Messages = () => {
                   const response = await createOrGetConversationRequest({
                     otherUserId: tenant.tenant.id
                   });
-                  return response.data;
+                  const conversation: Conversation = response.data.conversation;
+                  // An archived thread stays in the archive
+                  return conversation.isArchived ? null : conversation;
                 } catch (error) {
                   console.warn(`Failed to create conversation with tenant ${tenant.tenant.id}:`, error);
                   return null;
@@ -175,61 +245,252 @@ const Messages = () => {
 
     fetchData();
     return () => controller.abort();
+  }, [user, showArchived]);
+
+  useEffect(() => {
+    selectedConversationRef.current = selectedConversation;
+  }, [selectedConversation]);
+
+  useEffect(() => {
+    showArchivedRef.current = showArchived;
+  }, [showArchived]);
+
+  // Full-text search across message content (conversation names are filtered locally)
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!user || query.length < MIN_SEARCH_LENGTH) {
+      setMessageResults([]);
+      setSearchingMessages(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setSearchingMessages(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = user.role === "LANDLORD"
+          ? await searchMessagesRequest(query, { signal: controller.signal })
+          : await searchTenantMessagesRequest(query, { signal: controller.signal });
+        setMessageResults(response.data.results);
+      } catch (err) {
+        if ((err as { name?: string }).name !== "AbortError" && (err as { name?: string }).name !== "CanceledError") {
+          console.error("Error searching messages:", err);
+        }
+      } finally {
+        if (!controller.signal.aborted) setSearchingMessages(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, user]);
+
+  // Select the thread a search result pointed to once the right list (inbox/archive) has loaded
+  useEffect(() => {
+    if (!pendingConversationId) return;
+    const conversation = conversations.find(conv => conv.id === pendingConversationId);
+    if (conversation) {
+      setSelectedConversation(conversation);
+      setShowMobileChat(true);
+      setPendingConversationId(null);
+    }
+  }, [conversations, pendingConversationId]);
+
+  // Live messages, read receipts and typing indicators
+  useEffect(() => {
+    if (!user) return;
+    const isLandlord = user.role === "LANDLORD";
+    const typingTimers = typingTimersRef.current;
+
+    const setTyping = (conversationId: string, isTyping: boolean) => {
+      clearTimeout(typingTimers[conversationId]);
+      if (isTyping) {
+        typingTimers[conversationId] = setTimeout(() => setTyping(conversationId, false), TYPING_TIMEOUT_MS);
+      }
+      setTypingConversations(prev => ({ ...prev, [conversationId]: isTyping }));
+    };
+
+    const refreshConversations = async () => {
+      try {
+        const archived = showArchivedRef.current;
+        const response = isLandlord
+          ? await getLandlordConversationsRequest({ archived })
+          : await getTenantConversationsRequest({ archived });
+        setConversations(response.data as Conversation[]);
+      } catch (err) {
+        console.error("Error refreshing conversations:", err);
+      }
+    };
+
+    const handleEvent = (event: MessageRealtimeEvent) => {
+      const selectedId = selectedConversationRef.current?.id;
+
+      if (event.type === "message:new") {
+        const { message } = event.payload;
+        const isOpen = message.conversationId === selectedId;
+        const isMine = message.senderId === user.id;
+
+        if (isOpen) {
+          setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+          if (!isMine) {
+            if (isLandlord) {
+              markConversationReadLive(message.conversationId);
+            } else {
+              markTenantConversationReadLive(message.conversationId);
+            }
+          }
+        }
+        if (!isMine) setTyping(message.conversationId, false);
+
+        setConversations(prev => {
+          // A new message moves the thread back to the inbox
+          if (showArchivedRef.current) {
+            return prev.filter(conv => conv.id !== message.conversationId);
+          }
+          const existing = prev.find(conv => conv.id === message.conversationId);
+          if (!existing) {
+            // A conversation we haven't loaded yet (e.g. a new inquiry)
+            refreshConversations();
+            return prev;
+          }
+          const updated = {
+            ...existing,
+            lastMessage: { ...message, attachmentCount: message.attachments?.length ?? 0 },
+            unreadCount: isOpen || isMine ? 0 : existing.unreadCount + 1,
+            updatedAt: message.createdAt,
+            timeAgo: "Just now",
+          };
+          return [updated, ...prev.filter(conv => conv.id !== message.conversationId)];
+        });
+      } else if (event.type === "message:read") {
+        const { conversationId } = event.payload;
+        if (conversationId === selectedId) {
+          setMessages(prev => prev.map(message => message.senderId === user.id ? { ...message, isRead: true } : message));
+        }
+        setConversations(prev => prev.map(conv =>
+          conv.id === conversationId && conv.lastMessage
+            ? { ...conv, lastMessage: { ...conv.lastMessage, isRead: true } }
+            : conv
+        ));
+      } else if (event.type === "typing") {
+        setTyping(event.payload.conversationId, event.payload.isTyping);
+      }
+    };
+
+    const unsubscribe = isLandlord ? subscribeToMessageEvents(handleEvent) : subscribeToTenantMessageEvents(handleEvent);
+    return () => {
+      unsubscribe();
+      Object.values(typingTimers).forEach(clearTimeout);
+    };
   }, [user]);
 
+  const notifyTyping = (isTyping: boolean) => {
+    const conversationId = selectedConversationRef.current?.id;
+    if (!user || !conversationId || conversationId.startsWith('virtual-') || isTypingRef.current === isTyping) return;
+
+    isTypingRef.current = isTyping;
+    if (user.role === "LANDLORD") {
+      sendTypingIndicator(conversationId, isTyping);
+    } else {
+      sendTenantTypingIndicator(conversationId, isTyping);
+    }
+  };
+
+  const handleMessageInput = (value: string) => {
+    setNewMessage(value);
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+
+    if (!value.trim()) {
+      notifyTyping(false);
+      return;
+    }
+    notifyTyping(true);
+    typingIdleTimerRef.current = setTimeout(() => notifyTyping(false), TYPING_IDLE_MS);
+  };
+
+  const handleAttachmentSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ""; // allow picking the same file again after removing it
+
+    const accepted: File[] = [];
+    for (const file of files) {
+      if (!ATTACHMENT_TYPES.includes(file.type)) {
+        toast.error(`${file.name}: only images (JPEG, PNG, GIF, WebP) and PDFs can be attached`);
+      } else if (file.type === "application/pdf" ? file.size > MAX_PDF_SIZE : file.size > MAX_IMAGE_SIZE) {
+        toast.error(`${file.name} is too large (images up to 10 MB, PDFs up to 20 MB)`);
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (accepted.length > room) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files per message`);
+    }
+    setPendingAttachments(prev => [...prev, ...accepted.slice(0, Math.max(room, 0))]);
+  };
+
   // Auto-select conversation based on URL parameters
   useEffect(() => {
     const tenantId = searchParams.get('tenantId');
     const tenantName = searchParams.get('tenantName');
+    const leaseId = searchParams.get('leaseId');
     
-    if (tenantId && conversations.length > 0 && !selectedConversation && user?.role === 'LANDLORD') {
-      // Look for existing conversation with this tenant
+    if (tenantId && conversations.length > 0 && !selectedConversation && user?.role === 'LANDLORD' && !showArchived) {
+      // Look for existing conversation with this tenant (the lease's thread when a lease is given)
       const existingConversation = conversations.find(conv => 
-        conv.otherUser && conv.otherUser.id === tenantId
+        conv.otherUser && conv.otherUser.id === tenantId && (!leaseId || conv.lease?.id === leaseId)
       );
       
       if (existingConversation) {
         setSelectedConversation(existingConversation);
         setShowMobileChat(true);
-      } else if (tenantName) {
+      } else if (tenantName || leaseId) {
         // Create a new conversation with the tenant
         const createConversation = async () => {
           try {
             const response = await createOrGetConversationRequest({
-              otherUserId: tenantId
+              otherUserId: tenantId,
+              leaseId: leaseId || undefined,
             });
             
-            // Add the new conversation to the list
-            const newConversation = response.data;
-            setConversations(prev => [newConversation, ...prev]);
+            // Add the new conversation to the list (it may be an archived thread being reopened)
+            const newConversation: Conversation = response.data.conversation;
+            setConversations(prev => [newConversation, ...prev.filter(conv => conv.id !== newConversation.id)]);
             
             // Select the new conversation
             setSelectedConversation(newConversation);
             setShowMobileChat(true);
             
-            toast.success(`Started conversation with ${tenantName}`);
+            toast.success(`Started conversation with ${newConversation.otherUser.fullName}`);
           } catch (error: any) {
             console.error('Error creating conversation:', error);
             toast.error('Failed to start conversation');
             
             // Fallback: create a virtual conversation
+            const displayName = tenantName || 'Tenant';
             const virtualConversation: Conversation = {
               id: `virtual-${tenantId}`,
               otherUser: {
                 id: tenantId,
-                firstName: tenantName.split(' ')[0] || '',
-                lastName: tenantName.split(' ').slice(1).join(' ') || '',
+                firstName: displayName.split(' ')[0] || '',
+                lastName: displayName.split(' ').slice(1).join(' ') || '',
                 email: '',
                 avatarUrl: null,
                 role: 'TENANT',
-                fullName: tenantName
+                fullName: displayName
               },
               lastMessage: null,
               unreadCount: 0,
               updatedAt: new Date().toISOString(),
               createdAt: new Date().toISOString(),
-              title: `Chat with ${tenantName}`,
-              timeAgo: 'now'
+              title: `Chat with ${displayName}`,
+              timeAgo: 'now',
+              unit: null,
+              lease: null,
+              isArchived: false,
             };
             setSelectedConversation(virtualConversation);
             setShowMobileChat(true);
@@ -239,7 +500,7 @@ const Messages = () => {
         createConversation();
       }
     }
-  }, [conversations, searchParams, selectedConversation, user]);
+  }, [conversations, searchParams, selectedConversation, user, showArchived]);
 
 
   // Fetch messages when conversation is selected
@@ -276,11 +537,15 @@ const Messages = () => {
   }, [selectedConversation, user]);
 
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || !selectedConversation || sendingMessage || !user) return;
+    if ((!newMessage.trim() && pendingAttachments.length === 0) || !selectedConversation || sendingMessage || !user) return;
 
     const messageContent = newMessage.trim();
+    const attachments = pendingAttachments;
     setNewMessage("");
+    setPendingAttachments([]);
     setSendingMessage(true);
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+    notifyTyping(false);
 
     try {
       const isLandlord = user.role === "LANDLORD";
@@ -292,12 +557,14 @@ const Messages = () => {
           response = await sendMessageRequest({
             conversationId: selectedConversation.id,
             content: messageContent,
+            attachments,
           });
         } else {
           // New conversation - send message with recipientId
           response = await sendMessageRequest({
             recipientId: selectedConversation.otherUser.id,
             content: messageContent,
+            attachments,
           });
         }
       } else {
@@ -307,18 +574,21 @@ const Messages = () => {
           response = await sendTenantMessageRequest({
             conversationId: selectedConversation.id,
             content: messageContent,
+            attachments,
           });
         } else {
           // New conversation with landlord (virtual conversation)
           response = await sendTenantMessageRequest({
             recipientId: selectedConversation.otherUser.id,
             content: messageContent,
+            attachments,
           });
         }
       }
 
-      // Add the new message to the messages list
-      setMessages(prev => [...prev, response.data.message]);
+      // Add the new message to the messages list (it may already have arrived over the socket)
+      const sentMessage: Message = response.data.message;
+      setMessages(prev => prev.some(message => message.id === sentMessage.id) ? prev : [...prev, sentMessage]);
 
       // Update the conversation's last message and unread count
       setConversations(prev => prev.map(conv => 
@@ -326,7 +596,7 @@ const Messages = () => {
           ? {
               ...conv,
               id: response.data.message.conversationId, // Update with real conversation ID
-              lastMessage: response.data.message,
+              lastMessage: { ...sentMessage, attachmentCount: sentMessage.attachments?.length ?? 0 },
               unreadCount: 0,
               updatedAt: response.data.message.createdAt,
             }
@@ -342,8 +612,9 @@ const Messages = () => {
       toast.success("Message sent successfully");
     } catch (err: any) {
       console.error("Error sending message:", err);
-      toast.error("Failed to send message");
+      toast.error(err.response?.data?.message || "Failed to send message");
       setNewMessage(messageContent); // Restore the message
+      setPendingAttachments(attachments);
     } finally {
       setSendingMessage(false);
     }
@@ -365,7 +636,7 @@ const Messages = () => {
         // Update the message content to show "This message was deleted"
         setMessages(prev => prev.map(msg => 
           msg.id === messageId 
-            ? { ...msg, content: "This message was deleted" }
+            ? { ...msg, content: "This message was deleted", attachments: [] }
             : msg
         ));
         toast.success("Message deleted successfully");
@@ -376,31 +647,60 @@ const Messages = () => {
     }
   };
 
-  const handleDeleteConversation = async (conversationId: string) => {
+  // Archiving replaces deleting: the thread leaves this list but its history is kept
+  const handleArchiveConversation = async (conversationId: string, archived: boolean) => {
     if (!user) return;
-    
+
     try {
       if (user.role === "LANDLORD") {
-        await deleteConversationRequest(conversationId);
-      } else if (user.role === "TENANT") {
-        await deleteTenantConversationRequest(conversationId);
+        await updateConversationRequest(conversationId, { archived });
       } else {
-        toast.error("Unauthorized to delete conversations");
-        return;
+        await updateTenantConversationRequest(conversationId, { archived });
       }
-      
+
       setConversations(prev => prev.filter(conv => conv.id !== conversationId));
       if (selectedConversation?.id === conversationId) {
         setSelectedConversation(null);
         setMessages([]);
       }
-      toast.success("Conversation deleted successfully");
-    } catch (err: any) {
-      console.error("Error deleting conversation:", err);
-      const errorMessage = err.response?.data?.message || "Failed to delete conversation";
-      toast.error(errorMessage);
+      toast.success(archived ? "Conversation archived" : "Conversation moved to inbox");
+    } catch (err) {
+      console.error("Error archiving conversation:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to update conversation");
+    }
+  };
+
+  const handleRenameConversation = async () => {
+    if (!user || !selectedConversation?.id || editingTitle === null) return;
+    const conversationId = selectedConversation.id;
+
+    try {
+      const response = user.role === "LANDLORD"
+        ? await updateConversationRequest(conversationId, { title: editingTitle.trim() || null })
+        : await updateTenantConversationRequest(conversationId, { title: editingTitle.trim() || null });
+
+      // A cleared title falls back to the other participant's name, as on the server
+      const title: string = response.data.conversation.title || selectedConversation.otherUser.fullName;
+      setConversations(prev => prev.map(conv => conv.id === conversationId ? { ...conv, title } : conv));
+      setSelectedConversation(prev => prev ? { ...prev, title } : null);
+      setEditingTitle(null);
+    } catch (err) {
+      console.error("Error renaming conversation:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to rename conversation");
+    }
+  };
+
+  const openSearchResult = (result: MessageSearchResult) => {
+    notifyTyping(false);
+    setPendingAttachments([]);
+    setEditingTitle(null);
+    setHighlightedMessageId(result.id);
+    setSearchQuery("");
+    if (result.conversation.isArchived !== showArchived) {
+      setSelectedConversation(null);
+      setShowArchived(result.conversation.isArchived);
     }
-    setShowDeleteConversationConfirm(null);
+    setPendingConversationId(result.conversationId);
   };
 
   const filteredConversations = conversations.filter(conversation =>
@@ -481,12 +781,38 @@ const Messages = () => {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
               <Input
-                placeholder="Search conversations..."
+                placeholder="Search conversations and messages..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
               />
             </div>
+            <div className="flex gap-2 mt-3">
+              <Button
+                variant={showArchived ? "outline" : "default"}
+                size="sm"
+                className="flex-1"
+                onClick={() => {
+                  setSelectedConversation(null);
+                  setShowArchived(false);
+                }}
+              >
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Inbox
+              </Button>
+              <Button
+                variant={showArchived ? "default" : "outline"}
+                size="sm"
+                className="flex-1"
+                onClick={() => {
+                  setSelectedConversation(null);
+                  setShowArchived(true);
+                }}
+              >
+                <Archive className="h-4 w-4 mr-1" />
+                Archived
+              </Button>
+            </div>
           </div>
 
           {/* Conversations */}
@@ -499,6 +825,10 @@ const Messages = () => {
                     selectedConversation?.id === conversation.id ? 'bg-emerald-50 border-emerald-200' : ''
                   }`}
                   onClick={() => {
+                    notifyTyping(false);
+                    setPendingAttachments([]);
+                    setEditingTitle(null);
+                    setHighlightedMessageId(null);
                     setSelectedConversation(conversation);
                     setShowMobileChat(true);
                   }}
@@ -530,23 +860,33 @@ const Messages = () => {
                               {conversation.unreadCount}
                             </span>
                           )}
-                          {(user?.role === "LANDLORD" || (user?.role === "TENANT" && conversation.id !== null && conversation.isInquiry)) && (
+                          {conversation.id && !conversation.id.startsWith('virtual-') && (
                             <Button
                               variant="ghost"
                               size="sm"
                               className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                              title={showArchived ? "Move to inbox" : "Archive conversation"}
                               onClick={(e) => {
                                 e.stopPropagation();
-                                setShowDeleteConversationConfirm(conversation.id);
+                                handleArchiveConversation(conversation.id, !showArchived);
                               }}
                             >
-                              <Trash2 className="h-3 w-3" />
+                              {showArchived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
                             </Button>
                           )}
                         </div>
                       </div>
+                      {formatConversationScope(conversation) && (
+                        <p className="flex items-center gap-1 text-xs text-sky-700 truncate mt-1">
+                          <Home className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{formatConversationScope(conversation)}</span>
+                        </p>
+                      )}
                       <p className="text-sm text-gray-600 truncate mt-1">
-                        {conversation.lastMessage?.content || "No messages yet"}
+                        {conversation.id && typingConversations[conversation.id]
+                          ? <span className="text-emerald-600 italic">typing...</span>
+                          : conversation.lastMessage?.content
+                            || (conversation.lastMessage?.attachmentCount ? "Sent an attachment" : "No messages yet")}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         {conversation.timeAgo || "No messages yet"}
@@ -559,18 +899,54 @@ const Messages = () => {
               <div className="p-8 text-center">
                 <MessageCircle className="h-12 w-12 text-gray-400 mx-auto mb-3" />
                 <h3 className="text-sm font-medium text-gray-900 mb-1">
-                  {searchQuery ? "No conversations found" : "No conversations yet"}
+                  {searchQuery ? "No conversations found" : showArchived ? "No archived conversations" : "No conversations yet"}
                 </h3>
                 <p className="text-sm text-gray-600">
                   {searchQuery 
                     ? "Try adjusting your search terms."
-                    : user?.role === "LANDLORD" 
-                      ? "Start a conversation with a tenant to see messages here."
-                      : "Your conversations with landlords will appear here."
+                    : showArchived
+                      ? "Conversations you archive will appear here."
+                      : user?.role === "LANDLORD" 
+                        ? "Start a conversation with a tenant to see messages here."
+                        : "Your conversations with landlords will appear here."
                   }
                 </p>
               </div>
             )}
+
+            {/* Message search results (inbox and archive) */}
+            {searchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+              <div className="border-t border-gray-200">
+                <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  Messages {searchingMessages ? "· searching..." : `· ${messageResults.length}`}
+                </p>
+                {messageResults.map((result) => (
+                  <button
+                    key={result.id}
+                    type="button"
+                    onClick={() => openSearchResult(result)}
+                    className="w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-900 truncate">{result.conversation.title}</span>
+                      <span className="text-xs text-gray-500 shrink-0">{formatTime(result.createdAt)}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 line-clamp-2 mt-1">
+                      <span className="text-gray-500">{result.sender.id === user?.id ? "You" : result.sender.fullName}: </span>
+                      {result.content}
+                    </p>
+                    {result.conversation.isArchived && (
+                      <span className="inline-flex items-center gap-1 text-xs text-gray-500 mt-1">
+                        <Archive className="h-3 w-3" /> Archived
+                      </span>
+                    )}
+                  </button>
+                ))}
+                {!searchingMessages && messageResults.length === 0 && (
+                  <p className="px-4 pb-3 text-sm text-gray-500">No messages match your search.</p>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -593,17 +969,58 @@ const Messages = () => {
                     {(selectedConversation.otherUser.fullName || 'U').charAt(0).toUpperCase()}
                   </div>
                   <div>
-                    <h2 className="font-medium text-gray-900">{selectedConversation.title || 'Untitled Conversation'}</h2>
-                    <p className="text-sm text-gray-600">{selectedConversation.otherUser.role || 'User'}</p>
+                    {editingTitle !== null ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={editingTitle}
+                          onChange={(e) => setEditingTitle(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRenameConversation();
+                            if (e.key === 'Escape') setEditingTitle(null);
+                          }}
+                          maxLength={100}
+                          placeholder={selectedConversation.otherUser.fullName}
+                          className="h-8 w-56"
+                          autoFocus
+                        />
+                        <Button size="sm" className="h-8" onClick={handleRenameConversation}>Save</Button>
+                        <Button size="sm" variant="ghost" className="h-8" onClick={() => setEditingTitle(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <h2 className="font-medium text-gray-900">{selectedConversation.title || 'Untitled Conversation'}</h2>
+                        {selectedConversation.id && !selectedConversation.id.startsWith('virtual-') && (
+                          <button
+                            type="button"
+                            onClick={() => setEditingTitle(selectedConversation.title || '')}
+                            className="text-gray-400 hover:text-gray-600"
+                            title="Rename conversation"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    {selectedConversation.id && typingConversations[selectedConversation.id] ? (
+                      <p className="text-sm text-emerald-600 italic">typing...</p>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        {selectedConversation.title !== selectedConversation.otherUser.fullName && `${selectedConversation.otherUser.fullName} · `}
+                        {formatConversationScope(selectedConversation) || selectedConversation.otherUser.role || 'User'}
+                      </p>
+                    )}
                   </div>
                 </div>
-                {(user?.role === "LANDLORD" || (user?.role === "TENANT" && selectedConversation.id !== null && selectedConversation.isInquiry)) && (
+                {selectedConversation.id && !selectedConversation.id.startsWith('virtual-') && (
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setShowDeleteConversationConfirm(selectedConversation.id)}
+                    title={selectedConversation.isArchived ? "Move to inbox" : "Archive conversation"}
+                    onClick={() => handleArchiveConversation(selectedConversation.id, !selectedConversation.isArchived)}
                   >
-                    <Trash2 className="h-4 w-4" />
+                    {selectedConversation.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
                   </Button>
                 )}
               </div>
@@ -623,6 +1040,7 @@ const Messages = () => {
                   return (
                     <div
                       key={message.id}
+                      id={`message-${message.id}`}
                       className={`flex ${isMyMessage ? 'justify-end' : 'justify-start'} group`}
                       onMouseEnter={() => setHoveredMessage(message.id)}
                       onMouseLeave={() => setHoveredMessage(null)}
@@ -633,7 +1051,7 @@ const Messages = () => {
                           : isMyMessage 
                             ? 'bg-emerald-500 text-white' 
                             : 'bg-gray-200 text-gray-900'
-                      }`}>
+                      } ${highlightedMessageId === message.id ? 'ring-2 ring-amber-400 ring-offset-2' : ''}`}>
                         {isDeleted ? (
                           <div className="flex items-center justify-between">
                             <p className="text-sm">This message was deleted</p>
@@ -649,7 +1067,43 @@ const Messages = () => {
                           </div>
                         ) : (
                           <>
-                            <p className="text-sm">{message.content}</p>
+                            {message.attachments && message.attachments.length > 0 && (
+                              <div className={`space-y-2 ${message.content ? 'mb-2' : ''}`}>
+                                {message.attachments.map(attachment => attachment.kind === "IMAGE" ? (
+                                  <button
+                                    key={attachment.id}
+                                    type="button"
+                                    onClick={() => setPreviewAttachment(attachment)}
+                                    className="block"
+                                    title={attachment.fileName}
+                                  >
+                                    <img
+                                      src={`http://localhost:5000${attachment.url}`}
+                                      alt={attachment.fileName}
+                                      className="max-h-48 rounded-md object-cover"
+                                    />
+                                  </button>
+                                ) : (
+                                  <button
+                                    key={attachment.id}
+                                    type="button"
+                                    onClick={() => setPreviewAttachment(attachment)}
+                                    className={`flex items-center gap-2 w-full rounded-md px-2 py-1.5 text-left ${
+                                      isMyMessage ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-white hover:bg-gray-50'
+                                    }`}
+                                  >
+                                    <FileText className={`h-5 w-5 shrink-0 ${isMyMessage ? 'text-white' : 'text-red-500'}`} />
+                                    <span className="min-w-0">
+                                      <span className="block text-sm truncate">{attachment.fileName}</span>
+                                      <span className={`block text-xs ${isMyMessage ? 'text-emerald-100' : 'text-gray-500'}`}>
+                                        PDF · {formatFileSize(attachment.size)}
+                                      </span>
+                                    </span>
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                            {message.content && <p className="text-sm">{message.content}</p>}
                             {canDelete && hoveredMessage === message.id && (
                               <button
                                 onClick={() => handleDeleteMessage(message.id)}
@@ -693,18 +1147,56 @@ const Messages = () => {
 
             {/* Message Input */}
             <div className="p-4 border-t border-gray-200 bg-white">
+              {pendingAttachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {pendingAttachments.map((file, index) => (
+                    <div key={`${file.name}-${index}`} className="flex items-center gap-2 bg-gray-100 rounded-md px-2 py-1 text-sm">
+                      {file.type === "application/pdf"
+                        ? <FileText className="h-4 w-4 text-red-500" />
+                        : <ImageIcon className="h-4 w-4 text-blue-500" />}
+                      <span className="max-w-[10rem] truncate">{file.name}</span>
+                      <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Remove attachment"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="flex items-center gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ATTACHMENT_TYPES.join(",")}
+                  multiple
+                  onChange={handleAttachmentSelect}
+                  className="hidden"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={sendingMessage || pendingAttachments.length >= MAX_ATTACHMENTS}
+                  title="Attach images or PDFs"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
                 <Input
                   placeholder="Type a message..."
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
+                  onChange={(e) => handleMessageInput(e.target.value)}
                   onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
                   disabled={sendingMessage}
                   className="flex-1"
                 />
                 <Button
                   onClick={handleSendMessage}
-                  disabled={!newMessage.trim() || sendingMessage}
+                  disabled={(!newMessage.trim() && pendingAttachments.length === 0) || sendingMessage}
                   size="sm"
                 >
                   {sendingMessage ? (
@@ -730,31 +1222,26 @@ const Messages = () => {
         )}
       </div>
 
-      {/* Delete Confirmation Modal */}
-      {showDeleteConversationConfirm && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-sm w-full mx-4">
-            <h3 className="text-lg font-medium text-gray-900 mb-2">Delete Conversation</h3>
-            <p className="text-gray-600 mb-4">
-              Are you sure you want to delete this conversation? This action cannot be undone.
-            </p>
-            <div className="flex gap-2 justify-end">
-              <Button
-                variant="outline"
-                onClick={() => setShowDeleteConversationConfirm(null)}
-              >
-                Cancel
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={() => handleDeleteConversation(showDeleteConversationConfirm)}
-              >
-                Delete
-              </Button>
-            </div>
+      {/* Attachment Preview */}
+      <Dialog open={!!previewAttachment} onOpenChange={(open) => !open && setPreviewAttachment(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              {previewAttachment?.fileName}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="flex-1 overflow-auto p-4">
+            {previewAttachment && (
+              <DocumentPreview
+                url={previewAttachment.url}
+                title={previewAttachment.fileName}
+                type={previewAttachment.kind === "PDF" ? "pdf" : "image"}
+              />
+            )}
           </div>
-        </div>
-      )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
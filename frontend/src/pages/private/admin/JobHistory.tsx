@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Timer,
+  Play,
+  Clock,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  RefreshCw,
+  AlertTriangle,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  getScheduledJobsRequest,
+  getJobRunsRequest,
+  runJobRequest,
+  type JobRun,
+  type ScheduledJob
+} from "@/api/adminApi";
+
+const JobHistory = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [schedulerEnabled, setSchedulerEnabled] = useState(true);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [pagination, setPagination] = useState({
+    currentPage: 1,
+    totalPages: 1,
+    totalCount: 0,
+    hasNext: false,
+    hasPrev: false,
+  });
+
+  // Filters
+  const [filters, setFilters] = useState({
+    jobName: "",
+    status: "",
+    page: 1,
+    limit: 20,
+  });
+
+  // Fetch jobs with their latest run
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await getScheduledJobsRequest();
+      setJobs(response.data.jobs);
+      setSchedulerEnabled(response.data.schedulerEnabled);
+    } catch (error) {
+      console.error("Error fetching scheduled jobs:", error);
+      toast.error("Failed to fetch scheduled jobs.");
+    }
+  }, []);
+
+  // Fetch run history
+  const fetchRuns = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await getJobRunsRequest({
+        jobName: filters.jobName || undefined,
+        status: filters.status || undefined,
+        page: filters.page,
+        limit: filters.limit,
+      });
+      setRuns(response.data.runs);
+      setPagination(response.data.pagination);
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      toast.error("Failed to fetch job history.");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Run a job now
+  const handleRunJob = async (jobName: string) => {
+    setRunningJob(jobName);
+    try {
+      const response = await runJobRequest(jobName);
+      if (response.data.run.status === "SUCCEEDED") {
+        toast.success(`${jobName} completed`);
+      } else {
+        toast.error(`${jobName} failed: ${response.data.run.error}`);
+      }
+      fetchJobs();
+      fetchRuns();
+    } catch (error) {
+      console.error("Error running job:", error);
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to run job.");
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const handlePageChange = (page: number) => {
+    setFilters(prev => ({ ...prev, page }));
+  };
+
+  const formatInterval = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `every ${minutes}m`;
+    const hours = Math.round(minutes / 60);
+    return `every ${hours}h`;
+  };
+
+  const formatDuration = (ms: number | null) => {
+    if (ms === null) return "—";
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
+  // Job summaries are flat { key: count } objects
+  const formatResult = (result: JobRun["result"]) => {
+    if (!result) return "—";
+    return Object.entries(result)
+      .map(([key, value]) => `${key.replace(/([A-Z])/g, " $1").toLowerCase()}: ${value}`)
+      .join(", ");
+  };
+
+  const getStatusBadge = (status: JobRun["status"]) => {
+    switch (status) {
+      case "SUCCEEDED":
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="h-3 w-3 mr-1" />Succeeded</Badge>;
+      case "FAILED":
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><XCircle className="h-3 w-3 mr-1" />Failed</Badge>;
+      case "RUNNING":
+        return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100"><Loader2 className="h-3 w-3 mr-1 animate-spin" />Running</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Scheduled Jobs</h1>
+          <p className="text-gray-600 mt-1">
+            Background jobs for listing and lease expiry and rent reminders
+          </p>
+        </div>
+
+        <Button variant="outline" onClick={() => { fetchJobs(); fetchRuns(); }}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {!schedulerEnabled && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+          <div className="text-sm text-yellow-800">
+            The scheduler is disabled on this server (JOBS_ENABLED=false). Jobs only run when triggered here.
+          </div>
+        </div>
+      )}
+
+      {/* Jobs */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {jobs.map((job) => (
+          <Card key={job.name}>
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{job.name}</h3>
+                  <p className="text-sm text-gray-600">{job.description}</p>
+                </div>
+                <Badge variant="outline" className="whitespace-nowrap">
+                  <Clock className="h-3 w-3 mr-1" />
+                  {formatInterval(job.intervalMs)}
+                </Badge>
+              </div>
+
+              <div className="text-sm text-gray-600">
+                {job.lastRun ? (
+                  <div className="flex items-center gap-2">
+                    {getStatusBadge(job.lastRun.status)}
+                    <span>{new Date(job.lastRun.startedAt).toLocaleString()}</span>
+                  </div>
+                ) : (
+                  <span>Never run</span>
+                )}
+              </div>
+
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={() => handleRunJob(job.name)}
+                disabled={job.running || runningJob === job.name}
+              >
+                {runningJob === job.name ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                Run Now
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Run History */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Run History ({pagination.totalCount})
+            </CardTitle>
+            <div className="flex gap-2">
+              <Select
+                value={filters.jobName || "all"}
+                onValueChange={(value) => setFilters(prev => ({ ...prev, jobName: value === "all" ? "" : value, page: 1 }))}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="All Jobs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Jobs</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.name} value={job.name}>{job.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.status || "all"}
+                onValueChange={(value) => setFilters(prev => ({ ...prev, status: value === "all" ? "" : value, page: 1 }))}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="All Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="SUCCEEDED">Succeeded</SelectItem>
+                  <SelectItem value="FAILED">Failed</SelectItem>
+                  <SelectItem value="RUNNING">Running</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-12">
+              <Timer className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No job runs found</h3>
+              <p className="text-gray-600">
+                {filters.jobName || filters.status
+                  ? "Try adjusting your filter criteria."
+                  : "Jobs have not run yet."}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Job</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Trigger</th>
+                    <th className="py-2 pr-4 font-medium">Started</th>
+                    <th className="py-2 pr-4 font-medium">Duration</th>
+                    <th className="py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((run) => (
+                    <tr key={run.id} className="border-b last:border-0 align-top">
+                      <td className="py-3 pr-4 font-medium text-gray-900">{run.jobName}</td>
+                      <td className="py-3 pr-4">{getStatusBadge(run.status)}</td>
+                      <td className="py-3 pr-4">
+                        <Badge variant="outline" className="capitalize">{run.trigger.toLowerCase()}</Badge>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-600">{new Date(run.startedAt).toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-gray-600">{formatDuration(run.durationMs)}</td>
+                      <td className="py-3 text-gray-600">
+                        {run.status === "FAILED" ? (
+                          <span className="text-red-600">{run.error}</span>
+                        ) : (
+                          formatResult(run.result)
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <div className="text-sm text-gray-600">
+                Showing {((pagination.currentPage - 1) * filters.limit) + 1} to{" "}
+                {Math.min(pagination.currentPage * filters.limit, pagination.totalCount)} of{" "}
+                {pagination.totalCount} runs
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(pagination.currentPage - 1)}
+                  disabled={!pagination.hasPrev}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {pagination.currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(pagination.currentPage + 1)}
+                  disabled={!pagination.hasNext}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JobHistory;
@@ -264,6 +264,14 @@ const PropertyRequests = () => {
                         {getStatusIcon(request.status)}
                         <span className="ml-1">{request.status}</span>
                       </Badge>
+                      <Badge
+                        variant="outline"
+                        className={request.paymentStatus === 'PAID' ? 'text-green-700' : 'text-red-600'}
+                        title={request.receiptNumber || undefined}
+                      >
+                        <DollarSign className="h-3 w-3 mr-1" />
+                        {request.paymentStatus} {formatCurrency(request.amount)}
+                      </Badge>
                     </div>
                   </div>
 
@@ -363,6 +371,21 @@ const PropertyRequests = () => {
                           </div>
                         )}
 
+                        {/* Listing Fee */}
+                        <div>
+                          <h4 className="font-medium text-gray-900 mb-2">Listing Fee</h4>
+                          <div className="space-y-2 text-sm">
+                            <p><span className="font-medium">Amount:</span> {formatCurrency(selectedRequest.amount)}</p>
+                            <p><span className="font-medium">Status:</span> {selectedRequest.paymentStatus}</p>
+                            {selectedRequest.receiptNumber && (
+                              <p><span className="font-medium">Receipt:</span> {selectedRequest.receiptNumber}{selectedRequest.paidAt && ` (${formatDate(selectedRequest.paidAt)})`}</p>
+                            )}
+                            {selectedRequest.paymentStatus !== 'PAID' && (
+                              <p className="text-red-600">The listing fee has not been paid, so this request cannot be approved.</p>
+                            )}
+                          </div>
+                        </div>
+
                         {/* Admin Notes */}
                         {selectedRequest.status === 'PENDING' && (
                           <div>
@@ -383,7 +406,7 @@ const PropertyRequests = () => {
                           <div className="flex gap-2 pt-4">
                             <Button
                               onClick={() => handleStatusUpdate(selectedRequest.id, 'APPROVED')}
-                              disabled={actionLoading === selectedRequest.id}
+                              disabled={actionLoading === selectedRequest.id || selectedRequest.paymentStatus !== 'PAID'}
                               className="bg-green-600 hover:bg-green-700"
                             >
                               <Check className="h-4 w-4 mr-2" />
@@ -430,7 +453,7 @@ const PropertyRequests = () => {
                         setSelectedRequest(request);
                         handleStatusUpdate(request.id, 'APPROVED');
                       }}
-                      disabled={actionLoading === request.id}
+                      disabled={actionLoading === request.id || request.paymentStatus !== 'PAID'}
                       className="bg-green-600 hover:bg-green-700"
                     >
                       <Check className="h-4 w-4" />
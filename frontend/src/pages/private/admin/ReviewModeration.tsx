@@ -0,0 +1,337 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Star,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Loader2,
+  RefreshCw,
+  MessageSquare,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import {
+  getModerationReviewsRequest,
+  moderateReviewRequest,
+  type ModerationReview,
+  type ReviewModerationStatus,
+} from "@/api/adminApi";
+
+const STATUS_TABS: { value: ReviewModerationStatus | "all"; label: string }[] = [
+  { value: "PENDING", label: "Pending" },
+  { value: "PUBLISHED", label: "Published" },
+  { value: "REJECTED", label: "Rejected" },
+  { value: "all", label: "All" },
+];
+
+const ReviewModeration = () => {
+  const [reviews, setReviews] = useState<ModerationReview[]>([]);
+  const [counts, setCounts] = useState<Record<ReviewModerationStatus, number>>({
+    PENDING: 0,
+    PUBLISHED: 0,
+    REJECTED: 0,
+  });
+  const [loading, setLoading] = useState(true);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+  const [rejectingReview, setRejectingReview] = useState<ModerationReview | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [pagination, setPagination] = useState({
+    currentPage: 1,
+    totalPages: 1,
+    totalCount: 0,
+    hasNext: false,
+    hasPrev: false,
+  });
+
+  const [filters, setFilters] = useState<{ status: ReviewModerationStatus | "all"; page: number; limit: number }>({
+    status: "PENDING",
+    page: 1,
+    limit: 20,
+  });
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await getModerationReviewsRequest(filters);
+      setReviews(response.data.reviews);
+      setCounts(response.data.counts);
+      setPagination(response.data.pagination);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      toast.error("Failed to fetch reviews.");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const handleModerate = async (review: ModerationReview, status: "PUBLISHED" | "REJECTED", note?: string) => {
+    setActingOn(review.id);
+    try {
+      const response = await moderateReviewRequest(review.id, { status, note });
+      toast.success(response.data.message);
+      setRejectingReview(null);
+      setRejectReason("");
+      fetchReviews();
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to moderate review.");
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const handlePageChange = (page: number) => {
+    setFilters(prev => ({ ...prev, page }));
+  };
+
+  const renderStars = (rating: number) => (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`h-4 w-4 ${star <= rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+        />
+      ))}
+    </div>
+  );
+
+  const getStatusBadge = (status: ReviewModerationStatus) => {
+    switch (status) {
+      case "PUBLISHED":
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="h-3 w-3 mr-1" />Published</Badge>;
+      case "REJECTED":
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><XCircle className="h-3 w-3 mr-1" />Rejected</Badge>;
+      default:
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100"><Clock className="h-3 w-3 mr-1" />Pending</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Review Moderation</h1>
+          <p className="text-gray-600 mt-1">
+            Approve tenant reviews before they appear on property listings
+          </p>
+        </div>
+
+        <Button variant="outline" onClick={fetchReviews}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Status counts */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {STATUS_TABS.filter((tab) => tab.value !== "all").map((tab) => (
+          <Card
+            key={tab.value}
+            className={`cursor-pointer transition-shadow hover:shadow-md ${filters.status === tab.value ? "ring-2 ring-purple-500" : ""}`}
+            onClick={() => setFilters(prev => ({ ...prev, status: tab.value, page: 1 }))}
+          >
+            <CardContent className="p-6 flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{tab.label}</p>
+                <p className="text-2xl font-bold text-gray-900">{counts[tab.value as ReviewModerationStatus]}</p>
+              </div>
+              {getStatusBadge(tab.value as ReviewModerationStatus)}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Reviews */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Reviews ({pagination.totalCount})
+            </CardTitle>
+            <div className="flex gap-2">
+              {STATUS_TABS.map((tab) => (
+                <Button
+                  key={tab.value}
+                  size="sm"
+                  variant={filters.status === tab.value ? "default" : "outline"}
+                  onClick={() => setFilters(prev => ({ ...prev, status: tab.value, page: 1 }))}
+                >
+                  {tab.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : reviews.length === 0 ? (
+            <div className="text-center py-12">
+              <Star className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews found</h3>
+              <p className="text-gray-600">
+                {filters.status === "PENDING" ? "The moderation queue is empty." : "Try another status."}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {reviews.map((review) => (
+                <div key={review.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                    <div>
+                      <h4 className="font-semibold text-gray-900">
+                        {review.property.title} - Unit {review.unit.label}
+                      </h4>
+                      <p className="text-sm text-gray-600">
+                        By {review.tenant.name} ({review.tenant.email}) · Landlord: {review.landlord.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Lease {review.lease.leaseNickname} ({review.lease.status.toLowerCase()}) · Submitted {new Date(review.updatedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    {getStatusBadge(review.status)}
+                  </div>
+
+                  {renderStars(review.rating)}
+                  {review.comment ? (
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{review.comment}</p>
+                  ) : (
+                    <p className="text-sm text-gray-400 italic">Rating only, no comment</p>
+                  )}
+
+                  {review.landlordReply && (
+                    <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                      <span className="font-medium text-gray-600">Landlord reply: </span>
+                      <span className="text-gray-700">{review.landlordReply}</span>
+                    </div>
+                  )}
+
+                  {review.status === "REJECTED" && review.moderationNote && (
+                    <p className="text-sm text-red-600">Rejection reason: {review.moderationNote}</p>
+                  )}
+
+                  <div className="flex gap-2">
+                    {review.status !== "PUBLISHED" && (
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                        onClick={() => handleModerate(review, "PUBLISHED")}
+                        disabled={actingOn === review.id}
+                      >
+                        {actingOn === review.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                        )}
+                        Publish
+                      </Button>
+                    )}
+                    {review.status !== "REJECTED" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                        onClick={() => {
+                          setRejectingReview(review);
+                          setRejectReason("");
+                        }}
+                        disabled={actingOn === review.id}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        {review.status === "PUBLISHED" ? "Unpublish" : "Reject"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <div className="text-sm text-gray-600">
+                Showing {((pagination.currentPage - 1) * filters.limit) + 1} to{" "}
+                {Math.min(pagination.currentPage * filters.limit, pagination.totalCount)} of{" "}
+                {pagination.totalCount} reviews
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(pagination.currentPage - 1)}
+                  disabled={!pagination.hasPrev}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {pagination.currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePageChange(pagination.currentPage + 1)}
+                  disabled={!pagination.hasNext}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reject dialog */}
+      <Dialog open={rejectingReview !== null} onOpenChange={(open) => !open && setRejectingReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{rejectingReview?.status === "PUBLISHED" ? "Unpublish Review" : "Reject Review"}</DialogTitle>
+            <DialogDescription>
+              The tenant will see this reason and can edit their review to submit it again.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="e.g. Contains personal information or offensive language"
+            rows={3}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setRejectingReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectingReview && handleModerate(rejectingReview, "REJECTED", rejectReason.trim())}
+              disabled={!rejectReason.trim() || actingOn === rejectingReview?.id}
+            >
+              {actingOn === rejectingReview?.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReviewModeration;
@@ -255,7 +255,9 @@ const Financials = () => {
                     {formatCurrency(overview.overview.totalExpenses)}
                   </p>
                   <p className="text-xs text-gray-500 mt-1">
-                    Property expenses
+                    {overview.overview.maintenanceExpenses > 0
+                      ? `${formatCurrency(overview.overview.maintenanceExpenses)} maintenance`
+                      : "Property expenses"}
                   </p>
                 </div>
                 <div className="h-12 w-12 bg-red-100 rounded-lg flex items-center justify-center">
@@ -7,6 +7,7 @@ import {
   TrendingUp,
   TrendingDown,
   Calendar,
+  CalendarClock,
   Clock,
   Plus,
   BarChart3,
@@ -206,6 +207,8 @@ const LandlordDashboard = () => {
         return <Building2 className="h-4 w-4 text-orange-600" />;
       case 'MAINTENANCE_FOLLOWUP':
         return <Wrench className="h-4 w-4 text-red-600" />;
+      case 'PREVENTIVE_MAINTENANCE':
+        return <CalendarClock className="h-4 w-4 text-teal-600" />;
       default:
         return <Calendar className="h-4 w-4 text-gray-600" />;
     }
@@ -450,10 +453,15 @@ const LandlordDashboard = () => {
         {/* Upcoming Tasks */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Calendar className="h-5 w-5" />
-              Upcoming Tasks
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Upcoming Tasks
+              </CardTitle>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/landlord/maintenance/schedules">Preventive Calendar</Link>
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             {upcomingTasks.length > 0 ? (
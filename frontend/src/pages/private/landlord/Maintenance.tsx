@@ -22,6 +22,7 @@ import {
   TrendingDown,
   AlertCircle,
   Settings,
+  CalendarClock,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -43,6 +44,7 @@ const Maintenance = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const [slaFilter, setSlaFilter] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("newest");
 
   useEffect(() => {
@@ -85,8 +87,9 @@ const Maintenance = () => {
       
       const matchesStatus = statusFilter === "all" || request.status === statusFilter;
       const matchesPriority = priorityFilter === "all" || request.priority === priorityFilter;
+      const matchesSla = slaFilter === "all" || request.sla.state === slaFilter;
       
-      return matchesSearch && matchesStatus && matchesPriority;
+      return matchesSearch && matchesStatus && matchesPriority && matchesSla;
     })
     .sort((a, b) => {
       switch (sortBy) {
@@ -95,13 +98,18 @@ const Maintenance = () => {
         case "oldest":
           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
         case "priority":
-          const priorityOrder = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+          const priorityOrder = { EMERGENCY: 4, HIGH: 3, MEDIUM: 2, LOW: 1 };
           return priorityOrder[b.priority] - priorityOrder[a.priority];
         case "status":
           const statusOrder = { OPEN: 3, IN_PROGRESS: 2, RESOLVED: 1 };
           return statusOrder[b.status] - statusOrder[a.status];
         case "days-open":
           return b.daysOpen - a.daysOpen;
+        case "sla-due":
+          // Soonest (or most overdue) deadline first, resolved requests last
+          if (!a.sla.nextDueAt) return 1;
+          if (!b.sla.nextDueAt) return -1;
+          return new Date(a.sla.nextDueAt).getTime() - new Date(b.sla.nextDueAt).getTime();
         default:
           return 0;
       }
@@ -135,6 +143,8 @@ const Maintenance = () => {
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
+      case "EMERGENCY":
+        return "bg-red-600 text-white border-red-700";
       case "HIGH":
         return "bg-red-100 text-red-800 border-red-200";
       case "MEDIUM":
@@ -148,6 +158,7 @@ const Maintenance = () => {
 
   const getPriorityIcon = (priority: string) => {
     switch (priority) {
+      case "EMERGENCY":
       case "HIGH":
         return <AlertTriangle className="h-4 w-4" />;
       case "MEDIUM":
@@ -159,6 +170,21 @@ const Maintenance = () => {
     }
   };
 
+  const formatSlaDue = (request: MaintenanceRequest) => {
+    const { hoursRemaining } = request.sla;
+    if (hoursRemaining === null) return null;
+    if (hoursRemaining < 0) return `${Math.abs(hoursRemaining)}h overdue`;
+    return hoursRemaining < 48 ? `in ${hoursRemaining}h` : `in ${Math.round(hoursRemaining / 24)} days`;
+  };
+
+  const formatVisit = (start: string, end: string | null) => {
+    const startDate = new Date(start);
+    const day = startDate.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+    const from = startDate.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+    const to = end ? new Date(end).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" }) : null;
+    return to ? `${day}, ${from} - ${to}` : `${day}, ${from}`;
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -194,6 +220,12 @@ const Maintenance = () => {
           <p className="text-gray-600 mt-1">Manage maintenance requests for your properties</p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/landlord/maintenance/schedules">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Preventive
+            </Link>
+          </Button>
           <Button variant="outline" size="sm" asChild>
             <Link to="/landlord/maintenance/settings">
               <Settings className="h-4 w-4 mr-2" />
@@ -231,6 +263,9 @@ const Maintenance = () => {
                   <p className="text-2xl font-bold text-gray-900">{stats.overview.openRequests}</p>
                   <p className="text-xs text-gray-500 mt-1">
                     {stats.overview.urgentRequests} urgent
+                    {stats.overview.slaBreachedRequests > 0 && (
+                      <span className="text-red-600 font-medium"> · {stats.overview.slaBreachedRequests} SLA breached</span>
+                    )}
                   </p>
                 </div>
                 <div className="h-12 w-12 bg-red-100 rounded-lg flex items-center justify-center">
@@ -266,7 +301,7 @@ const Maintenance = () => {
                     {stats.overview.averageResolutionTime} days
                   </p>
                   <p className="text-xs text-gray-500 mt-1">
-                    Time to resolve
+                    {stats.overview.slaComplianceRate}% within SLA
                   </p>
                 </div>
                 <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
@@ -308,11 +343,24 @@ const Maintenance = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Priorities</SelectItem>
+                <SelectItem value="EMERGENCY">Emergency</SelectItem>
                 <SelectItem value="HIGH">High</SelectItem>
                 <SelectItem value="MEDIUM">Medium</SelectItem>
                 <SelectItem value="LOW">Low</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={slaFilter} onValueChange={setSlaFilter}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Filter by SLA" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All SLA States</SelectItem>
+                <SelectItem value="BREACHED">SLA Breached</SelectItem>
+                <SelectItem value="AT_RISK">Due Soon</SelectItem>
+                <SelectItem value="ON_TRACK">On Track</SelectItem>
+                <SelectItem value="MET">Met</SelectItem>
+              </SelectContent>
+            </Select>
             <Select value={sortBy} onValueChange={setSortBy}>
               <SelectTrigger className="w-full sm:w-48">
                 <SelectValue placeholder="Sort by" />
@@ -323,6 +371,7 @@ const Maintenance = () => {
                 <SelectItem value="priority">Priority</SelectItem>
                 <SelectItem value="status">Status</SelectItem>
                 <SelectItem value="days-open">Days Open</SelectItem>
+                <SelectItem value="sla-due">SLA Deadline</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -348,7 +397,7 @@ const Maintenance = () => {
                     <CardTitle className="text-lg font-semibold text-gray-900 line-clamp-2 min-h-[2.5rem]">
                       {request.description}
                     </CardTitle>
-                    <div className="flex items-center gap-2 mt-2">
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
                       <Badge variant="outline" className={`text-xs ${getStatusColor(request.status)}`}>
                         {getStatusIcon(request.status)}
                         <span className="ml-1">{request.status.replace('_', ' ')}</span>
@@ -357,10 +406,25 @@ const Maintenance = () => {
                         {getPriorityIcon(request.priority)}
                         <span className="ml-1">{request.priority}</span>
                       </Badge>
-                      {request.daysOpen >= 7 && request.status === "OPEN" && (
+                      <Badge variant="outline" className="text-xs">
+                        {request.category}
+                      </Badge>
+                      {request.scheduleId && (
+                        <Badge variant="outline" className="text-xs bg-teal-50 text-teal-700 border-teal-200">
+                          <CalendarClock className="h-3 w-3 mr-1" />
+                          Preventive
+                        </Badge>
+                      )}
+                      {request.status !== "RESOLVED" && request.sla.state === "BREACHED" && (
                         <Badge variant="outline" className="text-xs bg-red-100 text-red-800 border-red-200">
                           <AlertTriangle className="h-3 w-3 mr-1" />
-                          Urgent
+                          SLA Breached
+                        </Badge>
+                      )}
+                      {request.sla.state === "AT_RISK" && (
+                        <Badge variant="outline" className="text-xs bg-orange-100 text-orange-800 border-orange-200">
+                          <Clock className="h-3 w-3 mr-1" />
+                          SLA Due Soon
                         </Badge>
                       )}
                     </div>
@@ -424,18 +488,56 @@ const Maintenance = () => {
                       {request.daysOpen} days
                     </span>
                   </div>
+                  {request.sla.nextDueAt && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600">
+                        {request.sla.state === "BREACHED" ? "SLA" : "Next Deadline"}
+                      </span>
+                      <span className={`text-sm font-medium ${
+                        request.sla.state === "BREACHED" ? "text-red-600" :
+                        request.sla.state === "AT_RISK" ? "text-orange-600" :
+                        "text-gray-900"
+                      }`}>
+                        {formatSlaDue(request)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">Assigned To</span>
+                    <span className="text-sm text-gray-900 line-clamp-1">
+                      {request.contractor ? request.contractor.name : "Unassigned"}
+                    </span>
+                  </div>
+                  {request.scheduledStart && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600 flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        Visit
+                      </span>
+                      <span className="text-sm text-gray-900">
+                        {formatVisit(request.scheduledStart, request.scheduledEnd)}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Photo Preview */}
-                {request.photoUrl && (
+                {(request.attachments[0] || request.photoUrl) && (
                   <div className="space-y-2">
-                    <span className="text-sm text-gray-600">Photo</span>
-                    <div className="w-full h-32 bg-gray-100 rounded-lg overflow-hidden">
+                    <span className="text-sm text-gray-600">
+                      {request.attachments.length > 1 ? `${request.attachments.length} attachments` : "Photo"}
+                    </span>
+                    <div className="relative w-full h-32 bg-gray-100 rounded-lg overflow-hidden">
                       <img
-                        src={`http://localhost:5000${request.photoUrl}`}
+                        src={`http://localhost:5000${request.attachments[0]?.thumbnailUrl || request.photoUrl || request.attachments[0]?.url}`}
                         alt="Maintenance request photo"
                         className="w-full h-full object-cover"
                       />
+                      {request.attachments.length > 1 && (
+                        <span className="absolute bottom-2 right-2 px-2 py-0.5 rounded bg-black/60 text-xs text-white">
+                          +{request.attachments.length - 1}
+                        </span>
+                      )}
                     </div>
                   </div>
                 )}
@@ -465,10 +567,10 @@ const Maintenance = () => {
             <Wrench className="h-6 w-6 text-emerald-500" />
           </div>
           <h3 className="text-base font-medium text-gray-900 mb-2">
-            {searchQuery || statusFilter !== "all" || priorityFilter !== "all" ? "No requests found" : "No maintenance requests yet"}
+            {searchQuery || statusFilter !== "all" || priorityFilter !== "all" || slaFilter !== "all" ? "No requests found" : "No maintenance requests yet"}
           </h3>
           <p className="text-gray-600 text-sm mb-4">
-            {searchQuery || statusFilter !== "all" || priorityFilter !== "all" 
+            {searchQuery || statusFilter !== "all" || priorityFilter !== "all" || slaFilter !== "all"
               ? "Try adjusting your search or filter criteria."
               : "Maintenance requests from tenants will appear here when they are submitted."
             }
@@ -18,6 +18,7 @@ import {
   Clock,
   Home,
   MapPin,
+  RefreshCw,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -249,6 +250,9 @@ const Reports = () => {
                     <p className="text-xs text-gray-500 mt-1">
                       {propertyReport.overallMetrics.averageROI}% avg ROI
                     </p>
+                    <p className="text-xs text-gray-500">
+                      {formatCurrency(propertyReport.overallMetrics.maintenanceCostPerUnit)} maintenance per unit
+                    </p>
                   </div>
                   <div className={`h-12 w-12 rounded-lg flex items-center justify-center ${
                     propertyReport.overallMetrics.totalNetIncome >= 0 ? 'bg-green-100' : 'bg-red-100'
@@ -280,6 +284,7 @@ const Reports = () => {
                       <th className="text-left py-3 px-4 font-medium text-gray-900">Occupancy</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-900">Revenue</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-900">Expenses</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-900">Maintenance / Unit</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-900">Net Income</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-900">ROI</th>
                     </tr>
@@ -316,6 +321,16 @@ const Reports = () => {
                             {formatCurrency(property.totalExpenses)}
                           </p>
                         </td>
+                        <td className="py-3 px-4">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {formatCurrency(property.maintenanceCostPerUnit)}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {formatCurrency(property.maintenanceCost)} total
+                            </p>
+                          </div>
+                        </td>
                         <td className="py-3 px-4">
                           <p className={`font-medium ${
                             property.netIncome >= 0 ? 'text-green-600' : 'text-red-600'
@@ -548,6 +563,47 @@ const Reports = () => {
             </Card>
           </div>
 
+          {/* Renewal Metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Renewal Rate</p>
+                    <p className="text-2xl font-bold text-purple-600">
+                      {tenantReport.averageMetrics.renewalRate}%
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {tenantReport.renewals.renewedLeases} of {tenantReport.renewals.renewalEligibleLeases} ended leases renewed
+                    </p>
+                  </div>
+                  <div className="h-12 w-12 bg-purple-100 rounded-lg flex items-center justify-center">
+                    <RefreshCw className="h-6 w-6 text-purple-600" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Avg Lease Duration</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {tenantReport.averageMetrics.averageLeaseDuration} days
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Per tenancy, including renewals
+                    </p>
+                  </div>
+                  <div className="h-12 w-12 bg-gray-100 rounded-lg flex items-center justify-center">
+                    <Clock className="h-6 w-6 text-gray-600" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
           {/* Risk Distribution */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
@@ -618,7 +618,7 @@ const TenantManagement = () => {
                 </div>
                 <div className="ml-auto">
                   <Badge className={getRiskBadgeColor(selectedApplication.riskAssessment.riskLevel)}>
-                    {selectedApplication.riskAssessment.riskLevel} Risk ({selectedApplication.riskAssessment.aiRiskScore}%)
+                    {selectedApplication.riskAssessment.riskLevel} Risk ({Math.round(selectedApplication.riskAssessment.aiRiskScore * 100)}%)
                   </Badge>
                 </div>
               </div>
@@ -215,8 +215,9 @@ const TenantsRefined = () => {
   };
 
   const handleMessageTenant = (tenant: any) => {
-    // Navigate to messages with this tenant pre-selected
-    navigate(`/landlord/messages?tenantId=${tenant.tenant.id}&tenantName=${encodeURIComponent(tenant.tenant.firstName + ' ' + tenant.tenant.lastName)}`);
+    // Navigate to messages with this tenant pre-selected (in their lease's thread when they have one)
+    const leaseParam = tenant.currentLease?.id ? `&leaseId=${tenant.currentLease.id}` : '';
+    navigate(`/landlord/messages?tenantId=${tenant.tenant.id}&tenantName=${encodeURIComponent(tenant.tenant.firstName + ' ' + tenant.tenant.lastName)}${leaseParam}`);
   };
 
   const handleDeleteTenant = (tenant: any) => {
@@ -1069,7 +1070,7 @@ const TenantsRefined = () => {
                         AI Risk Score
                       </label>
                       <div className="px-4 py-3 rounded-xl bg-gray-50 text-gray-900">
-                        {selectedTenant.riskAssessment.aiRiskScore}/100
+                        {Math.round(selectedTenant.riskAssessment.aiRiskScore * 100)}/100
                       </div>
                     </div>
                   </div>
@@ -1079,7 +1080,7 @@ const TenantsRefined = () => {
                       <label className="text-sm font-medium text-gray-500">
                         AI Screening Summary
                       </label>
-                      <div className="px-4 py-3 rounded-xl bg-gray-50 text-gray-900">
+                      <div className="px-4 py-3 rounded-xl bg-gray-50 text-gray-900 whitespace-pre-line">
                         {selectedTenant.riskAssessment.aiScreeningSummary}
                       </div>
                     </div>
@@ -13,6 +13,7 @@ import {
   Upload,
   X,
   Eye,
+  ArrowRight,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -23,8 +24,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { 
   createLeaseRequest,
-  type CreateLeaseData 
+  getLeaseDocumentRequest,
+  saveLeaseDocumentRequest,
+  type CreateLeaseData,
+  type LeaseContractData
 } from "@/api/landlordLeaseApi";
+import LeaseContractBuilder, { type LeaseContractStep } from "@/components/LeaseContractBuilder";
+import type { LateFeeType } from "@/types/rentScheduleType";
 import { getLandlordPropertiesRequest, getPropertyUnitsRequest } from "@/api/landlordPropertyApi";
 import { getTenantsWithPendingApplicationsRequest } from "@/api/landlordTenantApi";
 import { toast } from "sonner";
@@ -58,6 +64,35 @@ interface Tenant {
   unitLabel?: string;
 }
 
+// Step 0 is the lease setup; the rest build the structured contract (LeaseDocument)
+const CONTRACT_STEPS: { key: LeaseContractStep; label: string }[] = [
+  { key: "term", label: "Term" },
+  { key: "rent", label: "Rent & Deposit" },
+  { key: "parties", label: "Parties" },
+  { key: "policies", label: "Policies" },
+  { key: "condition", label: "Condition" },
+  { key: "homeGuide", label: "Home Guide" },
+];
+
+const LEASE_TYPE_TO_TERM: Record<string, LeaseContractData["leaseTermType"]> = {
+  STANDARD: "FIXED",
+  MONTH_TO_MONTH: "MONTH_TO_MONTH",
+  SHORT_TERM: "SHORT_TERM",
+  LONG_TERM: "LONG_TERM",
+};
+
+// Keep what the landlord already typed in the contract; only fill empty fields
+const fillBlanks = (contract: LeaseContractData, defaults: LeaseContractData): LeaseContractData => {
+  const merged = { ...contract };
+  (Object.keys(defaults) as (keyof LeaseContractData)[]).forEach((key) => {
+    const current = merged[key];
+    if (current === undefined || current === null || current === "") {
+      Object.assign(merged, { [key]: defaults[key] });
+    }
+  });
+  return merged;
+};
+
 const CreateLease = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
@@ -69,6 +104,8 @@ const CreateLease = () => {
   const [selectedTenantId, setSelectedTenantId] = useState<string>("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [contract, setContract] = useState<LeaseContractData>({});
 
   // Form data
   const [formData, setFormData] = useState<CreateLeaseData>({
@@ -80,6 +117,9 @@ const CreateLease = () => {
     endDate: "",
     rentAmount: 0,
     interval: "MONTHLY",
+    gracePeriodDays: 0,
+    lateFeeType: "NONE",
+    lateFeeAmount: 0,
     status: "DRAFT",
     hasFormalDocument: false,
     landlordName: "",
@@ -244,12 +284,55 @@ const CreateLease = () => {
     setFormData(prev => ({ ...prev, hasFormalDocument: false }));
   };
 
+  const validateSetup = () => {
+    if (!selectedPropertyId || !selectedUnitId || !selectedTenantId || !formData.leaseNickname || !formData.leaseType || !formData.startDate || !formData.rentAmount) {
+      toast.error("Please fill in all required fields");
+      return false;
+    }
+    return true;
+  };
+
+  // Carry the lease setup over into the contract before the first contract step
+  const startContract = () => {
+    if (!validateSetup()) return;
+
+    const tenant = tenants.find(t => t.id === selectedTenantId);
+    const [landlordFirstName, ...landlordLastName] = (formData.landlordName || "").trim().split(/\s+/);
+    setContract(prev => fillBlanks(prev, {
+      leaseNickname: formData.leaseNickname,
+      startDate: formData.startDate,
+      endDate: formData.endDate || null,
+      leaseTermType: LEASE_TYPE_TO_TERM[formData.leaseType] ?? null,
+      endBehavior: formData.endDate ? "TERMINATE_ON_END_DATE" : "RENEW_MONTH_TO_MONTH",
+      monthlyRent: formData.interval === "MONTHLY" ? formData.rentAmount : null,
+      tenantFirstName: tenant?.firstName ?? null,
+      tenantLastName: tenant?.lastName ?? null,
+      tenantEmail: tenant?.email ?? null,
+      tenantPhone: tenant?.phoneNumber ?? null,
+      landlordFirstName: landlordFirstName || null,
+      landlordLastName: landlordLastName.join(" ") || null,
+    }));
+    setStep(1);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    // Enter on an earlier step moves forward instead of creating the lease
+    if (step === 0) {
+      startContract();
+      return;
+    }
+    if (step < CONTRACT_STEPS.length) {
+      setStep(step + 1);
+      return;
+    }
+    await createLease(true);
+  };
+
+  const createLease = async (withContract: boolean) => {
     // Validate required fields
-    if (!selectedPropertyId || !selectedUnitId || !selectedTenantId || !formData.leaseNickname || !formData.leaseType || !formData.startDate || !formData.rentAmount) {
-      toast.error("Please fill in all required fields");
+    if (!validateSetup()) {
+      setStep(0);
       return;
     }
 
@@ -269,6 +352,14 @@ const CreateLease = () => {
       }
       submitData.append('rentAmount', formData.rentAmount.toString());
       submitData.append('interval', formData.interval);
+      submitData.append('gracePeriodDays', (formData.gracePeriodDays ?? 0).toString());
+      if (formData.lateFeeType && formData.lateFeeType !== "NONE") {
+        submitData.append('lateFeeType', formData.lateFeeType);
+        submitData.append('lateFeeAmount', (formData.lateFeeAmount ?? 0).toString());
+        if (formData.lateFeeType === "DAILY" && formData.lateFeeMaxAmount) {
+          submitData.append('lateFeeMaxAmount', formData.lateFeeMaxAmount.toString());
+        }
+      }
       submitData.append('status', formData.status);
       submitData.append('hasFormalDocument', formData.hasFormalDocument.toString());
       
@@ -287,7 +378,22 @@ const CreateLease = () => {
         submitData.append('leaseDocument', selectedFile);
       }
       
-      await createLeaseRequest(submitData);
+      const response = await createLeaseRequest(submitData);
+      const leaseId: string = response.data.lease.id;
+
+      if (withContract) {
+        try {
+          // Address and other blanks come from the property/unit prefill of the new lease
+          const { data } = await getLeaseDocumentRequest(leaseId);
+          await saveLeaseDocumentRequest(leaseId, fillBlanks(contract, data.draft ?? {}));
+        } catch (contractErr) {
+          console.error("Error saving lease contract:", contractErr);
+          toast.error("Lease created, but the contract could not be saved");
+          navigate(`/landlord/leases/${leaseId}/contract`);
+          return;
+        }
+      }
+
       toast.success("Lease created successfully!");
       navigate("/landlord/leases");
     } catch (err: any) {
@@ -318,8 +424,33 @@ const CreateLease = () => {
         </div>
       </div>
 
+      {/* Steps */}
+      <div className="flex flex-wrap items-center gap-2">
+        {[{ label: "Lease Setup" }, ...CONTRACT_STEPS].map((item, index) => (
+          <button
+            key={item.label}
+            type="button"
+            disabled={index > 0 && step === 0}
+            onClick={() => (index === 0 ? setStep(0) : step > 0 && setStep(index))}
+            className={`px-3 py-1 rounded-full text-sm border ${
+              index === step
+                ? "bg-emerald-500 text-white border-emerald-500"
+                : index < step
+                  ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+                  : "bg-white text-gray-500 border-gray-200"
+            }`}
+          >
+            {index + 1}. {item.label}
+          </button>
+        ))}
+      </div>
+
       <form onSubmit={handleSubmit} className="space-y-6">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {step > 0 && (
+          <LeaseContractBuilder step={CONTRACT_STEPS[step - 1].key} value={contract} onChange={setContract} />
+        )}
+
+        <div className={`grid grid-cols-1 lg:grid-cols-3 gap-6 ${step === 0 ? "" : "hidden"}`}>
           {/* Main Form */}
           <div className="lg:col-span-2 space-y-6">
             {/* Basic Information */}
@@ -527,6 +658,73 @@ const CreateLease = () => {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="gracePeriodDays">Grace Period (days)</Label>
+                  <Input
+                    id="gracePeriodDays"
+                    type="number"
+                    min="0"
+                    max="31"
+                    step="1"
+                    value={formData.gracePeriodDays}
+                    onChange={(e) => handleInputChange("gracePeriodDays", parseInt(e.target.value) || 0)}
+                    placeholder="0"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Payments made within this many days after the due date still count as on time
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="lateFeeType">Late Fee</Label>
+                  <Select value={formData.lateFeeType} onValueChange={(value: LateFeeType | "NONE") => handleInputChange("lateFeeType", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="NONE">No late fee</SelectItem>
+                      <SelectItem value="FLAT">Flat amount</SelectItem>
+                      <SelectItem value="PERCENT">Percent of rent</SelectItem>
+                      <SelectItem value="DAILY">Daily (with cap)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.lateFeeType && formData.lateFeeType !== "NONE" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="lateFeeAmount">
+                        {formData.lateFeeType === "PERCENT" ? "Percent of Rent (%) *" : formData.lateFeeType === "DAILY" ? "Amount per Day *" : "Amount *"}
+                      </Label>
+                      <Input
+                        id="lateFeeAmount"
+                        type="number"
+                        min="0"
+                        max={formData.lateFeeType === "PERCENT" ? "100" : undefined}
+                        step="0.01"
+                        value={formData.lateFeeAmount ?? ""}
+                        onChange={(e) => handleInputChange("lateFeeAmount", parseFloat(e.target.value) || 0)}
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+                    {formData.lateFeeType === "DAILY" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="lateFeeMaxAmount">Maximum per Installment</Label>
+                        <Input
+                          id="lateFeeMaxAmount"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.lateFeeMaxAmount ?? ""}
+                          onChange={(e) => handleInputChange("lateFeeMaxAmount", e.target.value ? parseFloat(e.target.value) : undefined)}
+                          placeholder="No cap"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="status">Lease Status *</Label>
                   <Select value={formData.status} onValueChange={(value: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED") => handleInputChange("status", value)}>
@@ -690,15 +888,20 @@ const CreateLease = () => {
           </div>
         </div>
 
-        {/* Submit Button */}
+        {/* Step Navigation */}
         <div className="flex justify-end gap-4">
           <Button
             type="button"
             variant="outline"
-            onClick={() => navigate("/landlord/leases")}
+            onClick={() => (step === 0 ? navigate("/landlord/leases") : setStep(step - 1))}
           >
-            Cancel
+            {step === 0 ? "Cancel" : "Back"}
           </Button>
+          {step === 0 && (
+            <Button type="button" variant="outline" disabled={loading} onClick={() => createLease(false)}>
+              Create Without Contract
+            </Button>
+          )}
           <Button
             type="submit"
             disabled={loading}
@@ -709,6 +912,11 @@ const CreateLease = () => {
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                 Creating...
               </>
+            ) : step < CONTRACT_STEPS.length ? (
+              <>
+                {step === 0 ? "Next: Build Contract" : "Next"}
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </>
             ) : (
               <>
                 <Save className="h-4 w-4 mr-2" />
@@ -25,8 +25,10 @@ import {
   getLeaseDetailsRequest,
   updateLeaseRequest,
   type LeaseDetails,
+  type LeaseStatus,
   type UpdateLeaseData 
 } from "@/api/landlordLeaseApi";
+import type { LateFeeType } from "@/types/rentScheduleType";
 import { getLandlordPropertiesRequest } from "@/api/landlordPropertyApi";
 import { getTenantsRequest } from "@/api/tenantApi";
 import { toast } from "sonner";
@@ -76,6 +78,9 @@ const EditLease = () => {
     endDate: "",
     rentAmount: 0,
     interval: "MONTHLY",
+    gracePeriodDays: 0,
+    lateFeeType: "NONE",
+    lateFeeAmount: 0,
     status: "DRAFT",
     hasFormalDocument: false,
     landlordName: "",
@@ -107,6 +112,10 @@ const EditLease = () => {
           endDate: leaseData.endDate ? leaseData.endDate.split('T')[0] : "",
           rentAmount: leaseData.rentAmount,
           interval: leaseData.interval,
+          gracePeriodDays: leaseData.gracePeriodDays ?? 0,
+          lateFeeType: leaseData.lateFeeType ?? "NONE",
+          lateFeeAmount: leaseData.lateFeeAmount ?? 0,
+          lateFeeMaxAmount: leaseData.lateFeeMaxAmount ?? undefined,
           status: leaseData.status,
           hasFormalDocument: leaseData.hasFormalDocument,
           landlordName: leaseData.landlordName || "",
@@ -479,14 +488,84 @@ const EditLease = () => {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="gracePeriodDays">Grace Period (days)</Label>
+                  <Input
+                    id="gracePeriodDays"
+                    type="number"
+                    min="0"
+                    max="31"
+                    step="1"
+                    value={formData.gracePeriodDays}
+                    onChange={(e) => handleInputChange("gracePeriodDays", parseInt(e.target.value) || 0)}
+                    placeholder="0"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Payments made within this many days after the due date still count as on time
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="lateFeeType">Late Fee</Label>
+                  <Select value={formData.lateFeeType} onValueChange={(value: LateFeeType | "NONE") => handleInputChange("lateFeeType", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="NONE">No late fee</SelectItem>
+                      <SelectItem value="FLAT">Flat amount</SelectItem>
+                      <SelectItem value="PERCENT">Percent of rent</SelectItem>
+                      <SelectItem value="DAILY">Daily (with cap)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.lateFeeType && formData.lateFeeType !== "NONE" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="lateFeeAmount">
+                        {formData.lateFeeType === "PERCENT" ? "Percent of Rent (%) *" : formData.lateFeeType === "DAILY" ? "Amount per Day *" : "Amount *"}
+                      </Label>
+                      <Input
+                        id="lateFeeAmount"
+                        type="number"
+                        min="0"
+                        max={formData.lateFeeType === "PERCENT" ? "100" : undefined}
+                        step="0.01"
+                        value={formData.lateFeeAmount ?? ""}
+                        onChange={(e) => handleInputChange("lateFeeAmount", parseFloat(e.target.value) || 0)}
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+                    {formData.lateFeeType === "DAILY" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="lateFeeMaxAmount">Maximum per Installment</Label>
+                        <Input
+                          id="lateFeeMaxAmount"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.lateFeeMaxAmount ?? ""}
+                          onChange={(e) => handleInputChange("lateFeeMaxAmount", e.target.value ? parseFloat(e.target.value) : undefined)}
+                          placeholder="No cap"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="status">Lease Status *</Label>
-                  <Select value={formData.status} onValueChange={(value: "DRAFT" | "ACTIVE" | "EXPIRED" | "TERMINATED") => handleInputChange("status", value)}>
+                  <Select value={formData.status} onValueChange={(value: LeaseStatus) => handleInputChange("status", value)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="DRAFT">Draft</SelectItem>
+                      {lease?.status === "UPCOMING" && (
+                        <SelectItem value="UPCOMING">Upcoming (renewal)</SelectItem>
+                      )}
                       <SelectItem value="ACTIVE">Active</SelectItem>
                       <SelectItem value="EXPIRED">Expired</SelectItem>
                       <SelectItem value="TERMINATED">Terminated</SelectItem>
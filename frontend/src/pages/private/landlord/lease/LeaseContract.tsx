@@ -0,0 +1,174 @@
+import { useState, useEffect } from "react";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Download, Save, History } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  getLeaseDocumentRequest,
+  saveLeaseDocumentRequest,
+  generateLeasePDF,
+  type LeaseContractData,
+  type LeaseContractVersion,
+} from "@/api/landlordLeaseApi";
+import LeaseContractBuilder, { type LeaseContractStep } from "@/components/LeaseContractBuilder";
+import { downloadPDF } from "@/lib/pdfUtils";
+import { toast } from "sonner";
+
+const SECTIONS: LeaseContractStep[] = ["term", "rent", "parties", "policies", "condition", "homeGuide"];
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+
+const LeaseContract = () => {
+  const { leaseId } = useParams<{ leaseId: string }>();
+  const navigate = useNavigate();
+  const [contract, setContract] = useState<LeaseContractData>({});
+  const [versions, setVersions] = useState<LeaseContractVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!leaseId) return;
+
+    const controller = new AbortController();
+    const fetchContract = async () => {
+      setLoading(true);
+      try {
+        const { data } = await getLeaseDocumentRequest(leaseId, { signal: controller.signal });
+        setContract(data.document ?? data.draft ?? {});
+        setVersions(data.versions);
+      } catch (err) {
+        if ((err as { name?: string }).name !== "AbortError") {
+          console.error("Error fetching lease contract:", err);
+          toast.error("Failed to fetch lease contract");
+          navigate(`/landlord/leases/${leaseId}`);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchContract();
+    return () => controller.abort();
+  }, [leaseId, navigate, refreshKey]);
+
+  const currentVersion = versions[0] || null;
+
+  const handleSave = async () => {
+    if (!leaseId) return;
+
+    setSaving(true);
+    try {
+      const response = await saveLeaseDocumentRequest(leaseId, contract);
+      toast.success(response.data.message);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error saving lease contract:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to save lease contract");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!leaseId) return;
+
+    const loadingToast = toast.loading("Generating PDF...");
+    try {
+      const pdfBlob = await generateLeasePDF(leaseId);
+      downloadPDF(pdfBlob, `lease-contract-${contract.leaseNickname || leaseId}-v${currentVersion?.version ?? 0}.pdf`);
+      toast.dismiss(loadingToast);
+      toast.success("PDF generated successfully");
+    } catch (err) {
+      console.error("Error generating contract PDF:", err);
+      toast.dismiss(loadingToast);
+      toast.error("Failed to generate PDF");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/landlord/leases/${leaseId}`}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Lease
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Lease Contract</h1>
+            <p className="text-gray-600 mt-1">
+              {currentVersion
+                ? `Version ${currentVersion.version} · saved ${formatDateTime(currentVersion.generatedAt)}`
+                : "Not built yet - fields are prefilled from the lease"}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={!currentVersion}>
+            <Download className="h-4 w-4 mr-2" />
+            Contract PDF
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : `Save as Version ${(currentVersion?.version ?? 0) + 1}`}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {SECTIONS.map(section => (
+            <LeaseContractBuilder key={section} step={section} value={contract} onChange={setContract} />
+          ))}
+        </div>
+
+        {/* Version History */}
+        <div>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Versions
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {versions.length === 0 ? (
+                <p className="text-sm text-gray-500">Each save keeps the previous version for your records.</p>
+              ) : (
+                versions.map((version, index) => (
+                  <div key={version.id} className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-900">Version {version.version}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-500">{formatDateTime(version.generatedAt)}</span>
+                      {index === 0 && (
+                        <Badge variant="outline" className="text-xs bg-emerald-50 text-emerald-700 border-emerald-200">
+                          Current
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaseContract;
@@ -23,15 +23,46 @@ import {
   Eye,
   MoreHorizontal,
   Bell,
+  RefreshCw,
+  Send,
+  LogOut,
+  Plus,
+  X,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { 
   getLeaseDetailsRequest, 
   deleteLeaseRequest,
   generateLeasePDF,
-  type LeaseDetails 
+  createRenewalOfferRequest,
+  withdrawRenewalOfferRequest,
+  createLeaseTerminationRequest,
+  cancelLeaseTerminationRequest,
+  settleLeaseDepositRequest,
+  downloadFinalStatement,
+  type LeaseDetails,
+  type LeaseRenewalOffer,
+  type LeaseTermination
 } from "@/api/landlordLeaseApi";
 import { sendPaymentReminderRequest } from "@/api/landlordPaymentApi";
 import { downloadPDF, generateLeaseFilename } from "@/lib/pdfUtils";
@@ -44,6 +75,28 @@ const LeaseDetails = () => {
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState(false);
   const [sendingReminder, setSendingReminder] = useState(false);
+  const [renewalDialogOpen, setRenewalDialogOpen] = useState(false);
+  const [sendingOffer, setSendingOffer] = useState(false);
+  const [withdrawingOffer, setWithdrawingOffer] = useState(false);
+  const [renewalForm, setRenewalForm] = useState({
+    startDate: "",
+    endDate: "",
+    rentAmount: "",
+    interval: "MONTHLY" as LeaseDetails["interval"],
+    message: "",
+    expiresAt: "",
+  });
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [terminationDialogOpen, setTerminationDialogOpen] = useState(false);
+  const [settleDialogOpen, setSettleDialogOpen] = useState(false);
+  const [savingTermination, setSavingTermination] = useState(false);
+  const [terminationForm, setTerminationForm] = useState({
+    noticeDate: "",
+    moveOutDate: "",
+    reason: "",
+  });
+  const [depositHeld, setDepositHeld] = useState("");
+  const [deductions, setDeductions] = useState<Array<{ description: string; amount: string }>>([]);
 
   useEffect(() => {
     if (!leaseId) return;
@@ -67,7 +120,7 @@ const LeaseDetails = () => {
 
     fetchLeaseDetails();
     return () => controller.abort();
-  }, [leaseId, navigate]);
+  }, [leaseId, navigate, refreshKey]);
 
   const handleDelete = async () => {
     if (!lease || !leaseId) return;
@@ -134,12 +187,232 @@ const LeaseDetails = () => {
     }
   };
 
+  const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+  // Prefill the next term: starts the day after this one ends and keeps the same length
+  const openRenewalDialog = () => {
+    if (!lease) return;
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const currentEnd = lease.endDate ? new Date(lease.endDate) : new Date();
+    const nextStart = new Date(currentEnd.getTime() + DAY_MS);
+    const termMs = lease.endDate
+      ? new Date(lease.endDate).getTime() - new Date(lease.startDate).getTime()
+      : 365 * DAY_MS;
+
+    setRenewalForm({
+      startDate: toDateInput(nextStart),
+      endDate: toDateInput(new Date(nextStart.getTime() + termMs)),
+      rentAmount: String(lease.rentAmount),
+      interval: lease.interval,
+      message: "",
+      expiresAt: "",
+    });
+    setRenewalDialogOpen(true);
+  };
+
+  const handleSendRenewalOffer = async () => {
+    if (!lease || !leaseId) return;
+
+    if (!renewalForm.startDate || !renewalForm.endDate || !renewalForm.rentAmount) {
+      toast.error("Please fill in the new term and rent");
+      return;
+    }
+
+    setSendingOffer(true);
+    try {
+      const response = await createRenewalOfferRequest(leaseId, {
+        startDate: renewalForm.startDate,
+        endDate: renewalForm.endDate,
+        rentAmount: Number(renewalForm.rentAmount),
+        interval: renewalForm.interval,
+        message: renewalForm.message || undefined,
+        expiresAt: renewalForm.expiresAt ? `${renewalForm.expiresAt}T23:59:59` : undefined,
+      });
+      setLease(prev => prev && { ...prev, renewalOffers: [response.data.offer, ...prev.renewalOffers] });
+      setRenewalDialogOpen(false);
+      toast.success(`Renewal offer sent to ${lease.tenant.fullName}`);
+    } catch (err) {
+      console.error("Error sending renewal offer:", err);
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to send renewal offer");
+    } finally {
+      setSendingOffer(false);
+    }
+  };
+
+  const handleWithdrawRenewalOffer = async (offer: LeaseRenewalOffer) => {
+    const confirmed = window.confirm("Withdraw this renewal offer? The tenant will no longer be able to accept it.");
+    if (!confirmed) return;
+
+    setWithdrawingOffer(true);
+    try {
+      const response = await withdrawRenewalOfferRequest(offer.id);
+      setLease(prev => prev && {
+        ...prev,
+        renewalOffers: prev.renewalOffers.map(o => o.id === offer.id ? response.data.offer : o),
+      });
+      toast.success("Renewal offer withdrawn");
+    } catch (err) {
+      console.error("Error withdrawing renewal offer:", err);
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to withdraw renewal offer");
+    } finally {
+      setWithdrawingOffer(false);
+    }
+  };
+
+  const getErrorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+
+  const openTerminationDialog = () => {
+    setTerminationForm({
+      noticeDate: toDateInput(new Date()),
+      moveOutDate: lease?.endDate ? toDateInput(new Date(lease.endDate)) : "",
+      reason: "",
+    });
+    setTerminationDialogOpen(true);
+  };
+
+  const handleCreateTermination = async () => {
+    if (!leaseId) return;
+
+    if (!terminationForm.noticeDate || !terminationForm.moveOutDate) {
+      toast.error("Please set the notice and move-out dates");
+      return;
+    }
+
+    setSavingTermination(true);
+    try {
+      const response = await createLeaseTerminationRequest(leaseId, {
+        noticeDate: terminationForm.noticeDate,
+        moveOutDate: terminationForm.moveOutDate,
+        reason: terminationForm.reason || undefined,
+      });
+      toast.success(response.data.message);
+      setTerminationDialogOpen(false);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error terminating lease:", err);
+      toast.error(getErrorMessage(err) || "Failed to terminate lease");
+    } finally {
+      setSavingTermination(false);
+    }
+  };
+
+  const handleCancelTermination = async () => {
+    if (!leaseId) return;
+
+    const confirmed = window.confirm("Cancel this termination notice? The lease will keep its original end date.");
+    if (!confirmed) return;
+
+    setSavingTermination(true);
+    try {
+      await cancelLeaseTerminationRequest(leaseId);
+      toast.success("Termination notice cancelled");
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error cancelling termination:", err);
+      toast.error(getErrorMessage(err) || "Failed to cancel termination notice");
+    } finally {
+      setSavingTermination(false);
+    }
+  };
+
+  const openSettleDialog = () => {
+    if (!lease) return;
+    setDepositHeld(String(lease.unit.securityDeposit ?? 0));
+    setDeductions([]);
+    setSettleDialogOpen(true);
+  };
+
+  const updateDeduction = (index: number, field: "description" | "amount", value: string) => {
+    setDeductions(prev => prev.map((item, i) => i === index ? { ...item, [field]: value } : item));
+  };
+
+  const totalDeductions = deductions.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+  const refundAmount = (Number(depositHeld) || 0) - totalDeductions;
+
+  const handleSettleDeposit = async () => {
+    if (!leaseId) return;
+
+    if (deductions.some(item => !item.description.trim() || !(Number(item.amount) > 0))) {
+      toast.error("Each deduction needs a description and an amount");
+      return;
+    }
+
+    if (refundAmount < 0) {
+      toast.error("Deductions cannot exceed the deposit held");
+      return;
+    }
+
+    setSavingTermination(true);
+    try {
+      await settleLeaseDepositRequest(leaseId, {
+        depositHeld: Number(depositHeld) || 0,
+        deductions: deductions.map(item => ({ description: item.description.trim(), amount: Number(item.amount) })),
+      });
+      toast.success("Security deposit settled");
+      setSettleDialogOpen(false);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error settling deposit:", err);
+      toast.error(getErrorMessage(err) || "Failed to settle security deposit");
+    } finally {
+      setSavingTermination(false);
+    }
+  };
+
+  const handleDownloadFinalStatement = async () => {
+    if (!lease || !leaseId) return;
+
+    const loadingToast = toast.loading("Generating final statement...");
+    try {
+      const pdfBlob = await downloadFinalStatement(leaseId);
+      downloadPDF(pdfBlob, `final-statement-${lease.leaseNickname || leaseId}.pdf`);
+      toast.dismiss(loadingToast);
+      toast.success("Final statement downloaded");
+    } catch (err) {
+      console.error("Error downloading final statement:", err);
+      toast.dismiss(loadingToast);
+      toast.error("Failed to download final statement");
+    }
+  };
+
+  const getTerminationStatusText = (status: LeaseTermination["status"]) => {
+    switch (status) {
+      case "NOTICE":
+        return "Notice given";
+      case "MOVED_OUT":
+        return "Moved out";
+      case "SETTLED":
+        return "Deposit settled";
+      default:
+        return status;
+    }
+  };
+
+  const getOfferStatusColor = (status: LeaseRenewalOffer["status"]) => {
+    switch (status) {
+      case "PENDING":
+        return "bg-blue-100 text-blue-800 border-blue-200";
+      case "ACCEPTED":
+        return "bg-green-100 text-green-800 border-green-200";
+      case "DECLINED":
+        return "bg-red-100 text-red-800 border-red-200";
+      default:
+        return "bg-gray-100 text-gray-800 border-gray-200";
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "ACTIVE":
         return "bg-green-100 text-green-800 border-green-200";
       case "DRAFT":
         return "bg-yellow-100 text-yellow-800 border-yellow-200";
+      case "UPCOMING":
+        return "bg-blue-100 text-blue-800 border-blue-200";
       case "EXPIRED":
         return "bg-red-100 text-red-800 border-red-200";
       case "TERMINATED":
@@ -154,6 +427,7 @@ const LeaseDetails = () => {
       case "ACTIVE":
         return <CheckCircle className="h-4 w-4" />;
       case "DRAFT":
+      case "UPCOMING":
         return <Clock className="h-4 w-4" />;
       case "EXPIRED":
         return <XCircle className="h-4 w-4" />;
@@ -180,6 +454,21 @@ const LeaseDetails = () => {
     });
   };
 
+  const getLateFeeText = () => {
+    if (!lease?.lateFeeType || !lease.lateFeeAmount) return "None";
+    switch (lease.lateFeeType) {
+      case "FLAT":
+        return `${formatCurrency(lease.lateFeeAmount)} once late`;
+      case "PERCENT":
+        return `${lease.lateFeeAmount}% of the installment once late`;
+      case "DAILY":
+        return `${formatCurrency(lease.lateFeeAmount)} per day late` +
+          (lease.lateFeeMaxAmount ? ` (max ${formatCurrency(lease.lateFeeMaxAmount)})` : "");
+      default:
+        return "None";
+    }
+  };
+
   const getIntervalText = (interval: string) => {
     switch (interval) {
       case "DAILY":
@@ -193,6 +482,10 @@ const LeaseDetails = () => {
     }
   };
 
+  const pendingOffer = lease?.renewalOffers.find(offer => offer.status === "PENDING") || null;
+  const lastOffer = lease?.renewalOffers[0] || null;
+  const canOfferRenewal = lease?.status === "ACTIVE" && !lease.renewedBy && !pendingOffer && !lease.termination;
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -286,12 +579,29 @@ const LeaseDetails = () => {
             <Download className="h-4 w-4 mr-2" />
             Generate PDF
           </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/landlord/leases/${lease.id}/contract`}>
+              <FileText className="h-4 w-4 mr-2" />
+              {lease.contract ? `Contract v${lease.contract.version}` : "Build Contract"}
+            </Link>
+          </Button>
           <Button variant="outline" size="sm" asChild>
             <Link to={`/landlord/leases/${lease.id}/edit`}>
               <Edit className="h-4 w-4 mr-2" />
               Edit Lease
             </Link>
           </Button>
+          {lease.status === "ACTIVE" && !lease.termination && !lease.renewedBy && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={openTerminationDialog}
+              className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Terminate
+            </Button>
+          )}
           <Button 
             variant="outline" 
             size="sm" 
@@ -328,6 +638,16 @@ const LeaseDetails = () => {
                     {formatCurrency(lease.rentAmount)} {getIntervalText(lease.interval)}
                   </p>
                 </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Grace Period</label>
+                  <p className="text-gray-900">
+                    {lease.gracePeriodDays > 0 ? `${lease.gracePeriodDays} day${lease.gracePeriodDays === 1 ? "" : "s"} after due date` : "None"}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Late Fee</label>
+                  <p className="text-gray-900">{getLateFeeText()}</p>
+                </div>
                 <div>
                   <label className="text-sm font-medium text-gray-600">Start Date</label>
                   <p className="text-gray-900">{formatDate(lease.startDate)}</p>
@@ -425,6 +745,42 @@ const LeaseDetails = () => {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Current Balance */}
+          <Card className={lease.balance.amountDueNow > 0 ? "border-red-200" : "border-green-200"}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Current Balance
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600">Amount due now</p>
+              <p className={`text-3xl font-bold ${lease.balance.amountDueNow > 0 ? "text-red-600" : "text-green-600"}`}>
+                {formatCurrency(lease.balance.amountDueNow)}
+              </p>
+              {lease.balance.credit > 0 && (
+                <p className="text-sm text-green-700">
+                  {formatCurrency(lease.balance.credit)} credit carried forward
+                </p>
+              )}
+              {lease.balance.nextDue && (
+                <p className="text-sm text-gray-600">
+                  Next due {formatDate(lease.balance.nextDue.dueDate)}: {formatCurrency(lease.balance.nextDue.amount)}
+                </p>
+              )}
+              <div className="border-t pt-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Charged to date</span>
+                  <span className="text-gray-900">{formatCurrency(lease.balance.totalCharged)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Paid to date</span>
+                  <span className="text-gray-900">{formatCurrency(lease.balance.totalPaid)}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Payment Statistics */}
           <Card>
             <CardHeader>
@@ -545,6 +901,159 @@ const LeaseDetails = () => {
             </CardContent>
           </Card>
 
+          {/* Move-out & Deposit */}
+          {lease.termination && (
+            <Card className="border-orange-200">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <LogOut className="h-5 w-5" />
+                  Move-out & Deposit
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Status</span>
+                  <Badge variant="outline" className="text-xs bg-orange-100 text-orange-800 border-orange-200">
+                    {getTerminationStatusText(lease.termination.status)}
+                  </Badge>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Notice Date</span>
+                  <span className="text-sm text-gray-900">{formatDate(lease.termination.noticeDate)}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Move-out Date</span>
+                  <span className="text-sm text-gray-900">{formatDate(lease.termination.moveOutDate)}</span>
+                </div>
+                {lease.termination.reason && (
+                  <p className="text-sm text-gray-900 p-2 bg-gray-50 rounded">{lease.termination.reason}</p>
+                )}
+
+                {lease.termination.status === "SETTLED" && (
+                  <div className="pt-3 border-t border-gray-200 space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Deposit held</span>
+                      <span className="text-gray-900">{formatCurrency(lease.termination.depositHeld || 0)}</span>
+                    </div>
+                    {lease.termination.deductions?.map(item => (
+                      <div key={item.id} className="flex justify-between">
+                        <span className="text-gray-600">{item.description}</span>
+                        <span className="text-red-600">- {formatCurrency(item.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-gray-900">Refund to tenant</span>
+                      <span className="text-green-600">{formatCurrency(lease.termination.refundAmount || 0)}</span>
+                    </div>
+                  </div>
+                )}
+
+                {lease.termination.status === "NOTICE" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={handleCancelTermination}
+                    disabled={savingTermination}
+                  >
+                    Cancel Notice
+                  </Button>
+                )}
+                {lease.termination.status !== "SETTLED" &&
+                  new Date(lease.termination.moveOutDate) <= new Date() && (
+                  <Button size="sm" className="w-full" onClick={openSettleDialog}>
+                    <DollarSign className="h-4 w-4 mr-2" />
+                    Settle Deposit
+                  </Button>
+                )}
+                {lease.termination.status === "SETTLED" && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={handleDownloadFinalStatement}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Final Statement
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Lease Renewal */}
+          {(canOfferRenewal || lease.previousLease || lease.renewedBy || lastOffer) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <RefreshCw className="h-5 w-5" />
+                  Lease Renewal
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {lease.previousLease && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-600">Renews</span>
+                    <Link to={`/landlord/leases/${lease.previousLease.id}`} className="text-blue-600 hover:underline">
+                      {formatDate(lease.previousLease.startDate)}
+                      {lease.previousLease.endDate && ` – ${formatDate(lease.previousLease.endDate)}`}
+                    </Link>
+                  </div>
+                )}
+
+                {lease.renewedBy && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-600">Renewed by</span>
+                    <Link to={`/landlord/leases/${lease.renewedBy.id}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+                      {formatDate(lease.renewedBy.startDate)}
+                      <Badge variant="outline" className={`text-xs ${getStatusColor(lease.renewedBy.status)}`}>
+                        {lease.renewedBy.status}
+                      </Badge>
+                    </Link>
+                  </div>
+                )}
+
+                {lastOffer && (
+                  <div className="p-3 bg-gray-50 rounded-lg space-y-2 text-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-gray-900">
+                        {pendingOffer ? "Offer awaiting tenant" : "Latest offer"}
+                      </span>
+                      <Badge variant="outline" className={`text-xs ${getOfferStatusColor(lastOffer.status)}`}>
+                        {lastOffer.status}
+                      </Badge>
+                    </div>
+                    <p className="text-gray-600">
+                      {formatDate(lastOffer.startDate)} – {formatDate(lastOffer.endDate)}
+                    </p>
+                    <p className="text-gray-900">
+                      {formatCurrency(lastOffer.rentAmount)} {getIntervalText(lastOffer.interval)}
+                    </p>
+                    {lastOffer.status === "PENDING" && lastOffer.expiresAt && (
+                      <p className="text-xs text-gray-500">Respond by {formatDate(lastOffer.expiresAt)}</p>
+                    )}
+                    {lastOffer.declineReason && (
+                      <p className="text-xs text-gray-500">Reason: {lastOffer.declineReason}</p>
+                    )}
+                    {pendingOffer && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => handleWithdrawRenewalOffer(pendingOffer)}
+                        disabled={withdrawingOffer}
+                      >
+                        {withdrawingOffer ? "Withdrawing..." : "Withdraw Offer"}
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {canOfferRenewal && (
+                  <Button className="w-full" onClick={openRenewalDialog}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Send Renewal Offer
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Document Information */}
           {lease.hasFormalDocument && (
             <Card>
@@ -643,6 +1152,273 @@ const LeaseDetails = () => {
           )}
         </div>
       </div>
+
+      {/* Termination Dialog */}
+      <Dialog open={terminationDialogOpen} onOpenChange={setTerminationDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <LogOut className="h-5 w-5" />
+              Terminate Lease
+            </DialogTitle>
+            <DialogDescription>
+              The lease ends on the move-out date and the unit becomes available again automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="noticeDate">Notice Date</Label>
+                <Input
+                  id="noticeDate"
+                  type="date"
+                  value={terminationForm.noticeDate}
+                  onChange={(e) => setTerminationForm(prev => ({ ...prev, noticeDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="moveOutDate">Move-out Date</Label>
+                <Input
+                  id="moveOutDate"
+                  type="date"
+                  value={terminationForm.moveOutDate}
+                  max={lease?.endDate ? toDateInput(new Date(lease.endDate)) : undefined}
+                  onChange={(e) => setTerminationForm(prev => ({ ...prev, moveOutDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="terminationReason">Reason (optional)</Label>
+              <Textarea
+                id="terminationReason"
+                rows={3}
+                placeholder="e.g. Tenant relocating for work"
+                value={terminationForm.reason}
+                onChange={(e) => setTerminationForm(prev => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTerminationDialogOpen(false)} disabled={savingTermination}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateTermination} disabled={savingTermination}>
+              {savingTermination ? "Saving..." : "Give Notice"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deposit Settlement Dialog */}
+      <Dialog open={settleDialogOpen} onOpenChange={setSettleDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Settle Security Deposit
+            </DialogTitle>
+            <DialogDescription>
+              Itemize what you keep from the deposit. Deductions are recorded as income for this unit.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="depositHeld">Deposit Held</Label>
+              <Input
+                id="depositHeld"
+                type="number"
+                min="0"
+                value={depositHeld}
+                onChange={(e) => setDepositHeld(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Deductions</Label>
+              {deductions.length === 0 && (
+                <p className="text-sm text-gray-500">No deductions, the full deposit is refunded.</p>
+              )}
+              {deductions.map((item, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="Description"
+                    value={item.description}
+                    onChange={(e) => updateDeduction(index, "description", e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Amount"
+                    className="w-32"
+                    value={item.amount}
+                    onChange={(e) => updateDeduction(index, "amount", e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeductions(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDeductions(prev => [...prev, { description: "", amount: "" }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Deduction
+                </Button>
+                {lease.balance.amountDueNow > 0 && !deductions.some(item => item.description === "Unpaid rent") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeductions(prev => [
+                      ...prev,
+                      { description: "Unpaid rent", amount: String(lease.balance.amountDueNow) },
+                    ])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Unpaid Rent ({formatCurrency(lease.balance.amountDueNow)})
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="border-t pt-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total deductions</span>
+                <span className="text-gray-900">{formatCurrency(totalDeductions)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span className="text-gray-900">Refund to tenant</span>
+                <span className={refundAmount < 0 ? "text-red-600" : "text-green-600"}>
+                  {formatCurrency(refundAmount)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettleDialogOpen(false)} disabled={savingTermination}>
+              Cancel
+            </Button>
+            <Button onClick={handleSettleDeposit} disabled={savingTermination}>
+              {savingTermination ? "Saving..." : "Settle Deposit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Renewal Offer Dialog */}
+      <Dialog open={renewalDialogOpen} onOpenChange={setRenewalDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <RefreshCw className="h-5 w-5" />
+              Send Renewal Offer
+            </DialogTitle>
+            <DialogDescription>
+              Propose a new term to {lease.tenant.fullName}. Accepting creates a new lease that continues this one.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="renewalStart">New Start Date</Label>
+                <Input
+                  id="renewalStart"
+                  type="date"
+                  value={renewalForm.startDate}
+                  onChange={(e) => setRenewalForm(prev => ({ ...prev, startDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="renewalEnd">New End Date</Label>
+                <Input
+                  id="renewalEnd"
+                  type="date"
+                  value={renewalForm.endDate}
+                  onChange={(e) => setRenewalForm(prev => ({ ...prev, endDate: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="renewalRent">Rent Amount</Label>
+                <Input
+                  id="renewalRent"
+                  type="number"
+                  min="0"
+                  value={renewalForm.rentAmount}
+                  onChange={(e) => setRenewalForm(prev => ({ ...prev, rentAmount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Payment Interval</Label>
+                <Select
+                  value={renewalForm.interval}
+                  onValueChange={(value: LeaseDetails["interval"]) => setRenewalForm(prev => ({ ...prev, interval: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DAILY">Daily</SelectItem>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {Number(renewalForm.rentAmount) > 0 && Number(renewalForm.rentAmount) !== lease.rentAmount && (
+              <p className="text-xs text-gray-500">
+                Current rent is {formatCurrency(lease.rentAmount)} {getIntervalText(lease.interval)}
+                {" "}({Number(renewalForm.rentAmount) > lease.rentAmount ? "+" : ""}
+                {Math.round(((Number(renewalForm.rentAmount) - lease.rentAmount) / lease.rentAmount) * 100)}%)
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="renewalExpires">Respond By (optional)</Label>
+              <Input
+                id="renewalExpires"
+                type="date"
+                value={renewalForm.expiresAt}
+                onChange={(e) => setRenewalForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="renewalMessage">Message (optional)</Label>
+              <Textarea
+                id="renewalMessage"
+                rows={3}
+                placeholder="Add a note for the tenant..."
+                value={renewalForm.message}
+                onChange={(e) => setRenewalForm(prev => ({ ...prev, message: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenewalDialogOpen(false)} disabled={sendingOffer}>
+              Cancel
+            </Button>
+            <Button onClick={handleSendRenewalOffer} disabled={sendingOffer}>
+              {sendingOffer ? "Sending..." : "Send Offer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -18,19 +18,60 @@ import {
   Camera,
   Settings,
   MoreHorizontal,
+  MessageSquare,
+  HardHat,
+  Plus,
+  Save,
+  CalendarClock,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { 
   getMaintenanceRequestDetailsRequest, 
   updateMaintenanceRequestStatusRequest,
+  getMaintenanceTimelineRequest,
+  addMaintenanceCommentRequest,
+  updateMaintenanceWorkOrderRequest,
   deleteMaintenanceRequestRequest,
-  type MaintenanceRequestDetails 
+  getContractorsRequest,
+  createContractorRequest,
+  type Contractor,
+  type CreateContractorData,
+  type MaintenanceCategory,
+  type MaintenancePriority,
+  type MaintenanceRequestDetails,
+  type MaintenanceTimelineEntry 
 } from "@/api/landlordMaintenanceApi";
+import MaintenanceTimeline from "@/components/MaintenanceTimeline";
+import MaintenanceCosts from "@/components/MaintenanceCosts";
+import MaintenanceAttachmentGallery from "@/components/MaintenanceAttachmentGallery";
 import { toast } from "sonner";
 
+const PRIORITY_OPTIONS: { value: MaintenancePriority; label: string; sla: string }[] = [
+  { value: "EMERGENCY", label: "Emergency", sla: "respond 4h · resolve 24h" },
+  { value: "HIGH", label: "High", sla: "respond 24h · resolve 3 days" },
+  { value: "MEDIUM", label: "Medium", sla: "respond 48h · resolve 7 days" },
+  { value: "LOW", label: "Low", sla: "respond 72h · resolve 14 days" },
+];
+
+const CATEGORY_OPTIONS: MaintenanceCategory[] = ["PLUMBING", "ELECTRICAL", "APPLIANCE", "HVAC", "STRUCTURAL", "PEST", "GENERAL"];
+
+// ISO timestamp -> value for a datetime-local input (local time, minute precision)
+const toDateTimeInput = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
 const MaintenanceDetails = () => {
   const { requestId } = useParams<{ requestId: string }>();
   const navigate = useNavigate();
@@ -39,6 +80,22 @@ const MaintenanceDetails = () => {
   const [updating, setUpdating] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [newStatus, setNewStatus] = useState<string>("");
+  const [statusNotes, setStatusNotes] = useState("");
+  const [timeline, setTimeline] = useState<MaintenanceTimelineEntry[]>([]);
+  const [timelineLoading, setTimelineLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [workOrder, setWorkOrder] = useState({
+    priority: "MEDIUM" as MaintenancePriority,
+    category: "GENERAL" as MaintenanceCategory,
+    contractorId: "none",
+    scheduledStart: "",
+    scheduledEnd: "",
+  });
+  const [savingWorkOrder, setSavingWorkOrder] = useState(false);
+  const [contractorDialogOpen, setContractorDialogOpen] = useState(false);
+  const [newContractor, setNewContractor] = useState<CreateContractorData>({ name: "" });
+  const [addingContractor, setAddingContractor] = useState(false);
 
   useEffect(() => {
     if (!requestId) return;
@@ -50,6 +107,13 @@ const MaintenanceDetails = () => {
         const response = await getMaintenanceRequestDetailsRequest(requestId, { signal: controller.signal });
         setRequest(response.data);
         setNewStatus(response.data.status);
+        setWorkOrder({
+          priority: response.data.priority,
+          category: response.data.category,
+          contractorId: response.data.contractor?.id ?? "none",
+          scheduledStart: toDateTimeInput(response.data.scheduledStart),
+          scheduledEnd: toDateTimeInput(response.data.scheduledEnd),
+        });
       } catch (err: any) {
         if (err.name !== "AbortError") {
           console.error("Error fetching maintenance request details:", err);
@@ -63,18 +127,59 @@ const MaintenanceDetails = () => {
 
     fetchRequestDetails();
     return () => controller.abort();
-  }, [requestId, navigate]);
+  }, [requestId, navigate, refreshKey]);
+
+  useEffect(() => {
+    if (!requestId) return;
+
+    const controller = new AbortController();
+    const fetchTimeline = async () => {
+      try {
+        const response = await getMaintenanceTimelineRequest(requestId, { signal: controller.signal });
+        setTimeline(response.data);
+      } catch (err) {
+        if ((err as { name?: string }).name !== "AbortError") {
+          console.error("Error fetching maintenance timeline:", err);
+        }
+      } finally {
+        setTimelineLoading(false);
+      }
+    };
+
+    fetchTimeline();
+    return () => controller.abort();
+  }, [requestId, refreshKey]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchContractors = async () => {
+      try {
+        const response = await getContractorsRequest({ signal: controller.signal });
+        setContractors(response.data);
+      } catch (err) {
+        if ((err as { name?: string }).name !== "AbortError") {
+          console.error("Error fetching contractors:", err);
+        }
+      }
+    };
+
+    fetchContractors();
+    return () => controller.abort();
+  }, []);
 
   const handleStatusUpdate = async () => {
     if (!request || !requestId || newStatus === request.status) return;
 
     setUpdating(true);
     try {
-      await updateMaintenanceRequestStatusRequest(requestId, { status: newStatus as any });
+      await updateMaintenanceRequestStatusRequest(requestId, {
+        status: newStatus as any,
+        notes: statusNotes.trim() || undefined,
+      });
       toast.success("Maintenance request status updated successfully");
+      setStatusNotes("");
       // Refresh the request data
-      const response = await getMaintenanceRequestDetailsRequest(requestId);
-      setRequest(response.data);
+      setRefreshKey(key => key + 1);
     } catch (err: any) {
       console.error("Error updating maintenance request status:", err);
       toast.error(err.response?.data?.message || "Failed to update status");
@@ -83,6 +188,53 @@ const MaintenanceDetails = () => {
     }
   };
 
+  const handleAddComment = async (data: FormData) => {
+    if (!requestId) return;
+    await addMaintenanceCommentRequest(requestId, data);
+    const response = await getMaintenanceTimelineRequest(requestId);
+    setTimeline(response.data);
+  };
+
+  const handleWorkOrderSave = async () => {
+    if (!requestId) return;
+
+    setSavingWorkOrder(true);
+    try {
+      await updateMaintenanceWorkOrderRequest(requestId, {
+        priority: workOrder.priority,
+        category: workOrder.category,
+        contractorId: workOrder.contractorId === "none" ? null : workOrder.contractorId,
+        scheduledStart: workOrder.scheduledStart ? new Date(workOrder.scheduledStart).toISOString() : null,
+        scheduledEnd: workOrder.scheduledEnd ? new Date(workOrder.scheduledEnd).toISOString() : null,
+      });
+      toast.success("Work order updated successfully");
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error updating work order:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to update work order");
+    } finally {
+      setSavingWorkOrder(false);
+    }
+  };
+
+  const handleAddContractor = async () => {
+    setAddingContractor(true);
+    try {
+      const response = await createContractorRequest(newContractor);
+      const contractor = response.data.contractor;
+      setContractors(prev => [...prev, contractor].sort((a, b) => a.name.localeCompare(b.name)));
+      setWorkOrder(prev => ({ ...prev, contractorId: contractor.id }));
+      setNewContractor({ name: "" });
+      setContractorDialogOpen(false);
+      toast.success(response.data.message);
+    } catch (err) {
+      console.error("Error adding contractor:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to add contractor");
+    } finally {
+      setAddingContractor(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!request || !requestId) return;
 
@@ -133,6 +285,8 @@ const MaintenanceDetails = () => {
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
+      case "EMERGENCY":
+        return "bg-red-600 text-white border-red-700";
       case "HIGH":
         return "bg-red-100 text-red-800 border-red-200";
       case "MEDIUM":
@@ -144,6 +298,19 @@ const MaintenanceDetails = () => {
     }
   };
 
+  const getSlaColor = (state: string) => {
+    switch (state) {
+      case "BREACHED":
+        return "bg-red-100 text-red-800 border-red-200";
+      case "AT_RISK":
+        return "bg-orange-100 text-orange-800 border-orange-200";
+      case "MET":
+        return "bg-green-100 text-green-800 border-green-200";
+      default:
+        return "bg-sky-100 text-sky-800 border-sky-200";
+    }
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -220,10 +387,18 @@ const MaintenanceDetails = () => {
               <Badge variant="outline" className={`text-xs ${getPriorityColor(request.priority)}`}>
                 {request.priority} Priority
               </Badge>
-              {request.daysOpen >= 7 && request.status === "OPEN" && (
+              {request.scheduleId && (
+                <Badge variant="outline" className="text-xs bg-teal-50 text-teal-700 border-teal-200">
+                  <Link to="/landlord/maintenance/schedules" className="flex items-center">
+                    <CalendarClock className="h-3 w-3 mr-1" />
+                    Preventive
+                  </Link>
+                </Badge>
+              )}
+              {request.status !== "RESOLVED" && request.sla.state === "BREACHED" && (
                 <Badge variant="outline" className="text-xs bg-red-100 text-red-800 border-red-200">
                   <AlertTriangle className="h-3 w-3 mr-1" />
-                  Urgent
+                  SLA Breached
                 </Badge>
               )}
             </div>
@@ -260,21 +435,234 @@ const MaintenanceDetails = () => {
                 <p className="text-gray-900 mt-1 p-3 bg-gray-50 rounded-lg">{request.description}</p>
               </div>
               
-              {request.photoUrl && (
+              {(request.attachments.length > 0 || request.photoUrl) && (
                 <div>
-                  <label className="text-sm font-medium text-gray-600">Photo</label>
+                  <label className="text-sm font-medium text-gray-600">
+                    Attachments {request.attachments.length > 1 && `(${request.attachments.length})`}
+                  </label>
                   <div className="mt-2">
-                    <img
-                      src={`http://localhost:5000${request.photoUrl}`}
-                      alt="Maintenance request photo"
-                      className="w-full max-w-md h-64 object-cover rounded-lg border border-gray-200"
-                    />
+                    <MaintenanceAttachmentGallery attachments={request.attachments} fallbackPhotoUrl={request.photoUrl} />
                   </div>
                 </div>
               )}
             </CardContent>
           </Card>
 
+          {/* Work Order */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HardHat className="h-5 w-5" />
+                Work Order
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select
+                    value={workOrder.priority}
+                    onValueChange={(value) => setWorkOrder(prev => ({ ...prev, priority: value as MaintenancePriority }))}
+                    disabled={request.status === "RESOLVED"}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRIORITY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label} <span className="text-xs text-gray-500">({option.sla})</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={workOrder.category}
+                    onValueChange={(value) => setWorkOrder(prev => ({ ...prev, category: value as MaintenanceCategory }))}
+                    disabled={request.status === "RESOLVED"}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORY_OPTIONS.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Assigned Contractor</Label>
+                  <Dialog open={contractorDialogOpen} onOpenChange={setContractorDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-7 text-emerald-600" disabled={request.status === "RESOLVED"}>
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add contractor
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Add Contractor</DialogTitle>
+                      </DialogHeader>
+                      <div className="space-y-3">
+                        <div className="space-y-1">
+                          <Label htmlFor="contractor-name">Name</Label>
+                          <Input
+                            id="contractor-name"
+                            value={newContractor.name}
+                            onChange={(e) => setNewContractor(prev => ({ ...prev, name: e.target.value }))}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="contractor-company">Company (optional)</Label>
+                          <Input
+                            id="contractor-company"
+                            value={newContractor.company ?? ""}
+                            onChange={(e) => setNewContractor(prev => ({ ...prev, company: e.target.value }))}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label>Specialty (optional)</Label>
+                          <Select
+                            value={newContractor.specialty ?? ""}
+                            onValueChange={(value) => setNewContractor(prev => ({ ...prev, specialty: value as MaintenanceCategory }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a specialty" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CATEGORY_OPTIONS.map(category => (
+                                <SelectItem key={category} value={category}>{category}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label htmlFor="contractor-phone">Phone</Label>
+                            <Input
+                              id="contractor-phone"
+                              value={newContractor.phone ?? ""}
+                              onChange={(e) => setNewContractor(prev => ({ ...prev, phone: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="contractor-email">Email</Label>
+                            <Input
+                              id="contractor-email"
+                              type="email"
+                              value={newContractor.email ?? ""}
+                              onChange={(e) => setNewContractor(prev => ({ ...prev, email: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                        <Button className="w-full" onClick={handleAddContractor} disabled={addingContractor || !newContractor.name.trim()}>
+                          {addingContractor ? "Adding..." : "Add Contractor"}
+                        </Button>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                </div>
+                <Select
+                  value={workOrder.contractorId}
+                  onValueChange={(value) => setWorkOrder(prev => ({ ...prev, contractorId: value }))}
+                  disabled={request.status === "RESOLVED"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {contractors.map(contractor => (
+                      <SelectItem key={contractor.id} value={contractor.id}>
+                        {contractor.name}
+                        {contractor.company ? ` · ${contractor.company}` : ""}
+                        {contractor.openWorkOrders ? ` (${contractor.openWorkOrders} open)` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {request.contractor && (
+                  <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                    {request.contractor.phone && (
+                      <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{request.contractor.phone}</span>
+                    )}
+                    {request.contractor.email && (
+                      <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{request.contractor.email}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="visit-start">Visit Window Start</Label>
+                  <Input
+                    id="visit-start"
+                    type="datetime-local"
+                    value={workOrder.scheduledStart}
+                    onChange={(e) => setWorkOrder(prev => ({ ...prev, scheduledStart: e.target.value }))}
+                    disabled={request.status === "RESOLVED"}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="visit-end">Visit Window End</Label>
+                  <Input
+                    id="visit-end"
+                    type="datetime-local"
+                    value={workOrder.scheduledEnd}
+                    min={workOrder.scheduledStart || undefined}
+                    onChange={(e) => setWorkOrder(prev => ({ ...prev, scheduledEnd: e.target.value }))}
+                    disabled={request.status === "RESOLVED"}
+                  />
+                </div>
+              </div>
+
+              {request.status !== "RESOLVED" && (
+                <div className="flex justify-end">
+                  <Button onClick={handleWorkOrderSave} disabled={savingWorkOrder}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {savingWorkOrder ? "Saving..." : "Save Work Order"}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Costs */}
+          <MaintenanceCosts
+            requestId={request.id}
+            costs={request.costs}
+            totalCost={request.totalCost}
+            closing={newStatus === "RESOLVED" && request.status !== "RESOLVED"}
+            onChange={() => setRefreshKey(key => key + 1)}
+          />
+
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" />
+                Timeline
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MaintenanceTimeline
+                submittedAt={request.createdAt}
+                submittedBy={request.reporter.fullName}
+                entries={timeline}
+                loading={timelineLoading}
+                onSubmit={handleAddComment}
+              />
+            </CardContent>
+          </Card>
+
           {/* Property & Unit Information */}
           <Card>
             <CardHeader>
@@ -379,6 +767,19 @@ const MaintenanceDetails = () => {
                 </Select>
               </div>
 
+              {newStatus !== request.status && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-600">Note for the tenant (optional)</label>
+                  <Textarea
+                    value={statusNotes}
+                    onChange={(e) => setStatusNotes(e.target.value)}
+                    placeholder="e.g. Plumber is ordering the replacement part"
+                    rows={2}
+                    className="resize-none"
+                  />
+                </div>
+              )}
+
               {newStatus !== request.status && (
                 <Button 
                   onClick={handleStatusUpdate}
@@ -406,7 +807,7 @@ const MaintenanceDetails = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Calendar className="h-5 w-5" />
-                Timeline
+                Duration
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -439,29 +840,44 @@ const MaintenanceDetails = () => {
             </CardContent>
           </Card>
 
-          {/* Priority Information */}
+          {/* SLA */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <AlertTriangle className="h-5 w-5" />
-                Priority Information
+                Service Level
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Priority Level</span>
-                <Badge variant="outline" className={`text-xs ${getPriorityColor(request.priority)}`}>
-                  {request.priority}
+                <span className="text-sm text-gray-600">SLA Status</span>
+                <Badge variant="outline" className={`text-xs ${getSlaColor(request.sla.state)}`}>
+                  {request.sla.state.replace('_', ' ')}
                 </Badge>
               </div>
-              <div className="text-xs text-gray-500">
-                Priority is automatically calculated based on:
-                <ul className="mt-1 space-y-1">
-                  <li>• Status (Open requests get higher priority)</li>
-                  <li>• Age (Older requests get higher priority)</li>
-                  <li>• Duration (Long-running requests get higher priority)</li>
-                </ul>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Respond By</span>
+                <span className={`text-sm ${request.sla.responseBreached ? "text-red-600 font-medium" : "text-gray-900"}`}>
+                  {formatDateTime(request.sla.responseDueAt)}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Resolve By</span>
+                <span className={`text-sm ${request.sla.resolutionBreached ? "text-red-600 font-medium" : "text-gray-900"}`}>
+                  {formatDateTime(request.sla.resolutionDueAt)}
+                </span>
               </div>
+              {request.sla.hoursRemaining !== null && (
+                <p className={`text-xs ${request.sla.hoursRemaining < 0 ? "text-red-600" : "text-gray-500"}`}>
+                  {request.sla.hoursRemaining < 0
+                    ? `Next deadline passed ${Math.abs(request.sla.hoursRemaining)} hours ago`
+                    : `${request.sla.hoursRemaining} hours until the next deadline`}
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                Deadlines follow the work order priority. Changing the status, assigning a contractor or
+                scheduling a visit counts as the first response.
+              </p>
             </CardContent>
           </Card>
         </div>
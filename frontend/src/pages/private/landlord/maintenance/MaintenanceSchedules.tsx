@@ -0,0 +1,585 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  Edit,
+  Pause,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  getMaintenanceSchedulesRequest,
+  getMaintenanceCalendarRequest,
+  createMaintenanceScheduleRequest,
+  updateMaintenanceScheduleRequest,
+  deleteMaintenanceScheduleRequest,
+  getContractorsRequest,
+  type Contractor,
+  type MaintenanceCategory,
+  type MaintenancePriority,
+  type MaintenanceSchedule,
+  type PreventiveCalendarEvent,
+} from "@/api/landlordMaintenanceApi";
+import { getLandlordPropertiesRequest, getPropertyUnitsRequest } from "@/api/landlordPropertyApi";
+import { toast } from "sonner";
+
+const CATEGORY_OPTIONS: MaintenanceCategory[] = ["HVAC", "PEST", "PLUMBING", "ELECTRICAL", "APPLIANCE", "STRUCTURAL", "GENERAL"];
+const PRIORITY_OPTIONS: MaintenancePriority[] = ["LOW", "MEDIUM", "HIGH"];
+
+const INTERVAL_OPTIONS = [
+  { value: 1, label: "Monthly" },
+  { value: 2, label: "Every 2 months" },
+  { value: 3, label: "Quarterly" },
+  { value: 6, label: "Every 6 months" },
+  { value: 12, label: "Yearly" },
+  { value: 24, label: "Every 2 years" },
+];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const NO_UNIT = "none";
+const NO_CONTRACTOR = "none";
+
+const emptyForm = {
+  propertyId: "",
+  unitId: NO_UNIT,
+  title: "",
+  description: "",
+  category: "HVAC" as MaintenanceCategory,
+  priority: "LOW" as MaintenancePriority,
+  intervalMonths: "6",
+  nextDueAt: "",
+  leadDays: "7",
+  contractorId: NO_CONTRACTOR,
+};
+
+const formatInterval = (months: number) =>
+  INTERVAL_OPTIONS.find(option => option.value === months)?.label || `Every ${months} months`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const getEventColor = (status: PreventiveCalendarEvent["status"]) => {
+  switch (status) {
+    case "PLANNED":
+      return "bg-teal-50 text-teal-700 border-teal-200";
+    case "RESOLVED":
+      return "bg-gray-50 text-gray-500 border-gray-200 line-through";
+    default:
+      return "bg-amber-50 text-amber-700 border-amber-200";
+  }
+};
+
+const MaintenanceSchedules = () => {
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [events, setEvents] = useState<PreventiveCalendarEvent[]>([]);
+  const [properties, setProperties] = useState<{ id: string; title: string }[]>([]);
+  const [units, setUnits] = useState<{ id: string; label: string }[]>([]);
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // First day of the month shown in the calendar
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchData = async () => {
+      try {
+        const [schedulesRes, propertiesRes, contractorsRes] = await Promise.all([
+          getMaintenanceSchedulesRequest({ signal: controller.signal }),
+          getLandlordPropertiesRequest({ signal: controller.signal }),
+          getContractorsRequest({ signal: controller.signal }),
+        ]);
+        setSchedules(schedulesRes.data);
+        setProperties(propertiesRes.data);
+        setContractors(contractorsRes.data);
+      } catch (err) {
+        if ((err as { name?: string }).name !== "AbortError") {
+          console.error("Error fetching maintenance schedules:", err);
+          toast.error("Failed to load maintenance schedules");
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const nextMonth = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+
+    getMaintenanceCalendarRequest({
+      from: month.toISOString(),
+      to: nextMonth.toISOString(),
+      signal: controller.signal,
+    })
+      .then(response => setEvents(response.data.events))
+      .catch(err => {
+        if ((err as { name?: string }).name !== "AbortError") {
+          console.error("Error fetching maintenance calendar:", err);
+          toast.error("Failed to load the preventive calendar");
+        }
+      });
+
+    return () => controller.abort();
+  }, [month, refreshKey]);
+
+  // Units of the property picked in the dialog
+  useEffect(() => {
+    if (!form.propertyId) {
+      setUnits([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    getPropertyUnitsRequest(form.propertyId, { signal: controller.signal })
+      .then(response => setUnits(response.data))
+      .catch(err => {
+        if ((err as { name?: string }).name !== "AbortError") {
+          console.error("Error fetching units:", err);
+          setUnits([]);
+        }
+      });
+
+    return () => controller.abort();
+  }, [form.propertyId]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm, propertyId: properties[0]?.id || "" });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (schedule: MaintenanceSchedule) => {
+    setEditingId(schedule.id);
+    setForm({
+      propertyId: schedule.propertyId,
+      unitId: schedule.unitId || NO_UNIT,
+      title: schedule.title,
+      description: schedule.description || "",
+      category: schedule.category,
+      priority: schedule.priority,
+      intervalMonths: String(schedule.intervalMonths),
+      nextDueAt: schedule.nextDueAt.slice(0, 10),
+      leadDays: String(schedule.leadDays),
+      contractorId: schedule.contractorId || NO_CONTRACTOR,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.propertyId || !form.title.trim() || !form.nextDueAt) {
+      toast.error("Property, title and first due date are required");
+      return;
+    }
+
+    const data = {
+      propertyId: form.propertyId,
+      unitId: form.unitId === NO_UNIT ? null : form.unitId,
+      title: form.title.trim(),
+      description: form.description.trim(),
+      category: form.category,
+      priority: form.priority,
+      intervalMonths: Number(form.intervalMonths),
+      nextDueAt: form.nextDueAt,
+      leadDays: Number(form.leadDays) || 0,
+      contractorId: form.contractorId === NO_CONTRACTOR ? null : form.contractorId,
+    };
+
+    setSaving(true);
+    try {
+      const response = editingId
+        ? await updateMaintenanceScheduleRequest(editingId, data)
+        : await createMaintenanceScheduleRequest(data);
+      toast.success(response.data.message);
+      setDialogOpen(false);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error saving maintenance schedule:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (schedule: MaintenanceSchedule) => {
+    try {
+      await updateMaintenanceScheduleRequest(schedule.id, { isActive: !schedule.isActive });
+      toast.success(schedule.isActive ? "Schedule paused" : "Schedule resumed");
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error updating maintenance schedule:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to update schedule");
+    }
+  };
+
+  const handleDelete = async (schedule: MaintenanceSchedule) => {
+    if (!window.confirm(`Delete "${schedule.title}"? Work orders it already created will be kept.`)) return;
+
+    try {
+      await deleteMaintenanceScheduleRequest(schedule.id);
+      toast.success("Schedule deleted successfully");
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error deleting maintenance schedule:", err);
+      toast.error((err as { response?: { data?: { message?: string } } }).response?.data?.message || "Failed to delete schedule");
+    }
+  };
+
+  // Calendar grid: leading blanks, then one cell per day of the month
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array(month.getDay()).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)),
+  ];
+  const eventsByDay = events.reduce<Record<string, PreventiveCalendarEvent[]>>((acc, event) => {
+    const key = new Date(event.dueAt).toDateString();
+    (acc[key] = acc[key] || []).push(event);
+    return acc;
+  }, {});
+  const todayKey = new Date().toDateString();
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/landlord/maintenance">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Maintenance
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Preventive Maintenance</h1>
+            <p className="text-gray-600 mt-1">Recurring tasks create work orders automatically before they are due</p>
+          </div>
+        </div>
+        <Button size="sm" onClick={openCreate} disabled={properties.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Schedule
+        </Button>
+      </div>
+
+      {/* Calendar */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              {month.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+            </span>
+            <span className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setMonth(new Date(new Date().getFullYear(), new Date().getMonth(), 1))}>
+                Today
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-7 gap-1 text-xs">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="text-center font-medium text-gray-500 py-1">{day}</div>
+            ))}
+            {cells.map((day, index) => (
+              <div
+                key={day ? day.toDateString() : `blank-${index}`}
+                className={`min-h-24 rounded-md border p-1 ${
+                  day ? (day.toDateString() === todayKey ? "border-emerald-400" : "border-gray-200") : "border-transparent"
+                }`}
+              >
+                {day && (
+                  <>
+                    <div className="text-right text-gray-500">{day.getDate()}</div>
+                    <div className="space-y-1">
+                      {(eventsByDay[day.toDateString()] || []).map(event => {
+                        const label = `${event.title}${event.unit ? ` · ${event.unit.label}` : ""}`;
+                        return event.maintenanceRequestId ? (
+                          <Link
+                            key={event.id}
+                            to={`/landlord/maintenance/${event.maintenanceRequestId}`}
+                            className={`block truncate rounded border px-1 ${getEventColor(event.status)}`}
+                            title={`${label} (${event.property.title}) - ${event.status.replace("_", " ")}`}
+                          >
+                            {label}
+                          </Link>
+                        ) : (
+                          <div
+                            key={event.id}
+                            className={`truncate rounded border px-1 ${getEventColor(event.status)}`}
+                            title={`${label} (${event.property.title}) - planned`}
+                          >
+                            {label}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-4 mt-3 text-xs text-gray-500">
+            <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-teal-400" /> Planned</span>
+            <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-amber-400" /> Work order open</span>
+            <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-gray-300" /> Done</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Schedules */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {schedules.length > 0 ? (
+            <div className="space-y-3">
+              {schedules.map(schedule => (
+                <div
+                  key={schedule.id}
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg ${
+                    schedule.isActive ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{schedule.title}</span>
+                      <Badge variant="outline" className="text-xs">{schedule.category}</Badge>
+                      <Badge variant="outline" className="text-xs">{formatInterval(schedule.intervalMonths)}</Badge>
+                      {!schedule.isActive && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                      {schedule.openWorkOrders > 0 && (
+                        <Badge className="text-xs bg-amber-100 text-amber-800">{schedule.openWorkOrders} open</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {schedule.property.title} · {schedule.unit ? `Unit ${schedule.unit.label}` : "All units"}
+                      {schedule.contractor && ` · ${schedule.contractor.name}`}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Next due {formatDate(schedule.nextDueAt)} · work order created {schedule.leadDays} day{schedule.leadDays === 1 ? "" : "s"} before
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(schedule)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleToggleActive(schedule)}>
+                      {schedule.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700" onClick={() => handleDelete(schedule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <CalendarClock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Schedules Yet</h3>
+              <p className="text-gray-600">
+                Set up recurring tasks like aircon cleaning every 6 months or quarterly pest control.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-title">Task</Label>
+              <Input
+                id="schedule-title"
+                placeholder="e.g. Aircon cleaning"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Property</Label>
+                <Select
+                  value={form.propertyId}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, propertyId: value, unitId: NO_UNIT }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map(property => (
+                      <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Unit</Label>
+                <Select value={form.unitId} onValueChange={(value) => setForm(prev => ({ ...prev, unitId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_UNIT}>All units</SelectItem>
+                    {units.map(unit => (
+                      <SelectItem key={unit.id} value={unit.id}>{unit.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select
+                  value={form.category}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, category: value as MaintenanceCategory }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORY_OPTIONS.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Priority</Label>
+                <Select
+                  value={form.priority}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, priority: value as MaintenancePriority }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRIORITY_OPTIONS.map(priority => (
+                      <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Repeats</Label>
+                <Select value={form.intervalMonths} onValueChange={(value) => setForm(prev => ({ ...prev, intervalMonths: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INTERVAL_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-due">{editingId ? "Next due" : "First due"}</Label>
+                <Input
+                  id="schedule-due"
+                  type="date"
+                  value={form.nextDueAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, nextDueAt: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-lead">Create work order (days before)</Label>
+                <Input
+                  id="schedule-lead"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={form.leadDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, leadDays: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Contractor</Label>
+                <Select value={form.contractorId} onValueChange={(value) => setForm(prev => ({ ...prev, contractorId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CONTRACTOR}>Unassigned</SelectItem>
+                    {contractors.map(contractor => (
+                      <SelectItem key={contractor.id} value={contractor.id}>{contractor.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-description">Notes</Label>
+              <Textarea
+                id="schedule-description"
+                rows={2}
+                className="resize-none"
+                placeholder="Instructions copied onto each work order"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? "Saving..." : editingId ? "Save Changes" : "Create Schedule"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MaintenanceSchedules;
@@ -13,6 +13,7 @@ import {
   Send,
   TrendingUp,
   Download,
+  CalendarClock,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -98,6 +99,21 @@ const LeasePaymentHistory = () => {
     }
   };
 
+  const getInstallmentBadge = (status: string) => {
+    switch (status) {
+      case "PAID":
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Paid</Badge>;
+      case "DUE":
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Due</Badge>;
+      case "OVERDUE":
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Overdue</Badge>;
+      case "UPCOMING":
+        return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Upcoming</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-PH', {
       style: 'currency',
@@ -247,6 +263,54 @@ const LeasePaymentHistory = () => {
             </div>
           )}
 
+          {/* Rent Schedule */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Rent Schedule
+                </span>
+                {paymentHistory.schedule.summary.overdue > 0 && (
+                  <span className="text-sm font-medium text-red-600">
+                    {paymentHistory.schedule.summary.overdue} overdue ({formatCurrency(paymentHistory.schedule.summary.overdueAmount)})
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {paymentHistory.schedule.installments.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  Installments are generated once the lease is activated.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {paymentHistory.schedule.installments.map((installment) => (
+                    <div key={installment.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {installment.type === "LATE_FEE" ? "Late fee due" : "Due"} {formatDate(installment.dueDate)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {installment.type === "LATE_FEE" ? "For rent period" : "Covers"} {formatDate(installment.periodStart)} - {formatDate(installment.periodEnd)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="text-right">
+                          <p className="font-medium text-gray-900">{formatCurrency(installment.amount)}</p>
+                          {installment.amountPaid > 0 && installment.status !== "PAID" && (
+                            <p className="text-xs text-gray-500">{formatCurrency(installment.amountPaid)} paid</p>
+                          )}
+                        </div>
+                        {getInstallmentBadge(installment.status)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Payment History */}
           <Card>
             <CardHeader>
@@ -13,6 +13,8 @@ import {
   Edit,
   Send,
   Download,
+  XCircle,
+  RotateCcw,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -24,6 +26,7 @@ import {
   getPaymentDetailsRequest, 
   updatePaymentStatusRequest,
   sendPaymentReminderRequest,
+  refundPaymentRequest,
   type PaymentDetails
 } from "@/api/landlordPaymentApi";
 import { toast } from "sonner";
@@ -34,6 +37,7 @@ const PaymentDetails = () => {
   const [loading, setLoading] = useState(true);
   const [payment, setPayment] = useState<PaymentDetails | null>(null);
   const [editing, setEditing] = useState(false);
+  const [refunding, setRefunding] = useState(false);
   const [updateData, setUpdateData] = useState({
     status: "",
     note: "",
@@ -100,12 +104,33 @@ const PaymentDetails = () => {
     }
   };
 
+  const handleRefund = async () => {
+    if (!paymentId || !payment) return;
+    if (!window.confirm(`Refund ${formatCurrency(payment.amount)} to the tenant? This cannot be undone.`)) return;
+
+    setRefunding(true);
+    try {
+      const response = await refundPaymentRequest(paymentId);
+      toast.success(response.data.message);
+    } catch (err) {
+      console.error("Error refunding payment:", err);
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to refund payment");
+    } finally {
+      setRefunding(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "PAID":
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle className="h-3 w-3 mr-1" />Paid</Badge>;
       case "PENDING":
         return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100"><Clock className="h-3 w-3 mr-1" />Pending</Badge>;
+      case "FAILED":
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100"><XCircle className="h-3 w-3 mr-1" />Failed</Badge>;
+      case "REFUNDED":
+        return <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100"><RotateCcw className="h-3 w-3 mr-1" />Refunded</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -215,15 +240,25 @@ const PaymentDetails = () => {
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="status">Status</Label>
-                      <Select value={updateData.status} onValueChange={(value) => setUpdateData(prev => ({ ...prev, status: value }))}>
+                      <Select
+                        value={updateData.status}
+                        onValueChange={(value) => setUpdateData(prev => ({ ...prev, status: value }))}
+                        disabled={!!payment.intent}
+                      >
                         <SelectTrigger>
                           <SelectValue placeholder="Select status" />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="PENDING">Pending</SelectItem>
                           <SelectItem value="PAID">Paid</SelectItem>
+                          {(payment.status === "FAILED" || payment.status === "REFUNDED") && (
+                            <SelectItem value={payment.status}>{payment.status.charAt(0) + payment.status.slice(1).toLowerCase()}</SelectItem>
+                          )}
                         </SelectContent>
                       </Select>
+                      {payment.intent && (
+                        <p className="text-xs text-gray-500">Status is updated by the payment provider</p>
+                      )}
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="amount">Amount</Label>
@@ -288,6 +323,15 @@ const PaymentDetails = () => {
                     </div>
                   </div>
 
+                  {payment.charge && (
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Applied To</p>
+                      <p className="text-gray-900">
+                        {payment.charge.type === "LATE_FEE" ? "Late fee" : "Rent installment"} due {formatDate(payment.charge.dueDate)} ({formatCurrency(payment.charge.amount)})
+                      </p>
+                    </div>
+                  )}
+
                   {payment.providerTxnId && (
                     <div>
                       <p className="text-sm font-medium text-gray-600">Transaction ID</p>
@@ -346,6 +390,43 @@ const PaymentDetails = () => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Late Fees */}
+          {payment.lateFees.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertCircle className="h-5 w-5" />
+                  Late Fees
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y divide-gray-100">
+                  {payment.lateFees.map((fee) => (
+                    <div key={fee.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-gray-900">Due {formatDate(fee.dueDate)}</p>
+                        <p className="text-xs text-gray-500">For rent period starting {formatDate(fee.periodStart)}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="text-right">
+                          <p className="font-medium text-gray-900">{formatCurrency(fee.amount)}</p>
+                          {fee.amountPaid > 0 && fee.status !== "PAID" && (
+                            <p className="text-xs text-gray-500">{formatCurrency(fee.amountPaid)} paid</p>
+                          )}
+                        </div>
+                        {fee.status === "PAID" ? (
+                          getStatusBadge("PAID")
+                        ) : (
+                          <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Unpaid</Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -426,6 +507,18 @@ const PaymentDetails = () => {
                 </Button>
               )}
 
+              {payment.status === "PAID" && payment.intent?.status === "SUCCEEDED" && (
+                <Button 
+                  variant="outline" 
+                  className="w-full text-red-600 hover:text-red-700"
+                  onClick={handleRefund}
+                  disabled={refunding}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {refunding ? "Requesting Refund..." : "Refund Payment"}
+                </Button>
+              )}
+
               <Button 
                 variant="outline" 
                 className="w-full"
@@ -3,6 +3,7 @@ import { useParams, Link, useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
 import {
   ArrowLeft,
   MapPin,
@@ -22,6 +23,7 @@ import {
   Globe,
   Zap,
   Loader2,
+  Receipt,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -29,7 +31,8 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { getUnitDetailsRequest, deleteUnitRequest, requestListingRequest } from "@/api/landlordPropertyApi";
+import { getUnitDetailsRequest, deleteUnitRequest, requestListingRequest, downloadListingReceiptRequest, replyToUnitReviewRequest } from "@/api/landlordPropertyApi";
+import { downloadPDF } from "@/lib/pdfUtils";
 import { toast } from "sonner";
 import ListingPaymentModal from "@/components/ListingPaymentModal";
 
@@ -42,6 +45,15 @@ type Amenity = {
   category: string;
 };
 
+type LatestListing = {
+  id: string;
+  status: string;
+  amount: number | null;
+  paymentStatus: string;
+  paidAt: string | null;
+  receiptNumber: string | null;
+};
+
 type UnitLeaseRule = {
   text: string;
   category: string;
@@ -61,6 +73,8 @@ type UnitReview = {
   rating: number;
   comment: string | null;
   createdAt: string;
+  landlordReply: string | null;
+  landlordRepliedAt: string | null;
   tenant: {
     id: string;
     firstName: string;
@@ -96,6 +110,7 @@ type UnitDetails = {
     address: string;
   };
   isListed: boolean;
+  latestListing: LatestListing | null;
 };
 
 // Lease rule categories for grouping
@@ -121,6 +136,9 @@ const UnitDetails = () => {
   const [error, setError] = useState<string | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [replyingReviewId, setReplyingReviewId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [savingReply, setSavingReply] = useState(false);
 
   // Fetch unit details
   useEffect(() => {
@@ -147,6 +165,37 @@ const UnitDetails = () => {
     fetchUnitDetails();
   }, [propertyId, unitId]);
 
+  const startReply = (review: UnitReview) => {
+    setReplyingReviewId(review.id);
+    setReplyText(review.landlordReply || "");
+  };
+
+  // Public reply under a tenant review (saving an empty reply removes it)
+  const handleSaveReply = async (reviewId: string) => {
+    setSavingReply(true);
+    try {
+      const response = await replyToUnitReviewRequest(reviewId, replyText);
+      const { landlordReply, landlordRepliedAt } = response.data.review;
+      setUnit((prev) =>
+        prev
+          ? {
+              ...prev,
+              reviews: prev.reviews.map((review) =>
+                review.id === reviewId ? { ...review, landlordReply, landlordRepliedAt } : review
+              ),
+            }
+          : prev
+      );
+      setReplyingReviewId(null);
+      toast.success(response.data.message);
+    } catch (err) {
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to save reply");
+    } finally {
+      setSavingReply(false);
+    }
+  };
+
   // Group amenities by category
   const groupedAmenities = unit?.amenities?.reduce((acc, amenity) => {
     if (!acc[amenity.category]) {
@@ -243,39 +292,60 @@ const UnitDetails = () => {
     setShowPaymentModal(true);
   };
 
-  // Handle successful payment and submit listing request
+  // Handle successful payment and submit listing request (the payment modal reports failures)
   const handlePaymentSuccess = async (paymentIntentId: string) => {
     if (!unit || !propertyId || !unitId) {
-      toast.error("Missing required information");
-      return;
+      throw new Error("Missing required information");
     }
 
     try {
       setLoading(true);
       
-      // Create a listing request that goes to admin for approval
-      await requestListingRequest(propertyId, unitId, {
-        notes: `Listing request submitted from unit details page. Payment ID: ${paymentIntentId}`,
+      // Create a listing request that goes to admin for approval (records the paid fee)
+      const response = await requestListingRequest(propertyId, unitId, {
         paymentIntentId: paymentIntentId
       });
+      const listing = response.data.listing;
 
-      toast.success("Listing request submitted successfully! It will be reviewed by admin.");
+      toast.success(`Listing request submitted successfully! Receipt ${listing.receiptNumber} has been issued.`);
       
       // Update local state to reflect the request was submitted
       setUnit(prev => prev ? {
         ...prev,
         listedAt: new Date().toISOString(),
-        isListed: true
+        isListed: true,
+        latestListing: {
+          id: listing.id,
+          status: listing.status,
+          amount: listing.amount,
+          paymentStatus: listing.paymentStatus,
+          paidAt: listing.paidAt,
+          receiptNumber: listing.receiptNumber
+        }
       } : null);
       
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error submitting listing request:", error);
-      toast.error(error.response?.data?.error || "Failed to submit listing request");
+      throw error;
     } finally {
       setLoading(false);
     }
   };
 
+  // Download the listing fee receipt
+  const handleDownloadReceipt = async () => {
+    const listing = unit?.latestListing;
+    if (!listing?.receiptNumber) return;
+
+    try {
+      const pdfBlob = await downloadListingReceiptRequest(listing.id);
+      downloadPDF(pdfBlob, `receipt-${listing.receiptNumber}.pdf`);
+    } catch (err) {
+      console.error("Error downloading receipt:", err);
+      toast.error("Failed to download receipt");
+    }
+  };
+
   // Render star rating
   const renderStars = (rating: number) => {
     return (
@@ -701,6 +771,47 @@ const UnitDetails = () => {
                     {review.comment && (
                       <p className="text-gray-700 leading-relaxed">{review.comment}</p>
                     )}
+
+                    {/* Landlord reply */}
+                    {replyingReviewId === review.id ? (
+                      <div className="mt-3 space-y-2">
+                        <Textarea
+                          value={replyText}
+                          onChange={(e) => setReplyText(e.target.value)}
+                          placeholder="Write a public reply..."
+                          maxLength={1000}
+                          rows={3}
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setReplyingReviewId(null)} disabled={savingReply}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleSaveReply(review.id)} disabled={savingReply}>
+                            {savingReply && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            {replyText.trim() ? "Post Reply" : review.landlordReply ? "Remove Reply" : "Post Reply"}
+                          </Button>
+                        </div>
+                      </div>
+                    ) : review.landlordReply ? (
+                      <div className="mt-3 ml-4 p-3 bg-gray-50 rounded-lg border-l-2 border-gray-300">
+                        <div className="flex items-center justify-between mb-1">
+                          <p className="text-xs font-medium text-gray-600">
+                            Your reply
+                            {review.landlordRepliedAt && ` • ${formatDate(review.landlordRepliedAt)}`}
+                          </p>
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => startReply(review)}>
+                            <Edit className="h-3 w-3 mr-1" />
+                            Edit
+                          </Button>
+                        </div>
+                        <p className="text-gray-700 text-sm">{review.landlordReply}</p>
+                      </div>
+                    ) : (
+                      <Button variant="ghost" size="sm" className="mt-2 px-2" onClick={() => startReply(review)}>
+                        <MessageCircle className="h-4 w-4 mr-1" />
+                        Reply
+                      </Button>
+                    )}
                   </div>
                 ))
               )}
@@ -834,6 +945,20 @@ const UnitDetails = () => {
                   {unit.listedAt ? "Active" : "Inactive"}
                 </Badge>
               </div>
+              {unit.latestListing?.receiptNumber && (
+                <div className="pt-3 border-t space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">Listing Fee</span>
+                    <Badge className={unit.latestListing.paymentStatus === "PAID" ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+                      {unit.latestListing.paymentStatus}
+                    </Badge>
+                  </div>
+                  <Button variant="outline" size="sm" className="w-full" onClick={handleDownloadReceipt}>
+                    <Receipt className="h-4 w-4 mr-2" />
+                    Receipt {unit.latestListing.receiptNumber}
+                  </Button>
+                </div>
+              )}
             </div>
           </Card>
         </div>
@@ -880,6 +1005,7 @@ const UnitDetails = () => {
           onPaymentSuccess={handlePaymentSuccess}
           unitDetails={{
             id: unit.id,
+            propertyId: unit.property.id,
             label: unit.label,
             targetPrice: unit.targetPrice,
             property: {
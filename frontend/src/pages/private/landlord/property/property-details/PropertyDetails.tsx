@@ -241,7 +241,7 @@ const PropertyDetails = () => {
         )}
 
         {activeTab === "listing" && (
-          <UnitListing />
+          <UnitListing property={property} />
         )}
       </div>
     </div>
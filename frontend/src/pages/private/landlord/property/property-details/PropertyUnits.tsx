@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
-import { Building, ChevronLeft, ChevronRight, Home, Plus, Search, Star, Clock, Shield, Eye, RefreshCw, ArrowRight } from "lucide-react";
+import { Building, ChevronLeft, ChevronRight, Home, Plus, Search, Star, Clock, Shield, Eye, RefreshCw, ArrowRight, LogOut } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +19,7 @@ type Unit = {
   securityDeposit: number;
   requiresScreening: boolean;
   isListed: boolean;
+  moveOutDate: string | null; // tenant gave notice; unit becomes AVAILABLE on this date
   mainImageUrl?: string;
   viewCount: number;
   reviewsSummary: {
@@ -353,6 +354,12 @@ const UnitImage = ({ unit }: { unit: Unit }) => {
         <Badge variant="secondary" className={`text-xs font-medium ${getStatusColor(unit.status)}`}>
           {unit.status}
         </Badge>
+        {unit.moveOutDate && (
+          <Badge variant="secondary" className="bg-orange-100 text-orange-800 border-orange-200 text-xs">
+            <LogOut className="h-3 w-3 mr-1" />
+            Move-out {new Date(unit.moveOutDate).toLocaleDateString()}
+          </Badge>
+        )}
         {badgeType === "NEW" && (
           <Badge variant="secondary" className="bg-rose-100 text-rose-800 border-rose-200 text-xs">
             <Clock className="h-3 w-3 mr-1" />
@@ -1,12 +1,17 @@
 import { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
-import { Home, Send } from "lucide-react";
+import { Home } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { requestListingRequest, getUnitsListingStatusRequest } from "@/api/landlordPropertyApi";
+import ListingPaymentModal from "@/components/ListingPaymentModal";
+import type { Property } from "@/types/propertyType";
 
-const UnitListing = () => {
+interface UnitListingProps {
+  property: Property | null;
+}
+
+const UnitListing = ({ property }: UnitListingProps) => {
   const { propertyId } = useParams();
   const [units, setUnits] = useState<any>({
     PENDING: [],
@@ -19,10 +24,9 @@ const UnitListing = () => {
   const [fetching, setFetching] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
 
-  // Modal states
-  const [showModal, setShowModal] = useState(false);
+  // Listing fee payment modal
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [selectedUnit, setSelectedUnit] = useState<any>(null);
-  const [notes, setNotes] = useState("");
 
   // Fetch all unit listing statuses
   useEffect(() => {
@@ -59,23 +63,29 @@ const UnitListing = () => {
     fetchStatus();
   }, [propertyId]);
 
-  const handleSubmit = async () => {
+  // The listing request records the paid listing fee, so it is only sent once the payment succeeded.
+  // Failures are rethrown for the payment modal to report.
+  const handlePaymentSuccess = async (paymentIntentId: string) => {
     if (!propertyId || !selectedUnit) {
-      setMessage("Missing property or unit ID.");
-      return;
+      throw new Error("Missing property or unit ID.");
     }
 
     try {
       setLoading(true);
       setMessage(null);
 
-      await requestListingRequest(propertyId, selectedUnit.unit.id, { notes });
+      await requestListingRequest(propertyId, selectedUnit.unit.id, { paymentIntentId });
+    } catch (error) {
+      console.error(error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
 
-      setMessage("✅ Listing request submitted successfully.");
-      setNotes("");
-      setShowModal(false);
+    setMessage("✅ Listing request submitted successfully.");
 
-      // Refresh list
+    // Refresh list
+    try {
       const res = await getUnitsListingStatusRequest(propertyId);
       const data = res.data || {};
       setUnits({
@@ -85,11 +95,8 @@ const UnitListing = () => {
         BLOCKED: data.BLOCKED || [],
         ELIGIBLE: data.ELIGIBLE || [],
       });
-    } catch (error: any) {
-      console.error(error);
-      setMessage("❌ Failed to submit listing request.");
-    } finally {
-      setLoading(false);
+    } catch (error) {
+      console.error("Failed to fetch listing status", error);
     }
   };
 
@@ -128,8 +135,9 @@ const UnitListing = () => {
                       size="sm"
                       onClick={() => {
                         setSelectedUnit(item);
-                        setShowModal(true);
+                        setShowPaymentModal(true);
                       }}
+                      disabled={loading || !property}
                     >
                       Request Listing
                     </Button>
@@ -145,37 +153,26 @@ const UnitListing = () => {
 
       {message && <p className="text-sm text-center mt-2 text-gray-600">{message}</p>}
 
-      {/* Modal */}
-      {showModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg shadow-md w-full max-w-md">
-            <h3 className="text-lg font-semibold mb-4">Submit Listing Request</h3>
-            <p className="text-sm text-gray-600 mb-4">
-              Unit: <span className="font-medium">{selectedUnit?.unit.name}</span>
-            </p>
-
-            <Textarea
-              placeholder="Add notes for admin (optional, e.g. revisions)..."
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              className="mb-4"
-            />
-
-            <div className="flex justify-end space-x-2">
-              <Button variant="outline" onClick={() => setShowModal(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleSubmit} disabled={loading}>
-                {loading ? "Submitting..." : (
-                  <>
-                    <Send className="h-4 w-4 mr-2" />
-                    Submit
-                  </>
-                )}
-              </Button>
-            </div>
-          </div>
-        </div>
+      {/* Payment Modal */}
+      {selectedUnit && property && (
+        <ListingPaymentModal
+          isOpen={showPaymentModal}
+          onClose={() => {
+            setShowPaymentModal(false);
+            setSelectedUnit(null);
+          }}
+          onPaymentSuccess={handlePaymentSuccess}
+          unitDetails={{
+            id: selectedUnit.unit.id,
+            propertyId: property.id,
+            label: selectedUnit.unit.label,
+            targetPrice: selectedUnit.unit.targetPrice,
+            property: {
+              title: property.title,
+              address: `${property.street}, ${property.barangay}`
+            }
+          }}
+        />
       )}
     </Card>
   );
@@ -19,17 +19,173 @@ import {
   Mail,
   RefreshCw,
   Eye,
+  LineChart,
+  Gauge,
+  Settings,
+  Loader2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   generateBehaviorReportRequest,
-  type BehaviorReport 
+  getBehaviorWeightsRequest,
+  updateBehaviorWeightsRequest,
+  type BehaviorReport,
+  type BehaviorScoreBreakdown,
+  type BehaviorScorePart,
+  type BehaviorScoreWeights,
 } from "@/api/landlordTenantApi";
 import { toast } from "sonner";
 
+const SCORE_PARTS: { key: BehaviorScorePart; label: string; emptyText: string }[] = [
+  { key: "paymentReliability", label: "Payment Reliability", emptyText: "No payments yet" },
+  { key: "communication", label: "Communication", emptyText: "No messages to answer yet" },
+  { key: "propertyCare", label: "Property Care", emptyText: "Scored at move-out" },
+  { key: "ruleCompliance", label: "Rule Compliance", emptyText: "No violation records" },
+];
+
+const getScoreColor = (score: number) =>
+  score >= 85 ? "bg-green-500" : score >= 70 ? "bg-yellow-500" : "bg-red-500";
+
+// Weighted behavioral score with its parts; the weights apply to all of the landlord's tenants
+const BehaviorScoreCard = ({ breakdown, onWeightsSaved }: { breakdown: BehaviorScoreBreakdown | null; onWeightsSaved: () => void }) => {
+  const [editing, setEditing] = useState(false);
+  const [weights, setWeights] = useState<BehaviorScoreWeights | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const totalWeight = weights ? SCORE_PARTS.reduce((sum, part) => sum + weights[part.key], 0) : 0;
+
+  const startEditing = async () => {
+    try {
+      const response = await getBehaviorWeightsRequest();
+      setWeights(response.data.weights);
+      setEditing(true);
+    } catch (error) {
+      console.error("Error fetching behavior score weights:", error);
+      toast.error("Failed to load score weights");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!weights) return;
+
+    setSaving(true);
+    try {
+      const response = await updateBehaviorWeightsRequest(weights);
+      toast.success(response.data.message);
+      setEditing(false);
+      onWeightsSaved();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to save score weights");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Behavioral Score
+          </CardTitle>
+          {!editing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Settings className="h-4 w-4 mr-2" />
+              Adjust Weights
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing && weights ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              How much each part counts toward the score of all your tenants. Weights must add up to 100.
+            </p>
+            {SCORE_PARTS.map((part) => (
+              <div key={part.key} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-700">{part.label}</span>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-20"
+                    value={weights[part.key]}
+                    onChange={(e) => setWeights({ ...weights, [part.key]: Math.round(Number(e.target.value) || 0) })}
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-2">
+              <span className={`text-sm ${totalWeight === 100 ? "text-gray-600" : "text-red-600"}`}>
+                Total: {totalWeight}%
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saving || totalWeight !== 100}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save & Re-score
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : breakdown ? (
+          <>
+            <div className="text-center p-4 bg-gray-50 rounded-lg">
+              <div className="text-3xl font-bold text-gray-900">
+                {breakdown.score !== null ? `${breakdown.score}/100` : "—"}
+              </div>
+              <div className="text-sm text-gray-600">Overall score (higher is better)</div>
+            </div>
+            <div className="space-y-3">
+              {SCORE_PARTS.map((part) => {
+                const score = breakdown.parts[part.key];
+                return (
+                  <div key={part.key} className="space-y-1">
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">
+                        {part.label} <span className="text-gray-400">({breakdown.weights[part.key]}%)</span>
+                      </span>
+                      <span className="font-medium text-gray-900">
+                        {score !== null ? score : <span className="text-gray-400 font-normal">{part.emptyText}</span>}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      {score !== null && (
+                        <div className={`h-2 rounded-full ${getScoreColor(score)}`} style={{ width: `${score}%` }} />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {breakdown.averageResponseHours !== null && (
+              <p className="text-xs text-gray-500">
+                Average reply time to your messages: {breakdown.averageResponseHours} hours
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Parts without data are left out and their weight is shared by the others.
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-4">No analysis available yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 const BehaviorReport = () => {
   const { tenantId } = useParams<{ tenantId: string }>();
   const navigate = useNavigate();
@@ -38,6 +194,8 @@ const BehaviorReport = () => {
   const [generating, setGenerating] = useState(false);
   const [reportType, setReportType] = useState<string>("comprehensive");
 
+  const [reloadKey, setReloadKey] = useState(0);
+
   useEffect(() => {
     if (!tenantId) return;
 
@@ -58,7 +216,7 @@ const BehaviorReport = () => {
     };
 
     fetchReport();
-  }, [tenantId, reportType, navigate]);
+  }, [tenantId, reportType, navigate, reloadKey]);
 
   const handleGenerateNewReport = async () => {
     if (!tenantId) return;
@@ -85,6 +243,8 @@ const BehaviorReport = () => {
       generatedAt: report.generatedAt,
       summary: report.summary,
       detailedAnalysis: report.detailedAnalysis,
+      scoreBreakdown: report.scoreBreakdown,
+      history: report.history,
       recommendations: report.recommendations,
       riskFactors: report.riskFactors,
     };
@@ -126,6 +286,17 @@ const BehaviorReport = () => {
     }
   };
 
+  const getRiskBarColor = (riskLevel: string) => {
+    switch (riskLevel) {
+      case "HIGH":
+        return "bg-red-400";
+      case "MEDIUM":
+        return "bg-yellow-400";
+      default:
+        return "bg-green-400";
+    }
+  };
+
   const getTrendIcon = (trend: string) => {
     switch (trend) {
       case "IMPROVING":
@@ -271,6 +442,9 @@ const BehaviorReport = () => {
               <h2 className="text-lg font-semibold text-gray-900">Tenant Behavior Analysis Report</h2>
               <p className="text-sm text-gray-600">
                 Generated on {new Date(report.generatedAt).toLocaleString()}
+                {report.summary.lastAnalysisDate && (
+                  <> · Analysis updated {new Date(report.summary.lastAnalysisDate).toLocaleString()}</>
+                )}
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -286,6 +460,48 @@ const BehaviorReport = () => {
         </CardContent>
       </Card>
 
+      {/* Behavioral Score */}
+      <BehaviorScoreCard breakdown={report.scoreBreakdown} onWeightsSaved={() => setReloadKey((key) => key + 1)} />
+
+      {/* Risk Score History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChart className="h-5 w-5" />
+            Risk Score Over Time
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.history.some((point) => point.riskScore !== null) ? (
+            <div className="space-y-2">
+              <div className="flex items-end gap-1 h-40 border-b border-gray-200">
+                {report.history.map((point, index) => (
+                  <div
+                    key={`${point.leaseId}-${index}`}
+                    className="flex-1 h-full flex items-end"
+                    title={`${new Date(point.date).toLocaleDateString()}: ${point.riskScore ?? "—"}/100 (${point.riskLevel})${point.paymentReliability !== null ? `, ${point.paymentReliability}% on time` : ""}`}
+                  >
+                    <div
+                      className={`w-full rounded-t ${point.riskScore === null ? "bg-gray-200" : getRiskBarColor(point.riskLevel)}`}
+                      style={{ height: `${Math.max(point.riskScore ?? 0, 2)}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{new Date(report.history[0].date).toLocaleDateString()}</span>
+                <span>Risk score (0-100, lower is better) · {report.history.length} snapshots</span>
+                <span>{new Date(report.history[report.history.length - 1].date).toLocaleDateString()}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">
+              The score is tracked once the tenant has payment or message history.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Left Column */}
         <div className="space-y-6">
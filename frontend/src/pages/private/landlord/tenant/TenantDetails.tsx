@@ -40,6 +40,7 @@ import {
   type BehaviorReport 
 } from "@/api/landlordTenantApi";
 import { toast } from "sonner";
+import LeaseViolationsCard from "@/components/LeaseViolationsCard";
 
 const TenantDetails = () => {
   const { tenantId } = useParams<{ tenantId: string }>();
@@ -105,7 +106,7 @@ const TenantDetails = () => {
         unitId: selectedUnit,
       });
       
-      toast.success("Tenant screening completed successfully");
+      toast.success(response.data.message);
       
       // Refresh screening results
       const screeningRes = await getScreeningResultsRequest(tenantId!);
@@ -406,6 +407,9 @@ const TenantDetails = () => {
             </CardContent>
           </Card>
 
+          {/* Lease Rule Violations */}
+          <LeaseViolationsCard tenantId={tenant.id} />
+
           {/* Recent Activity */}
           <Card>
             <CardHeader>
@@ -519,11 +523,13 @@ const TenantDetails = () => {
                           {getRiskIcon(screening.riskLevel)}
                           <span className="ml-1">{screening.riskLevel} Risk</span>
                         </Badge>
-                        <Badge variant="outline" className="text-xs">
-                          {screening.status}
-                        </Badge>
+                        {screening.score != null && (
+                          <Badge variant="outline" className="text-xs">
+                            Score {screening.score}/100
+                          </Badge>
+                        )}
                       </div>
-                      <p className="text-sm text-gray-700 line-clamp-2">
+                      <p className="text-sm text-gray-700 whitespace-pre-line">
                         {screening.summary}
                       </p>
                       <p className="text-xs text-gray-500 mt-2">
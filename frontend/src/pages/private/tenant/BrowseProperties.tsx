@@ -21,7 +21,7 @@ const StarRating = ({ rating, reviewCount }: { rating: number; reviewCount: numb
       {[...Array(emptyStars)].map((_, i) => (
         <Star key={`empty-${i}`} className="h-4 w-4 text-gray-300" />
       ))}
-      {rating > 0 && <span className="text-sm text-gray-600 ml-1">({reviewCount})</span>}
+      {rating > 0 && <span className="text-sm text-gray-600 ml-1">{rating.toFixed(1)} ({reviewCount})</span>}
       {rating === 0 && <span className="text-sm text-gray-500 ml-1">No reviews</span>}
     </div>
   );
@@ -540,6 +540,11 @@ const BrowseProperties = () => {
                           </div>
 
                           <StarRating rating={property.avgRating} reviewCount={property.reviewCount} />
+                          {property.reviews[0]?.comment && (
+                            <p className="text-xs text-gray-500 italic mt-1 line-clamp-1">
+                              "{property.reviews[0].comment}" — {property.reviews[0].tenantName}
+                            </p>
+                          )}
 
                           {/* Amenities */}
                           {property.amenities.length > 0 && (
@@ -18,8 +18,16 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { getTenantMaintenanceRequests, clearMaintenanceRequest } from "@/api/tenantApi";
+import {
+  getTenantMaintenanceRequests,
+  clearMaintenanceRequest,
+  getTenantMaintenanceTimeline,
+  addTenantMaintenanceComment,
+} from "@/api/tenantApi";
+import type { MaintenanceTimelineEntry } from "@/api/landlordMaintenanceApi";
 import MaintenanceRequestForm from "@/components/MaintenanceRequestForm";
+import MaintenanceTimeline from "@/components/MaintenanceTimeline";
+import MaintenanceAttachmentGallery from "@/components/MaintenanceAttachmentGallery";
 import { toast } from "sonner";
 
 const Maintenance = () => {
@@ -27,6 +35,9 @@ const Maintenance = () => {
   const [loading, setLoading] = useState(true);
   const [showSubmitForm, setShowSubmitForm] = useState(false);
   const [clearedRequests, setClearedRequests] = useState<Set<string>>(new Set());
+  const [expandedRequestId, setExpandedRequestId] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<MaintenanceTimelineEntry[]>([]);
+  const [timelineLoading, setTimelineLoading] = useState(false);
 
   const fetchRequests = async () => {
     setLoading(true);
@@ -69,6 +80,35 @@ const Maintenance = () => {
     }
   };
 
+  const fetchTimeline = async (requestId: string) => {
+    setTimelineLoading(true);
+    try {
+      const response = await getTenantMaintenanceTimeline(requestId);
+      setTimeline(response.data);
+    } catch (err) {
+      console.error("Error fetching maintenance timeline:", err);
+      toast.error("Failed to fetch request timeline");
+    } finally {
+      setTimelineLoading(false);
+    }
+  };
+
+  const handleToggleTimeline = (requestId: string) => {
+    if (expandedRequestId === requestId) {
+      setExpandedRequestId(null);
+      return;
+    }
+    setExpandedRequestId(requestId);
+    setTimeline([]);
+    fetchTimeline(requestId);
+  };
+
+  const handleAddComment = async (requestId: string, data: FormData) => {
+    await addTenantMaintenanceComment(requestId, data);
+    const response = await getTenantMaintenanceTimeline(requestId);
+    setTimeline(response.data);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -262,15 +302,13 @@ const Maintenance = () => {
                       <p className="text-sm text-gray-600 mt-1 line-clamp-2">
                         {request.description}
                       </p>
-                      {request.photoUrl && (
-                        <div className="mt-2">
-                          <img 
-                            src={`http://localhost:5000${request.photoUrl}`} 
-                            alt="Maintenance issue" 
-                            className="w-20 h-20 object-cover rounded border"
-                          />
-                        </div>
-                      )}
+                      <div className="mt-2">
+                        <MaintenanceAttachmentGallery
+                          attachments={request.attachments ?? []}
+                          fallbackPhotoUrl={request.photoUrl}
+                          size="sm"
+                        />
+                      </div>
                     </div>
                     <div className="flex gap-2 ml-4">
                       <Badge
@@ -280,6 +318,15 @@ const Maintenance = () => {
                         {getStatusIcon(request.status)}
                         <span className="ml-1">{request.status || 'OPEN'}</span>
                       </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleToggleTimeline(request.id)}
+                        className={expandedRequestId === request.id ? "bg-gray-100" : ""}
+                        title="Show updates and comments"
+                      >
+                        <MessageSquare className="h-3 w-3" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -308,6 +355,34 @@ const Maintenance = () => {
                       <span>{formatDate(request.createdAt)}</span>
                     </div>
                   </div>
+
+                  {(request.contractor || request.scheduledStart) && (
+                    <div className="flex flex-wrap items-center gap-4 mt-3 pt-3 border-t border-gray-200 text-sm text-gray-600">
+                      {request.contractor && (
+                        <span>
+                          Assigned to <span className="font-medium text-gray-900">{request.contractor.name}</span>
+                          {request.contractor.phone ? ` · ${request.contractor.phone}` : ""}
+                        </span>
+                      )}
+                      {request.scheduledStart && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          Visit {new Date(request.scheduledStart).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {expandedRequestId === request.id && (
+                    <div className="mt-4 pt-4 border-t border-gray-200">
+                      <MaintenanceTimeline
+                        submittedAt={request.createdAt}
+                        entries={timeline}
+                        loading={timelineLoading}
+                        onSubmit={(data) => handleAddComment(request.id, data)}
+                      />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
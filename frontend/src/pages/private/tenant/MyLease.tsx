@@ -38,20 +38,34 @@ import {
   Calendar as CalendarIcon,
   FileCheck,
   AlertCircle,
+  RefreshCw,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { getTenantLeaseDetails, downloadLeasePDF, type TenantLeaseDetails } from "@/api/tenantApi";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getTenantLeaseDetails,
+  downloadLeasePDF,
+  acceptRenewalOfferRequest,
+  declineRenewalOfferRequest,
+  type TenantLeaseDetails
+} from "@/api/tenantApi";
 import { downloadPDF, generateLeaseFilename } from "@/lib/pdfUtils";
 import { useAuthStore } from "@/stores/useAuthStore";
 import { toast } from "sonner";
 import TenantPaymentModal from "@/components/TenantPaymentModal";
+import UnitReviewsCard from "@/components/UnitReviewsCard";
+import TenantViolationsCard from "@/components/TenantViolationsCard";
 
 const MyLease = () => {
   const [lease, setLease] = useState<TenantLeaseDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [respondingToOffer, setRespondingToOffer] = useState(false);
+  const [showDeclineForm, setShowDeclineForm] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+  const [refreshKey, setRefreshKey] = useState(0);
   const user = useAuthStore((s) => s.user);
 
   useEffect(() => {
@@ -87,7 +101,7 @@ const MyLease = () => {
 
     fetchLeaseDetails();
     return () => controller.abort();
-  }, []);
+  }, [refreshKey]);
 
   const handleDownloadPDF = async () => {
     if (!lease) return;
@@ -110,6 +124,43 @@ const MyLease = () => {
     }
   };
 
+  const handleAcceptRenewal = async () => {
+    if (!lease?.renewalOffer) return;
+
+    setRespondingToOffer(true);
+    try {
+      const response = await acceptRenewalOfferRequest(lease.renewalOffer.id);
+      toast.success(response.data.message);
+      // Accepting may start the new lease right away, so reload everything
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error("Error accepting renewal offer:", err);
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to accept renewal offer");
+    } finally {
+      setRespondingToOffer(false);
+    }
+  };
+
+  const handleDeclineRenewal = async () => {
+    if (!lease?.renewalOffer) return;
+
+    setRespondingToOffer(true);
+    try {
+      await declineRenewalOfferRequest(lease.renewalOffer.id, declineReason || undefined);
+      toast.success("Renewal offer declined");
+      setLease(prev => prev && { ...prev, renewalOffer: null });
+      setShowDeclineForm(false);
+      setDeclineReason("");
+    } catch (err) {
+      console.error("Error declining renewal offer:", err);
+      const message = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      toast.error(message || "Failed to decline renewal offer");
+    } finally {
+      setRespondingToOffer(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-PH", {
       style: "currency",
@@ -263,6 +314,9 @@ const MyLease = () => {
             </Button>
           </div>
         </Card>
+
+        {/* Reviews for past leases */}
+        <UnitReviewsCard />
       </div>
     );
   }
@@ -323,6 +377,103 @@ const MyLease = () => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Renewal Offer */}
+          {lease.renewalOffer && (
+            <Card className="border-blue-200 bg-blue-50/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <RefreshCw className="h-5 w-5 text-blue-600" />
+                  Lease Renewal Offer
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-700">
+                  Your landlord has offered to renew this lease with the following terms.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">New Term</label>
+                    <p className="text-gray-900">
+                      {formatDate(lease.renewalOffer.startDate)} – {formatDate(lease.renewalOffer.endDate)}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Rent</label>
+                    <p className="text-gray-900 font-semibold">
+                      {formatCurrency(lease.renewalOffer.rentAmount)} {getIntervalText(lease.renewalOffer.interval)}
+                    </p>
+                    {lease.renewalOffer.rentAmount !== lease.rentAmount && (
+                      <p className="text-xs text-gray-500">
+                        Currently {formatCurrency(lease.rentAmount)} {getIntervalText(lease.interval)}
+                      </p>
+                    )}
+                  </div>
+                  {lease.renewalOffer.expiresAt && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-600">Respond By</label>
+                      <p className="text-gray-900">{formatDate(lease.renewalOffer.expiresAt)}</p>
+                    </div>
+                  )}
+                </div>
+
+                {lease.renewalOffer.message && (
+                  <p className="text-gray-900 p-3 bg-white rounded-lg border">{lease.renewalOffer.message}</p>
+                )}
+
+                {showDeclineForm ? (
+                  <div className="space-y-3">
+                    <Textarea
+                      rows={2}
+                      placeholder="Let your landlord know why (optional)"
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={handleDeclineRenewal}
+                        disabled={respondingToOffer}
+                      >
+                        {respondingToOffer ? "Declining..." : "Confirm Decline"}
+                      </Button>
+                      <Button variant="ghost" onClick={() => setShowDeclineForm(false)} disabled={respondingToOffer}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button onClick={handleAcceptRenewal} disabled={respondingToOffer}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      {respondingToOffer ? "Accepting..." : "Accept Renewal"}
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowDeclineForm(true)} disabled={respondingToOffer}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Decline
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Accepted renewal waiting to start */}
+          {lease.renewedBy && lease.renewedBy.status === "UPCOMING" && (
+            <Card className="border-green-200 bg-green-50/50">
+              <CardContent className="pt-6 flex items-start gap-3">
+                <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+                <div className="text-sm text-gray-700">
+                  <p className="font-medium text-gray-900">Lease renewed</p>
+                  <p>
+                    Your new term starts {formatDate(lease.renewedBy.startDate)} at{" "}
+                    {formatCurrency(lease.renewedBy.rentAmount)} {getIntervalText(lease.renewedBy.interval)}.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Lease Information */}
           <Card>
             <CardHeader>
@@ -511,6 +662,12 @@ const MyLease = () => {
               </CardContent>
             </Card>
           )}
+
+          {/* Lease Rule Violations */}
+          <TenantViolationsCard />
+
+          {/* Unit Reviews */}
+          <UnitReviewsCard />
         </div>
 
         {/* Sidebar */}
@@ -656,6 +813,41 @@ const MyLease = () => {
             </Card>
           )}
 
+          {/* Amount Due Now */}
+          <Card className={lease.balance.amountDueNow > 0 ? "border-red-200" : "border-green-200"}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Amount Due Now
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className={`text-3xl font-bold ${lease.balance.amountDueNow > 0 ? "text-red-600" : "text-green-600"}`}>
+                {formatCurrency(lease.balance.amountDueNow)}
+              </p>
+              {lease.balance.credit > 0 && (
+                <p className="text-sm text-green-700">
+                  {formatCurrency(lease.balance.credit)} credit carried forward
+                </p>
+              )}
+              {lease.balance.nextDue && (
+                <p className="text-sm text-gray-600">
+                  Next due {formatDate(lease.balance.nextDue.dueDate)}: {formatCurrency(lease.balance.nextDue.amount)}
+                </p>
+              )}
+              <div className="border-t pt-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Charged to date</span>
+                  <span className="text-gray-900">{formatCurrency(lease.balance.totalCharged)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Paid to date</span>
+                  <span className="text-gray-900">{formatCurrency(lease.balance.totalPaid)}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
@@ -718,8 +910,9 @@ const MyLease = () => {
                       <Badge
                         variant="outline"
                         className={`text-xs ${
-                          payment.status === "PENDING" ? "bg-orange-100 text-orange-800 border-orange-200" :
-                          "bg-green-100 text-green-800 border-green-200"
+                          payment.status === "OVERDUE" ? "bg-red-100 text-red-800 border-red-200" :
+                          payment.status === "DUE" ? "bg-orange-100 text-orange-800 border-orange-200" :
+                          "bg-blue-100 text-blue-800 border-blue-200"
                         }`}
                       >
                         {payment.status}
@@ -16,11 +16,12 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { getTenantPayments } from "@/api/tenantApi";
+import { getTenantPayments, getTenantRentSchedule, type TenantRentSchedule } from "@/api/tenantApi";
 import { toast } from "sonner";
 
 const Payments = () => {
   const [payments, setPayments] = useState<any[]>([]);
+  const [schedule, setSchedule] = useState<TenantRentSchedule | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -28,10 +29,20 @@ const Payments = () => {
     const fetchPayments = async () => {
       setLoading(true);
       try {
-        const response = await getTenantPayments({
-          signal: controller.signal,
-        });
+        const [response, scheduleResponse] = await Promise.all([
+          getTenantPayments({
+            signal: controller.signal,
+          }),
+          // 404 just means there is no lease to schedule yet
+          getTenantRentSchedule({
+            signal: controller.signal,
+          }).catch((err) => {
+            if (err.response?.status === 404) return null;
+            throw err;
+          }),
+        ]);
         setPayments(response.data);
+        setSchedule(scheduleResponse?.data ?? null);
       } catch (err: any) {
         if (err.name !== "AbortError") {
           console.error("Error fetching payments:", err);
@@ -72,6 +83,10 @@ const Payments = () => {
         return "bg-yellow-100 text-yellow-800 border-yellow-200";
       case "overdue":
         return "bg-red-100 text-red-800 border-red-200";
+      case "due":
+        return "bg-orange-100 text-orange-800 border-orange-200";
+      case "upcoming":
+        return "bg-blue-100 text-blue-800 border-blue-200";
       default:
         return "bg-gray-100 text-gray-800 border-gray-200";
     }
@@ -203,6 +218,57 @@ const Payments = () => {
         </Card>
       </div>
 
+      {/* Rent Schedule */}
+      {schedule && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Rent Schedule
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {schedule.summary.overdue > 0 && (
+              <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                You have {schedule.summary.overdue} overdue installment(s) totaling {formatCurrency(schedule.summary.overdueAmount)}.
+                {schedule.summary.lateFeesOutstanding > 0 && ` Outstanding late fees: ${formatCurrency(schedule.summary.lateFeesOutstanding)}.`}
+              </div>
+            )}
+            {schedule.installments.length > 0 ? (
+              <div className="space-y-3">
+                {schedule.installments.map((installment) => (
+                  <div key={installment.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {installment.type === "LATE_FEE" ? "Late fee due" : "Due"}: {formatDate(installment.dueDate)}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {installment.type === "LATE_FEE" && "For rent period "}
+                        {formatDate(installment.periodStart)} - {formatDate(installment.periodEnd)}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium text-gray-900">{formatCurrency(installment.amount)}</p>
+                      <Badge
+                        variant="outline"
+                        className={`text-xs mt-1 ${getStatusColor(installment.status)}`}
+                      >
+                        {installment.status}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600 text-center py-6">
+                Your rent schedule will appear here once your lease is active.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Payment List */}
       <Card>
         <CardHeader>
@@ -228,9 +294,11 @@ const Payments = () => {
                       <p className="font-medium text-gray-900">
                         {formatCurrency(payment.amount)}
                       </p>
-                      <p className="text-sm text-gray-600">
-                        Due: {formatDate(payment.dueDate)}
-                      </p>
+                      {payment.charge && (
+                        <p className="text-sm text-gray-600">
+                          {payment.charge.type === "LATE_FEE" ? "For late fee due" : "For installment due"}: {formatDate(payment.charge.dueDate)}
+                        </p>
+                      )}
                       {payment.paidAt && (
                         <p className="text-sm text-gray-600">
                           Paid: {formatDate(payment.paidAt)}
@@ -20,7 +20,8 @@ import {
   Shield,
   FileText,
   Send,
-  Loader2
+  Loader2,
+  MessageSquare
 } from "lucide-react";
 import { getPropertyDetailsRequest, type PropertyDetails, type PropertyUnit, getTenantLeaseDetails, type TenantLeaseDetails } from "@/api/tenantApi";
 import { createOrGetTenantConversationRequest, sendTenantMessageRequest } from "@/api/tenantMessageApi";
@@ -59,7 +60,10 @@ const PropertyDetailsPage = () => {
   const [showApplicationModal, setShowApplicationModal] = useState(false);
   const [showApplicationForm, setShowApplicationForm] = useState(false);
   const [contactingOwner, setContactingOwner] = useState(false);
+  // Unit whose inquiry is being sent (unit inquiries get their own thread)
+  const [contactingUnitId, setContactingUnitId] = useState<string | null>(null);
   const [hasActiveLease, setHasActiveLease] = useState<boolean>(false);
+  const [showAllReviews, setShowAllReviews] = useState(false);
   const [leaseDetails, setLeaseDetails] = useState<TenantLeaseDetails | null>(null);
   
   // Unit details modal state
@@ -166,18 +170,22 @@ const PropertyDetailsPage = () => {
     setSelectedUnit(null);
   };
 
-  const handleContactOwner = async () => {
+  const handleContactOwner = async (unit?: PropertyUnit) => {
     if (!property?.owner) return;
 
     setContactingOwner(true);
+    setContactingUnitId(unit?.id ?? null);
     try {
-      // Create or get conversation with the property owner
+      // Create or get conversation with the property owner (the unit's own thread when asking about a unit)
       const conversationResponse = await createOrGetTenantConversationRequest({
-        otherUserId: property.owner.id
+        otherUserId: property.owner.id,
+        unitId: unit?.id,
       });
 
       // Send an inquiry message
-      const inquiryMessage = `Hi! I'm interested in your property "${property.title}". I'd like to know more about the available units and rental terms. Could you please provide more information?`;
+      const inquiryMessage = unit
+        ? `Hi! I'm interested in ${unit.label} at "${property.title}". Is it still available, and could you share more about the rental terms?`
+        : `Hi! I'm interested in your property "${property.title}". I'd like to know more about the available units and rental terms. Could you please provide more information?`;
       
       await sendTenantMessageRequest({
         conversationId: conversationResponse.data.conversation.id,
@@ -193,6 +201,7 @@ const PropertyDetailsPage = () => {
       toast.error(error.response?.data?.message || "Failed to send inquiry. Please try again.");
     } finally {
       setContactingOwner(false);
+      setContactingUnitId(null);
     }
   };
 
@@ -437,6 +446,19 @@ const PropertyDetailsPage = () => {
                           <Eye className="h-4 w-4 mr-2" />
                           View Details
                         </Button>
+                        <Button 
+                          onClick={() => handleContactOwner(unit)}
+                          variant="outline"
+                          size="sm"
+                          disabled={contactingOwner}
+                        >
+                          {contactingUnitId === unit.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <MessageSquare className="h-4 w-4 mr-2" />
+                          )}
+                          Ask About Unit
+                        </Button>
                         {hasActiveLease ? (
                           <Button 
                             disabled
@@ -469,7 +491,7 @@ const PropertyDetailsPage = () => {
               <Card className="p-6">
                 <h3 className="text-xl font-bold text-gray-900 mb-4">Reviews ({property.totalReviews})</h3>
                 <div className="space-y-4">
-                  {property.allReviews.slice(0, 5).map((review) => (
+                  {(showAllReviews ? property.allReviews : property.allReviews.slice(0, 5)).map((review) => (
                     <div key={review.id} className="border-b border-gray-200 pb-4 last:border-b-0">
                       <div className="flex items-start justify-between mb-2">
                         <div>
@@ -486,9 +508,28 @@ const PropertyDetailsPage = () => {
                       {review.comment && (
                         <p className="text-gray-700 text-sm">{review.comment}</p>
                       )}
+                      {review.landlordReply && (
+                        <div className="mt-3 ml-4 p-3 bg-gray-50 rounded-lg border-l-2 border-gray-300">
+                          <p className="text-xs font-medium text-gray-600 mb-1">
+                            Response from {property.owner.name}
+                            {review.landlordRepliedAt && ` • ${formatDate(review.landlordRepliedAt)}`}
+                          </p>
+                          <p className="text-gray-700 text-sm">{review.landlordReply}</p>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
+                {property.allReviews.length > 5 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mt-4"
+                    onClick={() => setShowAllReviews((prev) => !prev)}
+                  >
+                    {showAllReviews ? "Show fewer reviews" : `Show all ${property.allReviews.length} reviews`}
+                  </Button>
+                )}
               </Card>
             )}
           </div>
@@ -527,10 +568,10 @@ const PropertyDetailsPage = () => {
               <Button 
                 className="w-full mt-4" 
                 variant="outline"
-                onClick={handleContactOwner}
+                onClick={() => handleContactOwner()}
                 disabled={contactingOwner}
               >
-                {contactingOwner ? (
+                {contactingOwner && !contactingUnitId ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                     Sending Inquiry...
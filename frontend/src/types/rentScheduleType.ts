@@ -0,0 +1,58 @@
+export type InstallmentStatus = "UPCOMING" | "DUE" | "OVERDUE" | "PAID";
+
+export type ChargeType = "RENT" | "LATE_FEE";
+
+export type LateFeeType = "FLAT" | "PERCENT" | "DAILY";
+
+export type RentInstallment = {
+  id: string;
+  type: ChargeType;
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  amount: number;
+  amountPaid: number;
+  status: InstallmentStatus;
+  paidAt: string | null;
+  payments: Array<{
+    id: string;
+    amount: number;
+    status: string;
+    paidAt: string | null;
+    timingStatus: string;
+  }>;
+};
+
+export type LeaseBalance = {
+  totalCharged: number;
+  totalPaid: number;
+  amountDueNow: number;
+  credit: number;
+  currentBalance: number; // negative → credit on the lease
+  nextDue: {
+    id: string;
+    dueDate: string;
+    amount: number;
+  } | null;
+};
+
+export type RentSchedule = {
+  installments: RentInstallment[];
+  gracePeriodDays: number;
+  summary: {
+    total: number;
+    paid: number;
+    upcoming: number;
+    due: number;
+    overdue: number;
+    overdueAmount: number;
+    dueNowAmount: number;
+    lateFeesOutstanding: number;
+    nextDue: {
+      id: string;
+      dueDate: string;
+      amount: number;
+    } | null;
+  };
+  balance: Omit<LeaseBalance, "nextDue">;
+};